@@ -2,11 +2,20 @@ import { RedisModule } from '@nestjs-modules/ioredis';
 import { BullModule } from '@nestjs/bullmq';
 import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
+import { APP_GUARD } from '@nestjs/core';
 import { ScheduleModule } from '@nestjs/schedule';
 import { ThrottlerModule } from '@nestjs/throttler';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { PermissionsGuard } from './common/guards/permissions.guard';
 import { CacheService } from './common/services/cache.service';
+import { AuditModule } from './modules/audit/audit.module';
 import { AuthModule } from './modules/auth/auth.module';
+import { LabelsModule } from './modules/labels/labels.module';
+import { OrganizationsModule } from './modules/organizations/organizations.module';
+import { ProjectsModule } from './modules/projects/projects.module';
+import { RolesModule } from './modules/roles/roles.module';
+import { SavedViewsModule } from './modules/saved-views/saved-views.module';
+import { TaskTemplatesModule } from './modules/task-templates/task-templates.module';
 import { TasksModule } from './modules/tasks/tasks.module';
 import { UsersModule } from './modules/users/users.module';
 import { ScheduledTasksModule } from './queues/scheduled-tasks/scheduled-tasks.module';
@@ -68,12 +77,19 @@ import { TaskProcessorModule } from './queues/task-processor/task-processor.modu
       },
     ]),
     UsersModule,
+    OrganizationsModule,
     TasksModule,
+    LabelsModule,
+    ProjectsModule,
+    SavedViewsModule,
+    TaskTemplatesModule,
+    RolesModule,
+    AuditModule,
     AuthModule,
     TaskProcessorModule,
     ScheduledTasksModule,
   ],
-  providers: [CacheService],
+  providers: [CacheService, { provide: APP_GUARD, useClass: PermissionsGuard }],
   exports: [CacheService],
 })
 export class AppModule {}
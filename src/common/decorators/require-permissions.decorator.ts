@@ -0,0 +1,11 @@
+import { Permission } from '@modules/roles/enums/permission.enum';
+import { SetMetadata } from '@nestjs/common';
+
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * Requires every listed permission. Enforced by the global `PermissionsGuard`;
+ * handler-level metadata replaces controller-level metadata.
+ */
+export const RequirePermissions = (...permissions: Permission[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
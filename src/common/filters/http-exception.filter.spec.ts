@@ -129,6 +129,26 @@ describe('AllExceptionsFilter', () => {
     );
   });
 
+  it('should pass on the data of HTTP exceptions with status < 500', () => {
+    const data = { id: '1', version: 3 };
+    filter.catch(
+      new HttpException({ message: 'Stale', data }, HttpStatus.PRECONDITION_FAILED),
+      mockHost,
+    );
+    filter.catch(
+      new HttpException({ message: 'Broken', data }, HttpStatus.INTERNAL_SERVER_ERROR),
+      mockHost,
+    );
+
+    expect(httpAdapter.reply).toHaveBeenNthCalledWith(
+      1,
+      mockResponse,
+      expect.objectContaining({ data }),
+      HttpStatus.PRECONDITION_FAILED,
+    );
+    expect((httpAdapter.reply as jest.Mock).mock.calls[1][1]).not.toHaveProperty('data');
+  });
+
   it('should handle string exceptions', () => {
     const exception = 'String error message';
     filter.catch(exception, mockHost);
@@ -64,12 +64,14 @@ export class AllExceptionsFilter implements ExceptionFilter {
     let message: string | Record<string, any>;
     let error: string | undefined;
     let details: any[] | undefined;
+    let data: unknown;
 
     if (exception instanceof HttpException) {
       const response = exception.getResponse() as {
         message?: string | Record<string, any>;
         error?: string;
         details?: any[];
+        data?: unknown;
       };
       if (response instanceof Object) {
         message = response.message ?? 'No message provided';
@@ -77,6 +79,10 @@ export class AllExceptionsFilter implements ExceptionFilter {
         if (httpStatus < 500 && response.details) {
           details = response.details;
         }
+        // Lets client errors carry the resource they conflict with, e.g. on 412.
+        if (httpStatus < 500 && response.data !== undefined) {
+          data = response.data;
+        }
       } else {
         message = response;
       }
@@ -94,6 +100,7 @@ export class AllExceptionsFilter implements ExceptionFilter {
       message,
       error,
       ...(details && { details }),
+      ...(data !== undefined && { data }),
     };
   }
 }
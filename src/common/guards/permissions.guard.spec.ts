@@ -0,0 +1,41 @@
+import { RequirePermissions } from '@common/decorators/require-permissions.decorator';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PermissionsGuard } from './permissions.guard';
+
+class TestController {
+  open() {}
+
+  @RequirePermissions(Permission.TASK_READ, Permission.TASK_DELETE)
+  guarded() {}
+}
+
+describe('PermissionsGuard', () => {
+  const guard = new PermissionsGuard(new Reflector());
+
+  const contextFor = (handler: keyof TestController, user?: { permissions: string[] }) =>
+    ({
+      getHandler: () => TestController.prototype[handler],
+      getClass: () => TestController,
+      switchToHttp: () => ({ getRequest: () => ({ user }) }),
+    }) as unknown as ExecutionContext;
+
+  it('should let routes without requirements through', async () => {
+    await expect(guard.canActivate(contextFor('open'))).resolves.toBe(true);
+  });
+
+  it('should allow users holding every required permission', async () => {
+    const user = { permissions: [Permission.TASK_READ, Permission.TASK_DELETE] };
+
+    await expect(guard.canActivate(contextFor('guarded', user))).resolves.toBe(true);
+  });
+
+  it('should name the missing permissions', async () => {
+    const user = { permissions: [Permission.TASK_READ] };
+
+    await expect(guard.canActivate(contextFor('guarded', user))).rejects.toThrow(
+      new ForbiddenException('Missing permissions: task:delete'),
+    );
+  });
+});
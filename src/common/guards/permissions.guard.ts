@@ -0,0 +1,40 @@
+import { PERMISSIONS_KEY } from '@common/decorators/require-permissions.decorator';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  private readonly jwtAuthGuard = new JwtAuthGuard();
+
+  constructor(private reflector: Reflector) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requiredPermissions = this.reflector.getAllAndOverride<Permission[]>(PERMISSIONS_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!requiredPermissions || requiredPermissions.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<{ user?: AuthUser }>();
+
+    // Global guards run before the controller's JwtAuthGuard, so authenticate here first.
+    if (!request.user) {
+      await (this.jwtAuthGuard.canActivate(context) as Promise<boolean>);
+    }
+
+    const granted = new Set(request.user?.permissions ?? []);
+    const missing = requiredPermissions.filter(permission => !granted.has(permission));
+
+    if (missing.length > 0) {
+      throw new ForbiddenException(`Missing permissions: ${missing.join(', ')}`);
+    }
+
+    return true;
+  }
+}
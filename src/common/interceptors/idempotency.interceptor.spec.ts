@@ -0,0 +1,158 @@
+import {
+  CallHandler,
+  ConflictException,
+  ExecutionContext,
+  Logger,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import Redis from 'ioredis';
+import { lastValueFrom, of, Subject, throwError } from 'rxjs';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+
+describe('IdempotencyInterceptor', () => {
+  let store: Map<string, string>;
+  let redis: { set: jest.Mock; get: jest.Mock; del: jest.Mock; eval: jest.Mock };
+  let interceptor: IdempotencyInterceptor;
+
+  beforeEach(() => {
+    store = new Map();
+    redis = {
+      set: jest.fn(async (key: string, value: string, ...options: unknown[]) => {
+        if (options.includes('NX') && store.has(key)) {
+          return null;
+        }
+        store.set(key, value);
+        return 'OK';
+      }),
+      get: jest.fn(async (key: string) => store.get(key) ?? null),
+      del: jest.fn(async (key: string) => Number(store.delete(key))),
+      eval: jest.fn(async () => 1),
+    };
+    interceptor = new IdempotencyInterceptor(redis as unknown as Redis);
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+  });
+
+  const requestWith = (
+    body: unknown,
+    idempotencyKey?: string,
+    userId = 'u1',
+  ): {
+    context: ExecutionContext;
+    response: { statusCode: number; status: jest.Mock; setHeader: jest.Mock };
+  } => {
+    const request = {
+      method: 'POST',
+      path: '/tasks',
+      route: { path: '/tasks' },
+      body,
+      user: { id: userId },
+      header: (name: string) => (name === 'idempotency-key' ? idempotencyKey : undefined),
+    };
+    const response = { statusCode: 201, status: jest.fn(), setHeader: jest.fn() };
+    const context = {
+      switchToHttp: () => ({ getRequest: () => request, getResponse: () => response }),
+    } as unknown as ExecutionContext;
+    return { context, response };
+  };
+
+  const handler = (result: unknown): CallHandler & { handle: jest.Mock } => ({
+    handle: jest.fn(() => of(result)),
+  });
+
+  const run = (context: ExecutionContext, next: CallHandler) =>
+    lastValueFrom(interceptor.intercept(context, next));
+
+  it('should leave requests without a key alone', async () => {
+    const next = handler({ id: 't1' });
+
+    await expect(run(requestWith({ title: 'A' }).context, next)).resolves.toEqual({ id: 't1' });
+    expect(redis.set).not.toHaveBeenCalled();
+  });
+
+  it('should replay the stored response for a retry with the same body', async () => {
+    const first = handler({ id: 't1' });
+    await run(requestWith({ title: 'A' }, 'key-1').context, first);
+
+    const retry = requestWith({ title: 'A' }, 'key-1');
+    const second = handler({ id: 't2' });
+    await expect(run(retry.context, second)).resolves.toEqual({ id: 't1' });
+
+    expect(second.handle).not.toHaveBeenCalled();
+    expect(retry.response.status).toHaveBeenCalledWith(201);
+    expect(retry.response.setHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+  });
+
+  it('should reject a key reused for a different body', async () => {
+    await run(requestWith({ title: 'A' }, 'key-1').context, handler({ id: 't1' }));
+
+    await expect(
+      run(requestWith({ title: 'B' }, 'key-1').context, handler({ id: 't2' })),
+    ).rejects.toThrow(UnprocessableEntityException);
+  });
+
+  it('should refuse duplicates while the first request is still running', async () => {
+    const firstResponse = new Subject<unknown>();
+    const pending = run(requestWith({ title: 'A' }, 'key-1').context, {
+      handle: () => firstResponse,
+    });
+    // Let the first request claim the key.
+    await new Promise(resolve => setImmediate(resolve));
+
+    await expect(
+      run(requestWith({ title: 'A' }, 'key-1').context, handler({ id: 't2' })),
+    ).rejects.toThrow(ConflictException);
+
+    firstResponse.next({ id: 't1' });
+    firstResponse.complete();
+    await expect(pending).resolves.toEqual({ id: 't1' });
+  });
+
+  it('should renew the claim while the first request is still running', async () => {
+    jest.useFakeTimers();
+    const firstResponse = new Subject<unknown>();
+    const pending = run(requestWith({ title: 'A' }, 'key-1').context, {
+      handle: () => firstResponse,
+    });
+    await Promise.resolve();
+    await Promise.resolve();
+    const [[key, claim]] = redis.set.mock.calls;
+
+    jest.advanceTimersByTime(45_000);
+    expect(redis.eval).toHaveBeenCalledTimes(2);
+    expect(redis.eval).toHaveBeenCalledWith(expect.stringContaining('EXPIRE'), 1, key, claim, 60);
+
+    firstResponse.next({ id: 't1' });
+    firstResponse.complete();
+    await expect(pending).resolves.toEqual({ id: 't1' });
+    jest.advanceTimersByTime(45_000);
+    expect(redis.eval).toHaveBeenCalledTimes(2);
+    jest.useRealTimers();
+  });
+
+  it('should free the key when the request fails', async () => {
+    const failing: CallHandler = { handle: () => throwError(() => new Error('Boom')) };
+    await expect(run(requestWith({ title: 'A' }, 'key-1').context, failing)).rejects.toThrow(
+      'Boom',
+    );
+
+    await expect(
+      run(requestWith({ title: 'A' }, 'key-1').context, handler({ id: 't1' })),
+    ).resolves.toEqual({ id: 't1' });
+  });
+
+  it('should scope keys to the caller', async () => {
+    await run(requestWith({ title: 'A' }, 'key-1', 'u1').context, handler({ id: 't1' }));
+
+    await expect(
+      run(requestWith({ title: 'B' }, 'key-1', 'u2').context, handler({ id: 't2' })),
+    ).resolves.toEqual({ id: 't2' });
+  });
+
+  it('should let requests through when Redis is unavailable', async () => {
+    redis.set.mockRejectedValue(new Error('Connection refused'));
+
+    await expect(
+      run(requestWith({ title: 'A' }, 'key-1').context, handler({ id: 't1' })),
+    ).resolves.toEqual({ id: 't1' });
+  });
+});
@@ -0,0 +1,180 @@
+import { InjectRedis } from '@nestjs-modules/ioredis';
+import {
+  CallHandler,
+  ConflictException,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  NestInterceptor,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { Request, Response } from 'express';
+import Redis from 'ioredis';
+import { defer, from, Observable, of } from 'rxjs';
+import { catchError, finalize, mergeMap } from 'rxjs/operators';
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+/** How long a finished request can be replayed. */
+const RESPONSE_TTL_SECONDS = 24 * 60 * 60;
+/**
+ * How long a key stays claimed by a request that never finishes, e.g. after a
+ * crash. Running requests renew their claim every `CLAIM_RENEWAL_SECONDS`.
+ */
+const IN_FLIGHT_TTL_SECONDS = 60;
+const CLAIM_RENEWAL_SECONDS = IN_FLIGHT_TTL_SECONDS / 3;
+
+/** Renews a claim unless the key was freed or its response stored meanwhile. */
+const RENEW_CLAIM_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('EXPIRE', KEYS[1], ARGV[2])
+end
+return 0`;
+
+type IdempotencyRecord =
+  | { state: 'in_flight'; fingerprint: string }
+  | { state: 'completed'; fingerprint: string; statusCode: number; body: unknown };
+
+/**
+ * Makes retries of a mutating request safe when the client sends an
+ * `Idempotency-Key` header. The first request with a key runs normally and
+ * its response is kept in Redis; retries with the same key and body get that
+ * response replayed, while reusing the key for a different body or while the
+ * first request is still running is refused. Keys are scoped to the caller
+ * and the route. Requests without the header are not affected.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(IdempotencyInterceptor.name);
+
+  constructor(@InjectRedis() private readonly redis: Redis) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context.switchToHttp().getRequest<Request & { user?: { id: string } }>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const idempotencyKey = request.header(IDEMPOTENCY_KEY_HEADER);
+    if (!idempotencyKey) {
+      return next.handle();
+    }
+    if (idempotencyKey.length > 255) {
+      throw new UnprocessableEntityException('Idempotency-Key must be at most 255 characters');
+    }
+
+    const key = this.redisKey(request, idempotencyKey);
+    const fingerprint = createHash('sha256')
+      .update(JSON.stringify(request.body ?? null))
+      .digest('hex');
+
+    return from(this.claim(key, fingerprint)).pipe(
+      mergeMap(existing => {
+        if (existing === undefined) {
+          return this.handleAndStore(next, key, fingerprint, response);
+        }
+        if (existing.fingerprint !== fingerprint) {
+          throw new UnprocessableEntityException(
+            'Idempotency-Key was already used for a request with a different body',
+          );
+        }
+        if (existing.state === 'in_flight') {
+          throw new ConflictException(
+            'A request with this Idempotency-Key is still being processed',
+          );
+        }
+        response.status(existing.statusCode);
+        response.setHeader('Idempotent-Replayed', 'true');
+        return of(existing.body);
+      }),
+    );
+  }
+
+  /**
+   * Claims the key for this request. Returns `undefined` when the claim
+   * succeeded, or the record of the request that holds the key already.
+   */
+  private async claim(key: string, fingerprint: string): Promise<IdempotencyRecord | undefined> {
+    try {
+      const claimed = await this.redis.set(
+        key,
+        this.inFlightRecord(fingerprint),
+        'EX',
+        IN_FLIGHT_TTL_SECONDS,
+        'NX',
+      );
+      if (claimed) {
+        return undefined;
+      }
+      const existing = await this.redis.get(key);
+      // The other request expired between both calls; ours may go ahead.
+      return existing ? (JSON.parse(existing) as IdempotencyRecord) : undefined;
+    } catch (error) {
+      // Like rate limiting, idempotency degrades to a no-op when Redis is unavailable.
+      this.logger.error(`Error claiming idempotency key ${key}`, error);
+      return undefined;
+    }
+  }
+
+  private handleAndStore(
+    next: CallHandler,
+    key: string,
+    fingerprint: string,
+    response: Response,
+  ): Observable<unknown> {
+    return defer(() => {
+      const renewal = setInterval(
+        () => void this.renewClaim(key, fingerprint),
+        CLAIM_RENEWAL_SECONDS * 1000,
+      );
+      return next.handle().pipe(finalize(() => clearInterval(renewal)));
+    }).pipe(
+      mergeMap(async body => {
+        const record: IdempotencyRecord = {
+          state: 'completed',
+          fingerprint,
+          statusCode: response.statusCode,
+          body,
+        };
+        try {
+          await this.redis.set(key, JSON.stringify(record), 'EX', RESPONSE_TTL_SECONDS);
+        } catch (error) {
+          this.logger.error(`Error storing the response for idempotency key ${key}`, error);
+        }
+        return body;
+      }),
+      catchError(async error => {
+        // Failed requests did not happen as far as the client is concerned, so the key is freed.
+        await this.redis.del(key).catch(() => undefined);
+        throw error;
+      }),
+    );
+  }
+
+  /**
+   * Keeps the key claimed while the request runs, so that a retry cannot run
+   * it a second time however long it takes.
+   */
+  private async renewClaim(key: string, fingerprint: string): Promise<void> {
+    try {
+      await this.redis.eval(
+        RENEW_CLAIM_SCRIPT,
+        1,
+        key,
+        this.inFlightRecord(fingerprint),
+        IN_FLIGHT_TTL_SECONDS,
+      );
+    } catch (error) {
+      this.logger.error(`Error renewing the claim on idempotency key ${key}`, error);
+    }
+  }
+
+  private inFlightRecord(fingerprint: string): string {
+    const record: IdempotencyRecord = { state: 'in_flight', fingerprint };
+    return JSON.stringify(record);
+  }
+
+  private redisKey(request: Request & { user?: { id: string } }, idempotencyKey: string): string {
+    const scope = `${request.user?.id ?? 'anonymous'}:${request.method}:${request.route?.path ?? request.path}`;
+    const hashed = createHash('sha256').update(`${scope}:${idempotencyKey}`).digest('hex');
+    return `idempotency:${hashed}`;
+  }
+}
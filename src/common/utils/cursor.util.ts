@@ -0,0 +1,40 @@
+import { BadRequestException } from '@nestjs/common';
+
+export function encodeCursor(payload: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+}
+
+export function decodeCursor<T extends Record<string, unknown>>(cursor: string): T {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!decoded || typeof decoded !== 'object') {
+      throw new Error('Cursor payload must be an object');
+    }
+    return decoded as T;
+  } catch {
+    throw new BadRequestException('Invalid pagination cursor');
+  }
+}
+
+/**
+ * Builds the keyset condition selecting the rows after `values` in the order
+ * given by `expressions` and `directions`, e.g. for `(a DESC, b ASC)`:
+ * `(a < :k0) OR (a = :k0 AND b > :k1)`. The last expression should be unique
+ * so that no row is skipped or repeated between pages.
+ */
+export function keysetCondition(
+  expressions: string[],
+  directions: ('ASC' | 'DESC')[],
+  values: unknown[],
+): { condition: string; parameters: Record<string, unknown> } {
+  const parameters: Record<string, unknown> = {};
+  const branches = expressions.map((expression, index) => {
+    parameters[`keyset${index}`] = values[index];
+    const equalities = expressions
+      .slice(0, index)
+      .map((previous, previousIndex) => `${previous} = :keyset${previousIndex}`);
+    const operator = directions[index] === 'ASC' ? '>' : '<';
+    return `(${[...equalities, `${expression} ${operator} :keyset${index}`].join(' AND ')})`;
+  });
+  return { condition: `(${branches.join(' OR ')})`, parameters };
+}
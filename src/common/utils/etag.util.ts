@@ -0,0 +1,20 @@
+import { createHash } from 'crypto';
+
+/**
+ * Entity tag for a versioned resource. Fields of its representation that are
+ * derived from other resources do not bump the version, so a digest of them
+ * is part of the tag.
+ */
+export function representationEtag(version: number, derived: unknown = null): string {
+  const digest = createHash('sha1').update(JSON.stringify(derived)).digest('base64url');
+  return `"${version}-${digest.slice(0, 12)}"`;
+}
+
+/**
+ * Whether an `If-Match` or `If-None-Match` header matches the entity tag.
+ * `*` matches any tag and weak tags are compared by their opaque value.
+ */
+export function etagMatches(header: string, etag: string): boolean {
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+  return header.split(',').some(tag => tag.trim() === '*' || opaque(tag) === opaque(etag));
+}
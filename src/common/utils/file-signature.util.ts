@@ -0,0 +1,35 @@
+function startsWith(content: Buffer, signature: string, offset = 0): boolean {
+  const expected = Buffer.from(signature, 'latin1');
+  return content.subarray(offset, offset + expected.length).equals(expected);
+}
+
+function isZip(content: Buffer): boolean {
+  // Local file header, or the end of an archive without entries.
+  return startsWith(content, 'PK\x03\x04') || startsWith(content, 'PK\x05\x06');
+}
+
+function isText(content: Buffer): boolean {
+  return !content.includes(0);
+}
+
+const CONTENT_CHECKS: Record<string, (content: Buffer) => boolean> = {
+  'image/png': content => startsWith(content, '\x89PNG\r\n\x1a\n'),
+  'image/jpeg': content => startsWith(content, '\xff\xd8\xff'),
+  'image/gif': content => startsWith(content, 'GIF87a') || startsWith(content, 'GIF89a'),
+  'image/webp': content => startsWith(content, 'RIFF') && startsWith(content, 'WEBP', 8),
+  'application/pdf': content => startsWith(content, '%PDF-'),
+  'application/zip': isZip,
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': isZip,
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': isZip,
+  'text/plain': isText,
+  'text/csv': isText,
+};
+
+/**
+ * Whether the leading bytes of `content` fit the media type the client
+ * claimed for it. Types without a known signature are taken at their word.
+ */
+export function contentMatchesType(content: Buffer, mimeType: string): boolean {
+  const check = CONTENT_CHECKS[mimeType.toLowerCase()];
+  return !check || check(content);
+}
@@ -0,0 +1,51 @@
+/**
+ * Text search configuration of the `tasks.search_vector` column; queries must
+ * use the same one to match its stemmed lexemes.
+ */
+export const SEARCH_CONFIG = 'english';
+
+/**
+ * Turns user input into a Postgres `tsquery` expression. Quoted text is
+ * matched as a phrase, words ending in `*` as prefixes and all other words
+ * must each appear somewhere. Every piece of input is bound as a parameter
+ * named after `prefix`; `null` is returned when nothing searchable remains.
+ */
+export function buildTsQuery(
+  input: string,
+  prefix = 'search',
+): { sql: string; parameters: Record<string, string> } | null {
+  const parts: string[] = [];
+  const parameters: Record<string, string> = {};
+  const words: string[] = [];
+  const bind = (value: string) => {
+    const name = `${prefix}${Object.keys(parameters).length}`;
+    parameters[name] = value;
+    return `:${name}`;
+  };
+
+  for (const [, phrase, word] of input.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    if (phrase !== undefined) {
+      if (phrase.trim()) {
+        parts.push(`phraseto_tsquery('${SEARCH_CONFIG}', ${bind(phrase.trim())})`);
+      }
+      continue;
+    }
+    if (!word.endsWith('*')) {
+      words.push(word);
+      continue;
+    }
+    // Operators of the tsquery syntax must not reach to_tsquery, so only the
+    // letters and digits of a prefix are kept.
+    const lexemes = word.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    const last = lexemes.pop();
+    words.push(...lexemes);
+    if (last) {
+      parts.push(`to_tsquery('${SEARCH_CONFIG}', ${bind(`${last}:*`)})`);
+    }
+  }
+  if (words.length) {
+    parts.unshift(`plainto_tsquery('${SEARCH_CONFIG}', ${bind(words.join(' '))})`);
+  }
+
+  return parts.length ? { sql: `(${parts.join(' && ')})`, parameters } : null;
+}
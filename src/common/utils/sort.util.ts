@@ -0,0 +1,32 @@
+import { BadRequestException } from '@nestjs/common';
+
+export type SortDirection = 'ASC' | 'DESC';
+
+export interface SortField<F extends string = string> {
+  field: F;
+  direction: SortDirection;
+}
+
+/**
+ * Parses a `sort` query parameter such as `priority:desc,dueDate:asc`. The
+ * direction defaults to ascending; fields outside `sortable` are rejected.
+ */
+export function parseSort<F extends string>(value: string, sortable: readonly F[]): SortField<F>[] {
+  const fields: SortField<F>[] = [];
+  for (const part of value.split(',')) {
+    const [field, direction = 'asc', ...rest] = part.trim().split(':');
+    if (!sortable.includes(field as F)) {
+      throw new BadRequestException(
+        `Cannot sort by "${field}"; sortable fields are ${sortable.join(', ')}`,
+      );
+    }
+    if (rest.length || !['asc', 'desc'].includes(direction.toLowerCase())) {
+      throw new BadRequestException(`Invalid sort direction in "${part.trim()}"; use asc or desc`);
+    }
+    if (fields.some(sort => sort.field === field)) {
+      throw new BadRequestException(`Cannot sort by "${field}" more than once`);
+    }
+    fields.push({ field: field as F, direction: direction.toUpperCase() as SortDirection });
+  }
+  return fields;
+}
@@ -1,6 +1,28 @@
 import { DataSource, DataSourceOptions } from 'typeorm';
 import * as dotenv from 'dotenv';
 import { CreateInitialSchema1710752400000 } from './migrations/1710752400000-CreateInitialSchema';
+import { CreateTaskComments1792368000000 } from './migrations/1792368000000-CreateTaskComments';
+import { AddTaskParent1792368060000 } from './migrations/1792368060000-AddTaskParent';
+import { CreateTaskDependencies1792368120000 } from './migrations/1792368120000-CreateTaskDependencies';
+import { CreateLabels1792368180000 } from './migrations/1792368180000-CreateLabels';
+import { CreateProjects1792368240000 } from './migrations/1792368240000-CreateProjects';
+import { CreateOrganizations1792368300000 } from './migrations/1792368300000-CreateOrganizations';
+import { CreateOrganizationInvitations1792368360000 } from './migrations/1792368360000-CreateOrganizationInvitations';
+import { CreateRolesAndPermissions1792368420000 } from './migrations/1792368420000-CreateRolesAndPermissions';
+import { AddTaskReadAnyPermission1792368480000 } from './migrations/1792368480000-AddTaskReadAnyPermission';
+import { SplitTaskOwnership1792368540000 } from './migrations/1792368540000-SplitTaskOwnership';
+import { CreateAuditLogs1792368600000 } from './migrations/1792368600000-CreateAuditLogs';
+import { AddTaskSoftDelete1792368660000 } from './migrations/1792368660000-AddTaskSoftDelete';
+import { AddTaskVersion1792368720000 } from './migrations/1792368720000-AddTaskVersion';
+import { AddTaskSearchVector1792368780000 } from './migrations/1792368780000-AddTaskSearchVector';
+import { CreateSavedViews1792368840000 } from './migrations/1792368840000-CreateSavedViews';
+import { CreateTaskRecurrences1792368900000 } from './migrations/1792368900000-CreateTaskRecurrences';
+import { CreateTaskTemplates1792368960000 } from './migrations/1792368960000-CreateTaskTemplates';
+import { CreateTaskChecklistItems1792369020000 } from './migrations/1792369020000-CreateTaskChecklistItems';
+import { CreateTaskAttachments1792369080000 } from './migrations/1792369080000-CreateTaskAttachments';
+import { AddTimeTracking1792369140000 } from './migrations/1792369140000-AddTimeTracking';
+import { AddTaskRank1792369200000 } from './migrations/1792369200000-AddTaskRank';
+import { CreateWipLimits1792369260000 } from './migrations/1792369260000-CreateWipLimits';
 
 // Load environment variables
 dotenv.config();
@@ -13,7 +35,31 @@ export const dataSourceOptions: DataSourceOptions = {
   password: process.env.DB_PASSWORD || 'postgres',
   database: process.env.DB_DATABASE || 'taskflow',
   entities: [__dirname + '/../**/*.entity{.ts,.js}'],
-  migrations: [CreateInitialSchema1710752400000],
+  migrations: [
+    CreateInitialSchema1710752400000,
+    CreateTaskComments1792368000000,
+    AddTaskParent1792368060000,
+    CreateTaskDependencies1792368120000,
+    CreateLabels1792368180000,
+    CreateProjects1792368240000,
+    CreateOrganizations1792368300000,
+    CreateOrganizationInvitations1792368360000,
+    CreateRolesAndPermissions1792368420000,
+    AddTaskReadAnyPermission1792368480000,
+    SplitTaskOwnership1792368540000,
+    CreateAuditLogs1792368600000,
+    AddTaskSoftDelete1792368660000,
+    AddTaskVersion1792368720000,
+    AddTaskSearchVector1792368780000,
+    CreateSavedViews1792368840000,
+    CreateTaskRecurrences1792368900000,
+    CreateTaskTemplates1792368960000,
+    CreateTaskChecklistItems1792369020000,
+    CreateTaskAttachments1792369080000,
+    AddTimeTracking1792369140000,
+    AddTaskRank1792369200000,
+    CreateWipLimits1792369260000,
+  ],
   migrationsTableName: 'migrations',
   synchronize: false, // Important: Set to false for production
   logging: process.env.NODE_ENV === 'development',
@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskComments1792368000000 implements MigrationInterface {
+  name = 'CreateTaskComments1792368000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_comments" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "task_id" uuid NOT NULL,
+        "author_id" uuid NOT NULL,
+        "content" text NOT NULL,
+        "edited_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_task_comments_task_id" FOREIGN KEY ("task_id") REFERENCES "tasks" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_comments_author_id" FOREIGN KEY ("author_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "idx_task_comments_task_created" ON "task_comments" ("task_id", "created_at")`,
+    );
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_comment_revisions" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "comment_id" uuid NOT NULL,
+        "content" text NOT NULL,
+        "edited_by_id" uuid NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_task_comment_revisions_comment_id" FOREIGN KEY ("comment_id") REFERENCES "task_comments" ("id") ON DELETE CASCADE
+      )
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_comment_revisions"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_comments_task_created"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_comments"`);
+  }
+}
@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskParent1792368060000 implements MigrationInterface {
+  name = 'AddTaskParent1792368060000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "parent_id" uuid`);
+    await queryRunner.query(`
+      ALTER TABLE "tasks" ADD CONSTRAINT "fk_tasks_parent_id"
+      FOREIGN KEY ("parent_id") REFERENCES "tasks" ("id") ON DELETE CASCADE
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "idx_tasks_parent_id" ON "tasks" ("parent_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_tasks_parent_id"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP CONSTRAINT IF EXISTS "fk_tasks_parent_id"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "parent_id"`);
+  }
+}
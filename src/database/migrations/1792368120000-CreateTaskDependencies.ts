@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskDependencies1792368120000 implements MigrationInterface {
+  name = 'CreateTaskDependencies1792368120000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_dependencies" (
+        "blocker_id" uuid NOT NULL,
+        "blocked_id" uuid NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "pk_task_dependencies" PRIMARY KEY ("blocker_id", "blocked_id"),
+        CONSTRAINT "chk_task_dependencies_not_self" CHECK ("blocker_id" <> "blocked_id"),
+        CONSTRAINT "fk_task_dependencies_blocker_id" FOREIGN KEY ("blocker_id") REFERENCES "tasks" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_dependencies_blocked_id" FOREIGN KEY ("blocked_id") REFERENCES "tasks" ("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "idx_task_dependencies_blocked_id" ON "task_dependencies" ("blocked_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_dependencies_blocked_id"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_dependencies"`);
+  }
+}
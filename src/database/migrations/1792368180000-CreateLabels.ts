@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateLabels1792368180000 implements MigrationInterface {
+  name = 'CreateLabels1792368180000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "labels" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "name" varchar NOT NULL,
+        "color" varchar(7),
+        "owner_id" uuid NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "uq_labels_owner_name" UNIQUE ("owner_id", "name"),
+        CONSTRAINT "fk_labels_owner_id" FOREIGN KEY ("owner_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_labels" (
+        "task_id" uuid NOT NULL,
+        "label_id" uuid NOT NULL,
+        CONSTRAINT "pk_task_labels" PRIMARY KEY ("task_id", "label_id"),
+        CONSTRAINT "fk_task_labels_task_id" FOREIGN KEY ("task_id") REFERENCES "tasks" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_labels_label_id" FOREIGN KEY ("label_id") REFERENCES "labels" ("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "idx_task_labels_label_id" ON "task_labels" ("label_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_labels_label_id"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_labels"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "labels"`);
+  }
+}
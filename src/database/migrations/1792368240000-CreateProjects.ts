@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateProjects1792368240000 implements MigrationInterface {
+  name = 'CreateProjects1792368240000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "projects" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "name" varchar NOT NULL,
+        "key" varchar(10) NOT NULL,
+        "description" text,
+        "archived" boolean NOT NULL DEFAULT false,
+        "owner_id" uuid NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "uq_projects_key" UNIQUE ("key"),
+        CONSTRAINT "fk_projects_owner_id" FOREIGN KEY ("owner_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "project_id" uuid`);
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+      ADD CONSTRAINT "fk_tasks_project_id" FOREIGN KEY ("project_id") REFERENCES "projects" ("id") ON DELETE SET NULL
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "idx_tasks_project_id" ON "tasks" ("project_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_tasks_project_id"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP CONSTRAINT IF EXISTS "fk_tasks_project_id"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "project_id"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "projects"`);
+  }
+}
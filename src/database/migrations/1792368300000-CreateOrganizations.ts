@@ -0,0 +1,87 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateOrganizations1792368300000 implements MigrationInterface {
+  name = 'CreateOrganizations1792368300000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "organizations" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "name" varchar NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "organization_memberships" (
+        "organization_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        "role" varchar NOT NULL DEFAULT 'member',
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "pk_organization_memberships" PRIMARY KEY ("organization_id", "user_id"),
+        CONSTRAINT "fk_organization_memberships_organization_id" FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_organization_memberships_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "idx_organization_memberships_user_id" ON "organization_memberships" ("user_id")`,
+    );
+
+    // Existing data predates tenancy: move everything into one default organization.
+    await queryRunner.query(`
+      INSERT INTO "organizations" ("name")
+      SELECT 'Default organization' WHERE EXISTS (SELECT 1 FROM "users")
+    `);
+    await queryRunner.query(`
+      INSERT INTO "organization_memberships" ("organization_id", "user_id", "role")
+      SELECT o."id", u."id", CASE WHEN u."role" = 'admin' THEN 'admin' ELSE 'member' END
+      FROM "users" u CROSS JOIN (SELECT "id" FROM "organizations" ORDER BY "created_at" LIMIT 1) o
+      ON CONFLICT DO NOTHING
+    `);
+
+    for (const table of ['tasks', 'projects']) {
+      await queryRunner.query(
+        `ALTER TABLE "${table}" ADD COLUMN IF NOT EXISTS "organization_id" uuid`,
+      );
+      await queryRunner.query(`
+        UPDATE "${table}" SET "organization_id" = (SELECT "id" FROM "organizations" ORDER BY "created_at" LIMIT 1)
+        WHERE "organization_id" IS NULL
+      `);
+      await queryRunner.query(`ALTER TABLE "${table}" ALTER COLUMN "organization_id" SET NOT NULL`);
+      await queryRunner.query(`
+        ALTER TABLE "${table}"
+        ADD CONSTRAINT "fk_${table}_organization_id" FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id") ON DELETE CASCADE
+      `);
+      await queryRunner.query(
+        `CREATE INDEX IF NOT EXISTS "idx_${table}_organization_id" ON "${table}" ("organization_id")`,
+      );
+    }
+
+    await queryRunner.query(`ALTER TABLE "projects" DROP CONSTRAINT IF EXISTS "uq_projects_key"`);
+    await queryRunner.query(`
+      ALTER TABLE "projects"
+      ADD CONSTRAINT "uq_projects_organization_key" UNIQUE ("organization_id", "key")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "projects" DROP CONSTRAINT IF EXISTS "uq_projects_organization_key"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "projects" ADD CONSTRAINT "uq_projects_key" UNIQUE ("key")`,
+    );
+
+    for (const table of ['tasks', 'projects']) {
+      await queryRunner.query(`DROP INDEX IF EXISTS "idx_${table}_organization_id"`);
+      await queryRunner.query(
+        `ALTER TABLE "${table}" DROP CONSTRAINT IF EXISTS "fk_${table}_organization_id"`,
+      );
+      await queryRunner.query(`ALTER TABLE "${table}" DROP COLUMN IF EXISTS "organization_id"`);
+    }
+
+    await queryRunner.query(`DROP TABLE IF EXISTS "organization_memberships"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "organizations"`);
+  }
+}
@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateOrganizationInvitations1792368360000 implements MigrationInterface {
+  name = 'CreateOrganizationInvitations1792368360000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "organization_invitations" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "organization_id" uuid NOT NULL,
+        "email" varchar NOT NULL,
+        "role" varchar NOT NULL DEFAULT 'member',
+        "invited_by_id" uuid NOT NULL,
+        "expires_at" TIMESTAMP NOT NULL,
+        "accepted_at" TIMESTAMP,
+        "accepted_by_id" uuid,
+        "revoked_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_organization_invitations_organization_id" FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_organization_invitations_invited_by_id" FOREIGN KEY ("invited_by_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "idx_organization_invitations_organization_email" ON "organization_invitations" ("organization_id", "email")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "idx_organization_invitations_organization_email"`,
+    );
+    await queryRunner.query(`DROP TABLE IF EXISTS "organization_invitations"`);
+  }
+}
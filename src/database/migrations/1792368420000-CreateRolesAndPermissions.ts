@@ -0,0 +1,87 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+const PERMISSIONS: [string, string][] = [
+  ['task:read', 'View tasks, their comments and dependencies'],
+  ['task:create', 'Create tasks'],
+  ['task:update', 'Update tasks'],
+  ['task:update:any', 'Update tasks owned by anyone in the organization'],
+  ['task:delete', 'Delete tasks'],
+  ['task:delete:any', 'Delete tasks owned by anyone in the organization'],
+  ['user:read', 'View users'],
+  ['user:manage', 'Create and remove users and assign their roles'],
+  ['role:manage', 'Create, edit and delete roles'],
+];
+
+const USER_PERMISSIONS = ['task:read', 'task:create', 'task:update', 'task:delete', 'user:read'];
+
+export class CreateRolesAndPermissions1792368420000 implements MigrationInterface {
+  name = 'CreateRolesAndPermissions1792368420000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "permissions" (
+        "name" varchar PRIMARY KEY,
+        "description" text
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "roles" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "name" varchar NOT NULL,
+        "description" text,
+        "is_system" boolean NOT NULL DEFAULT false,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "uq_roles_name" UNIQUE ("name")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "role_permissions" (
+        "role_id" uuid NOT NULL,
+        "permission_name" varchar NOT NULL,
+        CONSTRAINT "pk_role_permissions" PRIMARY KEY ("role_id", "permission_name"),
+        CONSTRAINT "fk_role_permissions_role_id" FOREIGN KEY ("role_id") REFERENCES "roles" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_role_permissions_permission_name" FOREIGN KEY ("permission_name") REFERENCES "permissions" ("name") ON DELETE CASCADE
+      )
+    `);
+
+    for (const [name, description] of PERMISSIONS) {
+      await queryRunner.query(
+        `INSERT INTO "permissions" ("name", "description") VALUES ($1, $2) ON CONFLICT ("name") DO NOTHING`,
+        [name, description],
+      );
+    }
+
+    await queryRunner.query(`
+      INSERT INTO "roles" ("name", "description", "is_system") VALUES
+        ('admin', 'Full access', true),
+        ('user', 'Works on tasks', true)
+      ON CONFLICT ("name") DO NOTHING
+    `);
+    await queryRunner.query(`
+      INSERT INTO "role_permissions" ("role_id", "permission_name")
+      SELECT r."id", p."name" FROM "roles" r CROSS JOIN "permissions" p WHERE r."name" = 'admin'
+      ON CONFLICT DO NOTHING
+    `);
+    await queryRunner.query(
+      `INSERT INTO "role_permissions" ("role_id", "permission_name")
+      SELECT r."id", p."name" FROM "roles" r CROSS JOIN "permissions" p
+      WHERE r."name" = 'user' AND p."name" = ANY($1)
+      ON CONFLICT DO NOTHING`,
+      [USER_PERMISSIONS],
+    );
+
+    // User.role used to be free-form; anything unknown falls back to the default role.
+    await queryRunner.query(
+      `UPDATE "users" SET "role" = 'user' WHERE "role" NOT IN (SELECT "name" FROM "roles")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "role_permissions"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "roles"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "permissions"`);
+  }
+}
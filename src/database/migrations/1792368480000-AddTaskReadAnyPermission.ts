@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskReadAnyPermission1792368480000 implements MigrationInterface {
+  name = 'AddTaskReadAnyPermission1792368480000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      INSERT INTO "permissions" ("name", "description")
+      VALUES ('task:read:any', 'View tasks owned by anyone in the organization')
+      ON CONFLICT ("name") DO NOTHING
+    `);
+    await queryRunner.query(`
+      INSERT INTO "role_permissions" ("role_id", "permission_name")
+      SELECT "id", 'task:read:any' FROM "roles" WHERE "name" = 'admin'
+      ON CONFLICT DO NOTHING
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DELETE FROM "permissions" WHERE "name" = 'task:read:any'`);
+  }
+}
@@ -0,0 +1,56 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class SplitTaskOwnership1792368540000 implements MigrationInterface {
+  name = 'SplitTaskOwnership1792368540000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "tasks" RENAME COLUMN "user_id" TO "created_by_id"`);
+    await queryRunner.query(
+      `ALTER TABLE "tasks" RENAME CONSTRAINT "fk_user_id" TO "fk_tasks_created_by_id"`,
+    );
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_assignees" (
+        "task_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        CONSTRAINT "pk_task_assignees" PRIMARY KEY ("task_id", "user_id"),
+        CONSTRAINT "fk_task_assignees_task_id" FOREIGN KEY ("task_id") REFERENCES "tasks" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_assignees_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "idx_task_assignees_user_id" ON "task_assignees" ("user_id")`,
+    );
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_watchers" (
+        "task_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        CONSTRAINT "pk_task_watchers" PRIMARY KEY ("task_id", "user_id"),
+        CONSTRAINT "fk_task_watchers_task_id" FOREIGN KEY ("task_id") REFERENCES "tasks" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_watchers_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "idx_task_watchers_user_id" ON "task_watchers" ("user_id")`,
+    );
+
+    // The previous owner keeps working on the task as its first assignee.
+    await queryRunner.query(`
+      INSERT INTO "task_assignees" ("task_id", "user_id")
+      SELECT "id", "created_by_id" FROM "tasks"
+      ON CONFLICT DO NOTHING
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_watchers_user_id"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_watchers"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_assignees_user_id"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_assignees"`);
+    await queryRunner.query(
+      `ALTER TABLE "tasks" RENAME CONSTRAINT "fk_tasks_created_by_id" TO "fk_user_id"`,
+    );
+    await queryRunner.query(`ALTER TABLE "tasks" RENAME COLUMN "created_by_id" TO "user_id"`);
+  }
+}
@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateAuditLogs1792368600000 implements MigrationInterface {
+  name = 'CreateAuditLogs1792368600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "audit_logs" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "organization_id" uuid NOT NULL,
+        "entity_type" varchar NOT NULL,
+        "entity_id" uuid NOT NULL,
+        "action" varchar NOT NULL,
+        "actor_id" uuid,
+        "changes" jsonb NOT NULL DEFAULT '{}',
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_audit_logs_organization_id" FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "idx_audit_logs_entity" ON "audit_logs" ("organization_id", "entity_type", "entity_id", "created_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "idx_audit_logs_created" ON "audit_logs" ("organization_id", "created_at")`,
+    );
+
+    await queryRunner.query(`
+      INSERT INTO "permissions" ("name", "description")
+      VALUES ('audit:read', 'Search the audit log of the organization')
+      ON CONFLICT ("name") DO NOTHING
+    `);
+    await queryRunner.query(`
+      INSERT INTO "role_permissions" ("role_id", "permission_name")
+      SELECT "id", 'audit:read' FROM "roles" WHERE "name" = 'admin'
+      ON CONFLICT DO NOTHING
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DELETE FROM "permissions" WHERE "name" = 'audit:read'`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_audit_logs_created"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_audit_logs_entity"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "audit_logs"`);
+  }
+}
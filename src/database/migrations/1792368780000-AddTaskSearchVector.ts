@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskSearchVector1792368780000 implements MigrationInterface {
+  name = 'AddTaskSearchVector1792368780000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "search_vector" tsvector`,
+    );
+
+    // Title matches weigh more than description matches when ranking.
+    await queryRunner.query(`
+      CREATE OR REPLACE FUNCTION tasks_search_vector_update() RETURNS trigger AS $$
+      BEGIN
+        NEW.search_vector :=
+          setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+          setweight(to_tsvector('english', coalesce(NEW.description, '')), 'B');
+        RETURN NEW;
+      END
+      $$ LANGUAGE plpgsql
+    `);
+    await queryRunner.query(`DROP TRIGGER IF EXISTS "trg_tasks_search_vector" ON "tasks"`);
+    await queryRunner.query(`
+      CREATE TRIGGER "trg_tasks_search_vector"
+      BEFORE INSERT OR UPDATE OF "title", "description" ON "tasks"
+      FOR EACH ROW EXECUTE FUNCTION tasks_search_vector_update()
+    `);
+
+    await queryRunner.query(`
+      UPDATE "tasks" SET "search_vector" =
+        setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+        setweight(to_tsvector('english', coalesce("description", '')), 'B')
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "idx_tasks_search_vector" ON "tasks" USING GIN ("search_vector")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_tasks_search_vector"`);
+    await queryRunner.query(`DROP TRIGGER IF EXISTS "trg_tasks_search_vector" ON "tasks"`);
+    await queryRunner.query(`DROP FUNCTION IF EXISTS tasks_search_vector_update()`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "search_vector"`);
+  }
+}
@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateSavedViews1792368840000 implements MigrationInterface {
+  name = 'CreateSavedViews1792368840000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "saved_views" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "name" varchar(100) NOT NULL,
+        "visibility" varchar NOT NULL DEFAULT 'private',
+        "filters" jsonb NOT NULL DEFAULT '{}',
+        "sort" varchar,
+        "columns" jsonb NOT NULL DEFAULT '[]',
+        "organization_id" uuid NOT NULL,
+        "owner_id" uuid NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_saved_views_organization_id" FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_saved_views_owner_id" FOREIGN KEY ("owner_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "idx_saved_views_organization_visibility" ON "saved_views" ("organization_id", "visibility")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_saved_views_organization_visibility"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "saved_views"`);
+  }
+}
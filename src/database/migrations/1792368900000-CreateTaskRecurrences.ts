@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskRecurrences1792368900000 implements MigrationInterface {
+  name = 'CreateTaskRecurrences1792368900000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_recurrences" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "rule" text NOT NULL,
+        "starts_at" TIMESTAMP NOT NULL,
+        "last_occurrence_at" TIMESTAMP NOT NULL,
+        "template" jsonb NOT NULL,
+        "ended_at" TIMESTAMP,
+        "organization_id" uuid NOT NULL,
+        "created_by_id" uuid NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_task_recurrences_organization_id" FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_recurrences_created_by_id" FOREIGN KEY ("created_by_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "idx_task_recurrences_last_occurrence_at" ON "task_recurrences" ("last_occurrence_at")`,
+    );
+
+    await queryRunner.query(`ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "recurrence_id" uuid`);
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+      ADD CONSTRAINT "fk_tasks_recurrence_id" FOREIGN KEY ("recurrence_id") REFERENCES "task_recurrences" ("id") ON DELETE SET NULL
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "idx_tasks_recurrence_id" ON "tasks" ("recurrence_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_tasks_recurrence_id"`);
+    await queryRunner.query(
+      `ALTER TABLE "tasks" DROP CONSTRAINT IF EXISTS "fk_tasks_recurrence_id"`,
+    );
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "recurrence_id"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_recurrences_last_occurrence_at"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_recurrences"`);
+  }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskTemplates1792368960000 implements MigrationInterface {
+  name = 'CreateTaskTemplates1792368960000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_templates" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "name" varchar(100) NOT NULL,
+        "title" varchar NOT NULL,
+        "description" text,
+        "priority" varchar NOT NULL DEFAULT 'MEDIUM',
+        "due_in_days" integer,
+        "subtasks" jsonb NOT NULL DEFAULT '[]',
+        "organization_id" uuid NOT NULL,
+        "created_by_id" uuid NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_task_templates_organization_id" FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_templates_created_by_id" FOREIGN KEY ("created_by_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "idx_task_templates_organization_id" ON "task_templates" ("organization_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_templates_organization_id"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_templates"`);
+  }
+}
@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskChecklistItems1792369020000 implements MigrationInterface {
+  name = 'CreateTaskChecklistItems1792369020000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_checklist_items" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "task_id" uuid NOT NULL,
+        "text" varchar(500) NOT NULL,
+        "done" boolean NOT NULL DEFAULT false,
+        "position" integer NOT NULL,
+        "assignee_id" uuid,
+        "due_date" TIMESTAMP,
+        "completed_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_task_checklist_items_task_id" FOREIGN KEY ("task_id") REFERENCES "tasks" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_checklist_items_assignee_id" FOREIGN KEY ("assignee_id") REFERENCES "users" ("id") ON DELETE SET NULL
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "idx_task_checklist_items_task_id_position" ON "task_checklist_items" ("task_id", "position")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_checklist_items_task_id_position"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_checklist_items"`);
+  }
+}
@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskAttachments1792369080000 implements MigrationInterface {
+  name = 'CreateTaskAttachments1792369080000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_attachments" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "task_id" uuid NOT NULL,
+        "file_name" varchar(255) NOT NULL,
+        "mime_type" varchar(100) NOT NULL,
+        "size" integer NOT NULL,
+        "checksum" varchar(64) NOT NULL,
+        "uploaded_by_id" uuid,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_task_attachments_task_id" FOREIGN KEY ("task_id") REFERENCES "tasks" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_attachments_uploaded_by_id" FOREIGN KEY ("uploaded_by_id") REFERENCES "users" ("id") ON DELETE SET NULL
+      )
+    `);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "idx_task_attachments_task_id_checksum" ON "task_attachments" ("task_id", "checksum")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "idx_task_attachments_checksum" ON "task_attachments" ("checksum")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_attachments_checksum"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_attachments_task_id_checksum"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_attachments"`);
+  }
+}
@@ -0,0 +1,40 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTimeTracking1792369140000 implements MigrationInterface {
+  name = 'AddTimeTracking1792369140000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "estimate_minutes" integer`,
+    );
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "time_entries" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "task_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        "started_at" TIMESTAMP NOT NULL,
+        "ended_at" TIMESTAMP,
+        "note" varchar(500),
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_time_entries_task_id" FOREIGN KEY ("task_id") REFERENCES "tasks" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_time_entries_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE,
+        CONSTRAINT "chk_time_entries_ended_after_start" CHECK ("ended_at" IS NULL OR "ended_at" >= "started_at")
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "idx_time_entries_task_id_started_at" ON "time_entries" ("task_id", "started_at")`,
+    );
+    // One running timer per user.
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "idx_time_entries_user_id_running" ON "time_entries" ("user_id") WHERE "ended_at" IS NULL`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_time_entries_user_id_running"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_time_entries_task_id_started_at"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "time_entries"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "estimate_minutes"`);
+  }
+}
@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskRank1792369200000 implements MigrationInterface {
+  name = 'AddTaskRank1792369200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Rank keys compare byte by byte whatever the database's collation.
+    await queryRunner.query(
+      `ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "rank" varchar(32) COLLATE "C"`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "idx_tasks_board" ON "tasks" ("organization_id", "status", "rank")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_tasks_board"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "rank"`);
+  }
+}
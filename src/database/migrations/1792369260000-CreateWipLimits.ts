@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateWipLimits1792369260000 implements MigrationInterface {
+  name = 'CreateWipLimits1792369260000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "wip_limits" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "organization_id" uuid NOT NULL,
+        "status" varchar NOT NULL,
+        "project_id" uuid,
+        "user_id" uuid,
+        "max_tasks" integer NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_wip_limits_organization_id" FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_wip_limits_project_id" FOREIGN KEY ("project_id") REFERENCES "projects" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_wip_limits_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE,
+        CONSTRAINT "chk_wip_limits_single_scope" CHECK ("project_id" IS NULL OR "user_id" IS NULL),
+        CONSTRAINT "chk_wip_limits_max_tasks" CHECK ("max_tasks" >= 0)
+      )
+    `);
+    // One limit per status and scope; the organization-wide limit has neither ID.
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "idx_wip_limits_scope" ON "wip_limits" ("organization_id", "status", COALESCE("project_id", "user_id", '00000000-0000-0000-0000-000000000000'))`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_wip_limits_scope"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "wip_limits"`);
+  }
+}
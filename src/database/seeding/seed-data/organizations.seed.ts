@@ -0,0 +1,21 @@
+import { OrganizationRole } from '../../../modules/organizations/enums/organization-role.enum';
+
+export const organizations = [
+  {
+    id: '440e8400-e29b-41d4-a716-446655440000',
+    name: 'Example Organization',
+  },
+];
+
+export const memberships = [
+  {
+    organizationId: '440e8400-e29b-41d4-a716-446655440000',
+    userId: '550e8400-e29b-41d4-a716-446655440000', // Admin user
+    role: OrganizationRole.OWNER,
+  },
+  {
+    organizationId: '440e8400-e29b-41d4-a716-446655440000',
+    userId: '550e8400-e29b-41d4-a716-446655440001', // Normal user
+    role: OrganizationRole.MEMBER,
+  },
+];
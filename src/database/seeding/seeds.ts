@@ -1,24 +1,15 @@
 import { DataSource } from 'typeorm';
-import { config } from 'dotenv';
 import { User } from '../../modules/users/entities/user.entity';
 import { Task } from '../../modules/tasks/entities/task.entity';
+import { Organization } from '../../modules/organizations/entities/organization.entity';
+import { OrganizationMembership } from '../../modules/organizations/entities/organization-membership.entity';
+import { dataSourceOptions } from '../data-source';
 import { users } from './seed-data/users.seed';
 import { tasks } from './seed-data/tasks.seed';
+import { memberships, organizations } from './seed-data/organizations.seed';
 
-// Load environment variables
-config();
-
-// Define the data source
-const AppDataSource = new DataSource({
-  type: 'postgres',
-  host: process.env.DB_HOST || 'localhost',
-  port: parseInt(process.env.DB_PORT || '5432', 10),
-  username: process.env.DB_USERNAME || 'postgres',
-  password: process.env.DB_PASSWORD || 'postgres',
-  database: process.env.DB_DATABASE || 'taskflow',
-  entities: [User, Task],
-  synchronize: false,
-});
+// Define the data source with the same entities as the application
+const AppDataSource = new DataSource(dataSourceOptions);
 
 // Initialize and seed database
 async function main() {
@@ -27,15 +18,20 @@ async function main() {
     await AppDataSource.initialize();
     console.log('Database connection initialized');
 
-    // Clear existing data
-    await AppDataSource.getRepository(Task).delete({});
-    await AppDataSource.getRepository(User).delete({});
+    // Clear existing data; tenant data goes with its organization
+    await AppDataSource.createQueryBuilder().delete().from(Organization).execute();
+    await AppDataSource.createQueryBuilder().delete().from(User).execute();
     console.log('Existing data cleared');
 
     // Seed users
     await AppDataSource.getRepository(User).save(users);
     console.log('Users seeded successfully');
 
+    // Seed the organization and its members
+    await AppDataSource.getRepository(Organization).save(organizations);
+    await AppDataSource.getRepository(OrganizationMembership).save(memberships);
+    console.log('Organizations seeded successfully');
+
     // Seed tasks
     await AppDataSource.getRepository(Task).save(tasks);
     console.log('Tasks seeded successfully');
@@ -51,4 +47,4 @@ async function main() {
 }
 
 // Run the seeding
-main(); 
\ No newline at end of file
+main();
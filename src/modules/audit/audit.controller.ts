@@ -0,0 +1,19 @@
+import { Authenticated, CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuditService } from './audit.service';
+import { AuditLogFilterDto } from './dto/audit-log-filter.dto';
+
+@ApiTags('audit')
+@Controller('audit')
+@Authenticated()
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Search the audit log of the organization, newest first' })
+  search(@Query() filterDto: AuditLogFilterDto, @CurrentUser() user: AuthUser) {
+    return this.auditService.search(filterDto, user);
+  }
+}
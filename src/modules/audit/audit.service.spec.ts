@@ -0,0 +1,208 @@
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { OrganizationRole } from '@modules/organizations/enums/organization-role.enum';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import { ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { AuditService } from './audit.service';
+import { AuditLog } from './entities/audit-log.entity';
+import { AuditAction } from './enums/audit-action.enum';
+import { diffFields } from './utils/field-diff.util';
+
+describe('AuditService', () => {
+  let service: AuditService;
+  let queryBuilder: Record<string, jest.Mock>;
+  let mockRepository: {
+    createQueryBuilder: jest.Mock;
+    manager: { create: jest.Mock; save: jest.Mock };
+  };
+
+  const admin: AuthUser = {
+    id: 'u1',
+    email: 'owner@example.com',
+    name: 'Owner',
+    role: 'user',
+    organizationId: 'org-1',
+    organizationRole: OrganizationRole.OWNER,
+    permissions: [],
+  };
+
+  const member: AuthUser = {
+    ...admin,
+    id: 'u2',
+    organizationRole: OrganizationRole.MEMBER,
+    permissions: [Permission.TASK_READ],
+  };
+
+  const entry = {
+    organizationId: 'org-1',
+    entityType: 'task',
+    entityId: 't1',
+    actorId: 'u1',
+  };
+
+  // Entries with their exact created_at as the database returns it for the cursor.
+  const rows = (...logs: [id: string, createdAt: string][]) => ({
+    entities: logs.map(([id, createdAt]) => ({ id, createdAt: new Date(createdAt) })),
+    raw: logs.map(([id, createdAt]) => ({ log_id: id, cursor_created_at: createdAt })),
+  });
+
+  beforeEach(async () => {
+    queryBuilder = {
+      leftJoin: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+      take: jest.fn().mockReturnThis(),
+      getRawAndEntities: jest.fn().mockResolvedValue(rows()),
+    };
+
+    mockRepository = {
+      createQueryBuilder: jest.fn().mockReturnValue(queryBuilder),
+      manager: {
+        create: jest.fn((_, data) => data),
+        save: jest.fn(),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditService,
+        { provide: getRepositoryToken(AuditLog), useValue: mockRepository },
+      ],
+    }).compile();
+
+    service = module.get<AuditService>(AuditService);
+  });
+
+  describe('record', () => {
+    it('should append an entry', async () => {
+      const changes = { title: { from: 'Old', to: 'New' } };
+
+      await service.record({ ...entry, action: AuditAction.UPDATE, changes });
+
+      expect(mockRepository.manager.save).toHaveBeenCalledWith(AuditLog, {
+        ...entry,
+        action: AuditAction.UPDATE,
+        changes,
+      });
+    });
+
+    it('should use the given transaction manager', async () => {
+      const manager = { create: jest.fn((_, data) => data), save: jest.fn() };
+
+      await service.record(
+        { ...entry, action: AuditAction.DELETE, changes: {} },
+        manager as unknown as Parameters<AuditService['record']>[1],
+      );
+
+      expect(manager.save).toHaveBeenCalled();
+      expect(mockRepository.manager.save).not.toHaveBeenCalled();
+    });
+
+    it('should skip updates that changed nothing', async () => {
+      await service.record({ ...entry, action: AuditAction.STATUS_CHANGE, changes: {} });
+
+      expect(mockRepository.manager.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findForEntity', () => {
+    it('should page through the entries of one entity, newest first', async () => {
+      // l2 and l1 were written in one transaction.
+      queryBuilder.getRawAndEntities.mockResolvedValue(
+        rows(
+          ['l3', '2024-01-03 00:00:00.000001'],
+          ['l2', '2024-01-02 00:00:00.000456'],
+          ['l1', '2024-01-02 00:00:00.000456'],
+        ),
+      );
+
+      const page = await service.findForEntity('task', 't1', 'org-1', { limit: 2 });
+
+      expect(queryBuilder.where).toHaveBeenCalledWith('log.organizationId = :organizationId', {
+        organizationId: 'org-1',
+      });
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('log.entityId = :entityId', {
+        entityId: 't1',
+      });
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith('log.createdAt', 'DESC');
+      expect(page.items.map(item => item.id)).toEqual(['l3', 'l2']);
+      expect(page.nextCursor).not.toBeNull();
+
+      await service.findForEntity('task', 't1', 'org-1', {
+        limit: 2,
+        cursor: page.nextCursor as string,
+      });
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(expect.stringContaining('log.id <'), {
+        cursorCreatedAt: '2024-01-02 00:00:00.000456',
+        cursorId: 'l2',
+      });
+    });
+  });
+
+  describe('search', () => {
+    it('should apply the actor, entity and time range filters', async () => {
+      await service.search(
+        {
+          actorId: 'u2',
+          entityType: 'task',
+          from: '2024-01-01T00:00:00Z',
+          to: '2024-01-31T00:00:00Z',
+        },
+        admin,
+      );
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('log.actorId = :actorId', {
+        actorId: 'u2',
+      });
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('log.entityType = :entityType', {
+        entityType: 'task',
+      });
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('log.createdAt >= :from', {
+        from: new Date('2024-01-01T00:00:00Z'),
+      });
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('log.createdAt <= :to', {
+        to: new Date('2024-01-31T00:00:00Z'),
+      });
+    });
+
+    it('should let holders of audit:read search', async () => {
+      await expect(
+        service.search({}, { ...member, permissions: [Permission.AUDIT_READ] }),
+      ).resolves.toEqual({ items: [], nextCursor: null });
+    });
+
+    it('should reject other members', async () => {
+      await expect(service.search({}, member)).rejects.toThrow(ForbiddenException);
+      expect(queryBuilder.getRawAndEntities).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('diffFields', () => {
+    it('should only report changed fields', () => {
+      const dueDate = new Date('2024-01-01T00:00:00Z');
+
+      expect(
+        diffFields(
+          { title: 'A', dueDate, assigneeIds: ['u1', 'u2'], description: undefined },
+          {
+            title: 'B',
+            dueDate: new Date(dueDate),
+            assigneeIds: ['u2', 'u1'],
+            description: null,
+          },
+        ),
+      ).toEqual({ title: { from: 'A', to: 'B' } });
+    });
+
+    it('should report every field of created and deleted entities', () => {
+      expect(diffFields(null, { title: 'A', description: null })).toEqual({
+        title: { from: null, to: 'A' },
+      });
+      expect(diffFields({ title: 'A' }, null)).toEqual({ title: { from: 'A', to: null } });
+    });
+  });
+});
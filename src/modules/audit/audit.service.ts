@@ -0,0 +1,147 @@
+import { decodeCursor, encodeCursor } from '@common/utils/cursor.util';
+import { hasPermission, isOrganizationAdmin } from '@modules/auth/policies/policy';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import { ForbiddenException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository, SelectQueryBuilder } from 'typeorm';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { ActivityFilterDto } from './dto/activity-filter.dto';
+import { AuditLogFilterDto } from './dto/audit-log-filter.dto';
+import { AuditChanges, AuditLog } from './entities/audit-log.entity';
+import { AuditAction } from './enums/audit-action.enum';
+
+export interface AuditEntry {
+  organizationId: string;
+  entityType: string;
+  entityId: string;
+  action: AuditAction;
+  actorId: string | null;
+  changes: AuditChanges;
+}
+
+interface AuditCursor extends Record<string, unknown> {
+  createdAt: string;
+  id: string;
+}
+
+@Injectable()
+export class AuditService {
+  constructor(
+    @InjectRepository(AuditLog)
+    private auditLogsRepository: Repository<AuditLog>,
+  ) {}
+
+  /**
+   * Appends an entry, inside the caller's transaction when a manager is given.
+   * Updates that did not change any field are not recorded.
+   */
+  async record(
+    entry: AuditEntry,
+    manager: EntityManager = this.auditLogsRepository.manager,
+  ): Promise<void> {
+    const isUpdate =
+      entry.action === AuditAction.UPDATE || entry.action === AuditAction.STATUS_CHANGE;
+    if (isUpdate && Object.keys(entry.changes).length === 0) {
+      return;
+    }
+    await manager.save(AuditLog, manager.create(AuditLog, entry));
+  }
+
+  async findForEntity(
+    entityType: string,
+    entityId: string,
+    organizationId: string,
+    filterDto: ActivityFilterDto,
+  ): Promise<{ items: AuditLog[]; nextCursor: string | null }> {
+    const queryBuilder = this.createQueryBuilder(organizationId)
+      .andWhere('log.entityType = :entityType', { entityType })
+      .andWhere('log.entityId = :entityId', { entityId });
+
+    return this.paginate(queryBuilder, filterDto);
+  }
+
+  /**
+   * Organization-wide search, reserved to organization admins and holders of
+   * `audit:read`.
+   */
+  async search(
+    filterDto: AuditLogFilterDto,
+    actor: AuthUser,
+  ): Promise<{ items: AuditLog[]; nextCursor: string | null }> {
+    if (!isOrganizationAdmin(actor) && !hasPermission(actor, Permission.AUDIT_READ)) {
+      throw new ForbiddenException('Only organization admins can search the audit log');
+    }
+
+    const { actorId, entityType, entityId, action, from, to } = filterDto;
+    const queryBuilder = this.createQueryBuilder(actor.organizationId);
+
+    if (actorId) {
+      queryBuilder.andWhere('log.actorId = :actorId', { actorId });
+    }
+
+    if (entityType) {
+      queryBuilder.andWhere('log.entityType = :entityType', { entityType });
+    }
+
+    if (entityId) {
+      queryBuilder.andWhere('log.entityId = :entityId', { entityId });
+    }
+
+    if (action) {
+      queryBuilder.andWhere('log.action = :action', { action });
+    }
+
+    if (from) {
+      queryBuilder.andWhere('log.createdAt >= :from', { from: new Date(from) });
+    }
+
+    if (to) {
+      queryBuilder.andWhere('log.createdAt <= :to', { to: new Date(to) });
+    }
+
+    return this.paginate(queryBuilder, filterDto);
+  }
+
+  private createQueryBuilder(organizationId: string): SelectQueryBuilder<AuditLog> {
+    return this.auditLogsRepository
+      .createQueryBuilder('log')
+      .leftJoin('log.actor', 'actor')
+      .addSelect(['actor.id', 'actor.name', 'actor.email'])
+      .where('log.organizationId = :organizationId', { organizationId });
+  }
+
+  /**
+   * Newest entries first; the cursor points at the last entry of the previous page.
+   */
+  private async paginate(
+    queryBuilder: SelectQueryBuilder<AuditLog>,
+    filterDto: ActivityFilterDto,
+  ): Promise<{ items: AuditLog[]; nextCursor: string | null }> {
+    const { cursor, limit = 50 } = filterDto;
+
+    if (cursor) {
+      const { createdAt, id } = decodeCursor<AuditCursor>(cursor);
+      queryBuilder.andWhere(
+        '(log.createdAt < :cursorCreatedAt OR (log.createdAt = :cursorCreatedAt AND log.id < :cursorId))',
+        { cursorCreatedAt: createdAt, cursorId: id },
+      );
+    }
+
+    // Entries written together share their timestamp down to the microsecond,
+    // which dates cut to milliseconds, so the cursor takes it as text.
+    const { entities: rows, raw } = await queryBuilder
+      .addSelect('log.created_at::text', 'cursor_created_at')
+      .orderBy('log.createdAt', 'DESC')
+      .addOrderBy('log.id', 'DESC')
+      .take(limit + 1)
+      .getRawAndEntities<{ log_id: string; cursor_created_at: string }>();
+
+    const items = rows.slice(0, limit);
+    const last = items[items.length - 1];
+    const createdAt = last && raw.find(row => row.log_id === last.id)?.cursor_created_at;
+    const nextCursor =
+      rows.length > limit && last ? encodeCursor({ createdAt, id: last.id }) : null;
+
+    return { items, nextCursor };
+  }
+}
@@ -0,0 +1,48 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsISO8601, IsOptional, IsString, IsUUID } from 'class-validator';
+import { AuditAction } from '../enums/audit-action.enum';
+import { ActivityFilterDto } from './activity-filter.dto';
+
+export class AuditLogFilterDto extends ActivityFilterDto {
+  @ApiProperty({ required: false, description: 'Only entries made by this user' })
+  @IsUUID()
+  @IsOptional()
+  actorId?: string;
+
+  @ApiProperty({
+    required: false,
+    example: 'task',
+    description: 'Only entries of this entity type',
+  })
+  @IsString()
+  @IsOptional()
+  entityType?: string;
+
+  @ApiProperty({ required: false, description: 'Only entries of this entity' })
+  @IsUUID()
+  @IsOptional()
+  entityId?: string;
+
+  @ApiProperty({ enum: AuditAction, required: false })
+  @IsEnum(AuditAction)
+  @IsOptional()
+  action?: AuditAction;
+
+  @ApiProperty({
+    required: false,
+    example: '2024-01-01T00:00:00Z',
+    description: 'Only entries recorded at or after this time',
+  })
+  @IsISO8601()
+  @IsOptional()
+  from?: string;
+
+  @ApiProperty({
+    required: false,
+    example: '2024-12-31T23:59:59Z',
+    description: 'Only entries recorded at or before this time',
+  })
+  @IsISO8601()
+  @IsOptional()
+  to?: string;
+}
@@ -0,0 +1,59 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Organization } from '../../organizations/entities/organization.entity';
+import type { User } from '../../users/entities/user.entity';
+import { AuditAction } from '../enums/audit-action.enum';
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+/**
+ * One append-only entry of the audit trail. Entries reference the changed
+ * entity and the actor without foreign keys so they outlive both.
+ */
+@Entity('audit_logs')
+@Index('idx_audit_logs_entity', ['organizationId', 'entityType', 'entityId', 'createdAt'])
+@Index('idx_audit_logs_created', ['organizationId', 'createdAt'])
+export class AuditLog {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization: Organization;
+
+  @Column({ name: 'entity_type' })
+  entityType: string;
+
+  @Column({ name: 'entity_id', type: 'uuid' })
+  entityId: string;
+
+  @Column()
+  action: AuditAction;
+
+  /** `null` for changes made by the system, such as scheduled jobs. */
+  @Column({ name: 'actor_id', type: 'uuid', nullable: true })
+  actorId: string | null;
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  @ManyToOne(() => require('../../users/entities/user.entity').User, {
+    createForeignKeyConstraints: false,
+  })
+  @JoinColumn({ name: 'actor_id' })
+  actor: User | null;
+
+  @Column({ type: 'jsonb', default: {} })
+  changes: AuditChanges;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,11 @@
+export enum AuditAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  /** An update that changed nothing but the status, e.g. batch completion or a queue job. */
+  STATUS_CHANGE = 'status_change',
+  /** The task was moved to the trash. */
+  DELETE = 'delete',
+  RESTORE = 'restore',
+  /** The task was removed from the trash for good. */
+  PURGE = 'purge',
+}
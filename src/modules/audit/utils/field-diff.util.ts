@@ -0,0 +1,33 @@
+import { AuditChanges } from '../entities/audit-log.entity';
+
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return [...value].map(normalize).sort();
+  }
+  return value ?? null;
+}
+
+/**
+ * Field-level differences between two snapshots of an entity. Missing fields
+ * count as `null`, dates are compared as ISO strings and arrays as sets.
+ */
+export function diffFields(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of fields) {
+    const from = normalize(before?.[field]);
+    const to = normalize(after?.[field]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
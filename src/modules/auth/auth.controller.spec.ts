@@ -1,3 +1,4 @@
+import { OrganizationRole } from '@modules/organizations/enums/organization-role.enum';
 import { User } from '@modules/users/entities/user.entity';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
@@ -30,7 +31,15 @@ describe('AuthController', () => {
       const expected: LoginResponse = {
         access_token: 'a',
         refresh_token: 'r',
-        user: { id: '1', email: 'a@b.com', name: 'A', role: 'user' },
+        user: {
+          id: '1',
+          email: 'a@b.com',
+          name: 'A',
+          role: 'user',
+          organizationId: 'org-1',
+          organizationRole: OrganizationRole.MEMBER,
+          permissions: [],
+        },
       };
 
       (mockAuthService.login as jest.Mock).mockResolvedValue(expected);
@@ -54,7 +63,15 @@ describe('AuthController', () => {
       const expected: RegisterResponse = {
         access_token: 'a',
         refresh_token: 'r',
-        user: { id: '2', email: 'n@x.com', name: 'N', role: 'user' },
+        user: {
+          id: '2',
+          email: 'n@x.com',
+          name: 'N',
+          role: 'user',
+          organizationId: 'org-2',
+          organizationRole: OrganizationRole.OWNER,
+          permissions: [],
+        },
       };
 
       (mockAuthService.register as jest.Mock).mockResolvedValue(expected);
@@ -1,4 +1,4 @@
-import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { BadRequestException, ForbiddenException, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
 import * as bcrypt from 'bcrypt';
@@ -14,18 +14,49 @@ describe('AuthService', () => {
     removeRefreshToken: jest.fn(),
   };
 
+  const mockOrganizationsService: any = {
+    create: jest.fn(),
+    findMembership: jest.fn(),
+    findDefaultMembership: jest.fn(),
+  };
+
+  const mockInvitationsService: any = {
+    verify: jest.fn(),
+    markAccepted: jest.fn(),
+  };
+
+  const mockRolesService: any = {
+    findPermissionNames: jest.fn().mockResolvedValue(['task:read']),
+  };
+
   const mockJwtService: any = {
     signAsync: jest.fn(),
     verify: jest.fn(),
   };
 
+  const mockManager = {};
+
+  const mockDataSource: any = {
+    transaction: jest.fn(work => work(mockManager)),
+  };
+
   const mockConfig: any = {
     get: jest.fn().mockReturnValue(undefined),
   } as unknown as ConfigService;
 
   beforeEach(() => {
     jest.clearAllMocks();
-    service = new AuthService(mockConfig, mockUsersService, mockJwtService as JwtService);
+    service = new AuthService(
+      mockConfig,
+      mockUsersService,
+      mockJwtService as JwtService,
+      mockOrganizationsService,
+      mockInvitationsService,
+      mockRolesService,
+      mockDataSource,
+    );
+    mockOrganizationsService.findMembership.mockResolvedValue({ organizationId: 'org-1' });
+    mockOrganizationsService.findDefaultMembership.mockResolvedValue({ organizationId: 'org-1' });
   });
 
   describe('login', () => {
@@ -45,9 +76,45 @@ describe('AuthService', () => {
       expect(res).toHaveProperty('access_token', 'access-token');
       expect(res).toHaveProperty('refresh_token', 'refresh-token');
       expect(res.user).toMatchObject({ id: '1', email: 'a@b.com', name: 'A', role: 'user' });
+      expect(res.user.permissions).toEqual(['task:read']);
+      expect(mockRolesService.findPermissionNames).toHaveBeenCalledWith('user');
+      expect(res.user.organizationId).toBe('org-1');
+      expect(mockJwtService.signAsync).toHaveBeenCalledWith(
+        expect.objectContaining({ sub: '1', organizationId: 'org-1' }),
+        expect.any(Object),
+      );
       expect(mockUsersService.updateRefreshToken).toHaveBeenCalledWith('1', expect.any(String));
     });
 
+    it('should sign in to the requested organization', async () => {
+      const user = { id: '1', email: 'a@b.com', password: 'hash', name: 'A', role: 'user' };
+      mockUsersService.findByEmail.mockResolvedValue(user);
+      jest.spyOn(bcrypt, 'compare').mockImplementation(() => Promise.resolve(true));
+      mockOrganizationsService.findMembership.mockResolvedValue({ organizationId: 'org-2' });
+      mockJwtService.signAsync.mockResolvedValue('token');
+
+      const res = await service.login({
+        email: user.email,
+        password: 'pass',
+        organizationId: 'org-2',
+      });
+
+      expect(mockOrganizationsService.findMembership).toHaveBeenCalledWith('org-2', '1');
+      expect(res.user.organizationId).toBe('org-2');
+    });
+
+    it('should reject an organization the user is not a member of', async () => {
+      const user = { id: '1', email: 'a@b.com', password: 'hash', name: 'A', role: 'user' };
+      mockUsersService.findByEmail.mockResolvedValue(user);
+      jest.spyOn(bcrypt, 'compare').mockImplementation(() => Promise.resolve(true));
+      mockOrganizationsService.findMembership.mockResolvedValue(null);
+
+      await expect(
+        service.login({ email: user.email, password: 'pass', organizationId: 'org-9' }),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockJwtService.signAsync).not.toHaveBeenCalled();
+    });
+
     it('should throw UnauthorizedException for unknown email', async () => {
       mockUsersService.findByEmail.mockResolvedValue(null);
       await expect(service.login({ email: 'no@one', password: 'x' } as any)).rejects.toThrow(
@@ -77,19 +144,115 @@ describe('AuthService', () => {
       const created = { id: '2', email: 'new@x.com', name: 'New', role: 'user' };
       mockUsersService.findByEmail.mockResolvedValue(null);
       mockUsersService.create.mockResolvedValue(created);
+      mockOrganizationsService.create.mockResolvedValue({ id: 'org-2' });
       mockJwtService.signAsync.mockResolvedValueOnce('access').mockResolvedValueOnce('refresh');
 
       const res = await service.register({ email: 'new@x.com', password: 'p', name: 'New' } as any);
-      expect(res.user).toMatchObject({ id: '2', email: 'new@x.com', name: 'New', role: 'user' });
+      expect(mockUsersService.create).toHaveBeenCalledWith(
+        { email: 'new@x.com', password: 'p', name: 'New' },
+        undefined,
+        undefined,
+        mockManager,
+      );
+      expect(mockOrganizationsService.create).toHaveBeenCalledWith(
+        { name: "New's workspace" },
+        '2',
+        mockManager,
+      );
+      expect(res.user).toMatchObject({
+        id: '2',
+        email: 'new@x.com',
+        name: 'New',
+        role: 'user',
+        organizationId: 'org-2',
+      });
       expect(res).toHaveProperty('access_token', 'access');
       expect(res).toHaveProperty('refresh_token', 'refresh');
       expect(mockUsersService.updateRefreshToken).toHaveBeenCalledWith('2', expect.any(String));
     });
+
+    it('should join the inviting organization with the invited role', async () => {
+      const created = { id: '3', email: 'inv@x.com', name: 'Inv', role: 'user' };
+      mockUsersService.findByEmail.mockResolvedValue(null);
+      mockUsersService.create.mockResolvedValue(created);
+      mockInvitationsService.verify.mockResolvedValue({
+        id: 'inv-1',
+        organizationId: 'org-9',
+        role: 'admin',
+      });
+      mockJwtService.signAsync.mockResolvedValueOnce('access').mockResolvedValueOnce('refresh');
+
+      const res = await service.register({
+        email: 'inv@x.com',
+        password: 'p',
+        name: 'Inv',
+        invitationToken: 'token',
+      } as any);
+
+      expect(mockInvitationsService.verify).toHaveBeenCalledWith('token', 'inv@x.com');
+      expect(mockUsersService.create).toHaveBeenCalledWith(
+        { email: 'inv@x.com', password: 'p', name: 'Inv' },
+        'org-9',
+        'admin',
+        mockManager,
+      );
+      expect(mockInvitationsService.markAccepted).toHaveBeenCalledWith('inv-1', '3', mockManager);
+      expect(mockOrganizationsService.create).not.toHaveBeenCalled();
+      expect(res.user.organizationId).toBe('org-9');
+    });
+
+    it('should not create the account when the invitation is rejected', async () => {
+      mockUsersService.findByEmail.mockResolvedValue(null);
+      mockInvitationsService.verify.mockRejectedValue(
+        new BadRequestException('Invitation has expired'),
+      );
+
+      await expect(
+        service.register({
+          email: 'inv@x.com',
+          password: 'p',
+          name: 'Inv',
+          invitationToken: 'token',
+        } as any),
+      ).rejects.toThrow('Invitation has expired');
+      expect(mockUsersService.create).not.toHaveBeenCalled();
+    });
+
+    it('should not sign in an account whose invitation was used up meanwhile', async () => {
+      mockUsersService.findByEmail.mockResolvedValue(null);
+      mockUsersService.create.mockResolvedValue({ id: '3', email: 'inv@x.com' });
+      mockInvitationsService.verify.mockResolvedValue({
+        id: 'inv-1',
+        organizationId: 'org-9',
+        role: 'member',
+      });
+      mockInvitationsService.markAccepted.mockRejectedValue(
+        new BadRequestException('Invitation has already been used'),
+      );
+
+      await expect(
+        service.register({
+          email: 'inv@x.com',
+          password: 'p',
+          name: 'Inv',
+          invitationToken: 'token',
+        } as any),
+      ).rejects.toThrow('Invitation has already been used');
+      // Both ran in the transaction that the failure rolls back.
+      expect(mockDataSource.transaction).toHaveBeenCalledTimes(1);
+      expect(mockUsersService.create).toHaveBeenCalledWith(
+        expect.anything(),
+        'org-9',
+        'member',
+        mockManager,
+      );
+      expect(mockUsersService.updateRefreshToken).not.toHaveBeenCalled();
+    });
   });
 
   describe('refreshTokens', () => {
     it('should rotate tokens on valid refresh token', async () => {
-      mockJwtService.verify.mockReturnValue({ sub: '1' });
+      mockJwtService.verify.mockReturnValue({ sub: '1', organizationId: 'org-1' });
       const user = { id: '1', email: 'a@b.com', name: 'A', role: 'user', refreshToken: 'hashed' };
       mockUsersService.findOne.mockResolvedValue(user);
       jest.spyOn(bcrypt, 'compare').mockImplementation(() => Promise.resolve(true));
@@ -111,8 +274,21 @@ describe('AuthService', () => {
       );
     });
 
+    it('should throw ForbiddenException when the organization membership was revoked', async () => {
+      mockJwtService.verify.mockReturnValue({ sub: '1', organizationId: 'org-1' });
+      const user = { id: '1', email: 'a@b.com', name: 'A', role: 'user', refreshToken: 'hashed' };
+      mockUsersService.findOne.mockResolvedValue(user);
+      jest.spyOn(bcrypt, 'compare').mockImplementation(() => Promise.resolve(true));
+      mockOrganizationsService.findMembership.mockResolvedValue(null);
+
+      await expect(service.refreshTokens({ refreshToken: 'rt' } as any)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(mockJwtService.signAsync).not.toHaveBeenCalled();
+    });
+
     it('should throw ForbiddenException and remove refresh token on mismatch', async () => {
-      mockJwtService.verify.mockReturnValue({ sub: '1' });
+      mockJwtService.verify.mockReturnValue({ sub: '1', organizationId: 'org-1' });
       const user = { id: '1', email: 'a@b.com', name: 'A', role: 'user', refreshToken: 'hashed' };
       mockUsersService.findOne.mockResolvedValue(user);
       jest.spyOn(bcrypt, 'compare').mockImplementation(() => Promise.resolve(false));
@@ -2,6 +2,14 @@ import { ForbiddenException, Injectable, UnauthorizedException } from '@nestjs/c
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
 import * as bcrypt from 'bcrypt';
+import { DataSource, EntityManager } from 'typeorm';
+import { OrganizationInvitation } from '../organizations/entities/organization-invitation.entity';
+import { OrganizationRole } from '../organizations/enums/organization-role.enum';
+import { InvitationsService } from '../organizations/invitations.service';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { RolesService } from '../roles/roles.service';
+import { CreateUserDto } from '../users/dto/create-user.dto';
+import { User } from '../users/entities/user.entity';
 import { UsersService } from '../users/users.service';
 import { LoginDto } from './dto/login.dto';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
@@ -12,16 +20,26 @@ import {
   RegisterResponse,
 } from './interfaces/auth-responses.interface';
 
+interface NewAccount {
+  user: User;
+  organizationId: string;
+  organizationRole: OrganizationRole;
+}
+
 @Injectable()
 export class AuthService {
   constructor(
     private readonly configService: ConfigService,
     private readonly usersService: UsersService,
     private readonly jwtService: JwtService,
+    private readonly organizationsService: OrganizationsService,
+    private readonly invitationsService: InvitationsService,
+    private readonly rolesService: RolesService,
+    private readonly dataSource: DataSource,
   ) {}
 
   async login(loginDto: LoginDto): Promise<LoginResponse> {
-    const { email, password } = loginDto;
+    const { email, password, organizationId } = loginDto;
 
     const user = await this.usersService.findByEmail(email);
 
@@ -35,10 +53,23 @@ export class AuthService {
       throw new UnauthorizedException('Invalid credentials');
     }
 
+    const membership = organizationId
+      ? await this.organizationsService.findMembership(organizationId, user.id)
+      : await this.organizationsService.findDefaultMembership(user.id);
+
+    if (!membership) {
+      throw new UnauthorizedException(
+        organizationId
+          ? 'You are not a member of this organization'
+          : 'You do not belong to any organization',
+      );
+    }
+
     const payload = {
       sub: user.id,
       email: user.email,
       role: user.role,
+      organizationId: membership.organizationId,
     };
 
     const accessToken = await this.jwtService.signAsync(payload, {
@@ -60,6 +91,9 @@ export class AuthService {
         email: user.email,
         name: user.name,
         role: user.role,
+        organizationId: membership.organizationId,
+        organizationRole: membership.role,
+        permissions: await this.rolesService.findPermissionNames(user.role),
       },
     };
   }
@@ -71,9 +105,26 @@ export class AuthService {
       throw new UnauthorizedException('Email already exists');
     }
 
-    const user = await this.usersService.create(registerDto);
+    const { invitationToken, ...createUserDto } = registerDto;
+    // Checked before the account exists so a bad token leaves nothing behind.
+    const invitation = invitationToken
+      ? await this.invitationsService.verify(invitationToken, registerDto.email)
+      : null;
+
+    // The account only exists together with its membership, so an invitation
+    // used up meanwhile or a failure creating the workspace undoes it.
+    const { user, organizationId, organizationRole } = await this.dataSource.transaction(manager =>
+      invitation
+        ? this.createInvitedUser(createUserDto, invitation, manager)
+        : this.createUserWithWorkspace(createUserDto, manager),
+    );
 
-    const payload = { sub: user.id, email: user.email, role: user.role };
+    const payload = {
+      sub: user.id,
+      email: user.email,
+      role: user.role,
+      organizationId,
+    };
 
     const accessToken = await this.jwtService.signAsync(payload, {
       expiresIn: this.configService.get('JWT_EXPIRATION') || '15m',
@@ -92,19 +143,53 @@ export class AuthService {
         email: user.email,
         name: user.name,
         role: user.role,
+        organizationId,
+        organizationRole,
+        permissions: await this.rolesService.findPermissionNames(user.role),
       },
       access_token: accessToken,
       refresh_token: refreshToken,
     };
   }
 
+  private async createInvitedUser(
+    createUserDto: CreateUserDto,
+    invitation: OrganizationInvitation,
+    manager: EntityManager,
+  ): Promise<NewAccount> {
+    const user = await this.usersService.create(
+      createUserDto,
+      invitation.organizationId,
+      invitation.role,
+      manager,
+    );
+    await this.invitationsService.markAccepted(invitation.id, user.id, manager);
+    return { user, organizationId: invitation.organizationId, organizationRole: invitation.role };
+  }
+
+  private async createUserWithWorkspace(
+    createUserDto: CreateUserDto,
+    manager: EntityManager,
+  ): Promise<NewAccount> {
+    const user = await this.usersService.create(createUserDto, undefined, undefined, manager);
+    const organization = await this.organizationsService.create(
+      { name: `${user.name}'s workspace` },
+      user.id,
+      manager,
+    );
+    return { user, organizationId: organization.id, organizationRole: OrganizationRole.OWNER };
+  }
+
   async refreshTokens(dto: RefreshTokenDto): Promise<RefreshResponse> {
     const { refreshToken } = dto;
     try {
-      const decoded = this.jwtService.verify(refreshToken) as { sub: string };
+      const decoded = this.jwtService.verify(refreshToken) as {
+        sub: string;
+        organizationId?: string;
+      };
       const user = await this.usersService.findOne(decoded.sub);
 
-      if (!user || !user.refreshToken) {
+      if (!user || !user.refreshToken || !decoded.organizationId) {
         throw new ForbiddenException('Invalid refresh token');
       }
 
@@ -114,7 +199,21 @@ export class AuthService {
         throw new ForbiddenException('Invalid refresh token');
       }
 
-      const payload = { sub: user.id, email: user.email, role: user.role };
+      // Membership may have been revoked since the token was issued.
+      const membership = await this.organizationsService.findMembership(
+        decoded.organizationId,
+        user.id,
+      );
+      if (!membership) {
+        throw new ForbiddenException('Invalid refresh token');
+      }
+
+      const payload = {
+        sub: user.id,
+        email: user.email,
+        role: user.role,
+        organizationId: membership.organizationId,
+      };
 
       const newAccessToken = await this.jwtService.signAsync(payload, {
         expiresIn: this.configService.get('JWT_EXPIRATION') || '15m',
@@ -1,5 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+import { IsEmail, IsNotEmpty, IsOptional, IsString, IsUUID } from 'class-validator';
 
 export class LoginDto {
   @ApiProperty({ example: 'john.doe@example.com' })
@@ -11,4 +11,13 @@ export class LoginDto {
   @IsString()
   @IsNotEmpty()
   password: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    description: 'Organization to sign in to; defaults to the first one the user joined',
+  })
+  @IsUUID()
+  @IsOptional()
+  organizationId?: string;
 }
@@ -1,5 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsEmail, IsNotEmpty, IsString, MinLength } from 'class-validator';
+import { IsEmail, IsNotEmpty, IsOptional, IsString, MinLength } from 'class-validator';
 
 export class RegisterDto {
   @ApiProperty({ example: 'john.doe@example.com' })
@@ -17,4 +17,13 @@ export class RegisterDto {
   @IsNotEmpty()
   @MinLength(6)
   password: string;
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Invitation token; the account joins the inviting organization instead of getting its own workspace',
+  })
+  @IsString()
+  @IsOptional()
+  invitationToken?: string;
 }
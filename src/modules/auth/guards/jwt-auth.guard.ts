@@ -1,5 +1,13 @@
-import { Injectable } from '@nestjs/common';
+import { ExecutionContext, Injectable } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {}
+export class JwtAuthGuard extends AuthGuard('jwt') {
+  canActivate(context: ExecutionContext) {
+    // The global PermissionsGuard may already have authenticated the request.
+    if (context.switchToHttp().getRequest().user) {
+      return true;
+    }
+    return super.canActivate(context);
+  }
+}
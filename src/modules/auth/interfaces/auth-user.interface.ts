@@ -1,6 +1,14 @@
+import { OrganizationRole } from '../../organizations/enums/organization-role.enum';
+
 export interface AuthUser {
   id: string;
   email: string;
   name: string;
   role: string;
+  organizationId: string;
+  organizationRole: OrganizationRole;
+  /**
+   * Effective permissions granted by the user's role, loaded per request.
+   */
+  permissions: string[];
 }
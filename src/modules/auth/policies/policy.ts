@@ -0,0 +1,33 @@
+import { ForbiddenException } from '@nestjs/common';
+import { OrganizationRole } from '../../organizations/enums/organization-role.enum';
+import { Permission } from '../../roles/enums/permission.enum';
+import { AuthUser } from '../interfaces/auth-user.interface';
+
+export type PolicyAction = 'read' | 'update' | 'delete';
+
+/**
+ * Decides what an authenticated user may do with one loaded resource.
+ * Route permissions say whether someone may use an endpoint at all; policies
+ * say whether they may touch this particular record.
+ */
+export abstract class Policy<T> {
+  protected abstract readonly resourceName: string;
+
+  abstract can(actor: AuthUser, action: PolicyAction, resource: T): boolean;
+
+  authorize(actor: AuthUser, action: PolicyAction, resource: T): void {
+    if (!this.can(actor, action, resource)) {
+      throw new ForbiddenException(`You are not allowed to ${action} this ${this.resourceName}`);
+    }
+  }
+}
+
+export const hasPermission = (actor: AuthUser, permission: Permission): boolean =>
+  actor.permissions.includes(permission);
+
+/**
+ * Owners and admins of the organization the request is scoped to.
+ */
+export const isOrganizationAdmin = (actor: AuthUser): boolean =>
+  actor.organizationRole === OrganizationRole.OWNER ||
+  actor.organizationRole === OrganizationRole.ADMIN;
@@ -2,6 +2,8 @@ import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
+import { OrganizationsService } from '../../organizations/organizations.service';
+import { RolesService } from '../../roles/roles.service';
 import { UsersService } from '../../users/users.service';
 import { AuthUser } from '../interfaces/auth-user.interface';
 
@@ -10,6 +12,8 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
     private configService: ConfigService,
     private usersService: UsersService,
+    private organizationsService: OrganizationsService,
+    private rolesService: RolesService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
@@ -25,11 +29,22 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       throw new UnauthorizedException('User not found or inactive');
     }
 
+    const membership = payload.organizationId
+      ? await this.organizationsService.findMembership(payload.organizationId, user.id)
+      : null;
+
+    if (!membership) {
+      throw new UnauthorizedException('Organization membership not found');
+    }
+
     return {
       id: user.id,
       email: user.email,
       name: user.name,
       role: user.role,
+      organizationId: membership.organizationId,
+      organizationRole: membership.role,
+      permissions: await this.rolesService.findPermissionNames(user.role),
     };
   }
 }
@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsHexColor, IsNotEmpty, IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+
+export class CreateLabelDto {
+  @ApiProperty({ example: 'frontend' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  @Matches(/^[^,]+$/, { message: 'name must not contain commas' })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  name: string;
+
+  @ApiProperty({ example: '#1d76db', required: false })
+  @IsHexColor()
+  @IsOptional()
+  color?: string;
+}
@@ -0,0 +1,58 @@
+import { Authenticated, CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { CreateLabelDto } from './dto/create-label.dto';
+import { UpdateLabelDto } from './dto/update-label.dto';
+import { LabelsService } from './labels.service';
+
+@ApiTags('labels')
+@Controller('labels')
+@Authenticated()
+export class LabelsController {
+  constructor(private readonly labelsService: LabelsService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a label' })
+  create(@Body() createLabelDto: CreateLabelDto, @CurrentUser('id') userId: string) {
+    return this.labelsService.create(createLabelDto, userId);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List your labels' })
+  findAll(@CurrentUser('id') userId: string) {
+    return this.labelsService.findAll(userId);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Find a label by ID' })
+  findOne(@Param('id') id: string, @CurrentUser('id') userId: string) {
+    return this.labelsService.findOne(id, userId);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Rename or recolor a label' })
+  update(
+    @Param('id') id: string,
+    @Body() updateLabelDto: UpdateLabelDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    return this.labelsService.update(id, updateLabelDto, userId);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a label and detach it from all tasks' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string, @CurrentUser('id') userId: string): Promise<void> {
+    await this.labelsService.remove(id, userId);
+  }
+}
@@ -0,0 +1,114 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Label } from './entities/label.entity';
+import { LabelsService } from './labels.service';
+
+describe('LabelsService', () => {
+  let service: LabelsService;
+
+  const mockLabel = {
+    id: 'l1',
+    name: 'bug',
+    color: '#d73a4a',
+    ownerId: 'u1',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const mockRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    exists: jest.fn(),
+    merge: jest.fn((entity, data) => Object.assign(entity, data)),
+    remove: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [LabelsService, { provide: getRepositoryToken(Label), useValue: mockRepository }],
+    }).compile();
+
+    service = module.get<LabelsService>(LabelsService);
+  });
+
+  describe('create', () => {
+    it('should create a label for the owner', async () => {
+      mockRepository.exists.mockResolvedValue(false);
+      mockRepository.create.mockReturnValue(mockLabel);
+      mockRepository.save.mockResolvedValue(mockLabel);
+
+      const result = await service.create({ name: 'bug', color: '#d73a4a' }, 'u1');
+
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        name: 'bug',
+        color: '#d73a4a',
+        ownerId: 'u1',
+      });
+      expect(result).toEqual(mockLabel);
+    });
+
+    it('should reject a duplicate name for the same owner', async () => {
+      mockRepository.exists.mockResolvedValue(true);
+
+      await expect(service.create({ name: 'bug' }, 'u1')).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('findAll', () => {
+    it('should only list labels of the owner', async () => {
+      mockRepository.find.mockResolvedValue([mockLabel]);
+
+      await service.findAll('u1');
+
+      expect(mockRepository.find).toHaveBeenCalledWith({
+        where: { ownerId: 'u1' },
+        order: { name: 'ASC' },
+      });
+    });
+  });
+
+  describe('findOne', () => {
+    it('should throw NotFoundException for a label of another owner', async () => {
+      mockRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.findOne('l1', 'u2')).rejects.toThrow(NotFoundException);
+      expect(mockRepository.findOne).toHaveBeenCalledWith({ where: { id: 'l1', ownerId: 'u2' } });
+    });
+  });
+
+  describe('update', () => {
+    it('should rename a label', async () => {
+      mockRepository.findOne.mockResolvedValue({ ...mockLabel });
+      mockRepository.exists.mockResolvedValue(false);
+      mockRepository.save.mockImplementation(async label => label);
+
+      const result = await service.update('l1', { name: 'defect' }, 'u1');
+
+      expect(result.name).toBe('defect');
+    });
+
+    it('should reject renaming to an existing name', async () => {
+      mockRepository.findOne.mockResolvedValue({ ...mockLabel });
+      mockRepository.exists.mockResolvedValue(true);
+
+      await expect(service.update('l1', { name: 'frontend' }, 'u1')).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('remove', () => {
+    it('should remove the label', async () => {
+      mockRepository.findOne.mockResolvedValue(mockLabel);
+
+      await service.remove('l1', 'u1');
+
+      expect(mockRepository.remove).toHaveBeenCalledWith(mockLabel);
+    });
+  });
+});
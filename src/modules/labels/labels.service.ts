@@ -0,0 +1,59 @@
+import { ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { CreateLabelDto } from './dto/create-label.dto';
+import { UpdateLabelDto } from './dto/update-label.dto';
+import { Label } from './entities/label.entity';
+
+@Injectable()
+export class LabelsService {
+  constructor(
+    @InjectRepository(Label)
+    private labelsRepository: Repository<Label>,
+  ) {}
+
+  async create(createLabelDto: CreateLabelDto, ownerId: string): Promise<Label> {
+    await this.assertNameAvailable(createLabelDto.name, ownerId);
+
+    const label = this.labelsRepository.create({ ...createLabelDto, ownerId });
+    return this.labelsRepository.save(label);
+  }
+
+  findAll(ownerId: string): Promise<Label[]> {
+    return this.labelsRepository.find({
+      where: { ownerId },
+      order: { name: 'ASC' },
+    });
+  }
+
+  async findOne(id: string, ownerId: string): Promise<Label> {
+    const label = await this.labelsRepository.findOne({ where: { id, ownerId } });
+    if (!label) {
+      throw new NotFoundException(`Label with ID ${id} not found`);
+    }
+    return label;
+  }
+
+  async update(id: string, updateLabelDto: UpdateLabelDto, ownerId: string): Promise<Label> {
+    const label = await this.findOne(id, ownerId);
+
+    if (updateLabelDto.name && updateLabelDto.name !== label.name) {
+      await this.assertNameAvailable(updateLabelDto.name, ownerId);
+    }
+
+    this.labelsRepository.merge(label, updateLabelDto);
+    return this.labelsRepository.save(label);
+  }
+
+  async remove(id: string, ownerId: string): Promise<void> {
+    const label = await this.findOne(id, ownerId);
+    await this.labelsRepository.remove(label);
+  }
+
+  private async assertNameAvailable(name: string, ownerId: string): Promise<void> {
+    const existing = await this.labelsRepository.exists({ where: { name, ownerId } });
+    if (existing) {
+      throw new ConflictException(`Label "${name}" already exists`);
+    }
+  }
+}
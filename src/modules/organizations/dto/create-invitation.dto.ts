@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsEmail, IsIn, IsNotEmpty, IsOptional } from 'class-validator';
+import { OrganizationRole } from '../enums/organization-role.enum';
+
+export class CreateInvitationDto {
+  @ApiProperty({ example: 'jane.doe@example.com' })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim().toLowerCase() : value))
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
+
+  @ApiProperty({
+    enum: [OrganizationRole.ADMIN, OrganizationRole.MEMBER],
+    default: OrganizationRole.MEMBER,
+    required: false,
+  })
+  @IsIn([OrganizationRole.ADMIN, OrganizationRole.MEMBER])
+  @IsOptional()
+  role?: OrganizationRole.ADMIN | OrganizationRole.MEMBER;
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export class InvitationFilterDto {
+  @ApiProperty({
+    required: false,
+    enum: ['pending', 'accepted', 'revoked', 'expired'],
+    description: 'Only return invitations in the given state',
+  })
+  @IsIn(['pending', 'accepted', 'revoked', 'expired'])
+  @IsOptional()
+  status?: InvitationStatus;
+}
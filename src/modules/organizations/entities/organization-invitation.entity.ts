@@ -0,0 +1,59 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import type { User } from '../../users/entities/user.entity';
+import { OrganizationRole } from '../enums/organization-role.enum';
+import { Organization } from './organization.entity';
+
+@Entity('organization_invitations')
+@Index(['organizationId', 'email'])
+export class OrganizationInvitation {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization: Organization;
+
+  @Column()
+  email: string;
+
+  @Column({
+    type: 'enum',
+    enum: OrganizationRole,
+    default: OrganizationRole.MEMBER,
+  })
+  role: OrganizationRole;
+
+  @Column({ name: 'invited_by_id', type: 'uuid' })
+  invitedById: string;
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  @ManyToOne(() => require('../../users/entities/user.entity').User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'invited_by_id' })
+  invitedBy: User;
+
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ name: 'accepted_at', type: 'timestamp', nullable: true })
+  acceptedAt: Date | null;
+
+  @Column({ name: 'accepted_by_id', type: 'uuid', nullable: true })
+  acceptedById: string | null;
+
+  @Column({ name: 'revoked_at', type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,34 @@
+import { CreateDateColumn, Column, Entity, JoinColumn, ManyToOne, PrimaryColumn } from 'typeorm';
+import type { User } from '../../users/entities/user.entity';
+import { OrganizationRole } from '../enums/organization-role.enum';
+import { Organization } from './organization.entity';
+
+@Entity('organization_memberships')
+export class OrganizationMembership {
+  @PrimaryColumn({ name: 'organization_id', type: 'uuid' })
+  organizationId: string;
+
+  @PrimaryColumn({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @Column({
+    type: 'enum',
+    enum: OrganizationRole,
+    default: OrganizationRole.MEMBER,
+  })
+  role: OrganizationRole;
+
+  @ManyToOne(() => Organization, organization => organization.memberships, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'organization_id' })
+  organization: Organization;
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  @ManyToOne(() => require('../../users/entities/user.entity').User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
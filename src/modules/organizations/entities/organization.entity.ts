@@ -0,0 +1,31 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import type { OrganizationMembership } from './organization-membership.entity';
+
+@Entity('organizations')
+export class Organization {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  name: string;
+
+  @OneToMany(
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    () => require('./organization-membership.entity').OrganizationMembership,
+    (membership: OrganizationMembership) => membership.organization,
+  )
+  memberships: OrganizationMembership[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,5 @@
+export enum OrganizationRole {
+  OWNER = 'owner',
+  ADMIN = 'admin',
+  MEMBER = 'member',
+}
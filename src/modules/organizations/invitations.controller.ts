@@ -0,0 +1,54 @@
+import { Authenticated, CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AcceptInvitationDto } from './dto/accept-invitation.dto';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { InvitationFilterDto } from './dto/invitation-filter.dto';
+import { InvitationsService } from './invitations.service';
+
+@ApiTags('invitations')
+@Controller('invitations')
+@Authenticated()
+export class InvitationsController {
+  constructor(private readonly invitationsService: InvitationsService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Invite someone to the current organization; the response holds the token to share',
+  })
+  create(@Body() createInvitationDto: CreateInvitationDto, @CurrentUser() user: AuthUser) {
+    return this.invitationsService.create(createInvitationDto, user.organizationId, user.id);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List invitations of the current organization' })
+  findAll(@Query() filterDto: InvitationFilterDto, @CurrentUser() user: AuthUser) {
+    return this.invitationsService.findAll(user.organizationId, user.id, filterDto);
+  }
+
+  @Post('accept')
+  @ApiOperation({
+    summary: 'Join an organization with an invitation token; sign in with its ID to switch to it',
+  })
+  accept(@Body() acceptInvitationDto: AcceptInvitationDto, @CurrentUser() user: AuthUser) {
+    return this.invitationsService.accept(acceptInvitationDto.token, user.id, user.email);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Revoke a pending invitation' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revoke(@Param('id') id: string, @CurrentUser() user: AuthUser): Promise<void> {
+    await this.invitationsService.revoke(id, user.organizationId, user.id);
+  }
+}
@@ -0,0 +1,268 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService, TokenExpiredError } from '@nestjs/jwt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { OrganizationInvitation } from './entities/organization-invitation.entity';
+import { OrganizationRole } from './enums/organization-role.enum';
+import { InvitationsService } from './invitations.service';
+import { OrganizationsService } from './organizations.service';
+
+describe('InvitationsService', () => {
+  let service: InvitationsService;
+
+  const mockManager = {
+    exists: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockInvitationsRepository = {
+    create: jest.fn(data => data),
+    save: jest.fn(async data => ({ createdAt: new Date(), ...data })),
+    exists: jest.fn(),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+    manager: {
+      ...mockManager,
+      transaction: jest.fn(cb => cb(mockManager)),
+    },
+  };
+
+  const mockOrganizationsService = {
+    findMembership: jest.fn(),
+    addMember: jest.fn(),
+  };
+
+  const mockJwtService = {
+    signAsync: jest.fn(),
+    decode: jest.fn(),
+    verifyAsync: jest.fn(),
+  };
+
+  const pendingInvitation = () => ({
+    id: 'inv-1',
+    organizationId: 'org-1',
+    email: 'new@example.com',
+    role: OrganizationRole.MEMBER,
+    expiresAt: new Date(Date.now() + 60_000),
+    acceptedAt: null,
+    revokedAt: null,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InvitationsService,
+        {
+          provide: getRepositoryToken(OrganizationInvitation),
+          useValue: mockInvitationsRepository,
+        },
+        { provide: OrganizationsService, useValue: mockOrganizationsService },
+        { provide: JwtService, useValue: mockJwtService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<InvitationsService>(InvitationsService);
+    mockOrganizationsService.findMembership.mockResolvedValue({ role: OrganizationRole.OWNER });
+  });
+
+  describe('create', () => {
+    it('should sign a token and store the expiry it carries', async () => {
+      mockInvitationsRepository.manager.exists.mockResolvedValue(false);
+      mockInvitationsRepository.exists.mockResolvedValue(false);
+      mockJwtService.signAsync.mockResolvedValue('signed');
+      mockJwtService.decode.mockReturnValue({ exp: 2_000_000_000 });
+
+      const result = await service.create(
+        { email: 'New@Example.com', role: OrganizationRole.ADMIN },
+        'org-1',
+        'u1',
+      );
+
+      expect(result.token).toBe('signed');
+      expect(result).toMatchObject({
+        organizationId: 'org-1',
+        email: 'new@example.com',
+        role: OrganizationRole.ADMIN,
+        invitedById: 'u1',
+        expiresAt: new Date(2_000_000_000 * 1000),
+      });
+      expect(mockJwtService.signAsync).toHaveBeenCalledWith(
+        { sub: result.id, organizationId: 'org-1', type: 'invitation' },
+        { expiresIn: '7d' },
+      );
+    });
+
+    it('should reject plain members', async () => {
+      mockOrganizationsService.findMembership.mockResolvedValue({ role: OrganizationRole.MEMBER });
+
+      await expect(service.create({ email: 'a@b.com' }, 'org-1', 'u1')).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should reject people who already belong to the organization', async () => {
+      mockInvitationsRepository.manager.exists.mockResolvedValue(true);
+
+      await expect(service.create({ email: 'a@b.com' }, 'org-1', 'u1')).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('revoke', () => {
+    it('should throw NotFoundException for an invitation of another organization', async () => {
+      mockInvitationsRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.revoke('inv-1', 'org-2', 'u1')).rejects.toThrow(NotFoundException);
+    });
+
+    it('should refuse to revoke an accepted invitation', async () => {
+      mockInvitationsRepository.findOne.mockResolvedValue({
+        ...pendingInvitation(),
+        acceptedAt: new Date(),
+      });
+
+      await expect(service.revoke('inv-1', 'org-1', 'u1')).rejects.toThrow(BadRequestException);
+    });
+
+    it('should stamp revokedAt on a pending invitation', async () => {
+      mockInvitationsRepository.findOne.mockResolvedValue(pendingInvitation());
+
+      await service.revoke('inv-1', 'org-1', 'u1');
+
+      expect(mockInvitationsRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ revokedAt: expect.any(Date) }),
+      );
+    });
+  });
+
+  describe('verify', () => {
+    beforeEach(() => {
+      mockJwtService.verifyAsync.mockResolvedValue({
+        sub: 'inv-1',
+        organizationId: 'org-1',
+        type: 'invitation',
+      });
+    });
+
+    it('should return a pending invitation for the invited email', async () => {
+      mockInvitationsRepository.findOne.mockResolvedValue(pendingInvitation());
+
+      await expect(service.verify('token', 'NEW@example.com')).resolves.toMatchObject({
+        id: 'inv-1',
+      });
+    });
+
+    it('should report an expired token', async () => {
+      mockJwtService.verifyAsync.mockRejectedValue(
+        new TokenExpiredError('jwt expired', new Date()),
+      );
+
+      await expect(service.verify('token', 'new@example.com')).rejects.toThrow(
+        'Invitation has expired',
+      );
+    });
+
+    it('should report a tampered token as invalid', async () => {
+      mockJwtService.verifyAsync.mockRejectedValue(new Error('invalid signature'));
+
+      await expect(service.verify('token', 'new@example.com')).rejects.toThrow(
+        'Invalid invitation token',
+      );
+    });
+
+    it('should reject access tokens used as invitations', async () => {
+      mockJwtService.verifyAsync.mockResolvedValue({ sub: 'u1', organizationId: 'org-1' });
+
+      await expect(service.verify('token', 'new@example.com')).rejects.toThrow(
+        'Invalid invitation token',
+      );
+      expect(mockInvitationsRepository.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should report a reused token', async () => {
+      mockInvitationsRepository.findOne.mockResolvedValue({
+        ...pendingInvitation(),
+        acceptedAt: new Date(),
+      });
+
+      await expect(service.verify('token', 'new@example.com')).rejects.toThrow(
+        'Invitation has already been used',
+      );
+    });
+
+    it('should report a revoked invitation', async () => {
+      mockInvitationsRepository.findOne.mockResolvedValue({
+        ...pendingInvitation(),
+        revokedAt: new Date(),
+      });
+
+      await expect(service.verify('token', 'new@example.com')).rejects.toThrow(
+        'Invitation has been revoked',
+      );
+    });
+
+    it('should reject a different email address', async () => {
+      mockInvitationsRepository.findOne.mockResolvedValue(pendingInvitation());
+
+      await expect(service.verify('token', 'other@example.com')).rejects.toThrow(
+        'Invitation was issued for a different email address',
+      );
+    });
+  });
+
+  describe('markAccepted', () => {
+    it('should fail when another request used the token first', async () => {
+      mockManager.update.mockResolvedValue({ affected: 0 });
+
+      await expect(service.markAccepted('inv-1', 'u2')).rejects.toThrow(
+        'Invitation has already been used',
+      );
+    });
+  });
+
+  describe('accept', () => {
+    beforeEach(() => {
+      mockJwtService.verifyAsync.mockResolvedValue({
+        sub: 'inv-1',
+        organizationId: 'org-1',
+        type: 'invitation',
+      });
+      mockInvitationsRepository.findOne.mockResolvedValue(pendingInvitation());
+    });
+
+    it('should add the user to the organization with the invited role', async () => {
+      mockOrganizationsService.findMembership.mockResolvedValue(null);
+      mockManager.update.mockResolvedValue({ affected: 1 });
+
+      const result = await service.accept('token', 'u2', 'new@example.com');
+
+      expect(result).toEqual({ organizationId: 'org-1', role: OrganizationRole.MEMBER });
+      expect(mockOrganizationsService.addMember).toHaveBeenCalledWith(
+        'org-1',
+        'u2',
+        OrganizationRole.MEMBER,
+        mockManager,
+      );
+    });
+
+    it('should reject users who are already members', async () => {
+      mockOrganizationsService.findMembership.mockResolvedValue({ role: OrganizationRole.MEMBER });
+
+      await expect(service.accept('token', 'u2', 'new@example.com')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockOrganizationsService.addMember).not.toHaveBeenCalled();
+    });
+  });
+});
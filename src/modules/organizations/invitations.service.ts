@@ -0,0 +1,250 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService, TokenExpiredError } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { randomUUID } from 'crypto';
+import {
+  EntityManager,
+  FindOptionsWhere,
+  IsNull,
+  LessThanOrEqual,
+  MoreThan,
+  Not,
+  Repository,
+} from 'typeorm';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { InvitationFilterDto } from './dto/invitation-filter.dto';
+import { OrganizationInvitation } from './entities/organization-invitation.entity';
+import { OrganizationMembership } from './entities/organization-membership.entity';
+import { OrganizationRole } from './enums/organization-role.enum';
+import { OrganizationsService } from './organizations.service';
+
+interface InvitationTokenPayload {
+  sub: string;
+  organizationId: string;
+  type: 'invitation';
+}
+
+@Injectable()
+export class InvitationsService {
+  constructor(
+    @InjectRepository(OrganizationInvitation)
+    private invitationsRepository: Repository<OrganizationInvitation>,
+    private organizationsService: OrganizationsService,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Creates an invitation and returns it with its signed token. The token is
+   * only ever handed out here; it is not stored.
+   */
+  async create(
+    createInvitationDto: CreateInvitationDto,
+    organizationId: string,
+    inviterId: string,
+  ): Promise<OrganizationInvitation & { token: string }> {
+    await this.assertCanManage(organizationId, inviterId);
+    const email = createInvitationDto.email.toLowerCase();
+
+    const alreadyMember = await this.invitationsRepository.manager.exists(OrganizationMembership, {
+      where: { organizationId, user: { email } },
+    });
+    if (alreadyMember) {
+      throw new ConflictException(`${email} is already a member of this organization`);
+    }
+
+    const pending = await this.invitationsRepository.exists({
+      where: { organizationId, email, ...this.statusCondition('pending') },
+    });
+    if (pending) {
+      throw new ConflictException(`A pending invitation for ${email} already exists`);
+    }
+
+    const id = randomUUID();
+    const payload: InvitationTokenPayload = { sub: id, organizationId, type: 'invitation' };
+    const token = await this.jwtService.signAsync(payload, {
+      expiresIn: this.configService.get('INVITATION_EXPIRATION') || '7d',
+    });
+    const { exp } = this.jwtService.decode(token) as { exp: number };
+
+    const invitation = await this.invitationsRepository.save(
+      this.invitationsRepository.create({
+        id,
+        organizationId,
+        email,
+        role: createInvitationDto.role ?? OrganizationRole.MEMBER,
+        invitedById: inviterId,
+        expiresAt: new Date(exp * 1000),
+      }),
+    );
+
+    return { ...invitation, token };
+  }
+
+  async findAll(
+    organizationId: string,
+    userId: string,
+    filterDto: InvitationFilterDto,
+  ): Promise<OrganizationInvitation[]> {
+    await this.assertCanManage(organizationId, userId);
+
+    return this.invitationsRepository.find({
+      where: {
+        organizationId,
+        ...(filterDto.status ? this.statusCondition(filterDto.status) : {}),
+      },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async revoke(id: string, organizationId: string, userId: string): Promise<void> {
+    await this.assertCanManage(organizationId, userId);
+
+    const invitation = await this.invitationsRepository.findOne({
+      where: { id, organizationId },
+    });
+    if (!invitation) {
+      throw new NotFoundException(`Invitation with ID ${id} not found`);
+    }
+    if (invitation.acceptedAt) {
+      throw new BadRequestException('Invitation has already been used');
+    }
+    if (invitation.revokedAt) {
+      return;
+    }
+
+    invitation.revokedAt = new Date();
+    await this.invitationsRepository.save(invitation);
+  }
+
+  /**
+   * Resolves a token to an invitation that can still be accepted by the given
+   * email address, or explains why it cannot.
+   */
+  async verify(token: string, email: string): Promise<OrganizationInvitation> {
+    let payload: InvitationTokenPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<InvitationTokenPayload>(token);
+    } catch (error) {
+      if (error instanceof TokenExpiredError) {
+        throw new BadRequestException('Invitation has expired');
+      }
+      throw new BadRequestException('Invalid invitation token');
+    }
+
+    const invitation =
+      payload.type === 'invitation'
+        ? await this.invitationsRepository.findOne({
+            where: { id: payload.sub, organizationId: payload.organizationId },
+          })
+        : null;
+
+    if (!invitation) {
+      throw new BadRequestException('Invalid invitation token');
+    }
+    if (invitation.revokedAt) {
+      throw new BadRequestException('Invitation has been revoked');
+    }
+    if (invitation.acceptedAt) {
+      throw new BadRequestException('Invitation has already been used');
+    }
+    if (invitation.expiresAt <= new Date()) {
+      throw new BadRequestException('Invitation has expired');
+    }
+    if (invitation.email !== email.toLowerCase()) {
+      throw new BadRequestException('Invitation was issued for a different email address');
+    }
+
+    return invitation;
+  }
+
+  /**
+   * Marks the invitation as used. The conditional update makes a token
+   * single-use even when two requests race for it.
+   */
+  async markAccepted(
+    invitationId: string,
+    userId: string,
+    manager: EntityManager = this.invitationsRepository.manager,
+  ): Promise<void> {
+    const result = await manager.update(
+      OrganizationInvitation,
+      { id: invitationId, acceptedAt: IsNull(), revokedAt: IsNull() },
+      { acceptedAt: new Date(), acceptedById: userId },
+    );
+    if (!result.affected) {
+      throw new BadRequestException('Invitation has already been used');
+    }
+  }
+
+  /**
+   * Accept flow for people who already have an account.
+   */
+  async accept(
+    token: string,
+    userId: string,
+    email: string,
+  ): Promise<{ organizationId: string; role: OrganizationRole }> {
+    const invitation = await this.verify(token, email);
+
+    const existing = await this.organizationsService.findMembership(
+      invitation.organizationId,
+      userId,
+    );
+    if (existing) {
+      throw new ConflictException('You are already a member of this organization');
+    }
+
+    await this.invitationsRepository.manager.transaction(async manager => {
+      const result = await manager.update(
+        OrganizationInvitation,
+        { id: invitation.id, acceptedAt: IsNull(), revokedAt: IsNull() },
+        { acceptedAt: new Date(), acceptedById: userId },
+      );
+      if (!result.affected) {
+        throw new BadRequestException('Invitation has already been used');
+      }
+      await this.organizationsService.addMember(
+        invitation.organizationId,
+        userId,
+        invitation.role,
+        manager,
+      );
+    });
+
+    return { organizationId: invitation.organizationId, role: invitation.role };
+  }
+
+  private statusCondition(
+    status: NonNullable<InvitationFilterDto['status']>,
+  ): FindOptionsWhere<OrganizationInvitation> {
+    const now = new Date();
+    switch (status) {
+      case 'accepted':
+        return { acceptedAt: Not(IsNull()) };
+      case 'revoked':
+        return { revokedAt: Not(IsNull()) };
+      case 'expired':
+        return { acceptedAt: IsNull(), revokedAt: IsNull(), expiresAt: LessThanOrEqual(now) };
+      case 'pending':
+        return { acceptedAt: IsNull(), revokedAt: IsNull(), expiresAt: MoreThan(now) };
+    }
+  }
+
+  private async assertCanManage(organizationId: string, userId: string): Promise<void> {
+    const membership = await this.organizationsService.findMembership(organizationId, userId);
+    if (
+      !membership ||
+      ![OrganizationRole.OWNER, OrganizationRole.ADMIN].includes(membership.role)
+    ) {
+      throw new ForbiddenException('Only organization owners and admins can manage invitations');
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { Authenticated, CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { Body, Controller, Get, Post } from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { CreateOrganizationDto } from './dto/create-organization.dto';
+import { OrganizationsService } from './organizations.service';
+
+@ApiTags('organizations')
+@Controller('organizations')
+@Authenticated()
+export class OrganizationsController {
+  constructor(private readonly organizationsService: OrganizationsService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create an organization owned by you; sign in with its ID to switch to it',
+  })
+  create(@Body() createOrganizationDto: CreateOrganizationDto, @CurrentUser('id') userId: string) {
+    return this.organizationsService.create(createOrganizationDto, userId);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List the organizations you belong to' })
+  async findAll(@CurrentUser('id') userId: string) {
+    const memberships = await this.organizationsService.findForUser(userId);
+    return memberships.map(membership => ({ ...membership.organization, role: membership.role }));
+  }
+
+  @Get('current')
+  @ApiOperation({ summary: 'Get the organization of the current session' })
+  findCurrent(@CurrentUser('organizationId') organizationId: string) {
+    return this.organizationsService.findOne(organizationId);
+  }
+
+  @Get('current/members')
+  @ApiOperation({ summary: 'List the members of the current organization' })
+  findMembers(@CurrentUser('organizationId') organizationId: string) {
+    return this.organizationsService.findMembers(organizationId);
+  }
+}
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OrganizationInvitation } from './entities/organization-invitation.entity';
+import { OrganizationMembership } from './entities/organization-membership.entity';
+import { Organization } from './entities/organization.entity';
+import { InvitationsController } from './invitations.controller';
+import { InvitationsService } from './invitations.service';
+import { OrganizationsController } from './organizations.controller';
+import { OrganizationsService } from './organizations.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Organization, OrganizationMembership, OrganizationInvitation]),
+    JwtModule.registerAsync({
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        secret: configService.get('JWT_SECRET'),
+      }),
+    }),
+  ],
+  controllers: [OrganizationsController, InvitationsController],
+  providers: [OrganizationsService, InvitationsService],
+  exports: [OrganizationsService, InvitationsService],
+})
+export class OrganizationsModule {}
@@ -0,0 +1,82 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { OrganizationMembership } from './entities/organization-membership.entity';
+import { Organization } from './entities/organization.entity';
+import { OrganizationRole } from './enums/organization-role.enum';
+import { OrganizationsService } from './organizations.service';
+
+describe('OrganizationsService', () => {
+  let service: OrganizationsService;
+
+  const mockManager = {
+    create: jest.fn((_, data) => data),
+    save: jest.fn(async (entity, data) =>
+      entity === Organization ? { id: 'org-1', ...data } : data,
+    ),
+  };
+
+  const mockOrganizationsRepository = {
+    findOne: jest.fn(),
+    manager: {
+      transaction: jest.fn(cb => cb(mockManager)),
+    },
+  };
+
+  const mockMembershipsRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    manager: mockManager,
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrganizationsService,
+        { provide: getRepositoryToken(Organization), useValue: mockOrganizationsRepository },
+        {
+          provide: getRepositoryToken(OrganizationMembership),
+          useValue: mockMembershipsRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrganizationsService>(OrganizationsService);
+  });
+
+  describe('create', () => {
+    it('should make the creator the owner of the new organization', async () => {
+      const result = await service.create({ name: 'Acme' }, 'u1');
+
+      expect(result).toEqual({ id: 'org-1', name: 'Acme' });
+      expect(mockManager.save).toHaveBeenCalledWith(OrganizationMembership, {
+        organizationId: 'org-1',
+        userId: 'u1',
+        role: OrganizationRole.OWNER,
+      });
+    });
+  });
+
+  describe('findOne', () => {
+    it('should throw NotFoundException for an unknown organization', async () => {
+      mockOrganizationsRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.findOne('missing')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('findDefaultMembership', () => {
+    it('should pick the organization the user joined first', async () => {
+      mockMembershipsRepository.findOne.mockResolvedValue({ organizationId: 'org-1' });
+
+      await service.findDefaultMembership('u1');
+
+      expect(mockMembershipsRepository.findOne).toHaveBeenCalledWith({
+        where: { userId: 'u1' },
+        order: { createdAt: 'ASC' },
+      });
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { CreateOrganizationDto } from './dto/create-organization.dto';
+import { OrganizationMembership } from './entities/organization-membership.entity';
+import { Organization } from './entities/organization.entity';
+import { OrganizationRole } from './enums/organization-role.enum';
+
+@Injectable()
+export class OrganizationsService {
+  constructor(
+    @InjectRepository(Organization)
+    private organizationsRepository: Repository<Organization>,
+    @InjectRepository(OrganizationMembership)
+    private membershipsRepository: Repository<OrganizationMembership>,
+  ) {}
+
+  /**
+   * Creates an organization and makes the given user its owner.
+   */
+  create(
+    createOrganizationDto: CreateOrganizationDto,
+    ownerId: string,
+    manager: EntityManager = this.organizationsRepository.manager,
+  ): Promise<Organization> {
+    return manager.transaction(async transactionManager => {
+      const organization = await transactionManager.save(
+        Organization,
+        transactionManager.create(Organization, createOrganizationDto),
+      );
+      await this.addMember(organization.id, ownerId, OrganizationRole.OWNER, transactionManager);
+      return organization;
+    });
+  }
+
+  async findOne(id: string): Promise<Organization> {
+    const organization = await this.organizationsRepository.findOne({ where: { id } });
+    if (!organization) {
+      throw new NotFoundException(`Organization with ID ${id} not found`);
+    }
+    return organization;
+  }
+
+  findForUser(userId: string): Promise<OrganizationMembership[]> {
+    return this.membershipsRepository.find({
+      where: { userId },
+      relations: ['organization'],
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  findMembers(organizationId: string): Promise<OrganizationMembership[]> {
+    return this.membershipsRepository
+      .createQueryBuilder('membership')
+      .innerJoin('membership.user', 'user')
+      .addSelect(['user.id', 'user.name', 'user.email'])
+      .where('membership.organizationId = :organizationId', { organizationId })
+      .orderBy('membership.createdAt', 'ASC')
+      .getMany();
+  }
+
+  findMembership(organizationId: string, userId: string): Promise<OrganizationMembership | null> {
+    return this.membershipsRepository.findOne({ where: { organizationId, userId } });
+  }
+
+  /**
+   * The organization a user signs in to when none is requested: the one they
+   * joined first.
+   */
+  findDefaultMembership(userId: string): Promise<OrganizationMembership | null> {
+    return this.membershipsRepository.findOne({
+      where: { userId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  addMember(
+    organizationId: string,
+    userId: string,
+    role: OrganizationRole = OrganizationRole.MEMBER,
+    manager: EntityManager = this.membershipsRepository.manager,
+  ): Promise<OrganizationMembership> {
+    return manager.save(
+      OrganizationMembership,
+      manager.create(OrganizationMembership, { organizationId, userId, role }),
+    );
+  }
+}
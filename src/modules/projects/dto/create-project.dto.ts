@@ -0,0 +1,26 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsNotEmpty, IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+
+export class CreateProjectDto {
+  @ApiProperty({ example: 'Website relaunch' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    example: 'WEB',
+    description: 'Short unique key: 2-10 uppercase letters or digits, starting with a letter',
+  })
+  @Transform(({ value }) => (typeof value === 'string' ? value.toUpperCase() : value))
+  @Matches(/^[A-Z][A-Z0-9]{1,9}$/, {
+    message: 'key must be 2-10 uppercase letters or digits and start with a letter',
+  })
+  key: string;
+
+  @ApiProperty({ example: 'Everything needed for the new marketing site', required: false })
+  @IsString()
+  @IsOptional()
+  description?: string;
+}
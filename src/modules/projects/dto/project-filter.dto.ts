@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class ProjectFilterDto {
+  @ApiProperty({
+    required: false,
+    default: false,
+    description: 'Include archived projects',
+  })
+  @IsBoolean()
+  @IsOptional()
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  includeArchived?: boolean;
+}
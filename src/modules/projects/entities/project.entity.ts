@@ -0,0 +1,52 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Unique,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Organization } from '../../organizations/entities/organization.entity';
+import type { User } from '../../users/entities/user.entity';
+
+@Entity('projects')
+@Unique('uq_projects_organization_key', ['organizationId', 'key'])
+export class Project {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  name: string;
+
+  @Column({ length: 10 })
+  key: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  @Column({ default: false })
+  archived: boolean;
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization: Organization;
+
+  @Column({ name: 'owner_id' })
+  ownerId: string;
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  @ManyToOne(() => require('../../users/entities/user.entity').User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'owner_id' })
+  owner: User;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
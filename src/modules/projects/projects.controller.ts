@@ -0,0 +1,89 @@
+import { Authenticated, CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { TaskFilterDto } from '@modules/tasks/dto/task-filter.dto';
+import { TasksService } from '@modules/tasks/tasks.service';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { CreateProjectDto } from './dto/create-project.dto';
+import { ProjectFilterDto } from './dto/project-filter.dto';
+import { UpdateProjectDto } from './dto/update-project.dto';
+import { ProjectsService } from './projects.service';
+
+@ApiTags('projects')
+@Controller('projects')
+@Authenticated()
+export class ProjectsController {
+  constructor(
+    private readonly projectsService: ProjectsService,
+    private readonly tasksService: TasksService,
+  ) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a project' })
+  create(@Body() createProjectDto: CreateProjectDto, @CurrentUser() user: AuthUser) {
+    return this.projectsService.create(createProjectDto, user.id, user.organizationId);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List your projects' })
+  findAll(@Query() filterDto: ProjectFilterDto, @CurrentUser() user: AuthUser) {
+    return this.projectsService.findAll(user.id, user.organizationId, filterDto);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Find a project by ID' })
+  findOne(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.projectsService.findOne(id, user.id, user.organizationId);
+  }
+
+  @Get(':id/tasks')
+  @ApiOperation({ summary: 'List the tasks of a project, archived or not' })
+  async findTasks(
+    @Param('id') id: string,
+    @Query() filterDto: TaskFilterDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    await this.projectsService.findOne(id, user.id, user.organizationId);
+    return this.tasksService.findAll({ ...filterDto, projectId: id }, user);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a project' })
+  update(
+    @Param('id') id: string,
+    @Body() updateProjectDto: UpdateProjectDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.projectsService.update(id, updateProjectDto, user.id, user.organizationId);
+  }
+
+  @Post(':id/archive')
+  @ApiOperation({ summary: 'Archive a project and hide its tasks from default listings' })
+  archive(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.projectsService.setArchived(id, true, user.id, user.organizationId);
+  }
+
+  @Post(':id/unarchive')
+  @ApiOperation({ summary: 'Restore an archived project' })
+  unarchive(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.projectsService.setArchived(id, false, user.id, user.organizationId);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a project; its tasks are kept without a project' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string, @CurrentUser() user: AuthUser): Promise<void> {
+    await this.projectsService.remove(id, user.id, user.organizationId);
+  }
+}
@@ -0,0 +1,124 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Project } from './entities/project.entity';
+import { ProjectsService } from './projects.service';
+
+describe('ProjectsService', () => {
+  let service: ProjectsService;
+
+  const mockProject = {
+    id: 'p1',
+    name: 'Website',
+    key: 'WEB',
+    description: null,
+    archived: false,
+    ownerId: 'u1',
+    organizationId: 'org-1',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const mockRepository = {
+    create: jest.fn(data => data),
+    save: jest.fn(async entity => entity),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    exists: jest.fn(),
+    merge: jest.fn((entity, data) => Object.assign(entity, data)),
+    remove: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProjectsService,
+        { provide: getRepositoryToken(Project), useValue: mockRepository },
+      ],
+    }).compile();
+
+    service = module.get<ProjectsService>(ProjectsService);
+  });
+
+  describe('create', () => {
+    it('should create a project for the owner', async () => {
+      mockRepository.exists.mockResolvedValue(false);
+
+      const result = await service.create({ name: 'Website', key: 'WEB' }, 'u1', 'org-1');
+
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        name: 'Website',
+        key: 'WEB',
+        ownerId: 'u1',
+        organizationId: 'org-1',
+      });
+      expect(result.ownerId).toBe('u1');
+    });
+
+    it('should reject a key that is already in use', async () => {
+      mockRepository.exists.mockResolvedValue(true);
+
+      await expect(service.create({ name: 'Web 2', key: 'WEB' }, 'u1', 'org-1')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findAll', () => {
+    it('should hide archived projects by default', async () => {
+      mockRepository.find.mockResolvedValue([mockProject]);
+
+      await service.findAll('u1', 'org-1', {});
+
+      expect(mockRepository.find).toHaveBeenCalledWith({
+        where: { ownerId: 'u1', organizationId: 'org-1', archived: false },
+        order: { name: 'ASC' },
+      });
+    });
+
+    it('should include archived projects on request', async () => {
+      mockRepository.find.mockResolvedValue([mockProject]);
+
+      await service.findAll('u1', 'org-1', { includeArchived: true });
+
+      expect(mockRepository.find).toHaveBeenCalledWith({
+        where: { ownerId: 'u1', organizationId: 'org-1' },
+        order: { name: 'ASC' },
+      });
+    });
+  });
+
+  describe('setArchived', () => {
+    it('should archive the project', async () => {
+      mockRepository.findOne.mockResolvedValue({ ...mockProject });
+
+      const result = await service.setArchived('p1', true, 'u1', 'org-1');
+
+      expect(result.archived).toBe(true);
+    });
+
+    it('should throw NotFoundException for a project of another owner', async () => {
+      mockRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.setArchived('p1', true, 'u2', 'org-1')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('update', () => {
+    it('should not check key availability when the key is unchanged', async () => {
+      mockRepository.findOne.mockResolvedValue({ ...mockProject });
+
+      await service.update('p1', { key: 'WEB', name: 'Website v2' }, 'u1', 'org-1');
+
+      expect(mockRepository.exists).not.toHaveBeenCalled();
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'Website v2' }),
+      );
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { CreateProjectDto } from './dto/create-project.dto';
+import { ProjectFilterDto } from './dto/project-filter.dto';
+import { UpdateProjectDto } from './dto/update-project.dto';
+import { Project } from './entities/project.entity';
+
+@Injectable()
+export class ProjectsService {
+  constructor(
+    @InjectRepository(Project)
+    private projectsRepository: Repository<Project>,
+  ) {}
+
+  async create(
+    createProjectDto: CreateProjectDto,
+    ownerId: string,
+    organizationId: string,
+  ): Promise<Project> {
+    await this.assertKeyAvailable(createProjectDto.key, organizationId);
+
+    const project = this.projectsRepository.create({
+      ...createProjectDto,
+      ownerId,
+      organizationId,
+    });
+    return this.projectsRepository.save(project);
+  }
+
+  findAll(
+    ownerId: string,
+    organizationId: string,
+    filterDto: ProjectFilterDto,
+  ): Promise<Project[]> {
+    return this.projectsRepository.find({
+      where: filterDto.includeArchived
+        ? { ownerId, organizationId }
+        : { ownerId, organizationId, archived: false },
+      order: { name: 'ASC' },
+    });
+  }
+
+  async findOne(id: string, ownerId: string, organizationId: string): Promise<Project> {
+    const project = await this.projectsRepository.findOne({
+      where: { id, ownerId, organizationId },
+    });
+    if (!project) {
+      throw new NotFoundException(`Project with ID ${id} not found`);
+    }
+    return project;
+  }
+
+  async update(
+    id: string,
+    updateProjectDto: UpdateProjectDto,
+    ownerId: string,
+    organizationId: string,
+  ): Promise<Project> {
+    const project = await this.findOne(id, ownerId, organizationId);
+
+    if (updateProjectDto.key && updateProjectDto.key !== project.key) {
+      await this.assertKeyAvailable(updateProjectDto.key, organizationId);
+    }
+
+    this.projectsRepository.merge(project, updateProjectDto);
+    return this.projectsRepository.save(project);
+  }
+
+  async setArchived(
+    id: string,
+    archived: boolean,
+    ownerId: string,
+    organizationId: string,
+  ): Promise<Project> {
+    const project = await this.findOne(id, ownerId, organizationId);
+    project.archived = archived;
+    return this.projectsRepository.save(project);
+  }
+
+  async remove(id: string, ownerId: string, organizationId: string): Promise<void> {
+    const project = await this.findOne(id, ownerId, organizationId);
+    await this.projectsRepository.remove(project);
+  }
+
+  private async assertKeyAvailable(key: string, organizationId: string): Promise<void> {
+    const existing = await this.projectsRepository.exists({ where: { key, organizationId } });
+    if (existing) {
+      throw new ConflictException(`Project key ${key} is already in use`);
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayUnique,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+} from 'class-validator';
+import { Permission } from '../enums/permission.enum';
+
+export class CreateRoleDto {
+  @ApiProperty({ example: 'reviewer' })
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^[a-z][a-z0-9_-]*$/, {
+    message: 'name must start with a lowercase letter and contain only a-z, 0-9, "_" and "-"',
+  })
+  name: string;
+
+  @ApiProperty({ example: 'Can read everything and comment', required: false })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiProperty({ enum: Permission, isArray: true, example: [Permission.TASK_READ] })
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(Permission, { each: true })
+  permissions: Permission[];
+}
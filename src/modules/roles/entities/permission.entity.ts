@@ -0,0 +1,10 @@
+import { Column, Entity, PrimaryColumn } from 'typeorm';
+
+@Entity('permissions')
+export class Permission {
+  @PrimaryColumn()
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+}
@@ -0,0 +1,17 @@
+/**
+ * Every permission the API checks. Each value must exist as a row in the
+ * `permissions` table, which migrations keep in sync with this list.
+ */
+export enum Permission {
+  TASK_READ = 'task:read',
+  TASK_READ_ANY = 'task:read:any',
+  TASK_CREATE = 'task:create',
+  TASK_UPDATE = 'task:update',
+  TASK_UPDATE_ANY = 'task:update:any',
+  TASK_DELETE = 'task:delete',
+  TASK_DELETE_ANY = 'task:delete:any',
+  USER_READ = 'user:read',
+  USER_MANAGE = 'user:manage',
+  ROLE_MANAGE = 'role:manage',
+  AUDIT_READ = 'audit:read',
+}
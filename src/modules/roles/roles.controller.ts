@@ -0,0 +1,63 @@
+import { RequirePermissions } from '@common/decorators/require-permissions.decorator';
+import { Authenticated } from '@modules/auth/decorators/current-user.decorator';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { CreateRoleDto } from './dto/create-role.dto';
+import { UpdateRoleDto } from './dto/update-role.dto';
+import { Permission } from './enums/permission.enum';
+import { RolesService } from './roles.service';
+
+@ApiTags('roles')
+@Controller('roles')
+@Authenticated()
+@RequirePermissions(Permission.ROLE_MANAGE)
+export class RolesController {
+  constructor(private readonly rolesService: RolesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List roles with their permissions' })
+  findAll() {
+    return this.rolesService.findAll();
+  }
+
+  @Get('permissions')
+  @ApiOperation({ summary: 'List every permission a role can be granted' })
+  findPermissions() {
+    return this.rolesService.findPermissions();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Find a role' })
+  findOne(@Param('id') id: string) {
+    return this.rolesService.findOne(id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a role' })
+  create(@Body() createRoleDto: CreateRoleDto) {
+    return this.rolesService.create(createRoleDto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Rename a role or replace its permissions' })
+  update(@Param('id') id: string, @Body() updateRoleDto: UpdateRoleDto) {
+    return this.rolesService.update(id, updateRoleDto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a role that is no longer assigned to anyone' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string): Promise<void> {
+    await this.rolesService.remove(id);
+  }
+}
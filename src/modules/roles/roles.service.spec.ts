@@ -0,0 +1,165 @@
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { User } from '../users/entities/user.entity';
+import { Permission } from './entities/permission.entity';
+import { Role } from './entities/role.entity';
+import { Permission as PermissionName } from './enums/permission.enum';
+import { RolesService } from './roles.service';
+
+describe('RolesService', () => {
+  let service: RolesService;
+
+  const mockManager = {
+    save: jest.fn(async (_, data) => data),
+    update: jest.fn(),
+  };
+
+  const mockRolesRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    exists: jest.fn(),
+    create: jest.fn(data => data),
+    save: jest.fn(async data => ({ id: 'role-1', ...data })),
+    remove: jest.fn(),
+    manager: {
+      exists: jest.fn(),
+      transaction: jest.fn(cb => cb(mockManager)),
+    },
+  };
+
+  const mockPermissionsRepository = {
+    find: jest.fn(),
+  };
+
+  const customRole = () => ({
+    id: 'role-1',
+    name: 'reviewer',
+    description: null,
+    isSystem: false,
+    permissions: [{ name: PermissionName.TASK_READ }],
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RolesService,
+        { provide: getRepositoryToken(Role), useValue: mockRolesRepository },
+        { provide: getRepositoryToken(Permission), useValue: mockPermissionsRepository },
+      ],
+    }).compile();
+
+    service = module.get<RolesService>(RolesService);
+  });
+
+  describe('findPermissionNames', () => {
+    it('should list the permissions of the role', async () => {
+      mockRolesRepository.findOne.mockResolvedValue(customRole());
+
+      await expect(service.findPermissionNames('reviewer')).resolves.toEqual([
+        PermissionName.TASK_READ,
+      ]);
+    });
+
+    it('should grant nothing for an unknown role', async () => {
+      mockRolesRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.findPermissionNames('ghost')).resolves.toEqual([]);
+    });
+  });
+
+  describe('create', () => {
+    it('should store the role with its permissions', async () => {
+      mockRolesRepository.exists.mockResolvedValue(false);
+      mockPermissionsRepository.find.mockResolvedValue([{ name: PermissionName.TASK_READ }]);
+
+      const result = await service.create({
+        name: 'reviewer',
+        permissions: [PermissionName.TASK_READ],
+      });
+
+      expect(result).toMatchObject({
+        name: 'reviewer',
+        description: null,
+        permissions: [{ name: PermissionName.TASK_READ }],
+      });
+    });
+
+    it('should reject a taken name', async () => {
+      mockRolesRepository.exists.mockResolvedValue(true);
+
+      await expect(service.create({ name: 'admin', permissions: [] })).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should name permissions missing from the catalog', async () => {
+      mockRolesRepository.exists.mockResolvedValue(false);
+      mockPermissionsRepository.find.mockResolvedValue([{ name: PermissionName.TASK_READ }]);
+
+      await expect(
+        service.create({
+          name: 'reviewer',
+          permissions: [PermissionName.TASK_READ, PermissionName.ROLE_MANAGE],
+        }),
+      ).rejects.toThrow('Unknown permissions: role:manage');
+    });
+  });
+
+  describe('update', () => {
+    it('should rename the role on its users as well', async () => {
+      mockRolesRepository.findOne.mockResolvedValue(customRole());
+      mockRolesRepository.exists.mockResolvedValue(false);
+
+      const result = await service.update('role-1', { name: 'auditor' });
+
+      expect(result.name).toBe('auditor');
+      expect(mockManager.update).toHaveBeenCalledWith(
+        User,
+        { role: 'reviewer' },
+        { role: 'auditor' },
+      );
+    });
+
+    it('should not rename system roles', async () => {
+      mockRolesRepository.findOne.mockResolvedValue({ ...customRole(), isSystem: true });
+
+      await expect(service.update('role-1', { name: 'auditor' })).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should throw NotFoundException for an unknown role', async () => {
+      mockRolesRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.update('missing', {})).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('remove', () => {
+    it('should refuse to delete a role that is still assigned', async () => {
+      mockRolesRepository.findOne.mockResolvedValue(customRole());
+      mockRolesRepository.manager.exists.mockResolvedValue(true);
+
+      await expect(service.remove('role-1')).rejects.toThrow(ConflictException);
+      expect(mockRolesRepository.remove).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to delete system roles', async () => {
+      mockRolesRepository.findOne.mockResolvedValue({ ...customRole(), isSystem: true });
+
+      await expect(service.remove('role-1')).rejects.toThrow(BadRequestException);
+    });
+
+    it('should delete an unused custom role', async () => {
+      mockRolesRepository.findOne.mockResolvedValue(customRole());
+      mockRolesRepository.manager.exists.mockResolvedValue(false);
+
+      await service.remove('role-1');
+
+      expect(mockRolesRepository.remove).toHaveBeenCalledWith(customRole());
+    });
+  });
+});
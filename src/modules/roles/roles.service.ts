@@ -0,0 +1,124 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { User } from '../users/entities/user.entity';
+import { CreateRoleDto } from './dto/create-role.dto';
+import { UpdateRoleDto } from './dto/update-role.dto';
+import { Permission } from './entities/permission.entity';
+import { Role } from './entities/role.entity';
+
+@Injectable()
+export class RolesService {
+  constructor(
+    @InjectRepository(Role)
+    private rolesRepository: Repository<Role>,
+    @InjectRepository(Permission)
+    private permissionsRepository: Repository<Permission>,
+  ) {}
+
+  findAll(): Promise<Role[]> {
+    return this.rolesRepository.find({ relations: { permissions: true }, order: { name: 'ASC' } });
+  }
+
+  findPermissions(): Promise<Permission[]> {
+    return this.permissionsRepository.find({ order: { name: 'ASC' } });
+  }
+
+  async findOne(id: string): Promise<Role> {
+    const role = await this.rolesRepository.findOne({
+      where: { id },
+      relations: { permissions: true },
+    });
+    if (!role) {
+      throw new NotFoundException(`Role with ID ${id} not found`);
+    }
+    return role;
+  }
+
+  /**
+   * Effective permissions of a user holding the given role. Unknown roles
+   * grant nothing.
+   */
+  async findPermissionNames(roleName: string): Promise<string[]> {
+    const role = await this.rolesRepository.findOne({
+      where: { name: roleName },
+      relations: { permissions: true },
+    });
+    return role ? role.permissions.map(permission => permission.name) : [];
+  }
+
+  async create(createRoleDto: CreateRoleDto): Promise<Role> {
+    await this.assertNameAvailable(createRoleDto.name);
+
+    const role = this.rolesRepository.create({
+      name: createRoleDto.name,
+      description: createRoleDto.description ?? null,
+      permissions: await this.resolvePermissions(createRoleDto.permissions),
+    });
+    return this.rolesRepository.save(role);
+  }
+
+  async update(id: string, updateRoleDto: UpdateRoleDto): Promise<Role> {
+    const role = await this.findOne(id);
+    const previousName = role.name;
+    const renamed = updateRoleDto.name !== undefined && updateRoleDto.name !== role.name;
+
+    if (renamed) {
+      if (role.isSystem) {
+        throw new BadRequestException(`System role ${role.name} cannot be renamed`);
+      }
+      await this.assertNameAvailable(updateRoleDto.name as string);
+      role.name = updateRoleDto.name as string;
+    }
+    if (updateRoleDto.description !== undefined) {
+      role.description = updateRoleDto.description;
+    }
+    if (updateRoleDto.permissions) {
+      role.permissions = await this.resolvePermissions(updateRoleDto.permissions);
+    }
+
+    return this.rolesRepository.manager.transaction(async manager => {
+      const saved = await manager.save(Role, role);
+      if (renamed) {
+        await manager.update(User, { role: previousName }, { role: role.name });
+      }
+      return saved;
+    });
+  }
+
+  async remove(id: string): Promise<void> {
+    const role = await this.findOne(id);
+    if (role.isSystem) {
+      throw new BadRequestException(`System role ${role.name} cannot be deleted`);
+    }
+
+    const inUse = await this.rolesRepository.manager.exists(User, { where: { role: role.name } });
+    if (inUse) {
+      throw new ConflictException(`Role ${role.name} is still assigned to users`);
+    }
+
+    await this.rolesRepository.remove(role);
+  }
+
+  private async resolvePermissions(names: string[]): Promise<Permission[]> {
+    const permissions = await this.permissionsRepository.find({ where: { name: In(names) } });
+    if (permissions.length !== names.length) {
+      const known = new Set(permissions.map(permission => permission.name));
+      const unknown = names.filter(name => !known.has(name));
+      throw new BadRequestException(`Unknown permissions: ${unknown.join(', ')}`);
+    }
+    return permissions;
+  }
+
+  private async assertNameAvailable(name: string): Promise<void> {
+    const existing = await this.rolesRepository.exists({ where: { name } });
+    if (existing) {
+      throw new ConflictException(`Role ${name} already exists`);
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { TaskFilterDto } from '@modules/tasks/dto/task-filter.dto';
+import { ApiProperty, PickType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayUnique,
+  IsArray,
+  IsEnum,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { ViewVisibility } from '../enums/view-visibility.enum';
+
+export const SAVED_VIEW_COLUMNS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueDate',
+  'estimateMinutes',
+  'createdById',
+  'assigneeIds',
+  'watcherIds',
+  'parentId',
+  'projectId',
+  'labels',
+  'completionPercentage',
+  'blocked',
+  'checklist',
+  'createdAt',
+  'updatedAt',
+];
+
+export class SavedViewFiltersDto extends PickType(TaskFilterDto, [
+  'status',
+  'priority',
+  'searchTerm',
+  'assignee',
+  'createdBy',
+  'watching',
+  'topLevelOnly',
+  'hasOpenChecklistItems',
+  'labels',
+  'labelMatch',
+  'projectId',
+  'includeArchived',
+  'dueDateStart',
+  'dueDateEnd',
+] as const) {}
+
+export class CreateSavedViewDto {
+  @ApiProperty({ example: 'My open bugs' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    enum: ViewVisibility,
+    required: false,
+    default: ViewVisibility.PRIVATE,
+    description: 'Private views are only visible to their owner, team views to the organization',
+  })
+  @IsEnum(ViewVisibility)
+  @IsOptional()
+  visibility?: ViewVisibility;
+
+  @ApiProperty({
+    type: SavedViewFiltersDto,
+    required: false,
+    example: { status: 'PENDING', labels: ['bug'], assignee: 'me' },
+    description: 'Filters of GET /tasks to apply; `me` stands for whoever uses the view',
+  })
+  @ValidateNested()
+  @Type(() => SavedViewFiltersDto)
+  @IsOptional()
+  filters?: SavedViewFiltersDto;
+
+  @ApiProperty({ required: false, example: 'priority:desc,dueDate:asc' })
+  @Matches(/^[a-z]+(:(asc|desc))?(,[a-z]+(:(asc|desc))?)*$/i, {
+    message: 'sort must be a comma-separated list of field:direction pairs',
+  })
+  @IsOptional()
+  sort?: string;
+
+  @ApiProperty({
+    required: false,
+    type: [String],
+    enum: SAVED_VIEW_COLUMNS,
+    example: ['title', 'status', 'dueDate'],
+    description: 'Task fields to show as columns, in order',
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(SAVED_VIEW_COLUMNS, { each: true })
+  @IsOptional()
+  columns?: string[];
+}
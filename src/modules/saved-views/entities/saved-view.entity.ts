@@ -0,0 +1,81 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Organization } from '../../organizations/entities/organization.entity';
+import type { TaskFilterDto } from '../../tasks/dto/task-filter.dto';
+import type { User } from '../../users/entities/user.entity';
+import { ViewVisibility } from '../enums/view-visibility.enum';
+
+/**
+ * The `GET /tasks` filters a view may save. Pagination is left out, and so
+ * are `q` and `parentId` whose references could not be checked when the view
+ * is applied.
+ */
+export type SavedViewFilters = Pick<
+  TaskFilterDto,
+  | 'status'
+  | 'priority'
+  | 'searchTerm'
+  | 'assignee'
+  | 'createdBy'
+  | 'watching'
+  | 'topLevelOnly'
+  | 'hasOpenChecklistItems'
+  | 'labels'
+  | 'labelMatch'
+  | 'projectId'
+  | 'includeArchived'
+  | 'dueDateStart'
+  | 'dueDateEnd'
+>;
+
+@Entity('saved_views')
+@Index('idx_saved_views_organization_visibility', ['organizationId', 'visibility'])
+export class SavedView {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ length: 100 })
+  name: string;
+
+  @Column({ type: 'varchar', default: ViewVisibility.PRIVATE })
+  visibility: ViewVisibility;
+
+  @Column({ type: 'jsonb', default: {} })
+  filters: SavedViewFilters;
+
+  @Column({ type: 'varchar', nullable: true })
+  sort: string | null;
+
+  /** Task fields to show, in order; empty for the client's default columns. */
+  @Column({ type: 'jsonb', default: [] })
+  columns: string[];
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization: Organization;
+
+  @Column({ name: 'owner_id', type: 'uuid' })
+  ownerId: string;
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  @ManyToOne(() => require('../../users/entities/user.entity').User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'owner_id' })
+  owner: User;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,4 @@
+export enum ViewVisibility {
+  PRIVATE = 'private',
+  TEAM = 'team',
+}
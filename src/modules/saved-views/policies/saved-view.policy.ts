@@ -0,0 +1,28 @@
+import { isOrganizationAdmin, Policy, PolicyAction } from '@modules/auth/policies/policy';
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { Injectable } from '@nestjs/common';
+import { SavedView } from '../entities/saved-view.entity';
+import { ViewVisibility } from '../enums/view-visibility.enum';
+
+/**
+ * Everyone in the organization may use team views, but only their owner and
+ * organization admins may change them. Private views stay with their owner.
+ */
+@Injectable()
+export class SavedViewPolicy extends Policy<Pick<SavedView, 'ownerId' | 'visibility'>> {
+  protected readonly resourceName = 'view';
+
+  can(
+    actor: AuthUser,
+    action: PolicyAction,
+    view: Pick<SavedView, 'ownerId' | 'visibility'>,
+  ): boolean {
+    if (view.ownerId === actor.id) {
+      return true;
+    }
+    if (view.visibility !== ViewVisibility.TEAM) {
+      return false;
+    }
+    return action === 'read' || isOrganizationAdmin(actor);
+  }
+}
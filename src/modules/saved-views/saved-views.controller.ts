@@ -0,0 +1,59 @@
+import { Authenticated, CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { CreateSavedViewDto } from './dto/create-saved-view.dto';
+import { UpdateSavedViewDto } from './dto/update-saved-view.dto';
+import { SavedViewsService } from './saved-views.service';
+
+@ApiTags('views')
+@Controller('views')
+@Authenticated()
+export class SavedViewsController {
+  constructor(private readonly savedViewsService: SavedViewsService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Save a combination of task filters, sort order and columns' })
+  create(@Body() createSavedViewDto: CreateSavedViewDto, @CurrentUser() user: AuthUser) {
+    return this.savedViewsService.create(createSavedViewDto, user);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List your views and the team views of the organization' })
+  findAll(@CurrentUser() user: AuthUser) {
+    return this.savedViewsService.findAll(user);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Find a view by ID' })
+  findOne(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.savedViewsService.findOne(id, user);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a view' })
+  update(
+    @Param('id') id: string,
+    @Body() updateSavedViewDto: UpdateSavedViewDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.savedViewsService.update(id, updateSavedViewDto, user);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a view' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string, @CurrentUser() user: AuthUser): Promise<void> {
+    await this.savedViewsService.remove(id, user);
+  }
+}
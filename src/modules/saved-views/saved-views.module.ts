@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SavedView } from './entities/saved-view.entity';
+import { SavedViewPolicy } from './policies/saved-view.policy';
+import { SavedViewsController } from './saved-views.controller';
+import { SavedViewsService } from './saved-views.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([SavedView])],
+  controllers: [SavedViewsController],
+  providers: [SavedViewsService, SavedViewPolicy],
+  exports: [SavedViewsService],
+})
+export class SavedViewsModule {}
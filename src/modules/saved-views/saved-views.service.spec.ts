@@ -0,0 +1,227 @@
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { OrganizationRole } from '@modules/organizations/enums/organization-role.enum';
+import { TaskStatus } from '@modules/tasks/enums/task-status.enum';
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Label } from '../labels/entities/label.entity';
+import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
+import { Project } from '../projects/entities/project.entity';
+import { SavedView } from './entities/saved-view.entity';
+import { ViewVisibility } from './enums/view-visibility.enum';
+import { SavedViewPolicy } from './policies/saved-view.policy';
+import { SavedViewsService } from './saved-views.service';
+
+describe('SavedViewsService', () => {
+  let service: SavedViewsService;
+
+  const actor: AuthUser = {
+    id: 'u1',
+    email: 'member@example.com',
+    name: 'Member',
+    role: 'user',
+    organizationId: 'org-1',
+    organizationRole: OrganizationRole.MEMBER,
+    permissions: [],
+  };
+  const admin: AuthUser = { ...actor, id: 'u3', organizationRole: OrganizationRole.ADMIN };
+  const formerMemberId = '9d4c1a7e-2f0b-4c55-8c1e-6a0f4b1d2e3c';
+
+  const savedView = (overrides: Partial<SavedView> = {}): SavedView =>
+    ({
+      id: 'v1',
+      name: 'Open bugs',
+      visibility: ViewVisibility.PRIVATE,
+      filters: {},
+      sort: null,
+      columns: [],
+      ownerId: 'u1',
+      organizationId: 'org-1',
+      ...overrides,
+    }) as SavedView;
+
+  const labelQuery = {
+    innerJoin: jest.fn().mockReturnThis(),
+    select: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    getRawMany: jest.fn(),
+  };
+
+  const mockRepository = {
+    create: jest.fn(data => data),
+    save: jest.fn(async entity => entity),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    merge: jest.fn((entity, data) => Object.assign(entity, data)),
+    remove: jest.fn(),
+    manager: {
+      createQueryBuilder: jest.fn(() => labelQuery),
+      exists: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SavedViewsService,
+        SavedViewPolicy,
+        { provide: getRepositoryToken(SavedView), useValue: mockRepository },
+      ],
+    }).compile();
+
+    service = module.get<SavedViewsService>(SavedViewsService);
+  });
+
+  describe('create', () => {
+    it('should save a private view for the actor', async () => {
+      const result = await service.create({ name: 'Open bugs' }, actor);
+
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        name: 'Open bugs',
+        filters: {},
+        columns: [],
+        ownerId: 'u1',
+        organizationId: 'org-1',
+      });
+      expect(result.ownerId).toBe('u1');
+    });
+  });
+
+  describe('findAll', () => {
+    it('should list own views and team views of the organization', async () => {
+      mockRepository.find.mockResolvedValue([savedView()]);
+
+      await service.findAll(actor);
+
+      expect(mockRepository.find).toHaveBeenCalledWith({
+        where: [
+          { organizationId: 'org-1', ownerId: 'u1' },
+          { organizationId: 'org-1', visibility: ViewVisibility.TEAM },
+        ],
+        order: { name: 'ASC' },
+      });
+    });
+  });
+
+  describe('findOne', () => {
+    it('should return team views of others', async () => {
+      mockRepository.findOne.mockResolvedValue(
+        savedView({ ownerId: 'u2', visibility: ViewVisibility.TEAM }),
+      );
+
+      await expect(service.findOne('v1', actor)).resolves.toMatchObject({ id: 'v1' });
+    });
+
+    it('should hide private views of others', async () => {
+      mockRepository.findOne.mockResolvedValue(savedView({ ownerId: 'u2' }));
+
+      await expect(service.findOne('v1', actor)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('update', () => {
+    it('should replace the filters of own views', async () => {
+      mockRepository.findOne.mockResolvedValue(
+        savedView({ filters: { status: TaskStatus.PENDING } }),
+      );
+
+      const result = await service.update('v1', { filters: { labels: ['bug'] } }, actor);
+
+      expect(result.filters).toEqual({ labels: ['bug'] });
+    });
+
+    it('should keep team views of others to their owner and admins', async () => {
+      mockRepository.findOne.mockImplementation(async () =>
+        savedView({ ownerId: 'u2', visibility: ViewVisibility.TEAM }),
+      );
+
+      await expect(service.update('v1', { name: 'Mine now' }, actor)).rejects.toThrow(
+        ForbiddenException,
+      );
+      await expect(service.remove('v1', actor)).rejects.toThrow(ForbiddenException);
+      await expect(service.update('v1', { name: 'Renamed' }, admin)).resolves.toMatchObject({
+        name: 'Renamed',
+      });
+    });
+  });
+
+  describe('apply', () => {
+    it('should let request parameters override the saved filters and sort', async () => {
+      mockRepository.findOne.mockResolvedValue(
+        savedView({
+          filters: { status: TaskStatus.PENDING, assignee: 'me' },
+          sort: 'dueDate:asc',
+          columns: ['title', 'dueDate'],
+        }),
+      );
+
+      const result = await service.apply(
+        'v1',
+        { view: 'v1', status: TaskStatus.COMPLETED, priority: undefined, limit: 10 },
+        actor,
+      );
+
+      expect(result.filters).toEqual({
+        status: TaskStatus.COMPLETED,
+        assignee: 'me',
+        sort: 'dueDate:asc',
+        limit: 10,
+      });
+      expect(result.view).toEqual({
+        id: 'v1',
+        name: 'Open bugs',
+        columns: ['title', 'dueDate'],
+        ignored: [],
+      });
+      expect(mockRepository.manager.exists).not.toHaveBeenCalled();
+    });
+
+    it('should drop filters on deleted labels, former members and deleted projects', async () => {
+      mockRepository.findOne.mockResolvedValue(
+        savedView({
+          filters: {
+            labels: ['Bug', 'obsolete'],
+            labelMatch: 'all',
+            createdBy: formerMemberId,
+            projectId: 'p-gone',
+          },
+        }),
+      );
+      labelQuery.getRawMany.mockResolvedValue([{ name: 'bug' }]);
+      mockRepository.manager.exists.mockResolvedValue(false);
+
+      const result = await service.apply('v1', {}, actor);
+
+      expect(result.filters).toEqual({
+        labels: ['Bug'],
+        labelMatch: 'all',
+        createdBy: undefined,
+        projectId: undefined,
+      });
+      expect(result.view.ignored).toEqual([
+        'label:obsolete',
+        `createdBy:${formerMemberId}`,
+        'projectId:p-gone',
+      ]);
+      expect(mockRepository.manager.createQueryBuilder).toHaveBeenCalledWith(Label, 'label');
+      expect(mockRepository.manager.exists).toHaveBeenCalledWith(OrganizationMembership, {
+        where: { organizationId: 'org-1', userId: formerMemberId },
+      });
+      expect(mockRepository.manager.exists).toHaveBeenCalledWith(Project, {
+        where: { id: 'p-gone', organizationId: 'org-1' },
+      });
+    });
+
+    it('should drop the label filter once none of its labels exist', async () => {
+      mockRepository.findOne.mockResolvedValue(savedView({ filters: { labels: ['obsolete'] } }));
+      labelQuery.getRawMany.mockResolvedValue([]);
+
+      const result = await service.apply('v1', {}, actor);
+
+      expect(result.filters.labels).toBeUndefined();
+      expect(result.view.ignored).toEqual(['label:obsolete']);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Label } from '../labels/entities/label.entity';
+import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
+import { Project } from '../projects/entities/project.entity';
+import { TaskFilterDto } from '../tasks/dto/task-filter.dto';
+import { CreateSavedViewDto } from './dto/create-saved-view.dto';
+import { UpdateSavedViewDto } from './dto/update-saved-view.dto';
+import { SavedView, SavedViewFilters } from './entities/saved-view.entity';
+import { ViewVisibility } from './enums/view-visibility.enum';
+import { SavedViewPolicy } from './policies/saved-view.policy';
+
+export interface AppliedView {
+  id: string;
+  name: string;
+  columns: string[];
+  /**
+   * Saved filters left out because the labels, users or projects they refer
+   * to are gone, e.g. `label:bug` or `assignee:<id>`.
+   */
+  ignored: string[];
+}
+
+const USER_FILTERS = ['assignee', 'createdBy', 'watching'] as const;
+
+@Injectable()
+export class SavedViewsService {
+  constructor(
+    @InjectRepository(SavedView)
+    private savedViewsRepository: Repository<SavedView>,
+    private savedViewPolicy: SavedViewPolicy,
+  ) {}
+
+  create(createSavedViewDto: CreateSavedViewDto, actor: AuthUser): Promise<SavedView> {
+    const view = this.savedViewsRepository.create({
+      ...createSavedViewDto,
+      filters: createSavedViewDto.filters ?? {},
+      columns: createSavedViewDto.columns ?? [],
+      ownerId: actor.id,
+      organizationId: actor.organizationId,
+    });
+    return this.savedViewsRepository.save(view);
+  }
+
+  /**
+   * The actor's own views and the team views of their organization.
+   */
+  findAll(actor: AuthUser): Promise<SavedView[]> {
+    const { organizationId } = actor;
+    return this.savedViewsRepository.find({
+      where: [
+        { organizationId, ownerId: actor.id },
+        { organizationId, visibility: ViewVisibility.TEAM },
+      ],
+      order: { name: 'ASC' },
+    });
+  }
+
+  async findOne(id: string, actor: AuthUser): Promise<SavedView> {
+    const view = await this.savedViewsRepository.findOne({
+      where: { id, organizationId: actor.organizationId },
+    });
+    // Private views of others are reported as missing rather than forbidden.
+    if (!view || !this.savedViewPolicy.can(actor, 'read', view)) {
+      throw new NotFoundException(`View with ID ${id} not found`);
+    }
+    return view;
+  }
+
+  async update(
+    id: string,
+    updateSavedViewDto: UpdateSavedViewDto,
+    actor: AuthUser,
+  ): Promise<SavedView> {
+    const view = await this.findOne(id, actor);
+    this.savedViewPolicy.authorize(actor, 'update', view);
+
+    this.savedViewsRepository.merge(view, updateSavedViewDto);
+    return this.savedViewsRepository.save(view);
+  }
+
+  async remove(id: string, actor: AuthUser): Promise<void> {
+    const view = await this.findOne(id, actor);
+    this.savedViewPolicy.authorize(actor, 'delete', view);
+    await this.savedViewsRepository.remove(view);
+  }
+
+  /**
+   * Combines the filters and sort order of a view with the parameters of the
+   * request, which take precedence. Filters referring to deleted labels,
+   * former members or deleted projects are dropped and reported instead of
+   * emptying the list.
+   */
+  async apply(
+    id: string,
+    filterDto: TaskFilterDto,
+    actor: AuthUser,
+  ): Promise<{ filters: TaskFilterDto; view: AppliedView }> {
+    const view = await this.findOne(id, actor);
+    const { filters, ignored } = await this.dropStaleFilters(view.filters, actor.organizationId);
+    const overrides = Object.fromEntries(
+      Object.entries(filterDto).filter(([key, value]) => key !== 'view' && value !== undefined),
+    );
+
+    return {
+      filters: { ...filters, ...(view.sort && { sort: view.sort }), ...overrides },
+      view: { id: view.id, name: view.name, columns: view.columns, ignored },
+    };
+  }
+
+  private async dropStaleFilters(
+    saved: SavedViewFilters,
+    organizationId: string,
+  ): Promise<{ filters: SavedViewFilters; ignored: string[] }> {
+    const { manager } = this.savedViewsRepository;
+    const filters = { ...saved };
+    const ignored: string[] = [];
+
+    if (filters.labels?.length) {
+      // Labels belong to users, so a name counts as long as any member has it.
+      const rows: { name: string }[] = await manager
+        .createQueryBuilder(Label, 'label')
+        .innerJoin(
+          OrganizationMembership,
+          'membership',
+          'membership.userId = label.ownerId AND membership.organizationId = :organizationId',
+          { organizationId },
+        )
+        .select('DISTINCT LOWER(label.name)', 'name')
+        .where('LOWER(label.name) IN (:...names)', {
+          names: filters.labels.map(name => name.toLowerCase()),
+        })
+        .getRawMany();
+      const known = new Set(rows.map(row => row.name));
+      const labels = filters.labels.filter(name => known.has(name.toLowerCase()));
+      ignored.push(
+        ...filters.labels.filter(name => !labels.includes(name)).map(name => `label:${name}`),
+      );
+      filters.labels = labels.length ? labels : undefined;
+    }
+
+    for (const key of USER_FILTERS) {
+      const userId = filters[key];
+      if (
+        userId &&
+        userId !== 'me' &&
+        !(await manager.exists(OrganizationMembership, { where: { organizationId, userId } }))
+      ) {
+        ignored.push(`${key}:${userId}`);
+        filters[key] = undefined;
+      }
+    }
+
+    if (
+      filters.projectId &&
+      !(await manager.exists(Project, { where: { id: filters.projectId, organizationId } }))
+    ) {
+      ignored.push(`projectId:${filters.projectId}`);
+      filters.projectId = undefined;
+    }
+
+    return { filters, ignored };
+  }
+}
@@ -0,0 +1,43 @@
+import { createReadStream } from 'fs';
+import { mkdir, rm, stat, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { S3CompatibleClient } from './s3-storage.driver';
+
+function notFound(key: string): Error {
+  return Object.assign(new Error(`No object with key ${key}`), { name: 'NotFound' });
+}
+
+/**
+ * Stand-in for an S3-compatible store that keeps each bucket in a directory,
+ * for development and tests without an object store at hand. Only the
+ * `bytes=start-end` form of ranges is understood.
+ */
+export class LocalS3Client implements S3CompatibleClient {
+  constructor(private readonly root: string) {}
+
+  async putObject({ Bucket, Key, Body }: { Bucket: string; Key: string; Body: Buffer }) {
+    const path = join(this.root, Bucket, Key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, Body);
+    return {};
+  }
+
+  async headObject({ Bucket, Key }: { Bucket: string; Key: string }) {
+    const stats = await stat(join(this.root, Bucket, Key)).catch(() => {
+      throw notFound(Key);
+    });
+    return { ContentLength: stats.size };
+  }
+
+  async getObject({ Bucket, Key, Range }: { Bucket: string; Key: string; Range?: string }) {
+    await this.headObject({ Bucket, Key });
+    const match = Range && /^bytes=(\d+)-(\d+)$/.exec(Range);
+    const range = match ? { start: Number(match[1]), end: Number(match[2]) } : undefined;
+    return { Body: createReadStream(join(this.root, Bucket, Key), range) };
+  }
+
+  async deleteObject({ Bucket, Key }: { Bucket: string; Key: string }) {
+    await rm(join(this.root, Bucket, Key), { force: true });
+    return {};
+  }
+}
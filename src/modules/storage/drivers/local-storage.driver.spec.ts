@@ -0,0 +1,56 @@
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { LocalStorageDriver } from './local-storage.driver';
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+describe('LocalStorageDriver', () => {
+  let root: string;
+  let driver: LocalStorageDriver;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'storage-'));
+    driver = new LocalStorageDriver(root);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should store objects below the first characters of their key', async () => {
+    await driver.put('abcdef', Buffer.from('hello world'));
+
+    expect(await readdir(join(root, 'ab'))).toEqual(['abcdef']);
+    expect(await driver.exists('abcdef')).toBe(true);
+    expect(await readAll(await driver.read('abcdef'))).toBe('hello world');
+  });
+
+  it('should read inclusive byte ranges', async () => {
+    await driver.put('abcdef', Buffer.from('hello world'));
+
+    expect(await readAll(await driver.read('abcdef', { start: 6, end: 10 }))).toBe('world');
+  });
+
+  it('should delete objects and ignore missing ones', async () => {
+    await driver.put('abcdef', Buffer.from('hello'));
+
+    await driver.delete('abcdef');
+    await driver.delete('abcdef');
+
+    expect(await driver.exists('abcdef')).toBe(false);
+    await expect(driver.read('abcdef')).rejects.toThrow('ENOENT');
+  });
+
+  it('should refuse keys that could leave the root', async () => {
+    await expect(driver.put('../escape', Buffer.from('x'))).rejects.toThrow('Invalid storage key');
+    await expect(driver.exists('a/b')).rejects.toThrow('Invalid storage key');
+  });
+});
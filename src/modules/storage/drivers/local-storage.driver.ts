@@ -0,0 +1,52 @@
+import { randomUUID } from 'crypto';
+import { createReadStream } from 'fs';
+import { mkdir, rename, rm, stat, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { Readable } from 'stream';
+import { assertStorageKey, ByteRange, StorageDriver } from '../storage-driver';
+
+/**
+ * Keeps objects as files below a root directory, spread over subdirectories
+ * named after the first two characters of their keys.
+ */
+export class LocalStorageDriver extends StorageDriver {
+  constructor(private readonly root: string) {
+    super();
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const path = this.pathOf(key);
+    await mkdir(dirname(path), { recursive: true });
+
+    // Readers never see half-written files.
+    const partial = `${path}.${randomUUID()}.partial`;
+    await writeFile(partial, data);
+    await rename(partial, path);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      return (await stat(this.pathOf(key))).isFile();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async read(key: string, range?: ByteRange): Promise<Readable> {
+    const path = this.pathOf(key);
+    await stat(path);
+    return createReadStream(path, range);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathOf(key), { force: true });
+  }
+
+  private pathOf(key: string): string {
+    assertStorageKey(key);
+    return join(this.root, key.slice(0, 2), key);
+  }
+}
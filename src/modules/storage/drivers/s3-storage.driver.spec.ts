@@ -0,0 +1,76 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { LocalS3Client } from './local-s3-client';
+import { S3StorageDriver } from './s3-storage.driver';
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+describe('S3StorageDriver', () => {
+  let root: string;
+  let client: LocalS3Client;
+  let driver: S3StorageDriver;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 's3-'));
+    client = new LocalS3Client(root);
+    driver = new S3StorageDriver(client, 'attachments');
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should keep objects in the bucket', async () => {
+    const putObject = jest.spyOn(client, 'putObject');
+
+    await driver.put('abc', Buffer.from('hello world'), 'text/plain');
+
+    expect(putObject).toHaveBeenCalledWith({
+      Bucket: 'attachments',
+      Key: 'abc',
+      Body: Buffer.from('hello world'),
+      ContentType: 'text/plain',
+    });
+    expect(await driver.exists('abc')).toBe(true);
+    expect(await readAll(await driver.read('abc'))).toBe('hello world');
+  });
+
+  it('should ask for ranges with a Range header', async () => {
+    await driver.put('abc', Buffer.from('hello world'));
+    const getObject = jest.spyOn(client, 'getObject');
+
+    expect(await readAll(await driver.read('abc', { start: 0, end: 4 }))).toBe('hello');
+    expect(getObject).toHaveBeenCalledWith({
+      Bucket: 'attachments',
+      Key: 'abc',
+      Range: 'bytes=0-4',
+    });
+  });
+
+  it('should report missing objects', async () => {
+    expect(await driver.exists('missing')).toBe(false);
+    await expect(driver.read('missing')).rejects.toThrow('No object with key missing');
+  });
+
+  it('should pass on other errors of the store', async () => {
+    jest.spyOn(client, 'headObject').mockRejectedValue(new Error('Access denied'));
+
+    await expect(driver.exists('abc')).rejects.toThrow('Access denied');
+  });
+
+  it('should delete objects', async () => {
+    await driver.put('abc', Buffer.from('hello'));
+
+    await driver.delete('abc');
+
+    expect(await driver.exists('abc')).toBe(false);
+  });
+});
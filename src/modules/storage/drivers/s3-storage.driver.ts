@@ -0,0 +1,69 @@
+import { Readable } from 'stream';
+import { assertStorageKey, ByteRange, StorageDriver } from '../storage-driver';
+
+/**
+ * The few calls of an S3-compatible object store the driver needs, shaped
+ * like the AWS SDK's. `headObject` rejects with an error named `NotFound`
+ * for missing objects.
+ */
+export interface S3CompatibleClient {
+  putObject(params: {
+    Bucket: string;
+    Key: string;
+    Body: Buffer;
+    ContentType?: string;
+  }): Promise<unknown>;
+  headObject(params: { Bucket: string; Key: string }): Promise<{ ContentLength?: number }>;
+  getObject(params: { Bucket: string; Key: string; Range?: string }): Promise<{ Body: Readable }>;
+  deleteObject(params: { Bucket: string; Key: string }): Promise<unknown>;
+}
+
+/**
+ * Keeps objects in one bucket of an S3-compatible store.
+ */
+export class S3StorageDriver extends StorageDriver {
+  constructor(
+    private readonly client: S3CompatibleClient,
+    private readonly bucket: string,
+  ) {
+    super();
+  }
+
+  async put(key: string, data: Buffer, contentType?: string): Promise<void> {
+    assertStorageKey(key);
+    await this.client.putObject({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType,
+    });
+  }
+
+  async exists(key: string): Promise<boolean> {
+    assertStorageKey(key);
+    try {
+      await this.client.headObject({ Bucket: this.bucket, Key: key });
+      return true;
+    } catch (error) {
+      if ((error as Error).name === 'NotFound') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async read(key: string, range?: ByteRange): Promise<Readable> {
+    assertStorageKey(key);
+    const { Body } = await this.client.getObject({
+      Bucket: this.bucket,
+      Key: key,
+      Range: range && `bytes=${range.start}-${range.end}`,
+    });
+    return Body;
+  }
+
+  async delete(key: string): Promise<void> {
+    assertStorageKey(key);
+    await this.client.deleteObject({ Bucket: this.bucket, Key: key });
+  }
+}
@@ -0,0 +1,38 @@
+import { Readable } from 'stream';
+
+/**
+ * Inclusive byte offsets of a part of a stored object.
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Where uploaded files are kept. Keys are chosen by the caller and must only
+ * contain letters, digits, dots, dashes and underscores.
+ */
+export abstract class StorageDriver {
+  abstract put(key: string, data: Buffer, contentType?: string): Promise<void>;
+
+  abstract exists(key: string): Promise<boolean>;
+
+  /**
+   * Streams the object, or the given part of it. Rejects when the object is
+   * missing.
+   */
+  abstract read(key: string, range?: ByteRange): Promise<Readable>;
+
+  /**
+   * Deletes the object; deleting a missing object is not an error.
+   */
+  abstract delete(key: string): Promise<void>;
+}
+
+const STORAGE_KEY = /^[\w.-]+$/;
+
+export function assertStorageKey(key: string): void {
+  if (!STORAGE_KEY.test(key) || key.startsWith('.')) {
+    throw new Error(`Invalid storage key "${key}"`);
+  }
+}
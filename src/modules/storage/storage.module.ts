@@ -0,0 +1,39 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LocalS3Client } from './drivers/local-s3-client';
+import { LocalStorageDriver } from './drivers/local-storage.driver';
+import { S3StorageDriver } from './drivers/s3-storage.driver';
+import { StorageDriver } from './storage-driver';
+
+/**
+ * Picks the driver named by `STORAGE_DRIVER`. The `s3` driver runs against
+ * the local stand-in client until a real S3-compatible client is wired in.
+ */
+export function createStorageDriver(configService: ConfigService): StorageDriver {
+  const root = configService.get<string>('STORAGE_LOCAL_PATH') || 'storage';
+  const driver = configService.get<string>('STORAGE_DRIVER') || 'local';
+
+  switch (driver) {
+    case 'local':
+      return new LocalStorageDriver(root);
+    case 's3':
+      return new S3StorageDriver(
+        new LocalS3Client(root),
+        configService.get<string>('STORAGE_S3_BUCKET') || 'attachments',
+      );
+    default:
+      throw new Error(`Unknown storage driver "${driver}"; use local or s3`);
+  }
+}
+
+@Module({
+  providers: [
+    {
+      provide: StorageDriver,
+      inject: [ConfigService],
+      useFactory: createStorageDriver,
+    },
+  ],
+  exports: [StorageDriver],
+})
+export class StorageModule {}
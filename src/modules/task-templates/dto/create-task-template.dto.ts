@@ -0,0 +1,61 @@
+import { TaskPriority } from '@modules/tasks/enums/task-priority.enum';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class TaskTemplateNodeDto {
+  @ApiProperty({ example: 'Onboard {{name}}' })
+  @IsString()
+  @IsNotEmpty()
+  title: string;
+
+  @ApiProperty({ example: 'Starts on {{date}}', required: false, nullable: true })
+  @IsString()
+  @IsOptional()
+  description?: string | null;
+
+  @ApiProperty({ enum: TaskPriority, required: false, default: TaskPriority.MEDIUM })
+  @IsEnum(TaskPriority)
+  @IsOptional()
+  priority?: TaskPriority;
+
+  @ApiProperty({
+    example: 7,
+    required: false,
+    nullable: true,
+    description: 'Days from the day the template is used to the due date; may be negative',
+  })
+  @IsInt()
+  @Min(-3650)
+  @Max(3650)
+  @IsOptional()
+  dueInDays?: number | null;
+
+  @ApiProperty({ type: () => [TaskTemplateNodeDto], required: false })
+  @IsArray()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => TaskTemplateNodeDto)
+  @IsOptional()
+  subtasks?: TaskTemplateNodeDto[];
+}
+
+export class CreateTaskTemplateDto extends TaskTemplateNodeDto {
+  @ApiProperty({ example: 'Onboarding' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+}
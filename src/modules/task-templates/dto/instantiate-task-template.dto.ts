@@ -0,0 +1,28 @@
+import { CreateTaskDto } from '@modules/tasks/dto/create-task.dto';
+import { ApiProperty, PickType } from '@nestjs/swagger';
+import { IsDateString, IsObject, IsOptional } from 'class-validator';
+
+export class InstantiateTaskTemplateDto extends PickType(CreateTaskDto, [
+  'projectId',
+  'parentId',
+  'assigneeIds',
+  'overrideWipLimit',
+] as const) {
+  @ApiProperty({
+    required: false,
+    example: { name: 'Ada Lovelace' },
+    description: 'Values of the placeholders in the template, by name',
+  })
+  @IsObject()
+  @IsOptional()
+  variables?: Record<string, string>;
+
+  @ApiProperty({
+    required: false,
+    example: '2025-03-03',
+    description: 'Day the due dates count from and the value of {{date}}; defaults to today',
+  })
+  @IsDateString()
+  @IsOptional()
+  startDate?: string;
+}
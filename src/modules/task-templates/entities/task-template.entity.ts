@@ -0,0 +1,75 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Organization } from '../../organizations/entities/organization.entity';
+import { TaskPriority } from '../../tasks/enums/task-priority.enum';
+import type { User } from '../../users/entities/user.entity';
+
+/**
+ * A subtask of a template. Texts may contain placeholders such as
+ * `{{name}}`; `dueInDays` counts from the day the template is used.
+ */
+export interface TaskTemplateNode {
+  title: string;
+  description?: string | null;
+  priority?: TaskPriority;
+  dueInDays?: number | null;
+  subtasks?: TaskTemplateNode[];
+}
+
+/**
+ * Reusable shape of a task and its subtasks, shared with the organization.
+ */
+@Entity('task_templates')
+@Index('idx_task_templates_organization_id', ['organizationId'])
+export class TaskTemplate {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ length: 100 })
+  name: string;
+
+  @Column()
+  title: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  @Column({ type: 'varchar', default: TaskPriority.MEDIUM })
+  priority: TaskPriority;
+
+  /** Days from the day the template is used to the due date; null for none. */
+  @Column({ name: 'due_in_days', type: 'integer', nullable: true })
+  dueInDays: number | null;
+
+  @Column({ type: 'jsonb', default: [] })
+  subtasks: TaskTemplateNode[];
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization: Organization;
+
+  @Column({ name: 'created_by_id', type: 'uuid' })
+  createdById: string;
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  @ManyToOne(() => require('../../users/entities/user.entity').User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'created_by_id' })
+  createdBy: User;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
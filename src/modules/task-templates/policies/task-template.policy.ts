@@ -0,0 +1,17 @@
+import { isOrganizationAdmin, Policy, PolicyAction } from '@modules/auth/policies/policy';
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { Injectable } from '@nestjs/common';
+import { TaskTemplate } from '../entities/task-template.entity';
+
+/**
+ * Templates are shared with the whole organization, but only their creator
+ * and organization admins may change them.
+ */
+@Injectable()
+export class TaskTemplatePolicy extends Policy<Pick<TaskTemplate, 'createdById'>> {
+  protected readonly resourceName = 'template';
+
+  can(actor: AuthUser, action: PolicyAction, template: Pick<TaskTemplate, 'createdById'>): boolean {
+    return action === 'read' || template.createdById === actor.id || isOrganizationAdmin(actor);
+  }
+}
@@ -0,0 +1,73 @@
+import { RequirePermissions } from '@common/decorators/require-permissions.decorator';
+import { Authenticated, CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { CreateTaskTemplateDto } from './dto/create-task-template.dto';
+import { InstantiateTaskTemplateDto } from './dto/instantiate-task-template.dto';
+import { UpdateTaskTemplateDto } from './dto/update-task-template.dto';
+import { TaskTemplatesService } from './task-templates.service';
+
+@ApiTags('templates')
+@Controller('templates')
+@Authenticated()
+export class TaskTemplatesController {
+  constructor(private readonly templatesService: TaskTemplatesService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Save the shape of a task and its subtasks as a template' })
+  create(@Body() createTemplateDto: CreateTaskTemplateDto, @CurrentUser() user: AuthUser) {
+    return this.templatesService.create(createTemplateDto, user);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List the templates of the organization' })
+  findAll(@CurrentUser() user: AuthUser) {
+    return this.templatesService.findAll(user);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Find a template by ID' })
+  findOne(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.templatesService.findOne(id, user);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a template' })
+  update(
+    @Param('id') id: string,
+    @Body() updateTemplateDto: UpdateTaskTemplateDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.templatesService.update(id, updateTemplateDto, user);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a template; tasks created from it are kept' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string, @CurrentUser() user: AuthUser): Promise<void> {
+    await this.templatesService.remove(id, user);
+  }
+
+  @Post(':id/instantiate')
+  @RequirePermissions(Permission.TASK_CREATE)
+  @ApiOperation({ summary: 'Create the tasks of a template, filling in its placeholders' })
+  instantiate(
+    @Param('id') id: string,
+    @Body() instantiateDto: InstantiateTaskTemplateDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.templatesService.instantiate(id, instantiateDto, user);
+  }
+}
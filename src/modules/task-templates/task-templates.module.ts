@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TasksModule } from '../tasks/tasks.module';
+import { TaskTemplate } from './entities/task-template.entity';
+import { TaskTemplatePolicy } from './policies/task-template.policy';
+import { TaskTemplatesController } from './task-templates.controller';
+import { TaskTemplatesService } from './task-templates.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([TaskTemplate]), TasksModule],
+  controllers: [TaskTemplatesController],
+  providers: [TaskTemplatesService, TaskTemplatePolicy],
+})
+export class TaskTemplatesModule {}
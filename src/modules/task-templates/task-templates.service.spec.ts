@@ -0,0 +1,183 @@
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { OrganizationRole } from '@modules/organizations/enums/organization-role.enum';
+import { TaskPriority } from '@modules/tasks/enums/task-priority.enum';
+import { BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { TasksService } from '../tasks/tasks.service';
+import { TaskTemplate, TaskTemplateNode } from './entities/task-template.entity';
+import { TaskTemplatePolicy } from './policies/task-template.policy';
+import { TaskTemplatesService } from './task-templates.service';
+
+describe('TaskTemplatesService', () => {
+  let service: TaskTemplatesService;
+
+  const actor: AuthUser = {
+    id: 'u1',
+    email: 'member@example.com',
+    name: 'Member',
+    role: 'user',
+    organizationId: 'org-1',
+    organizationRole: OrganizationRole.MEMBER,
+    permissions: [],
+  };
+  const admin: AuthUser = { ...actor, id: 'u3', organizationRole: OrganizationRole.ADMIN };
+
+  const taskTemplate = (overrides: Partial<TaskTemplate> = {}): TaskTemplate =>
+    ({
+      id: 't1',
+      name: 'Onboarding',
+      title: 'Onboard {{name}}',
+      description: 'Starts on {{date}}',
+      priority: TaskPriority.HIGH,
+      dueInDays: 14,
+      subtasks: [
+        {
+          title: 'Set up a laptop for {{ name }}',
+          dueInDays: -1,
+          subtasks: [{ title: 'Order the laptop', priority: TaskPriority.LOW }],
+        },
+      ],
+      createdById: 'u2',
+      organizationId: 'org-1',
+      ...overrides,
+    }) as TaskTemplate;
+
+  const mockRepository = {
+    create: jest.fn(data => data),
+    save: jest.fn(async entity => entity),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    merge: jest.fn((entity, data) => Object.assign(entity, data)),
+    remove: jest.fn(),
+  };
+
+  const mockTasksService = {
+    createTree: jest.fn(async draft => draft),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskTemplatesService,
+        TaskTemplatePolicy,
+        { provide: getRepositoryToken(TaskTemplate), useValue: mockRepository },
+        { provide: TasksService, useValue: mockTasksService },
+      ],
+    }).compile();
+
+    service = module.get<TaskTemplatesService>(TaskTemplatesService);
+  });
+
+  describe('create', () => {
+    it('should save a template of the organization', async () => {
+      await service.create({ name: 'Release', title: 'Release {{version}}' }, actor);
+
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        name: 'Release',
+        title: 'Release {{version}}',
+        subtasks: [],
+        createdById: 'u1',
+        organizationId: 'org-1',
+      });
+    });
+
+    it('should refuse templates nested too deeply', async () => {
+      const nested = (depth: number): TaskTemplateNode => ({
+        title: `Level ${depth}`,
+        subtasks: depth < 6 ? [nested(depth + 1)] : [],
+      });
+
+      await expect(service.create({ name: 'Deep', ...nested(1) }, actor)).rejects.toThrow(
+        'nested at most 4 levels deep',
+      );
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should keep templates of others to their creator and admins', async () => {
+      mockRepository.findOne.mockImplementation(async () => taskTemplate());
+
+      await expect(service.findOne('t1', actor)).resolves.toMatchObject({ id: 't1' });
+      await expect(service.update('t1', { name: 'Mine now' }, actor)).rejects.toThrow(
+        ForbiddenException,
+      );
+      await expect(service.remove('t1', actor)).rejects.toThrow(ForbiddenException);
+      await expect(service.update('t1', { name: 'Renamed' }, admin)).resolves.toMatchObject({
+        name: 'Renamed',
+      });
+    });
+
+    it('should report templates of other organizations as missing', async () => {
+      mockRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.findOne('t1', actor)).rejects.toThrow(NotFoundException);
+      expect(mockRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 't1', organizationId: 'org-1' },
+      });
+    });
+  });
+
+  describe('instantiate', () => {
+    it('should fill in placeholders and count due dates from the start date', async () => {
+      mockRepository.findOne.mockResolvedValue(taskTemplate());
+
+      await service.instantiate(
+        't1',
+        { variables: { name: 'Ada' }, startDate: '2025-03-03', projectId: 'p1' },
+        actor,
+      );
+
+      expect(mockTasksService.createTree).toHaveBeenCalledWith(
+        {
+          title: 'Onboard Ada',
+          description: 'Starts on 2025-03-03',
+          priority: TaskPriority.HIGH,
+          dueDate: new Date('2025-03-17T00:00:00Z'),
+          subtasks: [
+            {
+              title: 'Set up a laptop for Ada',
+              priority: undefined,
+              dueDate: new Date('2025-03-02T00:00:00Z'),
+              subtasks: [
+                {
+                  title: 'Order the laptop',
+                  priority: TaskPriority.LOW,
+                  subtasks: [],
+                },
+              ],
+            },
+          ],
+        },
+        { projectId: 'p1' },
+        actor,
+      );
+    });
+
+    it('should name every placeholder without a value', async () => {
+      mockRepository.findOne.mockResolvedValue(
+        taskTemplate({ subtasks: [{ title: 'Tell {{manager}}' }] }),
+      );
+
+      await expect(service.instantiate('t1', {}, actor)).rejects.toThrow(
+        'No value given for the placeholders: name, manager',
+      );
+      expect(mockTasksService.createTree).not.toHaveBeenCalled();
+    });
+
+    it('should only accept text as placeholder values', async () => {
+      mockRepository.findOne.mockResolvedValue(taskTemplate());
+
+      await expect(
+        service.instantiate(
+          't1',
+          { variables: { name: { first: 'Ada' } as unknown as string } },
+          actor,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Task } from '../tasks/entities/task.entity';
+import { TaskDraft } from '../tasks/interfaces/task-draft.interface';
+import { TasksService } from '../tasks/tasks.service';
+import { CreateTaskTemplateDto } from './dto/create-task-template.dto';
+import { InstantiateTaskTemplateDto } from './dto/instantiate-task-template.dto';
+import { UpdateTaskTemplateDto } from './dto/update-task-template.dto';
+import { TaskTemplate, TaskTemplateNode } from './entities/task-template.entity';
+import { TaskTemplatePolicy } from './policies/task-template.policy';
+import { fillPlaceholders, findPlaceholders } from './utils/placeholder.util';
+
+const MAX_TEMPLATE_TASKS = 200;
+const MAX_TEMPLATE_DEPTH = 5;
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * The nodes of a template tree, depth first, with their depth; the top task
+ * is at depth 1.
+ */
+function flattenTemplate(node: TaskTemplateNode, depth = 1): [TaskTemplateNode, number][] {
+  return [
+    [node, depth],
+    ...(node.subtasks ?? []).flatMap(subtask => flattenTemplate(subtask, depth + 1)),
+  ];
+}
+
+@Injectable()
+export class TaskTemplatesService {
+  constructor(
+    @InjectRepository(TaskTemplate)
+    private templatesRepository: Repository<TaskTemplate>,
+    private taskTemplatePolicy: TaskTemplatePolicy,
+    private tasksService: TasksService,
+  ) {}
+
+  async create(createTemplateDto: CreateTaskTemplateDto, actor: AuthUser): Promise<TaskTemplate> {
+    this.assertTemplateSize(createTemplateDto);
+    const template = this.templatesRepository.create({
+      ...createTemplateDto,
+      subtasks: createTemplateDto.subtasks ?? [],
+      createdById: actor.id,
+      organizationId: actor.organizationId,
+    });
+    return this.templatesRepository.save(template);
+  }
+
+  findAll(actor: AuthUser): Promise<TaskTemplate[]> {
+    return this.templatesRepository.find({
+      where: { organizationId: actor.organizationId },
+      order: { name: 'ASC' },
+    });
+  }
+
+  async findOne(id: string, actor: AuthUser): Promise<TaskTemplate> {
+    const template = await this.templatesRepository.findOne({
+      where: { id, organizationId: actor.organizationId },
+    });
+    if (!template || !this.taskTemplatePolicy.can(actor, 'read', template)) {
+      throw new NotFoundException(`Template with ID ${id} not found`);
+    }
+    return template;
+  }
+
+  async update(
+    id: string,
+    updateTemplateDto: UpdateTaskTemplateDto,
+    actor: AuthUser,
+  ): Promise<TaskTemplate> {
+    const template = await this.findOne(id, actor);
+    this.taskTemplatePolicy.authorize(actor, 'update', template);
+
+    this.templatesRepository.merge(template, updateTemplateDto);
+    this.assertTemplateSize(template);
+    return this.templatesRepository.save(template);
+  }
+
+  async remove(id: string, actor: AuthUser): Promise<void> {
+    const template = await this.findOne(id, actor);
+    this.taskTemplatePolicy.authorize(actor, 'delete', template);
+    await this.templatesRepository.remove(template);
+  }
+
+  /**
+   * Creates the tasks of a template in one go. Placeholders are filled in
+   * from `variables`, and `{{date}}` stands for the start date; due dates
+   * count from the start date too.
+   */
+  async instantiate(
+    id: string,
+    instantiateDto: InstantiateTaskTemplateDto,
+    actor: AuthUser,
+  ): Promise<Task> {
+    const template = await this.findOne(id, actor);
+    const { variables = {}, startDate, ...options } = instantiateDto;
+    const start = startDate ? new Date(startDate) : new Date();
+
+    const invalid = Object.keys(variables).filter(name => typeof variables[name] !== 'string');
+    if (invalid.length) {
+      throw new BadRequestException(`Placeholder values must be text: ${invalid.join(', ')}`);
+    }
+    const values: Record<string, string> = { date: start.toISOString().slice(0, 10), ...variables };
+    const missing = [
+      ...new Set(
+        flattenTemplate(template).flatMap(([node]) =>
+          findPlaceholders(`${node.title} ${node.description ?? ''}`),
+        ),
+      ),
+    ].filter(name => !Object.prototype.hasOwnProperty.call(values, name));
+    if (missing.length) {
+      throw new BadRequestException(`No value given for the placeholders: ${missing.join(', ')}`);
+    }
+
+    return this.tasksService.createTree(this.toDraft(template, start, values), options, actor);
+  }
+
+  private toDraft(node: TaskTemplateNode, start: Date, values: Record<string, string>): TaskDraft {
+    return {
+      title: fillPlaceholders(node.title, values),
+      description: node.description ? fillPlaceholders(node.description, values) : undefined,
+      priority: node.priority,
+      dueDate:
+        node.dueInDays === null || node.dueInDays === undefined
+          ? undefined
+          : new Date(start.getTime() + node.dueInDays * DAY),
+      subtasks: (node.subtasks ?? []).map(subtask => this.toDraft(subtask, start, values)),
+    };
+  }
+
+  private assertTemplateSize(template: TaskTemplateNode): void {
+    const nodes = flattenTemplate(template);
+    if (nodes.length > MAX_TEMPLATE_TASKS) {
+      throw new BadRequestException(`A template may hold at most ${MAX_TEMPLATE_TASKS} tasks`);
+    }
+    if (nodes.some(([, depth]) => depth > MAX_TEMPLATE_DEPTH)) {
+      throw new BadRequestException(
+        `Template subtasks may be nested at most ${MAX_TEMPLATE_DEPTH - 1} levels deep`,
+      );
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { fillPlaceholders, findPlaceholders } from './placeholder.util';
+
+describe('placeholders', () => {
+  it('should find the placeholders of a text', () => {
+    expect(findPlaceholders('Onboard {{name}} on {{ date }}, {{name}} again')).toEqual([
+      'name',
+      'date',
+      'name',
+    ]);
+    expect(findPlaceholders('No {{ }} or {{1st}} placeholders {here}')).toEqual([]);
+  });
+
+  it('should fill in known placeholders only', () => {
+    expect(
+      fillPlaceholders('Onboard {{name}} on {{ date }} with {{buddy}}', {
+        name: 'Ada',
+        date: '2025-03-03',
+      }),
+    ).toEqual('Onboard Ada on 2025-03-03 with {{buddy}}');
+  });
+
+  it('should not treat inherited properties as values', () => {
+    expect(fillPlaceholders('{{constructor}}', {})).toEqual('{{constructor}}');
+  });
+
+  it('should insert values literally', () => {
+    expect(fillPlaceholders('Release {{version}}', { version: '$& $1' })).toEqual('Release $& $1');
+  });
+});
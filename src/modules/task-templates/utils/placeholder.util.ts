@@ -0,0 +1,18 @@
+const PLACEHOLDER = /\{\{\s*([A-Za-z][\w-]*)\s*\}\}/g;
+
+/**
+ * Names of the placeholders in a text, e.g. `name` for `Onboard {{name}}`.
+ */
+export function findPlaceholders(text: string): string[] {
+  return [...text.matchAll(PLACEHOLDER)].map(match => match[1]);
+}
+
+/**
+ * Replaces each `{{placeholder}}` by its value. Placeholders without a value
+ * are left as they are.
+ */
+export function fillPlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder,
+  );
+}
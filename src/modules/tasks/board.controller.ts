@@ -0,0 +1,26 @@
+import { RateLimit } from '@common/decorators/rate-limit.decorator';
+import { RequirePermissions } from '@common/decorators/require-permissions.decorator';
+import { RateLimitGuard } from '@common/guards/rate-limit.guard';
+import { Authenticated, CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { BoardFilterDto } from './dto/board-filter.dto';
+import { TasksService } from './tasks.service';
+
+@ApiTags('board')
+@Controller('board')
+@Authenticated()
+@UseGuards(RateLimitGuard)
+@RateLimit(100, 60000)
+@RequirePermissions(Permission.TASK_READ)
+export class BoardController {
+  constructor(private readonly tasksService: TasksService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get the tasks grouped by status, in board order' })
+  getBoard(@Query() filterDto: BoardFilterDto, @CurrentUser() user: AuthUser) {
+    return this.tasksService.getBoard(filterDto, user);
+  }
+}
@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsNotEmpty, IsOptional, IsUUID } from 'class-validator';
+
+export class AssignTaskDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the organization member to assign',
+  })
+  @IsUUID()
+  @IsNotEmpty()
+  userId: string;
+
+  @ApiProperty({
+    required: false,
+    default: false,
+    description: 'Assign the user even if that exceeds a WIP limit; admins only, and audited',
+  })
+  @IsBoolean()
+  @IsOptional()
+  overrideWipLimit?: boolean;
+}
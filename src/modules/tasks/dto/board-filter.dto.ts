@@ -0,0 +1,8 @@
+import { PickType } from '@nestjs/swagger';
+import { TaskFilterDto } from './task-filter.dto';
+
+export class BoardFilterDto extends PickType(TaskFilterDto, [
+  'projectId',
+  'includeArchived',
+  'assignee',
+] as const) {}
@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class CreateChecklistItemDto {
+  @ApiProperty({ example: 'Update the changelog' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  text: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    nullable: true,
+    description: 'Member taking care of the item; only admins may pick someone else',
+  })
+  @IsUUID()
+  @IsOptional()
+  assigneeId?: string | null;
+
+  @ApiProperty({ example: '2023-12-31T23:59:59Z', required: false, nullable: true })
+  @IsDateString()
+  @IsOptional()
+  dueDate?: Date | null;
+
+  @ApiProperty({
+    example: 0,
+    required: false,
+    description: 'Zero-based place to insert the item at; defaults to the end of the checklist',
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  position?: number;
+}
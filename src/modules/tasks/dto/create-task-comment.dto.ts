@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class CreateTaskCommentDto {
+  @ApiProperty({ example: 'I have started working on the API section.' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10000)
+  content: string;
+}
@@ -1,5 +1,18 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsDateString, IsEnum, IsNotEmpty, IsOptional, IsString, IsUUID } from 'class-validator';
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
 import { TaskPriority } from '../enums/task-priority.enum';
 import { TaskStatus } from '../enums/task-status.enum';
 
@@ -29,8 +42,76 @@ export class CreateTaskDto {
   @IsOptional()
   dueDate?: Date;
 
-  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  @ApiProperty({
+    example: 90,
+    required: false,
+    nullable: true,
+    description: 'Expected effort in minutes; null clears the estimate',
+  })
+  @IsInt()
+  @Min(0)
+  @Max(1000000)
+  @IsOptional()
+  estimateMinutes?: number | null;
+
+  @ApiProperty({
+    type: [String],
+    required: false,
+    description:
+      'Users working on the task; defaults to the caller. Only admins may assign others. Replaces the current assignees on update',
+  })
+  @IsArray()
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  assigneeIds?: string[];
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    nullable: true,
+    description: 'Parent task ID; null detaches a subtask from its parent',
+  })
   @IsUUID()
-  @IsNotEmpty()
-  userId: string;
+  @IsOptional()
+  parentId?: string | null;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    nullable: true,
+    description: 'Project the task belongs to; archived projects do not accept tasks',
+  })
+  @IsUUID()
+  @IsOptional()
+  projectId?: string | null;
+
+  @ApiProperty({
+    type: [String],
+    required: false,
+    description: 'IDs of labels owned by the task creator; replaces the current labels on update',
+  })
+  @IsArray()
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  labelIds?: string[];
+
+  @ApiProperty({
+    example: 'FREQ=WEEKLY;BYDAY=MO',
+    required: false,
+    description:
+      'iCalendar RRULE the task repeats by, starting at its due date. The next occurrence is created once this one is completed or due',
+  })
+  @IsString()
+  @MaxLength(200)
+  @IsOptional()
+  recurrence?: string;
+
+  @ApiProperty({
+    required: false,
+    default: false,
+    description: 'Create the task even if it exceeds a WIP limit; admins only, and audited',
+  })
+  @IsBoolean()
+  @IsOptional()
+  overrideWipLimit?: boolean;
 }
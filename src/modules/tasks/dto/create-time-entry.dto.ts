@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsInt, Max, Min } from 'class-validator';
+import { StartTimerDto } from './start-timer.dto';
+
+export class CreateTimeEntryDto extends StartTimerDto {
+  @ApiProperty({ example: '2023-12-31T09:00:00Z', description: 'When the work started' })
+  @IsDateString()
+  startedAt: string;
+
+  @ApiProperty({ example: 45, description: 'Minutes worked, at most a day' })
+  @IsInt()
+  @Min(1)
+  @Max(24 * 60)
+  minutes: number;
+}
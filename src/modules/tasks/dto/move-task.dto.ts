@@ -0,0 +1,43 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { TaskStatus } from '../enums/task-status.enum';
+
+export class MoveTaskDto {
+  @ApiProperty({
+    enum: TaskStatus,
+    example: TaskStatus.IN_PROGRESS,
+    required: false,
+    description: 'Column to move the task to; defaults to its current status',
+  })
+  @IsEnum(TaskStatus)
+  @IsOptional()
+  status?: TaskStatus;
+
+  @ApiProperty({
+    required: false,
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Task in the target column to place the task directly after',
+  })
+  @IsUUID()
+  @IsOptional()
+  afterId?: string;
+
+  @ApiProperty({
+    required: false,
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description:
+      'Task in the target column to place the task directly before. Without either neighbor the task goes to the end of the column',
+  })
+  @IsUUID()
+  @IsOptional()
+  beforeId?: string;
+
+  @ApiProperty({
+    required: false,
+    default: false,
+    description: 'Move the task even if the column is over its WIP limit; admins only, and audited',
+  })
+  @IsBoolean()
+  @IsOptional()
+  overrideWipLimit?: boolean;
+}
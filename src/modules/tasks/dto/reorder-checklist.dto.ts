@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayUnique, IsArray, IsUUID } from 'class-validator';
+
+export class ReorderChecklistDto {
+  @ApiProperty({
+    type: [String],
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+    description: 'IDs of all items of the checklist in their new order',
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  itemIds: string[];
+}
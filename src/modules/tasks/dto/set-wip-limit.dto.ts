@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+import { TaskStatus } from '../enums/task-status.enum';
+
+export class SetWipLimitDto {
+  @ApiProperty({ enum: TaskStatus, example: TaskStatus.IN_PROGRESS })
+  @IsEnum(TaskStatus)
+  status: TaskStatus;
+
+  @ApiProperty({
+    required: false,
+    description: 'Limit the tasks of this project; leave out both IDs to limit the organization',
+  })
+  @IsUUID()
+  @IsOptional()
+  projectId?: string;
+
+  @ApiProperty({ required: false, description: 'Limit the tasks assigned to this user' })
+  @IsUUID()
+  @IsOptional()
+  userId?: string;
+
+  @ApiProperty({ example: 3, description: 'Most tasks allowed in the status at once' })
+  @IsInt()
+  @Min(0)
+  @Max(10000)
+  maxTasks: number;
+}
@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsNumber, IsOptional, IsString, Max, Min } from 'class-validator';
+
+export class TaskCommentFilterDto {
+  @ApiProperty({
+    required: false,
+    description: 'Opaque cursor returned as nextCursor by the previous page',
+  })
+  @IsString()
+  @IsOptional()
+  cursor?: string;
+
+  @ApiProperty({
+    required: false,
+    default: 20,
+    minimum: 1,
+    maximum: 100,
+    description: 'Number of comments per page',
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  limit?: number = 20;
+}
@@ -1,20 +1,46 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { Type } from 'class-transformer';
+import { Transform, Type } from 'class-transformer';
 import {
+  IsArray,
+  IsBoolean,
   IsEnum,
+  IsIn,
   IsISO8601,
   IsNumber,
   IsOptional,
   IsString,
   IsUUID,
   Max,
+  MaxLength,
   Min,
   MinLength,
+  ValidateIf,
 } from 'class-validator';
 import { TaskPriority } from '../enums/task-priority.enum';
 import { TaskStatus } from '../enums/task-status.enum';
 
 export class TaskFilterDto {
+  @ApiProperty({
+    required: false,
+    description:
+      'ID of a saved view whose filters and sort order to apply; other parameters take precedence',
+  })
+  @IsUUID()
+  @IsOptional()
+  view?: string;
+
+  @ApiProperty({
+    required: false,
+    example: 'status:in_progress priority:high due:<7d label:bug assignee:me "login page"',
+    description:
+      'Filters written as one query: status, priority, due, label, assignee, creator, watcher, project ' +
+      'and parent qualifiers plus free text to search for. They take precedence over the separate parameters',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  q?: string;
+
   @ApiProperty({
     enum: TaskStatus,
     required: false,
@@ -35,7 +61,8 @@ export class TaskFilterDto {
 
   @ApiProperty({
     required: false,
-    description: 'Search tasks by title or description',
+    description:
+      'Full-text search in titles and descriptions; supports "quoted phrases" and prefix* words',
   })
   @IsString()
   @IsOptional()
@@ -44,11 +71,104 @@ export class TaskFilterDto {
 
   @ApiProperty({
     required: false,
-    description: 'Filter tasks by user ID',
+    example: 'me',
+    description: 'Only return tasks assigned to the given user ID, or to the caller with `me`',
+  })
+  @ValidateIf((_, value) => value !== 'me')
+  @IsUUID()
+  @IsOptional()
+  assignee?: string;
+
+  @ApiProperty({
+    required: false,
+    example: 'me',
+    description: 'Only return tasks created by the given user ID, or by the caller with `me`',
   })
+  @ValidateIf((_, value) => value !== 'me')
   @IsUUID()
   @IsOptional()
-  userId?: string;
+  createdBy?: string;
+
+  @ApiProperty({
+    required: false,
+    example: 'me',
+    description: 'Only return tasks watched by the given user ID, or by the caller with `me`',
+  })
+  @ValidateIf((_, value) => value !== 'me')
+  @IsUUID()
+  @IsOptional()
+  watching?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Only return direct subtasks of the given parent task',
+  })
+  @IsUUID()
+  @IsOptional()
+  parentId?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Only return tasks without a parent',
+  })
+  @IsBoolean()
+  @IsOptional()
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  topLevelOnly?: boolean;
+
+  @ApiProperty({
+    required: false,
+    description: 'Only return tasks with checklist items that are not done yet',
+  })
+  @IsBoolean()
+  @IsOptional()
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  hasOpenChecklistItems?: boolean;
+
+  @ApiProperty({
+    required: false,
+    type: String,
+    example: 'bug,frontend',
+    description: 'Comma-separated label names to filter by',
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  @Transform(({ obj, key }) =>
+    String(obj[key])
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean),
+  )
+  labels?: string[];
+
+  @ApiProperty({
+    required: false,
+    enum: ['any', 'all'],
+    default: 'any',
+    description: 'Whether tasks need any or all of the given labels',
+  })
+  @IsIn(['any', 'all'])
+  @IsOptional()
+  labelMatch?: 'any' | 'all';
+
+  @ApiProperty({
+    required: false,
+    description: 'Only return tasks of the given project, even when it is archived',
+  })
+  @IsUUID()
+  @IsOptional()
+  projectId?: string;
+
+  @ApiProperty({
+    required: false,
+    default: false,
+    description: 'Include tasks of archived projects, which are hidden by default',
+  })
+  @IsBoolean()
+  @IsOptional()
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  includeArchived?: boolean;
 
   @ApiProperty({
     required: false,
@@ -68,15 +188,32 @@ export class TaskFilterDto {
 
   @ApiProperty({
     required: false,
-    default: 1,
-    minimum: 1,
-    description: 'Page number for pagination',
+    description: 'Opaque cursor returned as meta.next or meta.prev by the previous page',
   })
-  @IsNumber()
+  @IsString()
   @IsOptional()
-  @Min(1)
-  @Type(() => Number)
-  page?: number = 1;
+  cursor?: string;
+
+  @ApiProperty({
+    required: false,
+    default: 'createdAt:desc',
+    example: 'priority:desc,dueDate:asc',
+    description:
+      'Comma-separated field:direction pairs; sortable fields are createdAt, updatedAt, dueDate, priority, status and title',
+  })
+  @IsString()
+  @IsOptional()
+  sort?: string;
+
+  @ApiProperty({
+    required: false,
+    default: false,
+    description: 'Count all matching tasks into meta.total, which is slow on large lists',
+  })
+  @IsBoolean()
+  @IsOptional()
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  includeTotal?: boolean;
 
   @ApiProperty({
     required: false,
@@ -21,12 +21,70 @@ export class TaskResponseDto {
   @ApiProperty({ example: '2023-12-31T23:59:59Z' })
   dueDate: Date;
 
+  @ApiProperty({ example: 90, nullable: true, description: 'Expected effort in minutes' })
+  estimateMinutes: number | null;
+
+  @ApiProperty({
+    example: 'i',
+    nullable: true,
+    description: 'Position in the board column; null for tasks never placed on the board',
+  })
+  rank: string | null;
+
   @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
-  userId: string;
+  createdById: string;
+
+  @ApiProperty({ type: [String], example: ['123e4567-e89b-12d3-a456-426614174000'] })
+  assigneeIds: string[];
+
+  @ApiProperty({ type: [String], example: [] })
+  watcherIds: string[];
+
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000', nullable: true })
+  parentId: string | null;
+
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000', nullable: true })
+  projectId: string | null;
+
+  @ApiProperty({
+    example: null,
+    nullable: true,
+    description: 'Series the task is an occurrence of; null for tasks that do not repeat',
+  })
+  recurrenceId: string | null;
+
+  @ApiProperty({
+    example: 50,
+    nullable: true,
+    description: 'Percentage of completed tasks in the subtree; null without subtasks',
+  })
+  completionPercentage: number | null;
+
+  @ApiProperty({
+    example: false,
+    description: 'True while at least one blocking task is not completed',
+  })
+  blocked: boolean;
+
+  @ApiProperty({
+    example: { total: 4, done: 1 },
+    description: 'Number of checklist items and of those checked off',
+  })
+  checklist: { total: number; done: number };
 
   @ApiProperty({ example: '2023-01-01T00:00:00.000Z' })
   createdAt: Date;
 
   @ApiProperty({ example: '2023-01-01T00:00:00.000Z' })
   updatedAt: Date;
+
+  @ApiProperty({ example: 3, description: 'Revision of the task, part of its ETag' })
+  version: number;
+
+  @ApiProperty({
+    example: null,
+    nullable: true,
+    description: 'When the task was moved to the trash; null for live tasks',
+  })
+  deletedAt: Date | null;
 }
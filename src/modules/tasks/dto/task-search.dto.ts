@@ -0,0 +1,52 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MinLength,
+  Min,
+} from 'class-validator';
+
+export class TaskSearchDto {
+  @ApiProperty({
+    example: 'deploy* "login page"',
+    description:
+      'Words to search titles and descriptions for; quote a phrase to match it exactly and end a word with * to match it as a prefix',
+  })
+  @IsString()
+  @MinLength(2)
+  q: string;
+
+  @ApiProperty({ required: false, description: 'Only search the tasks of this project' })
+  @IsUUID()
+  @IsOptional()
+  projectId?: string;
+
+  @ApiProperty({
+    required: false,
+    default: false,
+    description: 'Include tasks of archived projects',
+  })
+  @IsBoolean()
+  @IsOptional()
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  includeArchived?: boolean;
+
+  @ApiProperty({
+    required: false,
+    default: 20,
+    minimum: 1,
+    maximum: 100,
+    description: 'Number of best matches to return',
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  limit?: number = 20;
+}
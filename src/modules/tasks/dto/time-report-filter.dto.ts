@@ -0,0 +1,32 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsISO8601, IsOptional, IsUUID } from 'class-validator';
+
+export class TimeReportFilterDto {
+  @ApiProperty({
+    required: false,
+    example: '2023-12-01T00:00:00Z',
+    description: 'Only count time entries started at or after this instant',
+  })
+  @IsISO8601()
+  @IsOptional()
+  from?: string;
+
+  @ApiProperty({
+    required: false,
+    example: '2024-01-01T00:00:00Z',
+    description: 'Only count time entries started before this instant',
+  })
+  @IsISO8601()
+  @IsOptional()
+  to?: string;
+
+  @ApiProperty({ required: false, description: 'Only report on tasks of this project' })
+  @IsUUID()
+  @IsOptional()
+  projectId?: string;
+
+  @ApiProperty({ required: false, description: 'Only count time logged by this user' })
+  @IsUUID()
+  @IsOptional()
+  userId?: string;
+}
@@ -0,0 +1,31 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsNumber, IsOptional, Max, Min } from 'class-validator';
+
+export class TrashFilterDto {
+  @ApiProperty({
+    required: false,
+    default: 1,
+    minimum: 1,
+    description: 'Page number for pagination',
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(1)
+  @Type(() => Number)
+  page?: number = 1;
+
+  @ApiProperty({
+    required: false,
+    default: 10,
+    minimum: 1,
+    maximum: 100,
+    description: 'Number of items per page',
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  limit?: number = 10;
+}
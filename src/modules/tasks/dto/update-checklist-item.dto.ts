@@ -0,0 +1,12 @@
+import { ApiProperty, OmitType, PartialType } from '@nestjs/swagger';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { CreateChecklistItemDto } from './create-checklist-item.dto';
+
+export class UpdateChecklistItemDto extends PartialType(
+  OmitType(CreateChecklistItemDto, ['position'] as const),
+) {
+  @ApiProperty({ example: true, required: false })
+  @IsBoolean()
+  @IsOptional()
+  done?: boolean;
+}
@@ -0,0 +1,28 @@
+import { ApiProperty, PartialType, PickType } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { CreateTaskDto } from './create-task.dto';
+
+/**
+ * Changes to a series that apply to the given occurrence and every open one
+ * after it, as well as to the occurrences still to come.
+ */
+export class UpdateTaskRecurrenceDto extends PartialType(
+  PickType(CreateTaskDto, [
+    'title',
+    'description',
+    'priority',
+    'projectId',
+    'labelIds',
+    'assigneeIds',
+  ] as const),
+) {
+  @ApiProperty({
+    example: 'FREQ=MONTHLY;BYDAY=-1FR',
+    required: false,
+    description: 'New RRULE, counted from the due date of the given occurrence',
+  })
+  @IsString()
+  @MaxLength(200)
+  @IsOptional()
+  rule?: string;
+}
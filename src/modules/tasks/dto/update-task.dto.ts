@@ -1,4 +1,18 @@
-import { PartialType } from '@nestjs/swagger';
+import { ApiProperty, OmitType, PartialType } from '@nestjs/swagger';
+import { IsBoolean, IsOptional } from 'class-validator';
 import { CreateTaskDto } from './create-task.dto';
 
-export class UpdateTaskDto extends PartialType(CreateTaskDto) {}
+/**
+ * Changes to a single task. For an occurrence of a recurring task they only
+ * apply to that occurrence; see `UpdateTaskRecurrenceDto` for the series.
+ */
+export class UpdateTaskDto extends PartialType(OmitType(CreateTaskDto, ['recurrence'] as const)) {
+  @ApiProperty({
+    required: false,
+    default: false,
+    description: 'Apply the change even if it exceeds a WIP limit; admins only, and audited',
+  })
+  @IsBoolean()
+  @IsOptional()
+  overrideWipLimit?: boolean;
+}
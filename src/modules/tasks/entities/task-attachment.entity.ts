@@ -0,0 +1,58 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import type { User } from '../../users/entities/user.entity';
+import { Task } from './task.entity';
+
+/**
+ * A file attached to a task. Files are stored once per content under their
+ * checksum, however many tasks they are attached to.
+ */
+@Entity('task_attachments')
+@Index('idx_task_attachments_task_id_checksum', ['taskId', 'checksum'], { unique: true })
+@Index('idx_task_attachments_checksum', ['checksum'])
+export class TaskAttachment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'task_id', type: 'uuid' })
+  taskId: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task: Task;
+
+  @Column({ name: 'file_name', length: 255 })
+  fileName: string;
+
+  @Column({ name: 'mime_type', length: 100 })
+  mimeType: string;
+
+  /** Size in bytes. */
+  @Column({ type: 'int' })
+  size: number;
+
+  /** Hex SHA-256 of the content, which is also its storage key. */
+  @Column({ length: 64 })
+  checksum: string;
+
+  @Column({ name: 'uploaded_by_id', type: 'uuid', nullable: true })
+  uploadedById: string | null;
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  @ManyToOne(() => require('../../users/entities/user.entity').User, {
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  @JoinColumn({ name: 'uploaded_by_id' })
+  uploadedBy: User | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,35 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import type { TaskComment } from './task-comment.entity';
+
+/**
+ * Snapshot of a comment body taken right before it was overwritten by an edit.
+ */
+@Entity('task_comment_revisions')
+export class TaskCommentRevision {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'comment_id' })
+  commentId: string;
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  @ManyToOne(() => require('./task-comment.entity').TaskComment, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'comment_id' })
+  comment: TaskComment;
+
+  @Column({ type: 'text' })
+  content: string;
+
+  @Column({ name: 'edited_by_id' })
+  editedById: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,51 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import type { User } from '../../users/entities/user.entity';
+import { TaskCommentRevision } from './task-comment-revision.entity';
+import { Task } from './task.entity';
+
+@Entity('task_comments')
+@Index(['taskId', 'createdAt'])
+export class TaskComment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'task_id' })
+  taskId: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task: Task;
+
+  @Column({ name: 'author_id' })
+  authorId: string;
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  @ManyToOne(() => require('../../users/entities/user.entity').User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'author_id' })
+  author: User;
+
+  @Column({ type: 'text' })
+  content: string;
+
+  @Column({ name: 'edited_at', type: 'timestamp', nullable: true })
+  editedAt: Date | null;
+
+  @OneToMany(() => TaskCommentRevision, revision => revision.comment)
+  revisions: TaskCommentRevision[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,26 @@
+import { CreateDateColumn, Entity, JoinColumn, ManyToOne, PrimaryColumn } from 'typeorm';
+import { Task } from './task.entity';
+
+/**
+ * Directed edge "blocker blocks blocked": the blocked task cannot start or
+ * complete until the blocker is completed.
+ */
+@Entity('task_dependencies')
+export class TaskDependency {
+  @PrimaryColumn({ name: 'blocker_id', type: 'uuid' })
+  blockerId: string;
+
+  @PrimaryColumn({ name: 'blocked_id', type: 'uuid' })
+  blockedId: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blocker_id' })
+  blocker: Task;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blocked_id' })
+  blocked: Task;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,83 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Organization } from '../../organizations/entities/organization.entity';
+import type { User } from '../../users/entities/user.entity';
+import { TaskPriority } from '../enums/task-priority.enum';
+
+/**
+ * The fields every new occurrence of a series starts out with.
+ */
+export interface TaskRecurrenceTemplate {
+  title: string;
+  description: string | null;
+  priority: TaskPriority;
+  projectId: string | null;
+  labelIds: string[];
+  assigneeIds: string[];
+}
+
+/**
+ * A series of tasks repeating by an iCalendar RRULE. Each occurrence is a
+ * task of its own pointing back at the series.
+ */
+@Entity('task_recurrences')
+@Index('idx_task_recurrences_last_occurrence_at', ['lastOccurrenceAt'])
+export class TaskRecurrence {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** RRULE such as `FREQ=WEEKLY;BYDAY=MO`, see `parseRecurrenceRule`. */
+  @Column({ type: 'text' })
+  rule: string;
+
+  /** First occurrence of the rule; occurrences keep its time of day. */
+  @Column({ name: 'starts_at', type: 'timestamp' })
+  startsAt: Date;
+
+  /** Due date of the newest occurrence generated so far. */
+  @Column({ name: 'last_occurrence_at', type: 'timestamp' })
+  lastOccurrenceAt: Date;
+
+  @Column({ type: 'jsonb' })
+  template: TaskRecurrenceTemplate;
+
+  /** Set once the series was stopped or its rule ran out of occurrences. */
+  @Column({ name: 'ended_at', type: 'timestamp', nullable: true })
+  endedAt: Date | null;
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization: Organization;
+
+  /** Creator of the occurrences, whose labels they carry. */
+  @Column({ name: 'created_by_id', type: 'uuid' })
+  createdById: string;
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  @ManyToOne(() => require('../../users/entities/user.entity').User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'created_by_id' })
+  createdBy: User;
+
+  /**
+   * Due date the next occurrence will get, computed by `TasksService`;
+   * never persisted.
+   */
+  nextOccurrenceAt?: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -1,17 +1,38 @@
 import {
   Column,
   CreateDateColumn,
+  DeleteDateColumn,
   Entity,
+  Index,
   JoinColumn,
+  JoinTable,
+  ManyToMany,
   ManyToOne,
+  OneToMany,
   PrimaryGeneratedColumn,
+  RelationId,
   UpdateDateColumn,
+  VersionColumn,
 } from 'typeorm';
+import { Label } from '../../labels/entities/label.entity';
+import { Organization } from '../../organizations/entities/organization.entity';
+import { Project } from '../../projects/entities/project.entity';
 import type { User } from '../../users/entities/user.entity';
 import { TaskPriority } from '../enums/task-priority.enum';
 import { TaskStatus } from '../enums/task-status.enum';
+import { TaskRecurrence } from './task-recurrence.entity';
+
+/**
+ * Checklist items of a task, all and checked off.
+ */
+export interface ChecklistProgress {
+  total: number;
+  done: number;
+}
 
 @Entity('tasks')
+@Index('idx_tasks_deleted_at', ['deletedAt'])
+@Index('idx_tasks_board', ['organizationId', 'status', 'rank'])
 export class Task {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -22,6 +43,21 @@ export class Task {
   @Column({ type: 'text', nullable: true })
   description: string;
 
+  /**
+   * Weighted lexemes of the title and description for full-text search,
+   * maintained by a database trigger and never loaded.
+   */
+  @Index('idx_tasks_search_vector', { synchronize: false })
+  @Column({
+    name: 'search_vector',
+    type: 'tsvector',
+    nullable: true,
+    select: false,
+    insert: false,
+    update: false,
+  })
+  searchVector?: string | null;
+
   @Column({
     type: 'enum',
     enum: TaskStatus,
@@ -39,17 +75,125 @@ export class Task {
   @Column({ name: 'due_date', nullable: true })
   dueDate: Date;
 
-  @Column({ name: 'user_id' })
-  userId: string;
+  /** Expected effort, compared with the time logged on the task. */
+  @Column({ name: 'estimate_minutes', type: 'int', nullable: true })
+  estimateMinutes: number | null;
+
+  /**
+   * Position of the task in its board column, compared byte by byte. `null`
+   * for tasks never placed on the board, which line up after the others.
+   */
+  @Column({ type: 'varchar', length: 32, nullable: true, collation: 'C' })
+  rank: string | null;
+
+  @Column({ name: 'created_by_id' })
+  createdById: string;
 
   // eslint-disable-next-line @typescript-eslint/no-var-requires, @typescript-eslint/no-explicit-any
   @ManyToOne(() => require('../../users/entities/user.entity').User, (user: any) => user.tasks)
-  @JoinColumn({ name: 'user_id' })
-  user: User;
+  @JoinColumn({ name: 'created_by_id' })
+  createdBy: User;
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  @ManyToMany(() => require('../../users/entities/user.entity').User)
+  @JoinTable({
+    name: 'task_assignees',
+    joinColumn: { name: 'task_id', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'user_id', referencedColumnName: 'id' },
+  })
+  assignees: User[];
+
+  @RelationId((task: Task) => task.assignees)
+  assigneeIds: string[];
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  @ManyToMany(() => require('../../users/entities/user.entity').User)
+  @JoinTable({
+    name: 'task_watchers',
+    joinColumn: { name: 'task_id', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'user_id', referencedColumnName: 'id' },
+  })
+  watchers: User[];
+
+  @RelationId((task: Task) => task.watchers)
+  watcherIds: string[];
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization: Organization;
+
+  @Column({ name: 'parent_id', type: 'uuid', nullable: true })
+  parentId: string | null;
+
+  @ManyToOne(() => Task, task => task.children, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'parent_id' })
+  parent: Task | null;
+
+  @OneToMany(() => Task, task => task.parent)
+  children: Task[];
+
+  @Column({ name: 'project_id', type: 'uuid', nullable: true })
+  projectId: string | null;
+
+  @ManyToOne(() => Project, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'project_id' })
+  project: Project | null;
+
+  /** Series the task is an occurrence of, if it repeats. */
+  @Index('idx_tasks_recurrence_id')
+  @Column({ name: 'recurrence_id', type: 'uuid', nullable: true })
+  recurrenceId: string | null;
+
+  @ManyToOne(() => TaskRecurrence, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'recurrence_id' })
+  recurrence: TaskRecurrence | null;
+
+  @ManyToMany(() => Label)
+  @JoinTable({
+    name: 'task_labels',
+    joinColumn: { name: 'task_id', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'label_id', referencedColumnName: 'id' },
+  })
+  labels: Label[];
+
+  /**
+   * Share of completed tasks in the subtree below this task, computed by
+   * `TasksService`. `null` when the task has no subtasks; never persisted.
+   */
+  completionPercentage?: number | null;
+
+  /**
+   * Whether any task this one depends on is not completed yet, computed by
+   * `TasksService`; never persisted.
+   */
+  blocked?: boolean;
+
+  /**
+   * How many checklist items the task has and how many of them are done,
+   * computed by `TasksService`; never persisted.
+   */
+  checklist?: ChecklistProgress;
 
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
   @UpdateDateColumn({ name: 'updated_at' })
   updatedAt: Date;
+
+  /**
+   * Bumped on every change to the task, its assignees, watchers or labels;
+   * part of the task's `ETag`.
+   */
+  @VersionColumn({ default: 1 })
+  version: number;
+
+  /**
+   * Set while the task is in the trash. Trashed tasks are left out of every
+   * query unless it opts in with `withDeleted`.
+   */
+  @DeleteDateColumn({ name: 'deleted_at', nullable: true })
+  deletedAt: Date | null;
 }
@@ -0,0 +1,54 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import type { User } from '../../users/entities/user.entity';
+import { Task } from './task.entity';
+
+/**
+ * Time a user spent on a task, either tracked with a timer or logged by hand.
+ * An entry without an end is a running timer; each user has at most one.
+ */
+@Entity('time_entries')
+@Index('idx_time_entries_task_id_started_at', ['taskId', 'startedAt'])
+@Index('idx_time_entries_user_id_running', ['userId'], {
+  unique: true,
+  where: '"ended_at" IS NULL',
+})
+export class TimeEntry {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'task_id', type: 'uuid' })
+  taskId: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task: Task;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  @ManyToOne(() => require('../../users/entities/user.entity').User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ name: 'started_at', type: 'timestamp' })
+  startedAt: Date;
+
+  /** Null while the timer is running. */
+  @Column({ name: 'ended_at', type: 'timestamp', nullable: true })
+  endedAt: Date | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  note: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,9 @@
+import { Task } from '../entities/task.entity';
+import { TaskStatus } from '../enums/task-status.enum';
+
+export interface BoardColumn {
+  status: TaskStatus;
+  /** Tasks in the column, of which `tasks` holds the first ones. */
+  total: number;
+  tasks: Task[];
+}
@@ -0,0 +1,12 @@
+import { TaskPriority } from '../enums/task-priority.enum';
+
+/**
+ * A task to create together with its subtasks, see `TasksService.createTree`.
+ */
+export interface TaskDraft {
+  title: string;
+  description?: string;
+  priority?: TaskPriority;
+  dueDate?: Date;
+  subtasks?: TaskDraft[];
+}
@@ -0,0 +1,15 @@
+import { Task } from '../entities/task.entity';
+
+export interface TaskSearchResult {
+  task: Task;
+  /** Relevance of the task to the query; higher ranks are returned first. */
+  rank: number;
+  /**
+   * The title, and the best matching fragments of the description, with
+   * matches wrapped in `<mark>` tags. The rest of the text is not escaped.
+   */
+  highlights: {
+    title: string;
+    description: string | null;
+  };
+}
@@ -0,0 +1,9 @@
+/**
+ * The parts of a file parsed by multer's memory storage that uploads use.
+ */
+export interface UploadedFileData {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
@@ -0,0 +1,10 @@
+import { TaskStatus } from '../enums/task-status.enum';
+
+/**
+ * What decides which WIP limits a task counts against.
+ */
+export interface WipPlacement {
+  status: TaskStatus;
+  projectId: string | null;
+  assigneeIds: string[];
+}
@@ -0,0 +1,76 @@
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { OrganizationRole } from '@modules/organizations/enums/organization-role.enum';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import { ForbiddenException } from '@nestjs/common';
+import { TaskPolicy } from './task.policy';
+
+describe('TaskPolicy', () => {
+  const policy = new TaskPolicy();
+
+  const member: AuthUser = {
+    id: 'u1',
+    email: 'member@example.com',
+    name: 'Member',
+    role: 'user',
+    organizationId: 'org-1',
+    organizationRole: OrganizationRole.MEMBER,
+    permissions: [Permission.TASK_READ, Permission.TASK_UPDATE, Permission.TASK_DELETE],
+  };
+
+  const ownTask = { createdById: 'u1', assigneeIds: [], watcherIds: [] };
+  const otherTask = { createdById: 'u2', assigneeIds: ['u2'], watcherIds: [] };
+
+  it('should let creators read, update and delete their tasks', () => {
+    expect(policy.can(member, 'read', ownTask)).toBe(true);
+    expect(policy.can(member, 'update', ownTask)).toBe(true);
+    expect(policy.can(member, 'delete', ownTask)).toBe(true);
+  });
+
+  it('should still require the base permission from creators', () => {
+    const readOnly = { ...member, permissions: [Permission.TASK_READ] };
+
+    expect(policy.can(readOnly, 'update', ownTask)).toBe(false);
+    expect(policy.can(readOnly, 'delete', ownTask)).toBe(false);
+  });
+
+  it('should let assignees read and update but not delete', () => {
+    const assigned = { ...otherTask, assigneeIds: ['u2', 'u1'] };
+
+    expect(policy.can(member, 'read', assigned)).toBe(true);
+    expect(policy.can(member, 'update', assigned)).toBe(true);
+    expect(policy.can(member, 'delete', assigned)).toBe(false);
+  });
+
+  it('should only let watchers read', () => {
+    const watched = { ...otherTask, watcherIds: ['u1'] };
+
+    expect(policy.can(member, 'read', watched)).toBe(true);
+    expect(policy.can(member, 'update', watched)).toBe(false);
+  });
+
+  it('should deny access to tasks of others', () => {
+    expect(policy.can(member, 'read', otherTask)).toBe(false);
+    expect(() => policy.authorize(member, 'update', otherTask)).toThrow(ForbiddenException);
+  });
+
+  it('should grant each :any permission only its own action', () => {
+    const auditor = { ...member, permissions: [Permission.TASK_READ_ANY] };
+
+    expect(policy.can(auditor, 'read', otherTask)).toBe(true);
+    expect(policy.can(auditor, 'update', otherTask)).toBe(false);
+    expect(policy.canSeeAll(auditor)).toBe(true);
+  });
+
+  it('should treat organization owners and admins as admins', () => {
+    const admin = { ...member, organizationRole: OrganizationRole.ADMIN, permissions: [] };
+
+    expect(policy.can(admin, 'delete', otherTask)).toBe(true);
+    expect(policy.canSeeAll(admin)).toBe(true);
+    expect(policy.canAssignTo(admin, 'u2')).toBe(true);
+  });
+
+  it('should only let members assign themselves', () => {
+    expect(policy.canAssignTo(member, 'u1')).toBe(true);
+    expect(policy.canAssignTo(member, 'u2')).toBe(false);
+  });
+});
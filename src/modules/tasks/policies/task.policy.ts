@@ -0,0 +1,72 @@
+import {
+  hasPermission,
+  isOrganizationAdmin,
+  Policy,
+  PolicyAction,
+} from '@modules/auth/policies/policy';
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import { Injectable } from '@nestjs/common';
+import { Task } from '../entities/task.entity';
+
+const ANY_PERMISSION: Record<PolicyAction, Permission> = {
+  read: Permission.TASK_READ_ANY,
+  update: Permission.TASK_UPDATE_ANY,
+  delete: Permission.TASK_DELETE_ANY,
+};
+
+const OWN_PERMISSION: Record<PolicyAction, Permission> = {
+  read: Permission.TASK_READ,
+  update: Permission.TASK_UPDATE,
+  delete: Permission.TASK_DELETE,
+};
+
+type TaskParticipants = Pick<Task, 'createdById' | 'assigneeIds' | 'watcherIds'>;
+
+/**
+ * Creators and assignees may read and edit a task, watchers may only read it
+ * and only its creator may delete it. Organization admins and holders of the
+ * matching `:any` permission may do all of this for every task.
+ */
+@Injectable()
+export class TaskPolicy extends Policy<TaskParticipants> {
+  protected readonly resourceName = 'task';
+
+  can(actor: AuthUser, action: PolicyAction, task: TaskParticipants): boolean {
+    if (isOrganizationAdmin(actor) || hasPermission(actor, ANY_PERMISSION[action])) {
+      return true;
+    }
+    return this.isInvolved(actor, action, task) && hasPermission(actor, OWN_PERMISSION[action]);
+  }
+
+  /**
+   * Whether lists and statistics may include tasks the actor is not involved in.
+   */
+  canSeeAll(actor: AuthUser): boolean {
+    return isOrganizationAdmin(actor) || hasPermission(actor, Permission.TASK_READ_ANY);
+  }
+
+  /**
+   * Whether the actor may assign the user to a task, or take them off it.
+   */
+  canAssignTo(actor: AuthUser, userId: string): boolean {
+    return (
+      userId === actor.id ||
+      isOrganizationAdmin(actor) ||
+      hasPermission(actor, Permission.TASK_UPDATE_ANY)
+    );
+  }
+
+  private isInvolved(actor: AuthUser, action: PolicyAction, task: TaskParticipants): boolean {
+    if (task.createdById === actor.id) {
+      return true;
+    }
+    if (action === 'delete') {
+      return false;
+    }
+    if (task.assigneeIds.includes(actor.id)) {
+      return true;
+    }
+    return action === 'read' && task.watcherIds.includes(actor.id);
+  }
+}
@@ -0,0 +1,142 @@
+import { TaskPriority } from '../enums/task-priority.enum';
+import { TaskStatus } from '../enums/task-status.enum';
+import { parseTaskQuery } from './task-query.parser';
+
+describe('parseTaskQuery', () => {
+  const now = new Date('2025-03-10T15:30:00.000Z');
+  const userId = '6f1e5bb4-9b53-4a8e-9a5e-3f3c0e1b2a4d';
+
+  it('should parse the filters of a combined query', () => {
+    const filters = parseTaskQuery(
+      'status:in_progress priority:high due:<7d label:bug assignee:me "login page"',
+      now,
+    );
+
+    expect(filters).toEqual({
+      status: TaskStatus.IN_PROGRESS,
+      priority: TaskPriority.HIGH,
+      dueDateEnd: '2025-03-17T15:30:00.000Z',
+      labels: ['bug'],
+      assignee: 'me',
+      searchTerm: '"login page"',
+    });
+  });
+
+  it('should return no filters for an empty query', () => {
+    expect(parseTaskQuery('', now)).toEqual({});
+  });
+
+  it('should accept enum values in any case and with dashes', () => {
+    expect(parseTaskQuery('status:In-Progress priority:LOW', now)).toEqual({
+      status: TaskStatus.IN_PROGRESS,
+      priority: TaskPriority.LOW,
+    });
+  });
+
+  it('should collect labels from lists and repeated qualifiers', () => {
+    expect(parseTaskQuery('label:bug,frontend label:"needs review, maybe"', now).labels).toEqual([
+      'bug',
+      'frontend',
+      'needs review, maybe',
+    ]);
+  });
+
+  it('should map people, projects and parents', () => {
+    expect(
+      parseTaskQuery(`assignee:${userId} creator:me watcher:me project:${userId} parent:none`, now),
+    ).toEqual({
+      assignee: userId,
+      createdBy: 'me',
+      watching: 'me',
+      projectId: userId,
+      topLevelOnly: true,
+    });
+    expect(parseTaskQuery(`parent:${userId}`, now)).toEqual({ parentId: userId });
+  });
+
+  it('should join words and phrases into the search term', () => {
+    expect(parseTaskQuery('login* "error page" status:pending crash', now)).toEqual({
+      status: TaskStatus.PENDING,
+      searchTerm: 'login* "error page" crash',
+    });
+  });
+
+  describe('due dates', () => {
+    it.each([
+      ['due:today', '2025-03-10T00:00:00.000Z', '2025-03-10T23:59:59.999Z'],
+      ['due:tomorrow', '2025-03-11T00:00:00.000Z', '2025-03-11T23:59:59.999Z'],
+      ['due:2025-04-01', '2025-04-01T00:00:00.000Z', '2025-04-01T23:59:59.999Z'],
+      ['due:<2025-04-01', undefined, '2025-03-31T23:59:59.999Z'],
+      ['due:<=2025-04-01', undefined, '2025-04-01T23:59:59.999Z'],
+      ['due:>2025-04-01', '2025-04-02T00:00:00.000Z', undefined],
+      ['due:>=2025-04-01', '2025-04-01T00:00:00.000Z', undefined],
+      ['due:<now', undefined, '2025-03-10T15:30:00.000Z'],
+      ['due:>-2w', '2025-02-24T15:30:00.000Z', undefined],
+      ['due:<12h', undefined, '2025-03-11T03:30:00.000Z'],
+      ['due:>=2025-04-01T08:00:00Z', '2025-04-01T08:00:00.000Z', undefined],
+      ['due:>yesterday due:<7d', '2025-03-10T00:00:00.000Z', '2025-03-17T15:30:00.000Z'],
+    ])('should read %s', (query, dueDateStart, dueDateEnd) => {
+      const filters = parseTaskQuery(query, now);
+
+      expect(filters.dueDateStart).toEqual(dueDateStart);
+      expect(filters.dueDateEnd).toEqual(dueDateEnd);
+    });
+
+    it('should need an operator for instants', () => {
+      expect(() => parseTaskQuery('due:7d', now)).toThrow(
+        'Invalid query at position 1 ("due:7d"): compare times with <, <=, > or >=, e.g. due:<7d',
+      );
+    });
+
+    it('should reject a second bound on the same side', () => {
+      expect(() => parseTaskQuery('due:<7d due:today', now)).toThrow(
+        'Invalid query at position 9 ("due:today"): due already has an upper bound',
+      );
+    });
+
+    it.each(['due:soon', 'due:<', 'due:2025-13-45', 'due:constructor'])(
+      'should reject %s',
+      query => {
+        expect(() => parseTaskQuery(query, now)).toThrow('as a due date');
+      },
+    );
+  });
+
+  describe('errors', () => {
+    it('should point at unknown filters', () => {
+      expect(() => parseTaskQuery('bug stauts:open', now)).toThrow(
+        'Invalid query at position 5 ("stauts:open"): unknown filter "stauts"; ' +
+          'use one of status, priority, due, label, assignee, creator, watcher, project, parent',
+      );
+    });
+
+    it('should not mistake object properties for filters', () => {
+      expect(() => parseTaskQuery('constructor:x', now)).toThrow('unknown filter "constructor"');
+    });
+
+    it('should point at unknown values', () => {
+      expect(() => parseTaskQuery('status:pending priority:urgent', now)).toThrow(
+        'Invalid query at position 16 ("priority:urgent"): unknown priority "urgent"; ' +
+          'use one of low, medium, high',
+      );
+    });
+
+    it('should reject filters given twice', () => {
+      expect(() => parseTaskQuery('status:pending status:completed', now)).toThrow(
+        'Invalid query at position 16 ("status:completed"): status is given more than once',
+      );
+    });
+
+    it('should reject malformed people and IDs', () => {
+      expect(() => parseTaskQuery('assignee:bob', now)).toThrow(
+        'assignee must be "me" or a user ID',
+      );
+      expect(() => parseTaskQuery('project:42', now)).toThrow('project must be an ID');
+    });
+
+    it('should reject empty labels', () => {
+      expect(() => parseTaskQuery('label:bug,,ui', now)).toThrow('label names cannot be empty');
+      expect(() => parseTaskQuery('label:""', now)).toThrow('label names cannot be empty');
+    });
+  });
+});
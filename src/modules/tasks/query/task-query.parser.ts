@@ -0,0 +1,220 @@
+import { isUUID } from 'class-validator';
+import { TaskFilterDto } from '../dto/task-filter.dto';
+import { TaskPriority } from '../enums/task-priority.enum';
+import { TaskStatus } from '../enums/task-status.enum';
+import { queryError, TaskQueryToken, tokenizeTaskQuery } from './task-query.tokenizer';
+
+export type TaskQueryFilters = Pick<
+  TaskFilterDto,
+  | 'status'
+  | 'priority'
+  | 'searchTerm'
+  | 'assignee'
+  | 'createdBy'
+  | 'watching'
+  | 'parentId'
+  | 'topLevelOnly'
+  | 'labels'
+  | 'projectId'
+  | 'dueDateStart'
+  | 'dueDateEnd'
+>;
+
+type QualifierHandler = (token: TaskQueryToken, filters: TaskQueryFilters, now: Date) => void;
+
+const DAY = 24 * 60 * 60 * 1000;
+const DURATION_UNITS = { h: 60 * 60 * 1000, d: DAY, w: 7 * DAY };
+
+function enumValue<E extends string>(token: TaskQueryToken, values: E[], name: string): E {
+  const value = token.value.toUpperCase().replace(/-/g, '_') as E;
+  if (!values.includes(value)) {
+    const expected = values.map(option => option.toLowerCase()).join(', ');
+    throw queryError(token, `unknown ${name} "${token.value}"; use one of ${expected}`);
+  }
+  return value;
+}
+
+function userValue(token: TaskQueryToken): string {
+  if (token.value !== 'me' && !isUUID(token.value)) {
+    throw queryError(token, `${token.key} must be "me" or a user ID`);
+  }
+  return token.value;
+}
+
+function uuidValue(token: TaskQueryToken): string {
+  if (!isUUID(token.value)) {
+    throw queryError(token, `${token.key} must be an ID`);
+  }
+  return token.value;
+}
+
+/**
+ * Once per query: a second `status:` would otherwise silently replace the
+ * first.
+ */
+function assertUnset(token: TaskQueryToken, current: unknown): void {
+  if (current !== undefined) {
+    throw queryError(token, `${token.key} is given more than once`);
+  }
+}
+
+/**
+ * Resolves the value of a `due:` qualifier to the instants it covers. Days
+ * (`today`, `tomorrow`, `yesterday` or `2025-01-31`, in UTC) cover a whole
+ * day; durations from now (`7d`, `-2w`, `12h`), `now` and timestamps a single
+ * instant.
+ */
+function resolveDue(token: TaskQueryToken, value: string, now: Date): { from: Date; to: Date } {
+  const dayOffsets = new Map([
+    ['yesterday', -1],
+    ['today', 0],
+    ['tomorrow', 1],
+  ]);
+  const startOfToday = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const day = (start: number) => ({ from: new Date(start), to: new Date(start + DAY - 1) });
+  const instant = (time: number) => ({ from: new Date(time), to: new Date(time) });
+
+  const lowered = value.toLowerCase();
+  const dayOffset = dayOffsets.get(lowered);
+  if (dayOffset !== undefined) {
+    return day(startOfToday + dayOffset * DAY);
+  }
+  if (lowered === 'now') {
+    return instant(now.getTime());
+  }
+  const duration = /^([+-]?\d+)([hdw])$/.exec(lowered);
+  if (duration) {
+    return instant(
+      now.getTime() +
+        Number(duration[1]) * DURATION_UNITS[duration[2] as keyof typeof DURATION_UNITS],
+    );
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value))) {
+    return day(Date.parse(value));
+  }
+  if (/^\d{4}-\d{2}-\d{2}T/.test(value) && !isNaN(Date.parse(value))) {
+    return instant(Date.parse(value));
+  }
+  throw queryError(
+    token,
+    `cannot read "${value}" as a due date; use a date like 2025-01-31, today, tomorrow or a duration like 7d`,
+  );
+}
+
+function applyDue(token: TaskQueryToken, filters: TaskQueryFilters, now: Date): void {
+  const [, operator, value] = /^(<=|>=|<|>)?(.*)$/.exec(token.value) as RegExpExecArray;
+  const { from, to } = resolveDue(token, value, now);
+  const setStart = (start: Date) => {
+    if (filters.dueDateStart !== undefined) {
+      throw queryError(token, 'due already has a lower bound');
+    }
+    filters.dueDateStart = start.toISOString();
+  };
+  const setEnd = (end: Date) => {
+    if (filters.dueDateEnd !== undefined) {
+      throw queryError(token, 'due already has an upper bound');
+    }
+    filters.dueDateEnd = end.toISOString();
+  };
+
+  switch (operator) {
+    case '<':
+      return setEnd(from.getTime() === to.getTime() ? to : new Date(from.getTime() - 1));
+    case '<=':
+      return setEnd(to);
+    case '>':
+      return setStart(from.getTime() === to.getTime() ? from : new Date(to.getTime() + 1));
+    case '>=':
+      return setStart(from);
+    default:
+      if (from.getTime() === to.getTime()) {
+        throw queryError(token, 'compare times with <, <=, > or >=, e.g. due:<7d');
+      }
+      setStart(from);
+      setEnd(to);
+  }
+}
+
+const QUALIFIERS = new Map<string, QualifierHandler>(
+  Object.entries({
+    status: (token, filters) => {
+      assertUnset(token, filters.status);
+      filters.status = enumValue(token, Object.values(TaskStatus), 'status');
+    },
+    priority: (token, filters) => {
+      assertUnset(token, filters.priority);
+      filters.priority = enumValue(token, Object.values(TaskPriority), 'priority');
+    },
+    due: applyDue,
+    label: (token, filters) => {
+      const names = token.quoted ? [token.value] : token.value.split(',');
+      for (const name of names.map(label => label.trim())) {
+        if (!name) {
+          throw queryError(token, 'label names cannot be empty');
+        }
+        filters.labels = [...(filters.labels ?? []), name];
+      }
+    },
+    assignee: (token, filters) => {
+      assertUnset(token, filters.assignee);
+      filters.assignee = userValue(token);
+    },
+    creator: (token, filters) => {
+      assertUnset(token, filters.createdBy);
+      filters.createdBy = userValue(token);
+    },
+    watcher: (token, filters) => {
+      assertUnset(token, filters.watching);
+      filters.watching = userValue(token);
+    },
+    project: (token, filters) => {
+      assertUnset(token, filters.projectId);
+      filters.projectId = uuidValue(token);
+    },
+    parent: (token, filters) => {
+      assertUnset(token, filters.parentId ?? filters.topLevelOnly);
+      if (token.value.toLowerCase() === 'none') {
+        filters.topLevelOnly = true;
+      } else {
+        filters.parentId = uuidValue(token);
+      }
+    },
+  }),
+);
+
+/**
+ * Parses the `q` parameter of `GET /tasks` into the filters it stands for,
+ * e.g. `status:in_progress priority:high due:<7d label:bug assignee:me
+ * "login page"`. Labels given in one or several `label:` qualifiers match
+ * tasks with any of them; words and quoted phrases outside qualifiers become
+ * the full-text search term. Malformed queries raise a `BadRequestException`
+ * pointing at the offending token.
+ */
+export function parseTaskQuery(query: string, now = new Date()): TaskQueryFilters {
+  const filters: TaskQueryFilters = {};
+  const searchTerms: string[] = [];
+
+  for (const token of tokenizeTaskQuery(query)) {
+    if (token.type === 'word') {
+      searchTerms.push(token.value);
+      continue;
+    }
+    if (token.type === 'phrase') {
+      searchTerms.push(`"${token.value.replace(/"/g, ' ')}"`);
+      continue;
+    }
+    const handler = QUALIFIERS.get(token.key as string);
+    if (!handler) {
+      throw queryError(
+        token,
+        `unknown filter "${token.key}"; use one of ${[...QUALIFIERS.keys()].join(', ')}`,
+      );
+    }
+    handler(token, filters, now);
+  }
+
+  if (searchTerms.length) {
+    filters.searchTerm = searchTerms.join(' ');
+  }
+  return filters;
+}
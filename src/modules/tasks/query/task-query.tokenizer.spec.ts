@@ -0,0 +1,59 @@
+import { BadRequestException } from '@nestjs/common';
+import { tokenizeTaskQuery } from './task-query.tokenizer';
+
+describe('tokenizeTaskQuery', () => {
+  it('should split qualifiers, words and phrases', () => {
+    expect(tokenizeTaskQuery('status:pending  login "page  title"')).toEqual([
+      {
+        type: 'qualifier',
+        key: 'status',
+        value: 'pending',
+        quoted: false,
+        position: 0,
+        text: 'status:pending',
+      },
+      { type: 'word', value: 'login', quoted: false, position: 16, text: 'login' },
+      { type: 'phrase', value: 'page  title', quoted: true, position: 22, text: '"page  title"' },
+    ]);
+  });
+
+  it('should read quoted qualifier values with escapes', () => {
+    const [token] = tokenizeTaskQuery('label:"needs \\"review\\""');
+
+    expect(token).toMatchObject({
+      type: 'qualifier',
+      key: 'label',
+      value: 'needs "review"',
+      quoted: true,
+    });
+  });
+
+  it('should lowercase qualifier names but keep their values', () => {
+    expect(tokenizeTaskQuery('Label:Bug')[0]).toMatchObject({ key: 'label', value: 'Bug' });
+  });
+
+  it('should keep comparison operators in the value', () => {
+    expect(tokenizeTaskQuery('due:<=7d')[0]).toMatchObject({ key: 'due', value: '<=7d' });
+  });
+
+  it('should treat words without a leading name as search words', () => {
+    expect(tokenizeTaskQuery(':colon 10:30').map(token => token.type)).toEqual(['word', 'word']);
+  });
+
+  it('should return no tokens for blank queries', () => {
+    expect(tokenizeTaskQuery('   ')).toEqual([]);
+  });
+
+  it('should point at unterminated quotes', () => {
+    expect(() => tokenizeTaskQuery('bug "login page')).toThrow(BadRequestException);
+    expect(() => tokenizeTaskQuery('bug "login page')).toThrow(
+      'Invalid query at position 5 (""login page"): the closing quote is missing',
+    );
+  });
+
+  it('should point at qualifiers without a value', () => {
+    expect(() => tokenizeTaskQuery('bug status: open')).toThrow(
+      'Invalid query at position 5 ("status:"): status needs a value',
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import { BadRequestException } from '@nestjs/common';
+
+export type TaskQueryTokenType = 'qualifier' | 'word' | 'phrase';
+
+export interface TaskQueryToken {
+  type: TaskQueryTokenType;
+  /** Name of the filter, lowercased; only set on qualifiers. */
+  key?: string;
+  /** The word, the unquoted phrase or the value of the qualifier. */
+  value: string;
+  /** Whether the value was written in quotes. */
+  quoted: boolean;
+  /** Offset of the token in the query, starting at 0. */
+  position: number;
+  /** The token as written, for error messages. */
+  text: string;
+}
+
+/**
+ * Raised for malformed queries; points at the offending token by its 1-based
+ * position so the client can highlight it.
+ */
+export function queryError(token: Pick<TaskQueryToken, 'position' | 'text'>, reason: string) {
+  return new BadRequestException(
+    `Invalid query at position ${token.position + 1} ("${token.text}"): ${reason}`,
+  );
+}
+
+const QUALIFIER = /^([a-z][a-z-]*):/i;
+
+/**
+ * Splits a query such as `status:in_progress label:"needs review" login*`
+ * into qualifiers (`key:value`), quoted phrases and bare words. Quotes may
+ * contain `\"` and `\\` escapes.
+ */
+export function tokenizeTaskQuery(query: string): TaskQueryToken[] {
+  const tokens: TaskQueryToken[] = [];
+  let index = 0;
+
+  const readQuoted = (start: number): string => {
+    let value = '';
+    index++;
+    while (index < query.length && query[index] !== '"') {
+      if (query[index] === '\\' && index + 1 < query.length) {
+        index++;
+      }
+      value += query[index++];
+    }
+    if (index >= query.length) {
+      throw queryError(
+        { position: start, text: query.slice(start) },
+        'the closing quote is missing',
+      );
+    }
+    index++;
+    return value;
+  };
+  const readBare = (): string => {
+    const start = index;
+    while (index < query.length && !/\s/.test(query[index])) {
+      index++;
+    }
+    return query.slice(start, index);
+  };
+
+  while (index < query.length) {
+    if (/\s/.test(query[index])) {
+      index++;
+      continue;
+    }
+    const start = index;
+
+    if (query[index] === '"') {
+      const value = readQuoted(start);
+      tokens.push({
+        type: 'phrase',
+        value,
+        quoted: true,
+        position: start,
+        text: query.slice(start, index),
+      });
+      continue;
+    }
+
+    const qualifier = QUALIFIER.exec(query.slice(index));
+    if (qualifier) {
+      index += qualifier[0].length;
+      const quoted = query[index] === '"';
+      const value = quoted ? readQuoted(start) : readBare();
+      const text = query.slice(start, index);
+      if (!quoted && !value) {
+        throw queryError({ position: start, text }, `${qualifier[1]} needs a value`);
+      }
+      tokens.push({
+        type: 'qualifier',
+        key: qualifier[1].toLowerCase(),
+        value,
+        quoted,
+        position: start,
+        text,
+      });
+      continue;
+    }
+
+    const value = readBare();
+    tokens.push({ type: 'word', value, quoted: false, position: start, text: value });
+  }
+
+  return tokens;
+}
@@ -0,0 +1,77 @@
+import { MAX_RANK_LENGTH, rankBetween, spreadRanks } from './rank-key';
+
+describe('rank keys', () => {
+  describe('rankBetween', () => {
+    it('should start an empty column in the middle', () => {
+      expect(rankBetween(null, null)).toBe('i');
+    });
+
+    it('should find keys between neighbors', () => {
+      const cases: [string | null, string | null][] = [
+        ['a', 'c'],
+        ['a', 'b'],
+        ['a', 'a1'],
+        ['az', 'b'],
+        ['zz', null],
+        [null, '01'],
+        ['1', '2'],
+      ];
+
+      for (const [lower, upper] of cases) {
+        const key = rankBetween(lower, upper) as string;
+        if (lower !== null) {
+          expect(key > lower).toBe(true);
+        }
+        if (upper !== null) {
+          expect(key < upper).toBe(true);
+        }
+        expect(key.endsWith('0')).toBe(false);
+      }
+    });
+
+    it('should keep finding room below the first key', () => {
+      let first = rankBetween(null, null) as string;
+      for (let i = 0; i < 50; i++) {
+        const key = rankBetween(null, first) as string;
+        expect(key < first).toBe(true);
+        first = key;
+      }
+    });
+
+    it('should grow keys slowly when always inserting at the same spot', () => {
+      const lower = 'i';
+      let upper = 'j';
+      for (let i = 0; i < 30; i++) {
+        upper = rankBetween(lower, upper) as string;
+      }
+
+      expect(upper > lower).toBe(true);
+      expect(upper.length).toBeGreaterThan(MAX_RANK_LENGTH / 2);
+    });
+
+    it('should report colliding neighbors', () => {
+      expect(rankBetween('b', 'b')).toBeNull();
+      expect(rankBetween('c', 'b')).toBeNull();
+    });
+  });
+
+  describe('spreadRanks', () => {
+    it('should return ascending keys of equal length', () => {
+      for (const count of [1, 2, 35, 36, 1000]) {
+        const keys = spreadRanks(count);
+
+        expect(keys).toHaveLength(count);
+        expect([...keys].sort()).toEqual(keys);
+        expect(new Set(keys).size).toBe(count);
+        expect(new Set(keys.map(key => key.length)).size).toBe(1);
+        expect(keys.some(key => key.endsWith('0'))).toBe(false);
+      }
+    });
+
+    it('should leave room between the keys', () => {
+      const [first, second] = spreadRanks(1000);
+
+      expect(rankBetween(first, second)?.length).toBe(first.length);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Rank keys order tasks within a board column. They are strings of base-36
+ * digits compared byte by byte, so a key between any two others can be found
+ * without touching the rest of the column, until keys grow too long.
+ */
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+const BASE = DIGITS.length;
+
+/**
+ * Keys longer than this mean the column got dense around a spot and should
+ * be rebalanced.
+ */
+export const MAX_RANK_LENGTH = 12;
+
+function digitValue(key: string, index: number): number {
+  const value = DIGITS.indexOf(key[index]);
+  if (value === -1) {
+    throw new Error(`Invalid rank key "${key}"`);
+  }
+  return value;
+}
+
+/**
+ * A key sorting after `lower` and before `upper`; `null` stands for the
+ * start or the end of the column. Returns `null` when `lower` does not sort
+ * before `upper`, which only happens when keys collided.
+ *
+ * Keys never end in the lowest digit, which keeps room below every key.
+ */
+export function rankBetween(lower: string | null, upper: string | null): string | null {
+  const low = lower ?? '';
+  if (upper !== null && low >= upper) {
+    return null;
+  }
+
+  let bound = upper;
+  let key = '';
+  for (let index = 0; ; index++) {
+    const from = index < low.length ? digitValue(low, index) : 0;
+    const to = bound !== null && index < bound.length ? digitValue(bound, index) : BASE;
+    const middle = Math.floor((from + to) / 2);
+    if (middle > from) {
+      return key + DIGITS[middle];
+    }
+
+    key += DIGITS[from];
+    // Once the key is below the upper bound, later digits cannot reach it.
+    if (from < to) {
+      bound = null;
+    }
+  }
+}
+
+/**
+ * `count` evenly spaced keys of equal length, in ascending order, used to
+ * rebalance a column.
+ */
+export function spreadRanks(count: number): string[] {
+  let length = 1;
+  while (BASE ** length < (count + 1) * BASE) {
+    length++;
+  }
+
+  const step = Math.floor(BASE ** length / (count + 1));
+  return Array.from({ length: count }, (_, index) => {
+    const key = ((index + 1) * step).toString(BASE).padStart(length, '0');
+    // Steps are at least BASE apart, so nudging keeps them in order.
+    return key.endsWith('0') ? ((index + 1) * step + 1).toString(BASE).padStart(length, '0') : key;
+  });
+}
@@ -0,0 +1,157 @@
+import { BadRequestException } from '@nestjs/common';
+import { nextOccurrence, parseRecurrenceRule } from './recurrence-rule';
+
+/**
+ * The occurrences of `rule` from `start` on, as ISO strings.
+ */
+function occurrences(rule: string, start: string, limit = 6): string[] {
+  const parsed = parseRecurrenceRule(rule);
+  const result: string[] = [];
+  let current: Date | null = new Date(start);
+  result.push(current.toISOString());
+  while (result.length < limit && (current = nextOccurrence(parsed, new Date(start), current))) {
+    result.push(current.toISOString());
+  }
+  return result;
+}
+
+describe('parseRecurrenceRule', () => {
+  it('should parse the supported parts', () => {
+    expect(
+      parseRecurrenceRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR,MO;BYMONTHDAY=1;COUNT=5'),
+    ).toEqual({
+      freq: 'MONTHLY',
+      interval: 2,
+      count: 5,
+      byDay: [{ weekday: 4, ordinal: -1 }, { weekday: 0 }],
+      byMonthDay: [1],
+    });
+  });
+
+  it('should read UNTIL dates as the end of that day in UTC', () => {
+    expect(parseRecurrenceRule('freq=daily;until=20250131').until).toEqual(
+      new Date('2025-01-31T23:59:59.999Z'),
+    );
+    expect(parseRecurrenceRule('FREQ=DAILY;UNTIL=20250131T170000Z').until).toEqual(
+      new Date('2025-01-31T17:00:00.000Z'),
+    );
+  });
+
+  it.each([
+    ['', 'needs a FREQ'],
+    ['FREQ=HOURLY', 'Invalid recurrence rule part "FREQ=HOURLY": use one of DAILY'],
+    ['FREQ=DAILY;INTERVAL=0', '"INTERVAL=0": expected a number from 1 to 1000'],
+    ['FREQ=DAILY;COUNT=2;UNTIL=20250101', 'cannot have both COUNT and UNTIL'],
+    ['FREQ=DAILY;UNTIL=20250230', '"UNTIL=20250230": not a valid date'],
+    ['FREQ=WEEKLY;BYDAY=MO,XX', '"XX" is not a weekday'],
+    ['FREQ=WEEKLY;BYDAY=1MO', 'numbered weekdays are only supported with FREQ=MONTHLY'],
+    ['FREQ=WEEKLY;BYMONTHDAY=1', 'not supported with FREQ=WEEKLY'],
+    ['FREQ=MONTHLY;BYMONTH=1', 'only supported with FREQ=YEARLY'],
+    ['FREQ=DAILY;BYHOUR=9', '"BYHOUR=9": BYHOUR is not supported'],
+    ['FREQ=DAILY;FREQ=WEEKLY', 'FREQ is given more than once'],
+    ['FREQ=DAILY;COUNT', '"COUNT": expected NAME=VALUE'],
+  ])('should reject %p', (rule, message) => {
+    expect(() => parseRecurrenceRule(rule)).toThrow(BadRequestException);
+    expect(() => parseRecurrenceRule(rule)).toThrow(message);
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('should repeat daily at the time of the start', () => {
+    expect(occurrences('FREQ=DAILY;INTERVAL=2', '2025-01-30T09:00:00.000Z', 3)).toEqual([
+      '2025-01-30T09:00:00.000Z',
+      '2025-02-01T09:00:00.000Z',
+      '2025-02-03T09:00:00.000Z',
+    ]);
+  });
+
+  it('should limit daily rules to the given weekdays', () => {
+    // 2025-01-03 is a Friday.
+    expect(occurrences('FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR', '2025-01-03T09:00:00Z', 3)).toEqual([
+      '2025-01-03T09:00:00.000Z',
+      '2025-01-06T09:00:00.000Z',
+      '2025-01-07T09:00:00.000Z',
+    ]);
+  });
+
+  it('should repeat on several days of every other week', () => {
+    // 2025-01-01 is a Wednesday.
+    expect(occurrences('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', '2025-01-01T08:00:00Z', 5)).toEqual([
+      '2025-01-01T08:00:00.000Z',
+      '2025-01-02T08:00:00.000Z',
+      '2025-01-13T08:00:00.000Z',
+      '2025-01-16T08:00:00.000Z',
+      '2025-01-27T08:00:00.000Z',
+    ]);
+  });
+
+  it('should skip months without the day of the start', () => {
+    expect(occurrences('FREQ=MONTHLY', '2025-01-31T12:00:00Z', 3)).toEqual([
+      '2025-01-31T12:00:00.000Z',
+      '2025-03-31T12:00:00.000Z',
+      '2025-05-31T12:00:00.000Z',
+    ]);
+  });
+
+  it('should count month days from the end', () => {
+    expect(occurrences('FREQ=MONTHLY;BYMONTHDAY=-1', '2025-01-31T12:00:00Z', 3)).toEqual([
+      '2025-01-31T12:00:00.000Z',
+      '2025-02-28T12:00:00.000Z',
+      '2025-03-31T12:00:00.000Z',
+    ]);
+  });
+
+  it('should find numbered weekdays of the month', () => {
+    expect(occurrences('FREQ=MONTHLY;BYDAY=-1FR', '2025-01-31T16:00:00Z', 3)).toEqual([
+      '2025-01-31T16:00:00.000Z',
+      '2025-02-28T16:00:00.000Z',
+      '2025-03-28T16:00:00.000Z',
+    ]);
+    expect(occurrences('FREQ=MONTHLY;BYDAY=2TU', '2025-01-14T10:00:00Z', 2)).toEqual([
+      '2025-01-14T10:00:00.000Z',
+      '2025-02-11T10:00:00.000Z',
+    ]);
+  });
+
+  it('should repeat yearly and skip missing leap days', () => {
+    expect(occurrences('FREQ=YEARLY', '2024-02-29T00:00:00Z', 2)).toEqual([
+      '2024-02-29T00:00:00.000Z',
+      '2028-02-29T00:00:00.000Z',
+    ]);
+    expect(occurrences('FREQ=YEARLY;BYMONTH=3,9', '2025-03-15T00:00:00Z', 3)).toEqual([
+      '2025-03-15T00:00:00.000Z',
+      '2025-09-15T00:00:00.000Z',
+      '2026-03-15T00:00:00.000Z',
+    ]);
+  });
+
+  it('should count the start as the first occurrence', () => {
+    expect(occurrences('FREQ=WEEKLY;COUNT=3', '2025-01-01T08:00:00Z', 10)).toHaveLength(3);
+    expect(occurrences('FREQ=DAILY;COUNT=1', '2025-01-01T08:00:00Z', 10)).toHaveLength(1);
+  });
+
+  it('should stop after UNTIL', () => {
+    expect(occurrences('FREQ=DAILY;UNTIL=20250103', '2025-01-01T08:00:00Z', 10)).toEqual([
+      '2025-01-01T08:00:00.000Z',
+      '2025-01-02T08:00:00.000Z',
+      '2025-01-03T08:00:00.000Z',
+    ]);
+  });
+
+  it('should jump past occurrences that were skipped', () => {
+    const rule = parseRecurrenceRule('FREQ=WEEKLY');
+    const start = new Date('2025-01-01T08:00:00Z');
+
+    expect(nextOccurrence(rule, start, new Date('2025-02-01T00:00:00Z'))).toEqual(
+      new Date('2025-02-05T08:00:00Z'),
+    );
+    expect(nextOccurrence(rule, start, new Date('2024-12-01T00:00:00Z'))).toEqual(start);
+  });
+
+  it('should end rules that never match again', () => {
+    const rule = parseRecurrenceRule('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30');
+    const start = new Date('2025-01-30T00:00:00Z');
+
+    expect(nextOccurrence(rule, start, start)).toBeNull();
+  });
+});
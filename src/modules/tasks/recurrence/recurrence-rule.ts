@@ -0,0 +1,255 @@
+import { BadRequestException } from '@nestjs/common';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceWeekday {
+  /** 0 for Monday through 6 for Sunday. */
+  weekday: number;
+  /** The n-th (or, when negative, n-th last) such weekday of the month. */
+  ordinal?: number;
+}
+
+/**
+ * The subset of iCalendar (RFC 5545) RRULEs tasks can recur by: FREQ,
+ * INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY and BYMONTH.
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: RecurrenceWeekday[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+}
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Rules that produce no occurrence for this many periods in a row, such as
+ * `FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30`, are treated as finished.
+ */
+const MAX_PERIODS = 10000;
+
+function ruleError(part: string, reason: string) {
+  return new BadRequestException(`Invalid recurrence rule part "${part}": ${reason}`);
+}
+
+function parseInteger(part: string, value: string, min: number, max: number): number {
+  const number = Number(value);
+  if (!/^[+-]?\d+$/.test(value) || number < min || number > max || number === 0) {
+    throw ruleError(part, `expected a number from ${min} to ${max} other than 0`);
+  }
+  return number;
+}
+
+function parseUntil(part: string, value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(value);
+  if (!match) {
+    throw ruleError(part, 'expected a date like 20250131 or a UTC time like 20250131T170000Z');
+  }
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  // A date without a time includes the whole day.
+  const until =
+    match[4] === undefined
+      ? new Date(Date.UTC(year, month - 1, day + 1) - 1)
+      : new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+  if (isNaN(until.getTime()) || until.getUTCMonth() !== month - 1) {
+    throw ruleError(part, 'not a valid date');
+  }
+  return until;
+}
+
+/**
+ * Parses an RRULE such as `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH`, with or
+ * without the `RRULE:` prefix. Unsupported or malformed parts raise a
+ * `BadRequestException` naming the part.
+ */
+export function parseRecurrenceRule(text: string): RecurrenceRule {
+  const source = text.trim().replace(/^RRULE:/i, '');
+  const parts = new Map<string, { part: string; value: string }>();
+  for (const part of source.split(';').filter(Boolean)) {
+    const [name, value, ...rest] = part.split('=');
+    const key = name.trim().toUpperCase();
+    if (value === undefined || rest.length) {
+      throw ruleError(part, 'expected NAME=VALUE');
+    }
+    if (parts.has(key)) {
+      throw ruleError(part, `${key} is given more than once`);
+    }
+    parts.set(key, { part, value: value.trim().toUpperCase() });
+  }
+
+  const freq = parts.get('FREQ');
+  if (!freq) {
+    throw new BadRequestException('A recurrence rule needs a FREQ, e.g. FREQ=WEEKLY');
+  }
+  if (!FREQUENCIES.includes(freq.value as RecurrenceFrequency)) {
+    throw ruleError(freq.part, `use one of ${FREQUENCIES.join(', ')}`);
+  }
+  const rule: RecurrenceRule = { freq: freq.value as RecurrenceFrequency, interval: 1 };
+
+  for (const [key, { part, value }] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parseInteger(part, value, 1, 1000);
+        break;
+      case 'COUNT':
+        rule.count = parseInteger(part, value, 1, 10000);
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(part, value);
+        break;
+      case 'BYDAY':
+        if (rule.freq === 'YEARLY') {
+          throw ruleError(part, 'not supported with FREQ=YEARLY');
+        }
+        rule.byDay = value.split(',').map(day => {
+          const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(day);
+          if (!match) {
+            throw ruleError(part, `"${day}" is not a weekday like MO or 1MO`);
+          }
+          if (match[1] !== undefined && rule.freq !== 'MONTHLY') {
+            throw ruleError(part, 'numbered weekdays are only supported with FREQ=MONTHLY');
+          }
+          return {
+            weekday: WEEKDAYS.indexOf(match[2]),
+            ...(match[1] !== undefined && { ordinal: parseInteger(part, match[1], -5, 5) }),
+          };
+        });
+        break;
+      case 'BYMONTHDAY':
+        if (rule.freq === 'DAILY' || rule.freq === 'WEEKLY') {
+          throw ruleError(part, `not supported with FREQ=${rule.freq}`);
+        }
+        rule.byMonthDay = value.split(',').map(day => parseInteger(part, day, -31, 31));
+        break;
+      case 'BYMONTH':
+        if (rule.freq !== 'YEARLY') {
+          throw ruleError(part, 'only supported with FREQ=YEARLY');
+        }
+        rule.byMonth = value.split(',').map(month => parseInteger(part, month, 1, 12));
+        break;
+      default:
+        throw ruleError(part, `${key} is not supported`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new BadRequestException('A recurrence rule cannot have both COUNT and UNTIL');
+  }
+  return rule;
+}
+
+const weekdayOf = (time: number) => (new Date(time).getUTCDay() + 6) % 7;
+
+const daysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/**
+ * Start of each day of the month matching the month days and weekdays.
+ */
+function daysOfMonth(
+  year: number,
+  month: number,
+  monthDays: number[] | undefined,
+  weekdays: RecurrenceWeekday[] | undefined,
+): number[] {
+  const length = daysInMonth(year, month);
+  let days = monthDays
+    ? monthDays
+        .map(day => (day > 0 ? day : length + day + 1))
+        .filter(day => day >= 1 && day <= length)
+    : Array.from({ length }, (_, index) => index + 1);
+
+  if (weekdays) {
+    days = days.filter(day => {
+      const weekday = weekdayOf(Date.UTC(year, month, day));
+      return weekdays.some(entry => {
+        if (entry.weekday !== weekday) {
+          return false;
+        }
+        if (entry.ordinal === undefined) {
+          return true;
+        }
+        const nth = entry.ordinal > 0 ? Math.ceil(day / 7) : -Math.ceil((length - day + 1) / 7);
+        return nth === entry.ordinal;
+      });
+    });
+  }
+  return days.map(day => Date.UTC(year, month, day));
+}
+
+/**
+ * Start of each day in the n-th period of the rule that may hold occurrences,
+ * before the start and until limits are applied.
+ */
+function candidateDays(rule: RecurrenceRule, start: Date, period: number): number[] {
+  const startDay = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = startDay + step * DAY;
+      const weekdays = rule.byDay?.map(entry => entry.weekday);
+      return !weekdays || weekdays.includes(weekdayOf(day)) ? [day] : [];
+    }
+    case 'WEEKLY': {
+      const weekStart = startDay - weekdayOf(startDay) * DAY + step * 7 * DAY;
+      const weekdays = rule.byDay?.map(entry => entry.weekday) ?? [weekdayOf(startDay)];
+      return weekdays.map(weekday => weekStart + weekday * DAY);
+    }
+    case 'MONTHLY': {
+      const monthIndex = start.getUTCMonth() + step;
+      const year = start.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = monthIndex % 12;
+      const monthDays = rule.byMonthDay ?? (rule.byDay ? undefined : [start.getUTCDate()]);
+      return daysOfMonth(year, month, monthDays, rule.byDay);
+    }
+    case 'YEARLY': {
+      const year = start.getUTCFullYear() + step;
+      const months = rule.byMonth?.map(month => month - 1) ?? [start.getUTCMonth()];
+      const monthDays = rule.byMonthDay ?? [start.getUTCDate()];
+      return months.flatMap(month => daysOfMonth(year, month, monthDays, undefined));
+    }
+  }
+}
+
+/**
+ * The first occurrence after `after` of a series starting at `start`, or
+ * `null` once the series is over. Like in iCalendar the start itself counts
+ * as the first occurrence; occurrences keep its time of day, in UTC.
+ */
+export function nextOccurrence(rule: RecurrenceRule, start: Date, after: Date): Date | null {
+  const timeOfDay =
+    start.getTime() - Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+  let emitted = 1;
+  if (start > after) {
+    return start;
+  }
+
+  for (let period = 0, idle = 0; idle < MAX_PERIODS; period++, idle++) {
+    const occurrences = [...new Set(candidateDays(rule, start, period))]
+      .sort((a, b) => a - b)
+      .map(day => day + timeOfDay)
+      .filter(time => time > start.getTime());
+
+    for (const time of occurrences) {
+      if ((rule.until && time > rule.until.getTime()) || (rule.count && emitted >= rule.count)) {
+        return null;
+      }
+      emitted++;
+      if (time > after.getTime()) {
+        return new Date(time);
+      }
+    }
+    if (occurrences.length) {
+      idle = 0;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,132 @@
+import { RateLimit } from '@common/decorators/rate-limit.decorator';
+import { RequirePermissions } from '@common/decorators/require-permissions.decorator';
+import { RateLimitGuard } from '@common/guards/rate-limit.guard';
+import { Authenticated, CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpException,
+  HttpStatus,
+  Param,
+  Post,
+  Req,
+  Res,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiBody, ApiConsumes, ApiHeader, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { UploadedFileData } from './interfaces/uploaded-file.interface';
+import { TaskAttachmentsService } from './task-attachments.service';
+
+@ApiTags('task attachments')
+@Controller('tasks/:taskId/attachments')
+@Authenticated()
+@UseGuards(RateLimitGuard)
+@RateLimit(100, 60000)
+@RequirePermissions(Permission.TASK_READ)
+export class TaskAttachmentsController {
+  constructor(private readonly attachmentsService: TaskAttachmentsService) {}
+
+  @Post()
+  @RequirePermissions(Permission.TASK_UPDATE)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiOperation({ summary: 'Attach a file to a task' })
+  upload(
+    @Param('taskId') taskId: string,
+    @UploadedFile() file: UploadedFileData | undefined,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.attachmentsService.upload(taskId, file, user);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List the attachments of a task, oldest first' })
+  findAll(@Param('taskId') taskId: string, @CurrentUser() user: AuthUser) {
+    return this.attachmentsService.findAll(taskId, user);
+  }
+
+  @Get(':attachmentId')
+  @ApiOperation({ summary: 'Get the details of an attachment' })
+  findOne(
+    @Param('taskId') taskId: string,
+    @Param('attachmentId') attachmentId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.attachmentsService.findOne(taskId, attachmentId, user);
+  }
+
+  @Get(':attachmentId/content')
+  @ApiOperation({ summary: 'Download an attachment' })
+  @ApiHeader({
+    name: 'Range',
+    required: false,
+    description: 'A single byte range such as bytes=0-1023; others are answered in full',
+  })
+  async download(
+    @Param('taskId') taskId: string,
+    @Param('attachmentId') attachmentId: string,
+    @CurrentUser() user: AuthUser,
+    @Req() req: Request,
+    @Res() res: Response,
+  ): Promise<void> {
+    const attachment = await this.attachmentsService.findOne(taskId, attachmentId, user);
+
+    const ranges = req.headers.range ? req.range(attachment.size) : undefined;
+    if (ranges === -1) {
+      res.setHeader('Content-Range', `bytes */${attachment.size}`);
+      throw new HttpException(
+        'The requested range is not part of the file',
+        HttpStatus.REQUESTED_RANGE_NOT_SATISFIABLE,
+      );
+    }
+    // Malformed and multi-part ranges are answered with the whole file.
+    const range =
+      Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1
+        ? ranges[0]
+        : undefined;
+
+    const content = await this.attachmentsService.openContent(attachment, range);
+
+    res.attachment(attachment.fileName);
+    res.setHeader('Content-Type', attachment.mimeType);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Accept-Ranges', 'bytes');
+    if (range) {
+      res.status(HttpStatus.PARTIAL_CONTENT);
+      res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${attachment.size}`);
+      res.setHeader('Content-Length', range.end - range.start + 1);
+    } else {
+      res.setHeader('Content-Length', attachment.size);
+    }
+
+    content.on('error', () => res.destroy());
+    content.pipe(res);
+  }
+
+  @Delete(':attachmentId')
+  @RequirePermissions(Permission.TASK_UPDATE)
+  @ApiOperation({ summary: 'Remove an attachment from a task' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @Param('taskId') taskId: string,
+    @Param('attachmentId') attachmentId: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<void> {
+    await this.attachmentsService.remove(taskId, attachmentId, user);
+  }
+}
@@ -0,0 +1,270 @@
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { OrganizationRole } from '@modules/organizations/enums/organization-role.enum';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Logger,
+  NotFoundException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { createHash } from 'crypto';
+import { EntityManager } from 'typeorm';
+import { StorageDriver } from '../storage/storage-driver';
+import { TaskAttachment } from './entities/task-attachment.entity';
+import { Task } from './entities/task.entity';
+import { UploadedFileData } from './interfaces/uploaded-file.interface';
+import { TaskPolicy } from './policies/task.policy';
+import { TaskAttachmentsService } from './task-attachments.service';
+
+describe('TaskAttachmentsService', () => {
+  let service: TaskAttachmentsService;
+  let config: Record<string, string>;
+
+  const member: AuthUser = {
+    id: 'u1',
+    email: 'member@example.com',
+    name: 'Member',
+    role: 'user',
+    organizationId: 'org-1',
+    organizationRole: OrganizationRole.MEMBER,
+    permissions: [Permission.TASK_READ, Permission.TASK_UPDATE],
+  };
+
+  const mockTask = {
+    id: 't1',
+    organizationId: 'org-1',
+    createdById: 'u1',
+    assigneeIds: [],
+    watcherIds: [],
+  };
+
+  const png = Buffer.from('\x89PNG\r\n\x1a\nhello', 'latin1');
+
+  const file = (overrides: Partial<UploadedFileData> = {}): UploadedFileData => ({
+    originalname: 'screenshot.png',
+    mimetype: 'image/png',
+    size: png.length,
+    buffer: png,
+    ...overrides,
+  });
+
+  const checksum = createHash('sha256').update(png).digest('hex');
+
+  const mockManager = {
+    query: jest.fn(),
+    getRepository: jest.fn(),
+  };
+
+  const mockAttachmentsRepository = {
+    create: jest.fn(data => data),
+    save: jest.fn(async entity => ({ id: 'a1', ...entity })),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    exists: jest.fn(),
+    remove: jest.fn(),
+    manager: {
+      transaction: jest.fn(async work => work(mockManager)),
+    },
+  };
+
+  const lockFileQuery = 'SELECT pg_advisory_xact_lock(hashtext($1))';
+
+  const mockTasksRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockStorage = {
+    put: jest.fn(),
+    exists: jest.fn(),
+    read: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    config = {};
+    mockTasksRepository.findOne.mockResolvedValue({ ...mockTask });
+    mockAttachmentsRepository.findOne.mockResolvedValue(null);
+    mockStorage.exists.mockResolvedValue(false);
+    mockManager.getRepository.mockReturnValue(mockAttachmentsRepository);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskAttachmentsService,
+        TaskPolicy,
+        { provide: getRepositoryToken(TaskAttachment), useValue: mockAttachmentsRepository },
+        { provide: getRepositoryToken(Task), useValue: mockTasksRepository },
+        { provide: StorageDriver, useValue: mockStorage },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<TaskAttachmentsService>(TaskAttachmentsService);
+  });
+
+  describe('upload', () => {
+    it('should store the file under its checksum', async () => {
+      const result = await service.upload('t1', file(), member);
+
+      expect(mockStorage.put).toHaveBeenCalledWith(checksum, png, 'image/png');
+      expect(result).toMatchObject({
+        taskId: 't1',
+        fileName: 'screenshot.png',
+        mimeType: 'image/png',
+        size: png.length,
+        checksum,
+        uploadedById: 'u1',
+      });
+    });
+
+    it('should hold the stored file while attaching it', async () => {
+      await service.upload('t1', file(), member);
+
+      expect(mockManager.query).toHaveBeenCalledWith(lockFileQuery, [checksum]);
+      expect(mockManager.query.mock.invocationCallOrder[0]).toBeLessThan(
+        mockStorage.exists.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should not store content again that is already stored', async () => {
+      mockStorage.exists.mockResolvedValue(true);
+
+      await service.upload('t1', file(), member);
+
+      expect(mockStorage.put).not.toHaveBeenCalled();
+      expect(mockAttachmentsRepository.save).toHaveBeenCalled();
+    });
+
+    it('should reject files already attached to the task', async () => {
+      mockAttachmentsRepository.findOne.mockResolvedValue({ fileName: 'first.png' });
+
+      await expect(service.upload('t1', file(), member)).rejects.toThrow(ConflictException);
+      expect(mockStorage.put).not.toHaveBeenCalled();
+    });
+
+    it('should require a file', async () => {
+      await expect(service.upload('t1', undefined, member)).rejects.toThrow(BadRequestException);
+    });
+
+    it('should enforce the size limit', async () => {
+      config.ATTACHMENT_MAX_SIZE_MB = '1';
+
+      await expect(service.upload('t1', file({ size: 1024 * 1024 + 1 }), member)).rejects.toThrow(
+        PayloadTooLargeException,
+      );
+    });
+
+    it('should only accept allowed types', async () => {
+      await expect(
+        service.upload('t1', file({ mimetype: 'application/x-msdownload' }), member),
+      ).rejects.toThrow(UnsupportedMediaTypeException);
+
+      config.ATTACHMENT_ALLOWED_TYPES = 'application/x-msdownload, text/plain';
+      await expect(
+        service.upload('t1', file({ mimetype: 'application/x-msdownload' }), member),
+      ).resolves.toBeDefined();
+    });
+
+    it('should reject content that is not of the claimed type', async () => {
+      await expect(
+        service.upload('t1', file({ buffer: Buffer.from('MZ\x90\x00', 'latin1') }), member),
+      ).rejects.toThrow('The content of screenshot.png is not of type image/png');
+      await expect(
+        service.upload(
+          't1',
+          file({ originalname: 'notes.txt', mimetype: 'text/plain', buffer: Buffer.from([0, 1]) }),
+          member,
+        ),
+      ).rejects.toThrow(UnsupportedMediaTypeException);
+      expect(mockStorage.put).not.toHaveBeenCalled();
+    });
+
+    it('should not let watchers attach files', async () => {
+      mockTasksRepository.findOne.mockResolvedValue({
+        ...mockTask,
+        createdById: 'someone-else',
+        watcherIds: ['u1'],
+      });
+
+      await expect(service.upload('t1', file(), member)).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('findOne', () => {
+    it('should report tasks the actor cannot read as missing', async () => {
+      mockTasksRepository.findOne.mockResolvedValue({ ...mockTask, createdById: 'someone-else' });
+
+      await expect(service.findOne('t1', 'a1', member)).rejects.toThrow(
+        'Task with ID t1 not found',
+      );
+    });
+
+    it('should throw when the attachment is not on the task', async () => {
+      await expect(service.findOne('t1', 'a1', member)).rejects.toThrow(NotFoundException);
+      expect(mockAttachmentsRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 'a1', taskId: 't1' },
+      });
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete the file once no attachment refers to it', async () => {
+      const attachment = { id: 'a1', taskId: 't1', checksum };
+      mockAttachmentsRepository.findOne.mockResolvedValue(attachment);
+      mockAttachmentsRepository.exists.mockResolvedValue(false);
+
+      await service.remove('t1', 'a1', member);
+
+      expect(mockAttachmentsRepository.remove).toHaveBeenCalledWith(attachment);
+      expect(mockStorage.delete).toHaveBeenCalledWith(checksum);
+    });
+  });
+
+  describe('deleteOrphanedFiles', () => {
+    it('should keep files other attachments still refer to', async () => {
+      mockAttachmentsRepository.exists.mockImplementation(
+        async ({ where }: { where: { checksum: string } }) => where.checksum === 'shared',
+      );
+
+      await service.deleteOrphanedFiles(['shared', 'orphan', 'orphan']);
+
+      expect(mockStorage.delete).toHaveBeenCalledTimes(1);
+      expect(mockStorage.delete).toHaveBeenCalledWith('orphan');
+      expect(mockManager.query).toHaveBeenCalledWith(lockFileQuery, ['shared']);
+      expect(mockManager.query).toHaveBeenCalledWith(lockFileQuery, ['orphan']);
+    });
+
+    it('should carry on when a file cannot be deleted', async () => {
+      const logError = jest.spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+      mockAttachmentsRepository.exists.mockResolvedValue(false);
+      mockStorage.delete.mockRejectedValueOnce(new Error('Disk on fire'));
+
+      await expect(service.deleteOrphanedFiles(['a', 'b'])).resolves.toBeUndefined();
+      expect(mockStorage.delete).toHaveBeenCalledWith('b');
+      expect(logError).toHaveBeenCalled();
+      logError.mockRestore();
+    });
+  });
+
+  describe('findStorageKeys', () => {
+    it('should collect the files of the whole subtree', async () => {
+      const manager = { query: jest.fn().mockResolvedValue([{ checksum: 'abc' }]) };
+
+      const keys = await service.findStorageKeys(['t1'], manager as unknown as EntityManager);
+
+      expect(keys).toEqual(['abc']);
+      expect(manager.query).toHaveBeenCalledWith(expect.stringContaining('WITH RECURSIVE'), [
+        ['t1'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { EntityManager, Repository } from 'typeorm';
+import { contentMatchesType } from '../../common/utils/file-signature.util';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { PolicyAction } from '../auth/policies/policy';
+import { ByteRange, StorageDriver } from '../storage/storage-driver';
+import { TaskAttachment } from './entities/task-attachment.entity';
+import { Task } from './entities/task.entity';
+import { UploadedFileData } from './interfaces/uploaded-file.interface';
+import { TaskPolicy } from './policies/task.policy';
+
+const DEFAULT_MAX_SIZE_MB = 10;
+
+const DEFAULT_ALLOWED_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/zip',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+/**
+ * Largest upload in bytes, from `ATTACHMENT_MAX_SIZE_MB`.
+ */
+export function attachmentSizeLimit(configService: ConfigService): number {
+  const megabytes = Number(configService.get('ATTACHMENT_MAX_SIZE_MB')) || DEFAULT_MAX_SIZE_MB;
+  return megabytes * 1024 * 1024;
+}
+
+/**
+ * Whoever may read a task may download its attachments; attaching and
+ * removing files takes the right to update the task.
+ */
+@Injectable()
+export class TaskAttachmentsService {
+  private readonly logger = new Logger(TaskAttachmentsService.name);
+
+  constructor(
+    @InjectRepository(TaskAttachment)
+    private attachmentsRepository: Repository<TaskAttachment>,
+    @InjectRepository(Task)
+    private tasksRepository: Repository<Task>,
+    private taskPolicy: TaskPolicy,
+    private storage: StorageDriver,
+    private configService: ConfigService,
+  ) {}
+
+  async upload(
+    taskId: string,
+    file: UploadedFileData | undefined,
+    actor: AuthUser,
+  ): Promise<TaskAttachment> {
+    await this.findTask(taskId, actor, 'update');
+    if (!file) {
+      throw new BadRequestException('Send the file as multipart form data in the "file" field');
+    }
+    this.assertAcceptable(file);
+
+    const checksum = createHash('sha256').update(file.buffer).digest('hex');
+    return this.attachmentsRepository.manager.transaction(async manager => {
+      await this.lockFile(checksum, manager);
+      const attachments = manager.getRepository(TaskAttachment);
+      const existing = await attachments.findOne({ where: { taskId, checksum } });
+      if (existing) {
+        throw new ConflictException(
+          `This file is already attached to task ${taskId} as ${existing.fileName}`,
+        );
+      }
+
+      // Files already stored for another attachment are shared, not stored again.
+      if (!(await this.storage.exists(checksum))) {
+        await this.storage.put(checksum, file.buffer, file.mimetype);
+      }
+
+      return attachments.save(
+        attachments.create({
+          taskId,
+          fileName: file.originalname,
+          mimeType: file.mimetype,
+          size: file.size,
+          checksum,
+          uploadedById: actor.id,
+        }),
+      );
+    });
+  }
+
+  async findAll(taskId: string, actor: AuthUser): Promise<TaskAttachment[]> {
+    await this.findTask(taskId, actor, 'read');
+
+    return this.attachmentsRepository.find({ where: { taskId }, order: { createdAt: 'ASC' } });
+  }
+
+  async findOne(taskId: string, attachmentId: string, actor: AuthUser): Promise<TaskAttachment> {
+    await this.findTask(taskId, actor, 'read');
+    return this.findAttachment(taskId, attachmentId);
+  }
+
+  /**
+   * Streams the content of an attachment, or the given part of it.
+   */
+  async openContent(attachment: TaskAttachment, range?: ByteRange): Promise<Readable> {
+    return this.storage.read(attachment.checksum, range);
+  }
+
+  async remove(taskId: string, attachmentId: string, actor: AuthUser): Promise<void> {
+    await this.findTask(taskId, actor, 'update');
+    const attachment = await this.findAttachment(taskId, attachmentId);
+
+    await this.attachmentsRepository.remove(attachment);
+    await this.deleteOrphanedFiles([attachment.checksum]);
+  }
+
+  /**
+   * Storage keys of the files attached to the tasks or their subtasks,
+   * trashed ones included, which go with them when they are purged.
+   */
+  async findStorageKeys(taskIds: string[], manager: EntityManager): Promise<string[]> {
+    if (taskIds.length === 0) {
+      return [];
+    }
+
+    const rows: { checksum: string }[] = await manager.query(
+      `WITH RECURSIVE subtree AS (
+        SELECT id FROM tasks WHERE id = ANY($1::uuid[])
+        UNION
+        SELECT t.id FROM tasks t INNER JOIN subtree s ON t.parent_id = s.id
+      )
+      SELECT DISTINCT a.checksum FROM task_attachments a INNER JOIN subtree s ON a.task_id = s.id`,
+      [taskIds],
+    );
+    return rows.map(row => row.checksum);
+  }
+
+  /**
+   * Deletes the stored files no attachment refers to anymore. Failures are
+   * logged rather than raised since the attachments themselves are gone by
+   * now; a file left behind only takes up space.
+   */
+  async deleteOrphanedFiles(storageKeys: string[]): Promise<void> {
+    for (const checksum of new Set(storageKeys)) {
+      try {
+        await this.attachmentsRepository.manager.transaction(async manager => {
+          await this.lockFile(checksum, manager);
+          const referenced = await manager.getRepository(TaskAttachment).exists({
+            where: { checksum },
+          });
+          if (!referenced) {
+            await this.storage.delete(checksum);
+          }
+        });
+      } catch (error) {
+        this.logger.error(
+          `Failed to delete orphaned file ${checksum}`,
+          error instanceof Error ? error.stack : undefined,
+        );
+      }
+    }
+  }
+
+  private assertAcceptable(file: UploadedFileData): void {
+    const maxSize = attachmentSizeLimit(this.configService);
+    if (file.size > maxSize) {
+      throw new PayloadTooLargeException(
+        `Attachments can be at most ${maxSize / (1024 * 1024)} MB`,
+      );
+    }
+
+    const configuredTypes = (this.configService.get<string>('ATTACHMENT_ALLOWED_TYPES') ?? '')
+      .split(',')
+      .map(type => type.trim().toLowerCase())
+      .filter(Boolean);
+    const allowedTypes = configuredTypes.length ? configuredTypes : DEFAULT_ALLOWED_TYPES;
+    if (!allowedTypes.includes(file.mimetype.toLowerCase())) {
+      throw new UnsupportedMediaTypeException(
+        `Files of type ${file.mimetype} cannot be attached; use one of ${allowedTypes.join(', ')}`,
+      );
+    }
+    if (!contentMatchesType(file.buffer, file.mimetype)) {
+      throw new UnsupportedMediaTypeException(
+        `The content of ${file.originalname} is not of type ${file.mimetype}`,
+      );
+    }
+  }
+
+  /**
+   * Holds the stored file with the given checksum until the transaction of
+   * `manager` ends, so that an upload sharing the file and the check whether
+   * anything still refers to it before deleting it take turns.
+   */
+  private async lockFile(checksum: string, manager: EntityManager): Promise<void> {
+    await manager.query('SELECT pg_advisory_xact_lock(hashtext($1))', [checksum]);
+  }
+
+  /**
+   * Tasks the actor may not read are reported as missing, like in
+   * `TasksService.findOne`.
+   */
+  private async findTask(taskId: string, actor: AuthUser, action: PolicyAction): Promise<Task> {
+    const task = await this.tasksRepository.findOne({
+      where: { id: taskId, organizationId: actor.organizationId },
+    });
+
+    if (!task || !this.taskPolicy.can(actor, 'read', task)) {
+      throw new NotFoundException(`Task with ID ${taskId} not found`);
+    }
+    this.taskPolicy.authorize(actor, action, task);
+
+    return task;
+  }
+
+  private async findAttachment(taskId: string, attachmentId: string): Promise<TaskAttachment> {
+    const attachment = await this.attachmentsRepository.findOne({
+      where: { id: attachmentId, taskId },
+    });
+
+    if (!attachment) {
+      throw new NotFoundException(`Attachment with ID ${attachmentId} not found`);
+    }
+
+    return attachment;
+  }
+}
@@ -0,0 +1,98 @@
+import { RateLimit } from '@common/decorators/rate-limit.decorator';
+import { RequirePermissions } from '@common/decorators/require-permissions.decorator';
+import { RateLimitGuard } from '@common/guards/rate-limit.guard';
+import { Authenticated, CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { CreateChecklistItemDto } from './dto/create-checklist-item.dto';
+import { ReorderChecklistDto } from './dto/reorder-checklist.dto';
+import { UpdateChecklistItemDto } from './dto/update-checklist-item.dto';
+import { TaskChecklistService } from './task-checklist.service';
+
+@ApiTags('task checklists')
+@Controller('tasks/:taskId/checklist')
+@Authenticated()
+@UseGuards(RateLimitGuard)
+@RateLimit(100, 60000)
+@RequirePermissions(Permission.TASK_READ)
+export class TaskChecklistController {
+  constructor(private readonly checklistService: TaskChecklistService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the checklist items of a task in order' })
+  findAll(@Param('taskId') taskId: string, @CurrentUser() user: AuthUser) {
+    return this.checklistService.findAll(taskId, user);
+  }
+
+  @Post()
+  @RequirePermissions(Permission.TASK_UPDATE)
+  @ApiOperation({ summary: 'Add an item to the checklist of a task' })
+  add(
+    @Param('taskId') taskId: string,
+    @Body() createItemDto: CreateChecklistItemDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.checklistService.add(taskId, createItemDto, user);
+  }
+
+  @Put('order')
+  @RequirePermissions(Permission.TASK_UPDATE)
+  @ApiOperation({ summary: 'Reorder the checklist of a task' })
+  reorder(
+    @Param('taskId') taskId: string,
+    @Body() reorderDto: ReorderChecklistDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.checklistService.reorder(taskId, reorderDto, user);
+  }
+
+  @Patch(':itemId')
+  @RequirePermissions(Permission.TASK_UPDATE)
+  @ApiOperation({ summary: 'Edit a checklist item or check it off' })
+  update(
+    @Param('taskId') taskId: string,
+    @Param('itemId') itemId: string,
+    @Body() updateItemDto: UpdateChecklistItemDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.checklistService.update(taskId, itemId, updateItemDto, user);
+  }
+
+  @Post(':itemId/toggle')
+  @RequirePermissions(Permission.TASK_UPDATE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Check off an open checklist item or reopen a done one' })
+  toggle(
+    @Param('taskId') taskId: string,
+    @Param('itemId') itemId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.checklistService.toggle(taskId, itemId, user);
+  }
+
+  @Delete(':itemId')
+  @RequirePermissions(Permission.TASK_UPDATE)
+  @ApiOperation({ summary: 'Delete a checklist item' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @Param('taskId') taskId: string,
+    @Param('itemId') itemId: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<void> {
+    await this.checklistService.remove(taskId, itemId, user);
+  }
+}
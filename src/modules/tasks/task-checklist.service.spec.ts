@@ -0,0 +1,235 @@
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { OrganizationRole } from '@modules/organizations/enums/organization-role.enum';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import { BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { MoreThan, MoreThanOrEqual } from 'typeorm';
+import { TaskChecklistItem } from './entities/task-checklist-item.entity';
+import { Task } from './entities/task.entity';
+import { TaskPolicy } from './policies/task.policy';
+import { TaskChecklistService } from './task-checklist.service';
+
+describe('TaskChecklistService', () => {
+  let service: TaskChecklistService;
+
+  const member: AuthUser = {
+    id: 'u1',
+    email: 'member@example.com',
+    name: 'Member',
+    role: 'user',
+    organizationId: 'org-1',
+    organizationRole: OrganizationRole.MEMBER,
+    permissions: [Permission.TASK_READ, Permission.TASK_UPDATE],
+  };
+
+  const mockTask = {
+    id: 't1',
+    organizationId: 'org-1',
+    createdById: 'u1',
+    assigneeIds: [],
+    watcherIds: [],
+  };
+
+  const item = (id: string, position: number, done = false) =>
+    ({
+      id,
+      taskId: 't1',
+      text: `Step ${id}`,
+      done,
+      position,
+      completedAt: null,
+    }) as TaskChecklistItem;
+
+  const mockManager = {
+    create: jest.fn((_, data) => data),
+    save: jest.fn(async (_, entity) => entity),
+    find: jest.fn(),
+    count: jest.fn(),
+    exists: jest.fn(),
+    remove: jest.fn(),
+    increment: jest.fn(),
+    decrement: jest.fn(),
+  };
+
+  const mockItemsRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    save: jest.fn(async entity => entity),
+    manager: {
+      ...mockManager,
+      transaction: jest.fn(cb => cb(mockManager)),
+    },
+  };
+
+  const mockTasksRepository = {
+    findOne: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockTasksRepository.findOne.mockResolvedValue({ ...mockTask });
+    mockManager.exists.mockResolvedValue(true);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskChecklistService,
+        TaskPolicy,
+        { provide: getRepositoryToken(TaskChecklistItem), useValue: mockItemsRepository },
+        { provide: getRepositoryToken(Task), useValue: mockTasksRepository },
+      ],
+    }).compile();
+
+    service = module.get<TaskChecklistService>(TaskChecklistService);
+  });
+
+  describe('findAll', () => {
+    it('should list the items in order', async () => {
+      mockItemsRepository.find.mockResolvedValue([item('a', 0)]);
+
+      const result = await service.findAll('t1', member);
+
+      expect(result).toHaveLength(1);
+      expect(mockItemsRepository.find).toHaveBeenCalledWith({
+        where: { taskId: 't1' },
+        order: { position: 'ASC' },
+      });
+    });
+
+    it('should report tasks the actor cannot read as missing', async () => {
+      mockTasksRepository.findOne.mockResolvedValue({ ...mockTask, createdById: 'someone-else' });
+
+      await expect(service.findAll('t1', member)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('add', () => {
+    it('should append items to the end by default', async () => {
+      mockManager.count.mockResolvedValue(2);
+
+      const result = await service.add('t1', { text: 'Write docs' }, member);
+
+      expect(result).toEqual({ text: 'Write docs', taskId: 't1', position: 2 });
+      expect(mockManager.increment).not.toHaveBeenCalled();
+    });
+
+    it('should make room for items inserted in between', async () => {
+      mockManager.count.mockResolvedValue(3);
+
+      const result = await service.add('t1', { text: 'Write docs', position: 1 }, member);
+
+      expect(result.position).toBe(1);
+      expect(mockManager.increment).toHaveBeenCalledWith(
+        TaskChecklistItem,
+        { taskId: 't1', position: MoreThanOrEqual(1) },
+        'position',
+        1,
+      );
+    });
+
+    it('should not let members assign items to others', async () => {
+      await expect(service.add('t1', { text: 'Review', assigneeId: 'u2' }, member)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should reject assignees outside the organization', async () => {
+      mockManager.exists.mockResolvedValue(false);
+
+      await expect(service.add('t1', { text: 'Review', assigneeId: 'u1' }, member)).rejects.toThrow(
+        'User with ID u1 not found',
+      );
+    });
+
+    it('should not let watchers change the checklist', async () => {
+      mockTasksRepository.findOne.mockResolvedValue({
+        ...mockTask,
+        createdById: 'someone-else',
+        watcherIds: ['u1'],
+      });
+
+      await expect(service.add('t1', { text: 'Sneaky' }, member)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('update and toggle', () => {
+    it('should record when an item is checked off', async () => {
+      mockItemsRepository.findOne.mockResolvedValue(item('a', 0));
+
+      const result = await service.update('t1', 'a', { done: true, text: 'Step one' }, member);
+
+      expect(result.done).toBe(true);
+      expect(result.text).toBe('Step one');
+      expect(result.completedAt).toBeInstanceOf(Date);
+    });
+
+    it('should reopen done items', async () => {
+      mockItemsRepository.findOne.mockResolvedValue({
+        ...item('a', 0, true),
+        completedAt: new Date(),
+      });
+
+      const result = await service.toggle('t1', 'a', member);
+
+      expect(result.done).toBe(false);
+      expect(result.completedAt).toBeNull();
+    });
+
+    it('should throw when the item is not on the task', async () => {
+      mockItemsRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.toggle('t1', 'x', member)).rejects.toThrow(
+        'Checklist item with ID x not found',
+      );
+    });
+  });
+
+  describe('reorder', () => {
+    it('should number the items in the given order', async () => {
+      mockManager.find.mockResolvedValue([item('a', 0), item('b', 1), item('c', 2)]);
+
+      const result = await service.reorder('t1', { itemIds: ['c', 'a', 'b'] }, member);
+
+      expect(result.map(({ id, position }) => [id, position])).toEqual([
+        ['c', 0],
+        ['a', 1],
+        ['b', 2],
+      ]);
+    });
+
+    it('should require every item', async () => {
+      mockManager.find.mockResolvedValue([item('a', 0), item('b', 1)]);
+
+      await expect(service.reorder('t1', { itemIds: ['b'] }, member)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject items of other tasks', async () => {
+      mockManager.find.mockResolvedValue([item('a', 0)]);
+
+      await expect(service.reorder('t1', { itemIds: ['z'] }, member)).rejects.toThrow(
+        'Checklist item with ID z not found',
+      );
+    });
+  });
+
+  describe('remove', () => {
+    it('should close the gap the item leaves', async () => {
+      const removed = item('b', 1);
+      mockItemsRepository.findOne.mockResolvedValue(removed);
+
+      await service.remove('t1', 'b', member);
+
+      expect(mockManager.remove).toHaveBeenCalledWith(TaskChecklistItem, removed);
+      expect(mockManager.decrement).toHaveBeenCalledWith(
+        TaskChecklistItem,
+        { taskId: 't1', position: MoreThan(1) },
+        'position',
+        1,
+      );
+    });
+  });
+});
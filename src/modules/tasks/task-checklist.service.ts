@@ -0,0 +1,194 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, MoreThan, MoreThanOrEqual, Repository } from 'typeorm';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { PolicyAction } from '../auth/policies/policy';
+import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
+import { CreateChecklistItemDto } from './dto/create-checklist-item.dto';
+import { ReorderChecklistDto } from './dto/reorder-checklist.dto';
+import { UpdateChecklistItemDto } from './dto/update-checklist-item.dto';
+import { TaskChecklistItem } from './entities/task-checklist-item.entity';
+import { Task } from './entities/task.entity';
+import { TaskPolicy } from './policies/task.policy';
+
+/**
+ * Keeps the items of a task's checklist numbered from zero without gaps.
+ * Whoever may read a task may read its checklist; changing it takes the right
+ * to update the task.
+ */
+@Injectable()
+export class TaskChecklistService {
+  constructor(
+    @InjectRepository(TaskChecklistItem)
+    private itemsRepository: Repository<TaskChecklistItem>,
+    @InjectRepository(Task)
+    private tasksRepository: Repository<Task>,
+    private taskPolicy: TaskPolicy,
+  ) {}
+
+  async findAll(taskId: string, actor: AuthUser): Promise<TaskChecklistItem[]> {
+    await this.findTask(taskId, actor, 'read');
+
+    return this.itemsRepository.find({ where: { taskId }, order: { position: 'ASC' } });
+  }
+
+  async add(
+    taskId: string,
+    createItemDto: CreateChecklistItemDto,
+    actor: AuthUser,
+  ): Promise<TaskChecklistItem> {
+    const { position, ...fields } = createItemDto;
+    await this.findTask(taskId, actor, 'update');
+
+    return this.itemsRepository.manager.transaction(async manager => {
+      if (fields.assigneeId) {
+        await this.assertCanAssign(fields.assigneeId, actor, manager);
+      }
+
+      const count = await manager.count(TaskChecklistItem, { where: { taskId } });
+      const at = position === undefined ? count : Math.min(position, count);
+      if (at < count) {
+        await manager.increment(
+          TaskChecklistItem,
+          { taskId, position: MoreThanOrEqual(at) },
+          'position',
+          1,
+        );
+      }
+
+      return manager.save(
+        TaskChecklistItem,
+        manager.create(TaskChecklistItem, { ...fields, taskId, position: at }),
+      );
+    });
+  }
+
+  async update(
+    taskId: string,
+    itemId: string,
+    updateItemDto: UpdateChecklistItemDto,
+    actor: AuthUser,
+  ): Promise<TaskChecklistItem> {
+    await this.findTask(taskId, actor, 'update');
+    const item = await this.findItem(taskId, itemId);
+
+    if (updateItemDto.assigneeId && updateItemDto.assigneeId !== item.assigneeId) {
+      await this.assertCanAssign(updateItemDto.assigneeId, actor, this.itemsRepository.manager);
+    }
+
+    const { done, ...fields } = updateItemDto;
+    Object.assign(item, fields);
+    if (done !== undefined && done !== item.done) {
+      this.markDone(item, done);
+    }
+
+    return this.itemsRepository.save(item);
+  }
+
+  async toggle(taskId: string, itemId: string, actor: AuthUser): Promise<TaskChecklistItem> {
+    await this.findTask(taskId, actor, 'update');
+    const item = await this.findItem(taskId, itemId);
+
+    this.markDone(item, !item.done);
+    return this.itemsRepository.save(item);
+  }
+
+  /**
+   * Puts the checklist in the given order, which has to name every item
+   * exactly once so concurrent additions are not silently moved around.
+   */
+  async reorder(
+    taskId: string,
+    reorderDto: ReorderChecklistDto,
+    actor: AuthUser,
+  ): Promise<TaskChecklistItem[]> {
+    await this.findTask(taskId, actor, 'update');
+
+    return this.itemsRepository.manager.transaction(async manager => {
+      const items = await manager.find(TaskChecklistItem, { where: { taskId } });
+      const itemsById = new Map(items.map(item => [item.id, item]));
+
+      const unknown = reorderDto.itemIds.find(id => !itemsById.has(id));
+      if (unknown) {
+        throw new NotFoundException(`Checklist item with ID ${unknown} not found`);
+      }
+      if (reorderDto.itemIds.length !== items.length) {
+        throw new BadRequestException('The new order has to include every item of the checklist');
+      }
+
+      const reordered = reorderDto.itemIds.map((id, position) =>
+        Object.assign(itemsById.get(id) as TaskChecklistItem, { position }),
+      );
+      return manager.save(TaskChecklistItem, reordered);
+    });
+  }
+
+  async remove(taskId: string, itemId: string, actor: AuthUser): Promise<void> {
+    await this.findTask(taskId, actor, 'update');
+    const item = await this.findItem(taskId, itemId);
+
+    await this.itemsRepository.manager.transaction(async manager => {
+      await manager.remove(TaskChecklistItem, item);
+      await manager.decrement(
+        TaskChecklistItem,
+        { taskId, position: MoreThan(item.position) },
+        'position',
+        1,
+      );
+    });
+  }
+
+  /**
+   * Tasks the actor may not read are reported as missing, like in
+   * `TasksService.findOne`.
+   */
+  private async findTask(taskId: string, actor: AuthUser, action: PolicyAction): Promise<Task> {
+    const task = await this.tasksRepository.findOne({
+      where: { id: taskId, organizationId: actor.organizationId },
+    });
+
+    if (!task || !this.taskPolicy.can(actor, 'read', task)) {
+      throw new NotFoundException(`Task with ID ${taskId} not found`);
+    }
+    this.taskPolicy.authorize(actor, action, task);
+
+    return task;
+  }
+
+  private async findItem(taskId: string, itemId: string): Promise<TaskChecklistItem> {
+    const item = await this.itemsRepository.findOne({ where: { id: itemId, taskId } });
+
+    if (!item) {
+      throw new NotFoundException(`Checklist item with ID ${itemId} not found`);
+    }
+
+    return item;
+  }
+
+  private async assertCanAssign(
+    userId: string,
+    actor: AuthUser,
+    manager: EntityManager,
+  ): Promise<void> {
+    if (!this.taskPolicy.canAssignTo(actor, userId)) {
+      throw new ForbiddenException('Only admins can assign checklist items to other users');
+    }
+
+    const isMember = await manager.exists(OrganizationMembership, {
+      where: { userId, organizationId: actor.organizationId },
+    });
+    if (!isMember) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+  }
+
+  private markDone(item: TaskChecklistItem, done: boolean): void {
+    item.done = done;
+    item.completedAt = done ? new Date() : null;
+  }
+}
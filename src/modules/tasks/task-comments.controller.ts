@@ -0,0 +1,86 @@
+import { RateLimit } from '@common/decorators/rate-limit.decorator';
+import { RequirePermissions } from '@common/decorators/require-permissions.decorator';
+import { RateLimitGuard } from '@common/guards/rate-limit.guard';
+import { Authenticated, CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { CreateTaskCommentDto } from './dto/create-task-comment.dto';
+import { TaskCommentFilterDto } from './dto/task-comment-filter.dto';
+import { UpdateTaskCommentDto } from './dto/update-task-comment.dto';
+import { TaskCommentsService } from './task-comments.service';
+
+@ApiTags('task comments')
+@Controller('tasks/:taskId/comments')
+@Authenticated()
+@UseGuards(RateLimitGuard)
+@RateLimit(100, 60000)
+@RequirePermissions(Permission.TASK_READ)
+export class TaskCommentsController {
+  constructor(private readonly commentsService: TaskCommentsService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Add a comment to a task' })
+  create(
+    @Param('taskId') taskId: string,
+    @Body() createCommentDto: CreateTaskCommentDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.commentsService.create(taskId, createCommentDto, user);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List task comments, oldest first, using cursor pagination' })
+  findAll(
+    @Param('taskId') taskId: string,
+    @Query() filterDto: TaskCommentFilterDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.commentsService.findAll(taskId, filterDto, user);
+  }
+
+  @Get(':commentId/revisions')
+  @ApiOperation({ summary: 'Get the edit history of a comment' })
+  findRevisions(
+    @Param('taskId') taskId: string,
+    @Param('commentId') commentId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.commentsService.findRevisions(taskId, commentId, user);
+  }
+
+  @Patch(':commentId')
+  @ApiOperation({ summary: 'Edit a comment, keeping the previous body as a revision' })
+  update(
+    @Param('taskId') taskId: string,
+    @Param('commentId') commentId: string,
+    @Body() updateCommentDto: UpdateTaskCommentDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.commentsService.update(taskId, commentId, updateCommentDto, user);
+  }
+
+  @Delete(':commentId')
+  @ApiOperation({ summary: 'Delete a comment' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @Param('taskId') taskId: string,
+    @Param('commentId') commentId: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<void> {
+    await this.commentsService.remove(taskId, commentId, user);
+  }
+}
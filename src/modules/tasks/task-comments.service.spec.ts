@@ -0,0 +1,295 @@
+import { encodeCursor } from '@common/utils/cursor.util';
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { OrganizationRole } from '@modules/organizations/enums/organization-role.enum';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import { getQueueToken } from '@nestjs/bullmq';
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { SelectQueryBuilder } from 'typeorm';
+import { TaskCommentRevision } from './entities/task-comment-revision.entity';
+import { TaskComment } from './entities/task-comment.entity';
+import { Task } from './entities/task.entity';
+import { TaskPolicy } from './policies/task.policy';
+import { TaskCommentsService } from './task-comments.service';
+
+describe('TaskCommentsService', () => {
+  let service: TaskCommentsService;
+  let queryBuilder: SelectQueryBuilder<TaskComment>;
+
+  const author: AuthUser = {
+    id: 'u1',
+    email: 'author@example.com',
+    name: 'Author',
+    role: 'user',
+    organizationId: 'org-1',
+    organizationRole: OrganizationRole.MEMBER,
+    permissions: [Permission.TASK_READ],
+  };
+  const otherUser: AuthUser = { ...author, id: 'u2', email: 'other@example.com' };
+
+  const mockTask = {
+    id: 't1',
+    organizationId: 'org-1',
+    createdById: 'u1',
+    assigneeIds: [],
+    watcherIds: [],
+  };
+
+  const mockComment = {
+    id: 'c1',
+    taskId: 't1',
+    authorId: 'u1',
+    content: 'First!',
+    editedAt: null,
+    createdAt: new Date('2025-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2025-01-01T00:00:00.000Z'),
+  };
+
+  // The exact created_at of a comment as the database returns it for the cursor.
+  const page = (comments: (typeof mockComment)[], createdAt = '2025-01-01 00:00:00.000123') => ({
+    entities: comments,
+    raw: comments.map(comment => ({ comment_id: comment.id, cursor_created_at: createdAt })),
+  });
+
+  const mockManager = {
+    create: jest.fn((_, data) => data),
+    save: jest.fn(async (_, entity) => entity),
+    find: jest.fn(),
+  };
+
+  const mockCommentsRepository = {
+    create: jest.fn(data => data),
+    save: jest.fn(),
+    findOne: jest.fn(),
+    remove: jest.fn(),
+    createQueryBuilder: jest.fn(),
+    manager: {
+      ...mockManager,
+      transaction: jest.fn(cb => cb(mockManager)),
+    },
+  };
+
+  const mockTasksRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockQueue = {
+    add: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    queryBuilder = {
+      leftJoin: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+      take: jest.fn().mockReturnThis(),
+      getRawAndEntities: jest.fn().mockResolvedValue(page([mockComment])),
+    } as unknown as SelectQueryBuilder<TaskComment>;
+    mockCommentsRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+    mockTasksRepository.findOne.mockResolvedValue({ ...mockTask });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskCommentsService,
+        TaskPolicy,
+        { provide: getRepositoryToken(TaskComment), useValue: mockCommentsRepository },
+        { provide: getRepositoryToken(Task), useValue: mockTasksRepository },
+        { provide: getQueueToken('task-processing'), useValue: mockQueue },
+      ],
+    }).compile();
+
+    service = module.get<TaskCommentsService>(TaskCommentsService);
+  });
+
+  describe('create', () => {
+    it('should save the comment and enqueue a comment event', async () => {
+      mockCommentsRepository.save.mockResolvedValue(mockComment);
+
+      const result = await service.create('t1', { content: 'First!' }, author);
+
+      expect(mockCommentsRepository.create).toHaveBeenCalledWith({
+        content: 'First!',
+        taskId: 't1',
+        authorId: 'u1',
+      });
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        'task-comment-created',
+        { taskId: 't1', commentId: 'c1', authorId: 'u1' },
+        expect.any(Object),
+      );
+      expect(result).toEqual(mockComment);
+    });
+
+    it('should still return the comment when the queue is unavailable', async () => {
+      mockCommentsRepository.save.mockResolvedValue(mockComment);
+      mockQueue.add.mockRejectedValueOnce(new Error('Redis down'));
+      jest.spyOn(service['logger'], 'error').mockImplementation(() => undefined);
+
+      await expect(service.create('t1', { content: 'First!' }, author)).resolves.toEqual(
+        mockComment,
+      );
+    });
+
+    it('should throw NotFoundException for an unknown task', async () => {
+      mockTasksRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.create('missing', { content: 'x' }, author)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockCommentsRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findAll', () => {
+    it('should return a page without a next cursor when there are no more comments', async () => {
+      const result = await service.findAll('t1', { limit: 20 }, author);
+
+      expect(queryBuilder.take).toHaveBeenCalledWith(21);
+      expect(result).toEqual({ items: [mockComment], nextCursor: null });
+    });
+
+    it('should return a next cursor when more comments exist', async () => {
+      const second = { ...mockComment, id: 'c2' };
+      (queryBuilder.getRawAndEntities as jest.Mock).mockResolvedValue(page([mockComment, second]));
+
+      const result = await service.findAll('t1', { limit: 1 }, author);
+
+      expect(result.items).toEqual([mockComment]);
+      expect(result.nextCursor).toBe(
+        encodeCursor({ createdAt: '2025-01-01 00:00:00.000123', id: 'c1' }),
+      );
+    });
+
+    it('should apply the cursor as a keyset condition', async () => {
+      const cursor = encodeCursor({ createdAt: '2025-01-01 00:00:00.000123', id: 'c1' });
+
+      await service.findAll('t1', { cursor, limit: 20 }, author);
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(expect.stringContaining('comment.id >'), {
+        cursorCreatedAt: '2025-01-01 00:00:00.000123',
+        cursorId: 'c1',
+      });
+    });
+
+    it('should page through comments one at a time', async () => {
+      // All three were created within the same millisecond.
+      const stored = ['c1', 'c2', 'c3'].map((id, index) => ({
+        comment: { ...mockComment, id },
+        createdAt: `2025-01-01 00:00:00.00012${index}`,
+      }));
+      let after: { cursorCreatedAt: string; cursorId: string } | undefined;
+      (queryBuilder.andWhere as jest.Mock).mockImplementation((_, parameters) => {
+        after = parameters;
+        return queryBuilder;
+      });
+      (queryBuilder.getRawAndEntities as jest.Mock).mockImplementation(async () => {
+        const rows = stored
+          .filter(
+            ({ comment, createdAt }) =>
+              !after ||
+              createdAt > after.cursorCreatedAt ||
+              (createdAt === after.cursorCreatedAt && comment.id > after.cursorId),
+          )
+          .slice(0, 2);
+        return {
+          entities: rows.map(row => row.comment),
+          raw: rows.map(row => ({ comment_id: row.comment.id, cursor_created_at: row.createdAt })),
+        };
+      });
+
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      do {
+        after = undefined;
+        const result = await service.findAll('t1', { cursor, limit: 1 }, author);
+        seen.push(...result.items.map(item => item.id));
+        cursor = result.nextCursor ?? undefined;
+      } while (cursor && seen.length <= stored.length);
+
+      expect(seen).toEqual(['c1', 'c2', 'c3']);
+    });
+  });
+
+  describe('update', () => {
+    it('should store the previous body as a revision', async () => {
+      mockCommentsRepository.findOne.mockResolvedValue({ ...mockComment });
+
+      const result = await service.update('t1', 'c1', { content: 'Edited' }, author);
+
+      expect(mockManager.save).toHaveBeenCalledWith(TaskCommentRevision, {
+        commentId: 'c1',
+        content: 'First!',
+        editedById: 'u1',
+      });
+      expect(result.content).toBe('Edited');
+      expect(result.editedAt).toBeInstanceOf(Date);
+    });
+
+    it('should not create a revision when the body is unchanged', async () => {
+      mockCommentsRepository.findOne.mockResolvedValue({ ...mockComment });
+
+      await service.update('t1', 'c1', { content: 'First!' }, author);
+
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+
+    it('should forbid editing a comment written by another user', async () => {
+      mockTasksRepository.findOne.mockResolvedValue({ ...mockTask, watcherIds: ['u2'] });
+      mockCommentsRepository.findOne.mockResolvedValue({ ...mockComment });
+
+      await expect(service.update('t1', 'c1', { content: 'Hijack' }, otherUser)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('remove', () => {
+    it('should remove the comment of its author', async () => {
+      mockCommentsRepository.findOne.mockResolvedValue(mockComment);
+
+      await service.remove('t1', 'c1', author);
+
+      expect(mockCommentsRepository.remove).toHaveBeenCalledWith(mockComment);
+    });
+
+    it('should throw NotFoundException when the comment does not exist', async () => {
+      mockCommentsRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.remove('t1', 'c1', author)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('task policy', () => {
+    it('should let a watcher list and add comments', async () => {
+      mockTasksRepository.findOne.mockResolvedValue({ ...mockTask, watcherIds: ['u2'] });
+      mockCommentsRepository.save.mockResolvedValue({ ...mockComment, authorId: 'u2' });
+
+      await expect(service.findAll('t1', { limit: 20 }, otherUser)).resolves.toBeDefined();
+      await expect(service.create('t1', { content: 'Hi' }, otherUser)).resolves.toBeDefined();
+    });
+
+    it('should report the task as missing to a user not involved in it', async () => {
+      await expect(service.findAll('t1', { limit: 20 }, otherUser)).rejects.toThrow(
+        NotFoundException,
+      );
+      await expect(service.create('t1', { content: 'Hi' }, otherUser)).rejects.toThrow(
+        NotFoundException,
+      );
+      await expect(service.findRevisions('t1', 'c1', otherUser)).rejects.toThrow(NotFoundException);
+      expect(mockCommentsRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should let a holder of task:read:any comment on any task', async () => {
+      mockCommentsRepository.save.mockResolvedValue(mockComment);
+      const reader = { ...otherUser, permissions: [Permission.TASK_READ_ANY] };
+
+      await expect(service.create('t1', { content: 'Hi' }, reader)).resolves.toBeDefined();
+    });
+  });
+});
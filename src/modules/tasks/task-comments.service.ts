@@ -0,0 +1,196 @@
+import { decodeCursor, encodeCursor } from '@common/utils/cursor.util';
+import { InjectQueue } from '@nestjs/bullmq';
+import { ForbiddenException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Queue } from 'bullmq';
+import { Repository } from 'typeorm';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { CreateTaskCommentDto } from './dto/create-task-comment.dto';
+import { TaskCommentFilterDto } from './dto/task-comment-filter.dto';
+import { UpdateTaskCommentDto } from './dto/update-task-comment.dto';
+import { TaskCommentRevision } from './entities/task-comment-revision.entity';
+import { TaskComment } from './entities/task-comment.entity';
+import { Task } from './entities/task.entity';
+import { TaskPolicy } from './policies/task.policy';
+
+interface CommentCursor extends Record<string, unknown> {
+  createdAt: string;
+  id: string;
+}
+
+/**
+ * Whoever may read a task may read and add comments on it; only the author of
+ * a comment may edit or delete it.
+ */
+@Injectable()
+export class TaskCommentsService {
+  private readonly logger = new Logger(TaskCommentsService.name);
+
+  constructor(
+    @InjectRepository(TaskComment)
+    private commentsRepository: Repository<TaskComment>,
+    @InjectRepository(Task)
+    private tasksRepository: Repository<Task>,
+    @InjectQueue('task-processing')
+    private taskQueue: Queue,
+    private taskPolicy: TaskPolicy,
+  ) {}
+
+  async create(
+    taskId: string,
+    createCommentDto: CreateTaskCommentDto,
+    actor: AuthUser,
+  ): Promise<TaskComment> {
+    await this.findTask(taskId, actor);
+
+    const comment = this.commentsRepository.create({
+      ...createCommentDto,
+      taskId,
+      authorId: actor.id,
+    });
+    const savedComment = await this.commentsRepository.save(comment);
+
+    try {
+      await this.taskQueue.add(
+        'task-comment-created',
+        {
+          taskId,
+          commentId: savedComment.id,
+          authorId: actor.id,
+        },
+        { removeOnComplete: true, attempts: 3 },
+      );
+    } catch (queueError) {
+      this.logger.error(
+        `Failed to enqueue comment event for comment ${savedComment.id}`,
+        queueError instanceof Error ? queueError.stack : undefined,
+      );
+    }
+
+    return savedComment;
+  }
+
+  async findAll(
+    taskId: string,
+    filterDto: TaskCommentFilterDto,
+    actor: AuthUser,
+  ): Promise<{ items: TaskComment[]; nextCursor: string | null }> {
+    const { cursor, limit = 20 } = filterDto;
+    await this.findTask(taskId, actor);
+
+    const queryBuilder = this.commentsRepository
+      .createQueryBuilder('comment')
+      .leftJoin('comment.author', 'author')
+      .addSelect(['author.id', 'author.name', 'author.email'])
+      .where('comment.taskId = :taskId', { taskId });
+
+    if (cursor) {
+      const { createdAt, id } = decodeCursor<CommentCursor>(cursor);
+      queryBuilder.andWhere(
+        '(comment.createdAt > :cursorCreatedAt OR (comment.createdAt = :cursorCreatedAt AND comment.id > :cursorId))',
+        { cursorCreatedAt: createdAt, cursorId: id },
+      );
+    }
+
+    // Dates keep only milliseconds, so the cursor takes the exact timestamp as text.
+    const { entities: rows, raw } = await queryBuilder
+      .addSelect('comment.created_at::text', 'cursor_created_at')
+      .orderBy('comment.createdAt', 'ASC')
+      .addOrderBy('comment.id', 'ASC')
+      .take(limit + 1)
+      .getRawAndEntities<{ comment_id: string; cursor_created_at: string }>();
+
+    const items = rows.slice(0, limit);
+    const last = items[items.length - 1];
+    const createdAt = last && raw.find(row => row.comment_id === last.id)?.cursor_created_at;
+    const nextCursor =
+      rows.length > limit && last ? encodeCursor({ createdAt, id: last.id }) : null;
+
+    return { items, nextCursor };
+  }
+
+  async findOne(taskId: string, commentId: string, actor: AuthUser): Promise<TaskComment> {
+    await this.findTask(taskId, actor);
+
+    const comment = await this.commentsRepository.findOne({
+      where: { id: commentId, taskId },
+    });
+
+    if (!comment) {
+      throw new NotFoundException(`Comment with ID ${commentId} not found`);
+    }
+
+    return comment;
+  }
+
+  async update(
+    taskId: string,
+    commentId: string,
+    updateCommentDto: UpdateTaskCommentDto,
+    actor: AuthUser,
+  ): Promise<TaskComment> {
+    const comment = await this.findOne(taskId, commentId, actor);
+
+    if (comment.authorId !== actor.id) {
+      throw new ForbiddenException('Only the author can edit a comment');
+    }
+
+    if (comment.content === updateCommentDto.content) {
+      return comment;
+    }
+
+    return this.commentsRepository.manager.transaction(async manager => {
+      await manager.save(
+        TaskCommentRevision,
+        manager.create(TaskCommentRevision, {
+          commentId: comment.id,
+          content: comment.content,
+          editedById: actor.id,
+        }),
+      );
+
+      comment.content = updateCommentDto.content;
+      comment.editedAt = new Date();
+      return manager.save(TaskComment, comment);
+    });
+  }
+
+  async remove(taskId: string, commentId: string, actor: AuthUser): Promise<void> {
+    const comment = await this.findOne(taskId, commentId, actor);
+
+    if (comment.authorId !== actor.id) {
+      throw new ForbiddenException('Only the author can delete a comment');
+    }
+
+    await this.commentsRepository.remove(comment);
+  }
+
+  async findRevisions(
+    taskId: string,
+    commentId: string,
+    actor: AuthUser,
+  ): Promise<TaskCommentRevision[]> {
+    const comment = await this.findOne(taskId, commentId, actor);
+
+    return this.commentsRepository.manager.find(TaskCommentRevision, {
+      where: { commentId: comment.id },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Tasks the actor may not read are reported as missing, like in
+   * `TasksService.findOne`.
+   */
+  private async findTask(taskId: string, actor: AuthUser): Promise<Task> {
+    const task = await this.tasksRepository.findOne({
+      where: { id: taskId, organizationId: actor.organizationId },
+    });
+
+    if (!task || !this.taskPolicy.can(actor, 'read', task)) {
+      throw new NotFoundException(`Task with ID ${taskId} not found`);
+    }
+
+    return task;
+  }
+}
@@ -0,0 +1,59 @@
+import { RateLimit } from '@common/decorators/rate-limit.decorator';
+import { RequirePermissions } from '@common/decorators/require-permissions.decorator';
+import { RateLimitGuard } from '@common/guards/rate-limit.guard';
+import { Authenticated, CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { CreateTaskDependencyDto } from './dto/create-task-dependency.dto';
+import { TaskDependenciesService } from './task-dependencies.service';
+
+@ApiTags('task dependencies')
+@Controller('tasks/:taskId/dependencies')
+@Authenticated()
+@UseGuards(RateLimitGuard)
+@RateLimit(100, 60000)
+@RequirePermissions(Permission.TASK_READ)
+export class TaskDependenciesController {
+  constructor(private readonly dependenciesService: TaskDependenciesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the tasks blocking this task and the tasks it blocks' })
+  findAll(@Param('taskId') taskId: string, @CurrentUser() user: AuthUser) {
+    return this.dependenciesService.findForTask(taskId, user);
+  }
+
+  @Post()
+  @RequirePermissions(Permission.TASK_UPDATE)
+  @ApiOperation({ summary: 'Mark another task as blocking this task' })
+  create(
+    @Param('taskId') taskId: string,
+    @Body() createDependencyDto: CreateTaskDependencyDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.dependenciesService.add(taskId, createDependencyDto.blockerId, user);
+  }
+
+  @Delete(':blockerId')
+  @RequirePermissions(Permission.TASK_UPDATE)
+  @ApiOperation({ summary: 'Remove a blocking task from this task' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @Param('taskId') taskId: string,
+    @Param('blockerId') blockerId: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<void> {
+    await this.dependenciesService.remove(taskId, blockerId, user);
+  }
+}
@@ -0,0 +1,209 @@
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { OrganizationRole } from '@modules/organizations/enums/organization-role.enum';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { TaskDependency } from './entities/task-dependency.entity';
+import { Task } from './entities/task.entity';
+import { TaskStatus } from './enums/task-status.enum';
+import { TaskPolicy } from './policies/task.policy';
+import { TaskDependenciesService } from './task-dependencies.service';
+
+describe('TaskDependenciesService', () => {
+  let service: TaskDependenciesService;
+
+  const member: AuthUser = {
+    id: 'u1',
+    email: 'member@example.com',
+    name: 'Member',
+    role: 'user',
+    organizationId: 'org-1',
+    organizationRole: OrganizationRole.MEMBER,
+    permissions: [Permission.TASK_READ, Permission.TASK_UPDATE],
+  };
+
+  const task = (id: string, overrides: Partial<Task> = {}) =>
+    ({
+      id,
+      organizationId: 'org-1',
+      createdById: 'u1',
+      assigneeIds: [],
+      watcherIds: [],
+      ...overrides,
+    }) as Task;
+
+  const mockManager = {
+    findOne: jest.fn(),
+    exists: jest.fn(),
+    query: jest.fn(),
+    create: jest.fn((_, data) => data),
+    save: jest.fn(async (_, entity) => entity),
+  };
+
+  const mockDependenciesRepository = {
+    delete: jest.fn(),
+    find: jest.fn(),
+    manager: {
+      ...mockManager,
+      transaction: jest.fn(cb => cb(mockManager)),
+    },
+  };
+
+  const mockTasksRepository = {
+    createQueryBuilder: jest.fn(),
+    manager: mockManager,
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockManager.findOne.mockImplementation(async (_, { where }) => task(where.id));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskDependenciesService,
+        TaskPolicy,
+        { provide: getRepositoryToken(TaskDependency), useValue: mockDependenciesRepository },
+        { provide: getRepositoryToken(Task), useValue: mockTasksRepository },
+      ],
+    }).compile();
+
+    service = module.get<TaskDependenciesService>(TaskDependenciesService);
+  });
+
+  describe('add', () => {
+    it('should store a new dependency edge', async () => {
+      mockManager.exists.mockResolvedValue(false);
+      mockManager.query.mockResolvedValue([]);
+
+      const result = await service.add('b', 'a', member);
+
+      expect(mockManager.query).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining('pg_advisory_xact_lock'),
+        ['org-1'],
+      );
+      expect(mockManager.query).toHaveBeenCalledWith(expect.stringContaining('WITH RECURSIVE'), [
+        'b',
+        'a',
+      ]);
+      expect(result).toEqual({ blockerId: 'a', blockedId: 'b' });
+    });
+
+    it('should reject a self dependency', async () => {
+      await expect(service.add('a', 'a', member)).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a dependency that closes a cycle', async () => {
+      mockManager.exists.mockResolvedValue(false);
+      mockManager.query.mockResolvedValue([{ '?column?': 1 }]);
+
+      await expect(service.add('a', 'b', member)).rejects.toThrow('dependency cycle');
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject a duplicate dependency', async () => {
+      mockManager.exists.mockResolvedValue(true);
+
+      await expect(service.add('b', 'a', member)).rejects.toThrow(ConflictException);
+    });
+
+    it('should reject an unknown blocker', async () => {
+      mockManager.findOne.mockResolvedValueOnce(task('b')).mockResolvedValueOnce(null);
+
+      await expect(service.add('b', 'missing', member)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete an existing edge', async () => {
+      mockDependenciesRepository.delete.mockResolvedValue({ affected: 1 });
+
+      await service.remove('b', 'a', member);
+
+      expect(mockDependenciesRepository.delete).toHaveBeenCalledWith({
+        blockerId: 'a',
+        blockedId: 'b',
+      });
+    });
+
+    it('should throw NotFoundException for a missing edge', async () => {
+      mockDependenciesRepository.delete.mockResolvedValue({ affected: 0 });
+
+      await expect(service.remove('b', 'a', member)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('findBlockedTaskIds', () => {
+    it('should not query for an empty list', async () => {
+      const result = await service.findBlockedTaskIds([]);
+
+      expect(result.size).toBe(0);
+      expect(mockManager.query).not.toHaveBeenCalled();
+    });
+
+    it('should return ids of tasks with open blockers', async () => {
+      mockManager.query.mockResolvedValue([{ blocked_id: 'b' }]);
+
+      const result = await service.findBlockedTaskIds(['b', 'c']);
+
+      expect(mockManager.query).toHaveBeenCalledWith(expect.any(String), [
+        ['b', 'c'],
+        TaskStatus.COMPLETED,
+      ]);
+      expect([...result]).toEqual(['b']);
+    });
+  });
+
+  describe('task policy', () => {
+    const watcher: AuthUser = { ...member, id: 'u2', email: 'watcher@example.com' };
+
+    it('should forbid a watcher to add or remove blockers', async () => {
+      mockManager.findOne.mockImplementation(async (_, { where }) =>
+        task(where.id, { watcherIds: ['u2'] }),
+      );
+
+      await expect(service.add('b', 'a', watcher)).rejects.toThrow(ForbiddenException);
+      await expect(service.remove('b', 'a', watcher)).rejects.toThrow(ForbiddenException);
+      expect(mockManager.save).not.toHaveBeenCalled();
+      expect(mockDependenciesRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should report a blocker the actor may not read as missing', async () => {
+      mockManager.findOne
+        .mockResolvedValueOnce(task('b'))
+        .mockResolvedValueOnce(task('a', { createdById: 'someone-else' }));
+
+      await expect(service.add('b', 'a', member)).rejects.toThrow(NotFoundException);
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+
+    it('should report the task as missing to a user not involved in it', async () => {
+      const outsider = { ...member, id: 'u3' };
+
+      await expect(service.findForTask('b', outsider)).rejects.toThrow(NotFoundException);
+      await expect(service.remove('b', 'a', outsider)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should leave out linked tasks the actor may not read', async () => {
+      const hidden = task('hidden', { createdById: 'someone-else' });
+      const queryBuilder = {
+        innerJoin: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        orderBy: jest.fn().mockReturnThis(),
+        getMany: jest.fn().mockResolvedValue([task('a'), hidden]),
+      };
+      mockTasksRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      const result = await service.findForTask('b', member);
+
+      expect(result.blockers.map(blocker => blocker.id)).toEqual(['a']);
+      expect(result.dependents.map(dependent => dependent.id)).toEqual(['a']);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { PolicyAction } from '../auth/policies/policy';
+import { TaskDependency } from './entities/task-dependency.entity';
+import { Task } from './entities/task.entity';
+import { TaskStatus } from './enums/task-status.enum';
+import { TaskPolicy } from './policies/task.policy';
+
+/**
+ * Changing the blockers of a task takes the right to update it, and a blocker
+ * must be a task the actor may read. Listings leave out linked tasks the actor
+ * may not read.
+ */
+@Injectable()
+export class TaskDependenciesService {
+  constructor(
+    @InjectRepository(TaskDependency)
+    private dependenciesRepository: Repository<TaskDependency>,
+    @InjectRepository(Task)
+    private tasksRepository: Repository<Task>,
+    private taskPolicy: TaskPolicy,
+  ) {}
+
+  async add(taskId: string, blockerId: string, actor: AuthUser): Promise<TaskDependency> {
+    if (taskId === blockerId) {
+      throw new BadRequestException('A task cannot depend on itself');
+    }
+
+    return this.dependenciesRepository.manager.transaction(async manager => {
+      await this.findTask(taskId, actor, 'update', manager);
+      await this.findTask(blockerId, actor, 'read', manager);
+      // Dependencies of the organization are added one at a time, so that two
+      // edges closing a cycle together cannot both pass the check below.
+      await manager.query(
+        `SELECT pg_advisory_xact_lock(hashtext($1), hashtext('task_dependencies'))`,
+        [actor.organizationId],
+      );
+
+      const existing = await manager.exists(TaskDependency, {
+        where: { blockerId, blockedId: taskId },
+      });
+      if (existing) {
+        throw new ConflictException(`Task ${blockerId} already blocks task ${taskId}`);
+      }
+
+      // The new edge closes a cycle when the blocked task already (transitively) blocks the blocker.
+      const cycle: unknown[] = await manager.query(
+        `WITH RECURSIVE downstream AS (
+          SELECT blocked_id FROM task_dependencies WHERE blocker_id = $1
+          UNION
+          SELECT d.blocked_id FROM task_dependencies d INNER JOIN downstream ds ON d.blocker_id = ds.blocked_id
+        )
+        SELECT 1 FROM downstream WHERE blocked_id = $2 LIMIT 1`,
+        [taskId, blockerId],
+      );
+      if (cycle.length > 0) {
+        throw new BadRequestException(
+          `Adding task ${blockerId} as a blocker of task ${taskId} would create a dependency cycle`,
+        );
+      }
+
+      return manager.save(
+        TaskDependency,
+        manager.create(TaskDependency, { blockerId, blockedId: taskId }),
+      );
+    });
+  }
+
+  async remove(taskId: string, blockerId: string, actor: AuthUser): Promise<void> {
+    await this.findTask(taskId, actor, 'update');
+
+    const result = await this.dependenciesRepository.delete({ blockerId, blockedId: taskId });
+
+    if (!result.affected) {
+      throw new NotFoundException(`Task ${blockerId} does not block task ${taskId}`);
+    }
+  }
+
+  async findForTask(
+    taskId: string,
+    actor: AuthUser,
+  ): Promise<{ blockers: Task[]; dependents: Task[] }> {
+    await this.findTask(taskId, actor, 'read');
+
+    const [blockers, dependents] = await Promise.all([
+      this.tasksRepository
+        .createQueryBuilder('task')
+        .innerJoin(TaskDependency, 'dependency', 'dependency.blockerId = task.id')
+        .where('dependency.blockedId = :taskId', { taskId })
+        .orderBy('dependency.createdAt', 'ASC')
+        .getMany(),
+      this.tasksRepository
+        .createQueryBuilder('task')
+        .innerJoin(TaskDependency, 'dependency', 'dependency.blockedId = task.id')
+        .where('dependency.blockerId = :taskId', { taskId })
+        .orderBy('dependency.createdAt', 'ASC')
+        .getMany(),
+    ]);
+
+    const visible = (task: Task) => this.taskPolicy.can(actor, 'read', task);
+    return { blockers: blockers.filter(visible), dependents: dependents.filter(visible) };
+  }
+
+  /**
+   * Returns the subset of the given task IDs that still have at least one
+   * blocker which is neither completed nor in the trash.
+   */
+  async findBlockedTaskIds(
+    taskIds: string[],
+    manager: EntityManager = this.dependenciesRepository.manager,
+  ): Promise<Set<string>> {
+    if (taskIds.length === 0) {
+      return new Set();
+    }
+
+    const rows: { blocked_id: string }[] = await manager.query(
+      `SELECT DISTINCT d.blocked_id
+      FROM task_dependencies d
+      INNER JOIN tasks blocker ON blocker.id = d.blocker_id
+      WHERE d.blocked_id = ANY($1::uuid[]) AND blocker.status != $2 AND blocker.deleted_at IS NULL`,
+      [taskIds, TaskStatus.COMPLETED],
+    );
+
+    return new Set(rows.map(row => row.blocked_id));
+  }
+
+  async findDependentIds(blockerId: string): Promise<string[]> {
+    const dependencies = await this.dependenciesRepository.find({
+      where: { blockerId },
+      select: ['blockedId'],
+    });
+
+    return dependencies.map(dependency => dependency.blockedId);
+  }
+
+  /**
+   * Tasks the actor may not read are reported as missing, like in
+   * `TasksService.findOne`.
+   */
+  private async findTask(
+    taskId: string,
+    actor: AuthUser,
+    action: PolicyAction,
+    manager: EntityManager = this.tasksRepository.manager,
+  ): Promise<Task> {
+    const task = await manager.findOne(Task, {
+      where: { id: taskId, organizationId: actor.organizationId },
+    });
+
+    if (!task || !this.taskPolicy.can(actor, 'read', task)) {
+      throw new NotFoundException(`Task with ID ${taskId} not found`);
+    }
+    this.taskPolicy.authorize(actor, action, task);
+
+    return task;
+  }
+}
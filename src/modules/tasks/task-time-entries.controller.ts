@@ -0,0 +1,70 @@
+import { RateLimit } from '@common/decorators/rate-limit.decorator';
+import { RequirePermissions } from '@common/decorators/require-permissions.decorator';
+import { RateLimitGuard } from '@common/guards/rate-limit.guard';
+import { Authenticated, CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { CreateTimeEntryDto } from './dto/create-time-entry.dto';
+import { StartTimerDto } from './dto/start-timer.dto';
+import { TaskTimeEntriesService } from './task-time-entries.service';
+
+@ApiTags('time tracking')
+@Controller('tasks/:taskId/time-entries')
+@Authenticated()
+@UseGuards(RateLimitGuard)
+@RateLimit(100, 60000)
+@RequirePermissions(Permission.TASK_READ)
+export class TaskTimeEntriesController {
+  constructor(private readonly timeEntriesService: TaskTimeEntriesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the time logged on a task, newest first' })
+  findAll(@Param('taskId') taskId: string, @CurrentUser() user: AuthUser) {
+    return this.timeEntriesService.findAll(taskId, user);
+  }
+
+  @Post()
+  @RequirePermissions(Permission.TASK_UPDATE)
+  @ApiOperation({ summary: 'Log time spent on a task by hand' })
+  addEntry(
+    @Param('taskId') taskId: string,
+    @Body() createEntryDto: CreateTimeEntryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.timeEntriesService.addEntry(taskId, createEntryDto, user);
+  }
+
+  @Post('timer')
+  @RequirePermissions(Permission.TASK_UPDATE)
+  @ApiOperation({ summary: 'Start a timer on a task; only one timer may run at a time' })
+  startTimer(
+    @Param('taskId') taskId: string,
+    @Body() startDto: StartTimerDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.timeEntriesService.startTimer(taskId, startDto, user);
+  }
+
+  @Delete(':entryId')
+  @ApiOperation({ summary: 'Delete a time entry' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @Param('taskId') taskId: string,
+    @Param('entryId') entryId: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<void> {
+    await this.timeEntriesService.remove(taskId, entryId, user);
+  }
+}
@@ -0,0 +1,167 @@
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { OrganizationRole } from '@modules/organizations/enums/organization-role.enum';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { IsNull, QueryFailedError } from 'typeorm';
+import { Task } from './entities/task.entity';
+import { TimeEntry } from './entities/time-entry.entity';
+import { TaskPolicy } from './policies/task.policy';
+import { TaskTimeEntriesService } from './task-time-entries.service';
+
+describe('TaskTimeEntriesService', () => {
+  let service: TaskTimeEntriesService;
+
+  const member: AuthUser = {
+    id: 'u1',
+    email: 'member@example.com',
+    name: 'Member',
+    role: 'user',
+    organizationId: 'org-1',
+    organizationRole: OrganizationRole.MEMBER,
+    permissions: [Permission.TASK_READ, Permission.TASK_UPDATE],
+  };
+
+  const mockTask = {
+    id: 't1',
+    organizationId: 'org-1',
+    createdById: 'u1',
+    assigneeIds: [],
+    watcherIds: [],
+  };
+
+  const mockEntriesRepository = {
+    create: jest.fn(data => data),
+    save: jest.fn(async entity => entity),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockTasksRepository = {
+    findOne: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockTasksRepository.findOne.mockResolvedValue({ ...mockTask });
+    mockEntriesRepository.findOne.mockResolvedValue(null);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskTimeEntriesService,
+        TaskPolicy,
+        { provide: getRepositoryToken(TimeEntry), useValue: mockEntriesRepository },
+        { provide: getRepositoryToken(Task), useValue: mockTasksRepository },
+      ],
+    }).compile();
+
+    service = module.get<TaskTimeEntriesService>(TaskTimeEntriesService);
+  });
+
+  describe('timers', () => {
+    it('should start a timer for the caller', async () => {
+      const result = await service.startTimer('t1', { note: 'Pairing' }, member);
+
+      expect(mockEntriesRepository.findOne).toHaveBeenCalledWith({
+        where: { userId: 'u1', endedAt: IsNull() },
+      });
+      expect(result).toMatchObject({ taskId: 't1', userId: 'u1', endedAt: null, note: 'Pairing' });
+      expect(result.startedAt).toBeInstanceOf(Date);
+    });
+
+    it('should refuse a second running timer', async () => {
+      mockEntriesRepository.findOne.mockResolvedValue({ id: 'e1', taskId: 't9', endedAt: null });
+
+      await expect(service.startTimer('t1', {}, member)).rejects.toThrow(
+        'A timer is already running on task t9',
+      );
+      expect(mockEntriesRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should report timers started concurrently as conflicts', async () => {
+      mockEntriesRepository.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: 'e2', taskId: 't2', endedAt: null });
+      mockEntriesRepository.save.mockRejectedValueOnce(
+        new QueryFailedError(
+          'INSERT',
+          [],
+          Object.assign(new Error('duplicate'), { code: '23505' }),
+        ),
+      );
+
+      await expect(service.startTimer('t1', {}, member)).rejects.toThrow(ConflictException);
+    });
+
+    it('should stop the running timer', async () => {
+      mockEntriesRepository.findOne.mockResolvedValue({ id: 'e1', taskId: 't1', endedAt: null });
+
+      const result = await service.stopTimer(member);
+
+      expect(result.endedAt).toBeInstanceOf(Date);
+    });
+
+    it('should throw when no timer is running', async () => {
+      await expect(service.stopTimer(member)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should not let watchers track time', async () => {
+      mockTasksRepository.findOne.mockResolvedValue({
+        ...mockTask,
+        createdById: 'someone-else',
+        watcherIds: ['u1'],
+      });
+
+      await expect(service.startTimer('t1', {}, member)).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('addEntry', () => {
+    it('should log the minutes from the start', async () => {
+      const result = await service.addEntry(
+        't1',
+        { startedAt: '2025-01-06T09:00:00.000Z', minutes: 90 },
+        member,
+      );
+
+      expect(result).toMatchObject({
+        taskId: 't1',
+        userId: 'u1',
+        startedAt: new Date('2025-01-06T09:00:00.000Z'),
+        endedAt: new Date('2025-01-06T10:30:00.000Z'),
+        note: null,
+      });
+    });
+
+    it('should reject time in the future', async () => {
+      await expect(
+        service.addEntry('t1', { startedAt: new Date().toISOString(), minutes: 30 }, member),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete entries of the caller', async () => {
+      const entry = { id: 'e1', taskId: 't1', userId: 'u1' };
+      mockEntriesRepository.findOne.mockResolvedValue(entry);
+
+      await service.remove('t1', 'e1', member);
+
+      expect(mockEntriesRepository.remove).toHaveBeenCalledWith(entry);
+    });
+
+    it('should leave time logged by others to admins', async () => {
+      mockEntriesRepository.findOne.mockResolvedValue({ id: 'e1', taskId: 't1', userId: 'u2' });
+
+      await expect(service.remove('t1', 'e1', member)).rejects.toThrow(ForbiddenException);
+      expect(mockEntriesRepository.remove).not.toHaveBeenCalled();
+    });
+  });
+});
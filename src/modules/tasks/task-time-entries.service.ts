@@ -0,0 +1,142 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, QueryFailedError, Repository } from 'typeorm';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { isOrganizationAdmin, PolicyAction } from '../auth/policies/policy';
+import { CreateTimeEntryDto } from './dto/create-time-entry.dto';
+import { StartTimerDto } from './dto/start-timer.dto';
+import { Task } from './entities/task.entity';
+import { TimeEntry } from './entities/time-entry.entity';
+import { TaskPolicy } from './policies/task.policy';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Time is logged by whoever may update a task, on their own account. Each
+ * user has at most one running timer, which the database enforces as well.
+ */
+@Injectable()
+export class TaskTimeEntriesService {
+  constructor(
+    @InjectRepository(TimeEntry)
+    private entriesRepository: Repository<TimeEntry>,
+    @InjectRepository(Task)
+    private tasksRepository: Repository<Task>,
+    private taskPolicy: TaskPolicy,
+  ) {}
+
+  async findAll(taskId: string, actor: AuthUser): Promise<TimeEntry[]> {
+    await this.findTask(taskId, actor, 'read');
+
+    return this.entriesRepository.find({ where: { taskId }, order: { startedAt: 'DESC' } });
+  }
+
+  async startTimer(taskId: string, startDto: StartTimerDto, actor: AuthUser): Promise<TimeEntry> {
+    await this.findTask(taskId, actor, 'update');
+
+    const running = await this.findRunningTimer(actor);
+    if (running) {
+      throw this.timerRunning(running.taskId);
+    }
+
+    try {
+      return await this.entriesRepository.save(
+        this.entriesRepository.create({
+          taskId,
+          userId: actor.id,
+          startedAt: new Date(),
+          endedAt: null,
+          note: startDto.note ?? null,
+        }),
+      );
+    } catch (error) {
+      // Another request started a timer since the check above.
+      const code =
+        error instanceof QueryFailedError && (error.driverError as { code?: string }).code;
+      if (code === '23505') {
+        const winner = await this.findRunningTimer(actor);
+        throw this.timerRunning(winner?.taskId ?? taskId);
+      }
+      throw error;
+    }
+  }
+
+  async findRunningTimer(actor: AuthUser): Promise<TimeEntry | null> {
+    return this.entriesRepository.findOne({ where: { userId: actor.id, endedAt: IsNull() } });
+  }
+
+  async stopTimer(actor: AuthUser): Promise<TimeEntry> {
+    const running = await this.findRunningTimer(actor);
+    if (!running) {
+      throw new NotFoundException('No timer is running');
+    }
+
+    running.endedAt = new Date();
+    return this.entriesRepository.save(running);
+  }
+
+  async addEntry(
+    taskId: string,
+    createEntryDto: CreateTimeEntryDto,
+    actor: AuthUser,
+  ): Promise<TimeEntry> {
+    await this.findTask(taskId, actor, 'update');
+
+    const startedAt = new Date(createEntryDto.startedAt);
+    const endedAt = new Date(startedAt.getTime() + createEntryDto.minutes * MINUTE);
+    if (endedAt > new Date()) {
+      throw new BadRequestException('Time cannot be logged for the future');
+    }
+
+    return this.entriesRepository.save(
+      this.entriesRepository.create({
+        taskId,
+        userId: actor.id,
+        startedAt,
+        endedAt,
+        note: createEntryDto.note ?? null,
+      }),
+    );
+  }
+
+  async remove(taskId: string, entryId: string, actor: AuthUser): Promise<void> {
+    await this.findTask(taskId, actor, 'read');
+
+    const entry = await this.entriesRepository.findOne({ where: { id: entryId, taskId } });
+    if (!entry) {
+      throw new NotFoundException(`Time entry with ID ${entryId} not found`);
+    }
+    if (entry.userId !== actor.id && !isOrganizationAdmin(actor)) {
+      throw new ForbiddenException('Only admins can delete time logged by other users');
+    }
+
+    await this.entriesRepository.remove(entry);
+  }
+
+  private timerRunning(taskId: string): ConflictException {
+    return new ConflictException(`A timer is already running on task ${taskId}; stop it first`);
+  }
+
+  /**
+   * Tasks the actor may not read are reported as missing, like in
+   * `TasksService.findOne`.
+   */
+  private async findTask(taskId: string, actor: AuthUser, action: PolicyAction): Promise<Task> {
+    const task = await this.tasksRepository.findOne({
+      where: { id: taskId, organizationId: actor.organizationId },
+    });
+
+    if (!task || !this.taskPolicy.can(actor, 'read', task)) {
+      throw new NotFoundException(`Task with ID ${taskId} not found`);
+    }
+    this.taskPolicy.authorize(actor, action, task);
+
+    return task;
+  }
+}
@@ -1,7 +1,11 @@
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { OrganizationRole } from '@modules/organizations/enums/organization-role.enum';
 import { HttpException } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { Test, TestingModule } from '@nestjs/testing';
+import type { Response } from 'express';
 import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { SavedViewsService } from '../saved-views/saved-views.service';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { TaskFilterDto } from './dto/task-filter.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
@@ -9,6 +13,7 @@ import { TaskPriority } from './enums/task-priority.enum';
 import { TaskStatus } from './enums/task-status.enum';
 import { TasksController } from './tasks.controller';
 import { TasksService } from './tasks.service';
+import { taskEtag } from './utils/task-etag.util';
 
 describe('TasksController', () => {
   let controller: TasksController;
@@ -21,22 +26,57 @@ describe('TasksController', () => {
     status: TaskStatus.PENDING,
     priority: TaskPriority.MEDIUM,
     dueDate: new Date(),
-    userId: '1',
+    createdById: '1',
+    assigneeIds: ['1'],
+    watcherIds: [],
     createdAt: new Date(),
     updatedAt: new Date(),
+    version: 3,
+  };
+
+  const actor: AuthUser = {
+    id: '1',
+    email: 'owner@example.com',
+    name: 'Owner',
+    role: 'user',
+    organizationId: 'org-1',
+    organizationRole: OrganizationRole.OWNER,
+    permissions: [],
   };
 
   const mockTasksService = {
     create: jest.fn(),
     findAll: jest.fn(),
+    search: jest.fn(),
     findOne: jest.fn(),
+    findChildren: jest.fn(),
+    findSubtree: jest.fn(),
     update: jest.fn(),
     remove: jest.fn(),
+    findTrash: jest.fn(),
+    restore: jest.fn(),
+    purge: jest.fn(),
     getStats: jest.fn(),
+    getTimeReport: jest.fn(),
+    move: jest.fn(),
     batchProcess: jest.fn(),
+    assign: jest.fn(),
+    unassign: jest.fn(),
+    watch: jest.fn(),
+    unwatch: jest.fn(),
+    findRecurrence: jest.fn(),
+    updateRecurrence: jest.fn(),
+    stopRecurrence: jest.fn(),
+  };
+
+  const mockSavedViewsService = {
+    apply: jest.fn(),
   };
 
+  let res: { setHeader: jest.Mock; status: jest.Mock };
+
   beforeEach(async () => {
+    res = { setHeader: jest.fn(), status: jest.fn() };
     const mockRedisClient = {
       get: jest.fn(),
       set: jest.fn(),
@@ -50,6 +90,10 @@ describe('TasksController', () => {
           provide: TasksService,
           useValue: mockTasksService,
         },
+        {
+          provide: SavedViewsService,
+          useValue: mockSavedViewsService,
+        },
         {
           provide: 'default_IORedisModuleConnectionToken',
           useValue: mockRedisClient,
@@ -71,14 +115,14 @@ describe('TasksController', () => {
         status: TaskStatus.PENDING,
         priority: TaskPriority.MEDIUM,
         dueDate: new Date(),
-        userId: '1',
+        assigneeIds: ['1'],
       };
 
       mockTasksService.create.mockResolvedValue(mockTask);
 
-      const result = await controller.create(createTaskDto);
+      const result = await controller.create(createTaskDto, actor);
       expect(result).toEqual(mockTask);
-      expect(service.create).toHaveBeenCalledWith(createTaskDto);
+      expect(service.create).toHaveBeenCalledWith(createTaskDto, actor);
     });
   });
 
@@ -87,22 +131,57 @@ describe('TasksController', () => {
       const filterDto: TaskFilterDto = {
         status: TaskStatus.PENDING,
         priority: TaskPriority.HIGH,
-        page: 1,
+        sort: 'priority:desc',
         limit: 10,
       };
 
       const expectedResult = {
-        items: [mockTask],
-        total: 1,
-        page: 1,
-        pageCount: 1,
+        data: [mockTask],
+        meta: { limit: 10, next: null, prev: null },
       };
 
       mockTasksService.findAll.mockResolvedValue(expectedResult);
 
-      const result = await controller.findAll(filterDto);
+      const result = await controller.findAll(filterDto, actor);
       expect(result).toEqual(expectedResult);
-      expect(service.findAll).toHaveBeenCalledWith(filterDto);
+      expect(service.findAll).toHaveBeenCalledWith(filterDto, actor);
+      expect(mockSavedViewsService.apply).not.toHaveBeenCalled();
+    });
+
+    it('should apply a saved view and describe it in the meta data', async () => {
+      const view = { id: 'v1', name: 'Open bugs', columns: ['title'], ignored: ['label:old'] };
+      const filters = { status: TaskStatus.PENDING, labels: ['bug'], limit: 10 };
+      mockSavedViewsService.apply.mockResolvedValue({ filters, view });
+      mockTasksService.findAll.mockResolvedValue({
+        data: [mockTask],
+        meta: { limit: 10, next: null, prev: null },
+      });
+
+      const result = await controller.findAll({ view: 'v1', limit: 10 }, actor);
+
+      expect(mockSavedViewsService.apply).toHaveBeenCalledWith(
+        'v1',
+        { view: 'v1', limit: 10 },
+        actor,
+      );
+      expect(service.findAll).toHaveBeenCalledWith(filters, actor);
+      expect(result).toEqual({
+        data: [mockTask],
+        meta: { limit: 10, next: null, prev: null, view },
+      });
+    });
+  });
+
+  describe('search', () => {
+    it('should pass the query to the service', async () => {
+      const results = [
+        { task: mockTask, rank: 0.1, highlights: { title: 'Test', description: null } },
+      ];
+      mockTasksService.search.mockResolvedValue(results);
+
+      const result = await controller.search({ q: 'test', limit: 20 }, actor);
+      expect(result).toEqual(results);
+      expect(service.search).toHaveBeenCalledWith({ q: 'test', limit: 20 }, actor);
     });
   });
 
@@ -110,15 +189,64 @@ describe('TasksController', () => {
     it('should return a task by id', async () => {
       mockTasksService.findOne.mockResolvedValue(mockTask);
 
-      const result = await controller.findOne('1');
+      const result = await controller.findOne('1', actor, undefined, res as unknown as Response);
       expect(result).toEqual(mockTask);
-      expect(service.findOne).toHaveBeenCalledWith('1');
+      expect(service.findOne).toHaveBeenCalledWith('1', actor);
+      expect(res.setHeader).toHaveBeenCalledWith('ETag', taskEtag(mockTask));
+      expect(res.status).not.toHaveBeenCalled();
+    });
+
+    it('should answer 304 without a body when the ETag still matches', async () => {
+      mockTasksService.findOne.mockResolvedValue(mockTask);
+
+      const result = await controller.findOne(
+        '1',
+        actor,
+        `W/"2", ${taskEtag(mockTask)}`,
+        res as unknown as Response,
+      );
+      expect(result).toBeUndefined();
+      expect(res.status).toHaveBeenCalledWith(304);
+    });
+
+    it('should send the task again once fields derived from other tasks changed', async () => {
+      const etag = taskEtag({ ...mockTask, checklist: { total: 2, done: 1 } });
+      mockTasksService.findOne.mockResolvedValue({
+        ...mockTask,
+        checklist: { total: 2, done: 2 },
+      });
+
+      const result = await controller.findOne('1', actor, etag, res as unknown as Response);
+      expect(result).toBeDefined();
+      expect(res.status).not.toHaveBeenCalled();
     });
 
     it('should throw NotFoundException when task is not found', async () => {
       mockTasksService.findOne.mockResolvedValue(null);
 
-      await expect(controller.findOne('1')).rejects.toThrow(HttpException);
+      await expect(
+        controller.findOne('1', actor, undefined, res as unknown as Response),
+      ).rejects.toThrow(HttpException);
+    });
+  });
+
+  describe('subtasks', () => {
+    it('should return the direct children of a task', async () => {
+      const children = [{ ...mockTask, id: '2', parentId: '1' }];
+      mockTasksService.findChildren.mockResolvedValue(children);
+
+      const result = await controller.findChildren('1', actor);
+      expect(result).toEqual(children);
+      expect(service.findChildren).toHaveBeenCalledWith('1', actor);
+    });
+
+    it('should return the subtree of a task', async () => {
+      const tree = { ...mockTask, children: [{ ...mockTask, id: '2', children: [] }] };
+      mockTasksService.findSubtree.mockResolvedValue(tree);
+
+      const result = await controller.findSubtree('1', actor);
+      expect(result).toEqual(tree);
+      expect(service.findSubtree).toHaveBeenCalledWith('1', actor);
     });
   });
 
@@ -130,9 +258,16 @@ describe('TasksController', () => {
 
       mockTasksService.update.mockResolvedValue({ ...mockTask, ...updateTaskDto });
 
-      const result = await controller.update('1', updateTaskDto);
+      const result = await controller.update(
+        '1',
+        updateTaskDto,
+        actor,
+        '"3"',
+        res as unknown as Response,
+      );
       expect(result.title).toBe('Updated Title');
-      expect(service.update).toHaveBeenCalledWith('1', updateTaskDto);
+      expect(service.update).toHaveBeenCalledWith('1', updateTaskDto, actor, '"3"');
+      expect(res.setHeader).toHaveBeenCalledWith('ETag', taskEtag(mockTask));
     });
   });
 
@@ -140,8 +275,43 @@ describe('TasksController', () => {
     it('should remove a task and return no content', async () => {
       mockTasksService.remove.mockResolvedValue(undefined);
 
-      await controller.remove('1');
-      expect(service.remove).toHaveBeenCalledWith('1');
+      await controller.remove('1', actor, '"3"');
+      expect(service.remove).toHaveBeenCalledWith('1', actor, '"3"');
+    });
+  });
+
+  describe('trash', () => {
+    it('should list, restore and purge trashed tasks of the caller', async () => {
+      mockTasksService.findTrash.mockResolvedValue({ items: [], total: 0, page: 1, pageCount: 0 });
+      mockTasksService.restore.mockResolvedValue(mockTask);
+      mockTasksService.purge.mockResolvedValue(undefined);
+
+      await controller.findTrash({ page: 1, limit: 10 }, actor);
+      expect(service.findTrash).toHaveBeenCalledWith({ page: 1, limit: 10 }, actor);
+
+      expect(await controller.restore('1', actor)).toEqual(mockTask);
+      expect(service.restore).toHaveBeenCalledWith('1', actor);
+
+      await controller.purge('1', actor);
+      expect(service.purge).toHaveBeenCalledWith('1', actor);
+    });
+  });
+
+  describe('recurrence', () => {
+    it('should get, update and stop the series of a task', async () => {
+      const recurrence = { id: 'r1', rule: 'FREQ=WEEKLY', nextOccurrenceAt: null };
+      mockTasksService.findRecurrence.mockResolvedValue(recurrence);
+      mockTasksService.updateRecurrence.mockResolvedValue(recurrence);
+      mockTasksService.stopRecurrence.mockResolvedValue(undefined);
+
+      expect(await controller.findRecurrence('1', actor)).toEqual(recurrence);
+      expect(service.findRecurrence).toHaveBeenCalledWith('1', actor);
+
+      await controller.updateRecurrence('1', { title: 'Weekly report' }, actor);
+      expect(service.updateRecurrence).toHaveBeenCalledWith('1', { title: 'Weekly report' }, actor);
+
+      await controller.stopRecurrence('1', actor);
+      expect(service.stopRecurrence).toHaveBeenCalledWith('1', actor);
     });
   });
 
@@ -157,9 +327,64 @@ describe('TasksController', () => {
 
       mockTasksService.getStats.mockResolvedValue(stats);
 
-      const result = await controller.getStats();
+      const result = await controller.getStats(actor);
       expect(result).toEqual(stats);
-      expect(service.getStats).toHaveBeenCalled();
+      expect(service.getStats).toHaveBeenCalledWith(actor);
+    });
+  });
+
+  describe('getTimeReport', () => {
+    it('should pass the filters on', async () => {
+      const report = {
+        estimatedMinutes: 60,
+        loggedMinutes: 45,
+        byTask: [],
+        byUser: [],
+        byProject: [],
+      };
+      mockTasksService.getTimeReport.mockResolvedValue(report);
+
+      const result = await controller.getTimeReport({ projectId: 'p1' }, actor);
+      expect(result).toEqual(report);
+      expect(service.getTimeReport).toHaveBeenCalledWith({ projectId: 'p1' }, actor);
+    });
+  });
+
+  describe('move', () => {
+    it('should move the task on the board', async () => {
+      const moveTaskDto = { status: TaskStatus.IN_PROGRESS, afterId: '2' };
+      mockTasksService.move.mockResolvedValue({ ...mockTask, ...moveTaskDto, rank: 'n' });
+
+      const result = await controller.move('1', moveTaskDto, actor);
+      expect(result.rank).toBe('n');
+      expect(service.move).toHaveBeenCalledWith('1', moveTaskDto, actor);
+    });
+  });
+
+  describe('participants', () => {
+    it('should assign a user to a task', async () => {
+      mockTasksService.assign.mockResolvedValue({ ...mockTask, assigneeIds: ['1', '2'] });
+
+      const result = await controller.assign('1', { userId: '2' }, actor);
+      expect(result.assigneeIds).toEqual(['1', '2']);
+      expect(service.assign).toHaveBeenCalledWith('1', '2', actor, undefined);
+    });
+
+    it('should take a user off a task', async () => {
+      mockTasksService.unassign.mockResolvedValue(undefined);
+
+      await controller.unassign('1', '2', actor);
+      expect(service.unassign).toHaveBeenCalledWith('1', '2', actor);
+    });
+
+    it('should watch and unwatch a task as the caller', async () => {
+      mockTasksService.watch.mockResolvedValue({ ...mockTask, watcherIds: ['1'] });
+      mockTasksService.unwatch.mockResolvedValue(undefined);
+
+      await controller.watch('1', actor);
+      await controller.unwatch('1', actor);
+      expect(service.watch).toHaveBeenCalledWith('1', actor);
+      expect(service.unwatch).toHaveBeenCalledWith('1', actor);
     });
   });
 
@@ -177,9 +402,9 @@ describe('TasksController', () => {
 
       mockTasksService.batchProcess.mockResolvedValue(batchResult);
 
-      const result = await controller.batchProcess(operations);
+      const result = await controller.batchProcess(operations, actor);
       expect(result).toEqual(batchResult);
-      expect(service.batchProcess).toHaveBeenCalledWith(operations);
+      expect(service.batchProcess).toHaveBeenCalledWith(operations, actor);
     });
 
     it('should throw BadRequestException for invalid operations', async () => {
@@ -188,7 +413,9 @@ describe('TasksController', () => {
         action: 'complete' as const,
       };
 
-      await expect(controller.batchProcess(invalidOperations)).rejects.toThrow(HttpException);
+      await expect(controller.batchProcess(invalidOperations, actor)).rejects.toThrow(
+        HttpException,
+      );
     });
 
     it('should throw BadRequestException for invalid action', async () => {
@@ -197,7 +424,9 @@ describe('TasksController', () => {
         action: 'invalid' as 'complete' | 'delete',
       };
 
-      await expect(controller.batchProcess(invalidOperations)).rejects.toThrow(HttpException);
+      await expect(controller.batchProcess(invalidOperations, actor)).rejects.toThrow(
+        HttpException,
+      );
     });
   });
 });
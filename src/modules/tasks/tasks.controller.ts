@@ -1,9 +1,13 @@
-import { Authenticated } from '@modules/auth/decorators/current-user.decorator';
+import { RequirePermissions } from '@common/decorators/require-permissions.decorator';
+import { Authenticated, CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import type { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { Permission } from '@modules/roles/enums/permission.enum';
 import {
   Body,
   Controller,
   Delete,
   Get,
+  Headers,
   HttpCode,
   HttpException,
   HttpStatus,
@@ -11,76 +15,264 @@ import {
   Patch,
   Post,
   Query,
+  Res,
   UseGuards,
+  UseInterceptors,
 } from '@nestjs/common';
-import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { ApiBearerAuth, ApiHeader, ApiOperation, ApiTags } from '@nestjs/swagger';
+import type { Response } from 'express';
 import { RateLimit } from '../../common/decorators/rate-limit.decorator';
 import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { IdempotencyInterceptor } from '../../common/interceptors/idempotency.interceptor';
+import { etagMatches } from '../../common/utils/etag.util';
+import { ActivityFilterDto } from '../audit/dto/activity-filter.dto';
+import { SavedViewsService } from '../saved-views/saved-views.service';
+import { AssignTaskDto } from './dto/assign-task.dto';
 import { CreateTaskDto } from './dto/create-task.dto';
+import { MoveTaskDto } from './dto/move-task.dto';
 import { TaskFilterDto } from './dto/task-filter.dto';
+import { TaskSearchDto } from './dto/task-search.dto';
+import { TimeReportFilterDto } from './dto/time-report-filter.dto';
+import { TrashFilterDto } from './dto/trash-filter.dto';
+import { UpdateTaskRecurrenceDto } from './dto/update-task-recurrence.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
 import { TasksService } from './tasks.service';
+import { taskEtag } from './utils/task-etag.util';
 
 @ApiTags('tasks')
 @Controller('tasks')
 @Authenticated()
 @UseGuards(RateLimitGuard)
 @RateLimit(100, 60000)
+@RequirePermissions(Permission.TASK_READ)
 @ApiBearerAuth()
 export class TasksController {
-  constructor(private readonly tasksService: TasksService) {}
+  constructor(
+    private readonly tasksService: TasksService,
+    private readonly savedViewsService: SavedViewsService,
+  ) {}
 
   @Post()
+  @RequirePermissions(Permission.TASK_CREATE)
+  @UseInterceptors(IdempotencyInterceptor)
   @ApiOperation({ summary: 'Create a new task' })
-  create(@Body() createTaskDto: CreateTaskDto) {
-    return this.tasksService.create(createTaskDto);
+  @ApiHeader({ name: 'Idempotency-Key', required: false, description: 'Makes retries safe' })
+  create(@Body() createTaskDto: CreateTaskDto, @CurrentUser() user: AuthUser) {
+    return this.tasksService.create(createTaskDto, user);
   }
 
   @Get()
   @ApiOperation({ summary: 'Find all tasks with optional filtering' })
-  async findAll(@Query() filterDto: TaskFilterDto) {
-    return this.tasksService.findAll(filterDto);
+  async findAll(@Query() filterDto: TaskFilterDto, @CurrentUser() user: AuthUser) {
+    if (!filterDto.view) {
+      return this.tasksService.findAll(filterDto, user);
+    }
+    const { filters, view } = await this.savedViewsService.apply(filterDto.view, filterDto, user);
+    const result = await this.tasksService.findAll(filters, user);
+    return { ...result, meta: { ...result.meta, view } };
+  }
+
+  @Get('search')
+  @ApiOperation({ summary: 'Search task titles and descriptions, best matches first' })
+  async search(@Query() searchDto: TaskSearchDto, @CurrentUser() user: AuthUser) {
+    return this.tasksService.search(searchDto, user);
   }
 
   @Get('stats')
   @ApiOperation({ summary: 'Get task statistics' })
-  async getStats() {
-    return this.tasksService.getStats();
+  async getStats(@CurrentUser() user: AuthUser) {
+    return this.tasksService.getStats(user);
+  }
+
+  @Get('stats/time')
+  @ApiOperation({ summary: 'Report logged time against estimates per task, user and project' })
+  async getTimeReport(@Query() filterDto: TimeReportFilterDto, @CurrentUser() user: AuthUser) {
+    return this.tasksService.getTimeReport(filterDto, user);
+  }
+
+  @Get('trash')
+  @ApiOperation({ summary: 'List trashed tasks, most recently deleted first' })
+  async findTrash(@Query() filterDto: TrashFilterDto, @CurrentUser() user: AuthUser) {
+    return this.tasksService.findTrash(filterDto, user);
+  }
+
+  @Delete('trash/:id')
+  @RequirePermissions(Permission.TASK_DELETE)
+  @ApiOperation({ summary: 'Permanently delete a trashed task' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async purge(@Param('id') id: string, @CurrentUser() user: AuthUser): Promise<void> {
+    await this.tasksService.purge(id, user);
   }
 
   @Get(':id')
   @ApiOperation({ summary: 'Find a task by ID' })
-  async findOne(@Param('id') id: string) {
-    const task = await this.tasksService.findOne(id);
+  @ApiHeader({ name: 'If-None-Match', required: false, description: 'Answer 304 for this ETag' })
+  async findOne(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Headers('if-none-match') ifNoneMatch: string | undefined,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const task = await this.tasksService.findOne(id, user);
 
     if (!task) {
       throw new HttpException(`Task with ID ${id} not found in the database`, HttpStatus.NOT_FOUND);
     }
 
+    const etag = taskEtag(task);
+    res.setHeader('ETag', etag);
+    if (ifNoneMatch && etagMatches(ifNoneMatch, etag)) {
+      res.status(HttpStatus.NOT_MODIFIED);
+      return;
+    }
+
     return task;
   }
 
+  @Get(':id/activity')
+  @ApiOperation({ summary: 'Get the change history of a task, newest first' })
+  async findActivity(
+    @Param('id') id: string,
+    @Query() filterDto: ActivityFilterDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.tasksService.findActivity(id, filterDto, user);
+  }
+
+  @Get(':id/children')
+  @ApiOperation({ summary: 'List the direct subtasks of a task' })
+  async findChildren(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.tasksService.findChildren(id, user);
+  }
+
+  @Get(':id/subtree')
+  @ApiOperation({ summary: 'Get a task with its full subtask tree' })
+  async findSubtree(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.tasksService.findSubtree(id, user);
+  }
+
   @Patch(':id')
-  @ApiOperation({ summary: 'Update a task' })
-  async update(@Param('id') id: string, @Body() updateTaskDto: UpdateTaskDto) {
-    return this.tasksService.update(id, updateTaskDto);
+  @RequirePermissions(Permission.TASK_UPDATE)
+  @ApiOperation({ summary: 'Update a task; for recurring tasks only this occurrence' })
+  @ApiHeader({ name: 'If-Match', required: false, description: 'ETag the change is based on' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateTaskDto: UpdateTaskDto,
+    @CurrentUser() user: AuthUser,
+    @Headers('if-match') ifMatch: string | undefined,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const task = await this.tasksService.update(id, updateTaskDto, user, ifMatch);
+    res.setHeader('ETag', taskEtag(task));
+    return task;
   }
 
   @Delete(':id')
-  @ApiOperation({ summary: 'Delete a task' })
+  @RequirePermissions(Permission.TASK_DELETE)
+  @ApiOperation({ summary: 'Move a task and its subtasks to the trash' })
+  @ApiHeader({ name: 'If-Match', required: false, description: 'ETag the deletion is based on' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Headers('if-match') ifMatch: string | undefined,
+  ): Promise<void> {
+    await this.tasksService.remove(id, user, ifMatch);
+  }
+
+  @Post(':id/move')
+  @RequirePermissions(Permission.TASK_UPDATE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Move a task on the board, to another column or position' })
+  async move(
+    @Param('id') id: string,
+    @Body() moveTaskDto: MoveTaskDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.tasksService.move(id, moveTaskDto, user);
+  }
+
+  @Post(':id/restore')
+  @RequirePermissions(Permission.TASK_DELETE)
+  @ApiOperation({ summary: 'Restore a task from the trash' })
+  async restore(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.tasksService.restore(id, user);
+  }
+
+  @Post(':id/assignees')
+  @RequirePermissions(Permission.TASK_UPDATE)
+  @ApiOperation({ summary: 'Assign a user to a task' })
+  async assign(
+    @Param('id') id: string,
+    @Body() assignTaskDto: AssignTaskDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.tasksService.assign(id, assignTaskDto.userId, user, assignTaskDto.overrideWipLimit);
+  }
+
+  @Delete(':id/assignees/:userId')
+  @RequirePermissions(Permission.TASK_UPDATE)
+  @ApiOperation({ summary: 'Take a user off a task' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async unassign(
+    @Param('id') id: string,
+    @Param('userId') userId: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<void> {
+    await this.tasksService.unassign(id, userId, user);
+  }
+
+  @Post(':id/watchers')
+  @ApiOperation({ summary: 'Watch a task' })
+  async watch(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.tasksService.watch(id, user);
+  }
+
+  @Delete(':id/watchers')
+  @ApiOperation({ summary: 'Stop watching a task' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async unwatch(@Param('id') id: string, @CurrentUser() user: AuthUser): Promise<void> {
+    await this.tasksService.unwatch(id, user);
+  }
+
+  @Get(':id/recurrence')
+  @ApiOperation({ summary: 'Get the series a recurring task belongs to' })
+  async findRecurrence(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.tasksService.findRecurrence(id, user);
+  }
+
+  @Patch(':id/recurrence')
+  @RequirePermissions(Permission.TASK_UPDATE)
+  @ApiOperation({ summary: 'Update this and all future occurrences of a recurring task' })
+  async updateRecurrence(
+    @Param('id') id: string,
+    @Body() updateRecurrenceDto: UpdateTaskRecurrenceDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.tasksService.updateRecurrence(id, updateRecurrenceDto, user);
+  }
+
+  @Delete(':id/recurrence')
+  @RequirePermissions(Permission.TASK_UPDATE)
+  @ApiOperation({ summary: 'Stop the series of a recurring task, keeping its occurrences' })
   @HttpCode(HttpStatus.NO_CONTENT)
-  async remove(@Param('id') id: string): Promise<void> {
-    await this.tasksService.remove(id);
+  async stopRecurrence(@Param('id') id: string, @CurrentUser() user: AuthUser): Promise<void> {
+    await this.tasksService.stopRecurrence(id, user);
   }
 
   @Post('batch')
+  @RequirePermissions(Permission.TASK_UPDATE)
+  @UseInterceptors(IdempotencyInterceptor)
   @ApiOperation({ summary: 'Batch process multiple tasks' })
+  @ApiHeader({ name: 'Idempotency-Key', required: false, description: 'Makes retries safe' })
   async batchProcess(
     @Body()
     operations: {
       tasks: string[];
       action: 'complete' | 'delete';
+      overrideWipLimit?: boolean;
     },
+    @CurrentUser() user: AuthUser,
   ) {
     if (!operations.tasks?.length) {
       throw new HttpException('Invalid or empty task list', HttpStatus.BAD_REQUEST);
@@ -90,6 +282,6 @@ export class TasksController {
       throw new HttpException(`Unknown action: ${operations.action}`, HttpStatus.BAD_REQUEST);
     }
 
-    return this.tasksService.batchProcess(operations);
+    return this.tasksService.batchProcess(operations, user);
   }
 }
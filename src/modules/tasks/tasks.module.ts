@@ -1,19 +1,85 @@
 import { BullModule } from '@nestjs/bullmq';
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuditModule } from '../audit/audit.module';
+import { SavedViewsModule } from '../saved-views/saved-views.module';
+import { StorageModule } from '../storage/storage.module';
+import { BoardController } from './board.controller';
+import { TaskAttachment } from './entities/task-attachment.entity';
+import { TaskChecklistItem } from './entities/task-checklist-item.entity';
+import { TaskCommentRevision } from './entities/task-comment-revision.entity';
+import { TaskComment } from './entities/task-comment.entity';
+import { TaskDependency } from './entities/task-dependency.entity';
+import { TaskRecurrence } from './entities/task-recurrence.entity';
 import { Task } from './entities/task.entity';
+import { TimeEntry } from './entities/time-entry.entity';
+import { WipLimit } from './entities/wip-limit.entity';
+import { TaskPolicy } from './policies/task.policy';
+import { TaskAttachmentsController } from './task-attachments.controller';
+import { attachmentSizeLimit, TaskAttachmentsService } from './task-attachments.service';
+import { TaskChecklistController } from './task-checklist.controller';
+import { TaskChecklistService } from './task-checklist.service';
+import { TaskCommentsController } from './task-comments.controller';
+import { TaskCommentsService } from './task-comments.service';
+import { TaskDependenciesController } from './task-dependencies.controller';
+import { TaskDependenciesService } from './task-dependencies.service';
+import { TaskTimeEntriesController } from './task-time-entries.controller';
+import { TaskTimeEntriesService } from './task-time-entries.service';
 import { TasksController } from './tasks.controller';
 import { TasksService } from './tasks.service';
+import { TimerController } from './timer.controller';
+import { WipLimitsController } from './wip-limits.controller';
+import { WipLimitsService } from './wip-limits.service';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Task]),
+    TypeOrmModule.forFeature([
+      Task,
+      TaskAttachment,
+      TaskChecklistItem,
+      TaskComment,
+      TaskCommentRevision,
+      TaskDependency,
+      TaskRecurrence,
+      TimeEntry,
+      WipLimit,
+    ]),
     BullModule.registerQueue({
       name: 'task-processing',
     }),
+    MulterModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        limits: { fileSize: attachmentSizeLimit(configService), files: 1 },
+      }),
+    }),
+    AuditModule,
+    SavedViewsModule,
+    StorageModule,
+  ],
+  controllers: [
+    TasksController,
+    TaskCommentsController,
+    TaskChecklistController,
+    TaskAttachmentsController,
+    TaskTimeEntriesController,
+    TimerController,
+    BoardController,
+    TaskDependenciesController,
+    WipLimitsController,
+  ],
+  providers: [
+    TasksService,
+    TaskCommentsService,
+    TaskChecklistService,
+    TaskAttachmentsService,
+    TaskTimeEntriesService,
+    TaskDependenciesService,
+    WipLimitsService,
+    TaskPolicy,
   ],
-  controllers: [TasksController],
-  providers: [TasksService],
-  exports: [TasksService, TypeOrmModule.forFeature([Task])],
+  exports: [TasksService, TaskDependenciesService, TaskPolicy, TypeOrmModule.forFeature([Task])],
 })
 export class TasksModule {}
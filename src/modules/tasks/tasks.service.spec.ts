@@ -1,16 +1,38 @@
 import { getQueueToken } from '@nestjs/bullmq';
-import { NotFoundException } from '@nestjs/common';
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { OrganizationRole } from '@modules/organizations/enums/organization-role.enum';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpStatus,
+  NotFoundException,
+  PreconditionFailedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { Queue } from 'bullmq';
 import { QueryRunner, Repository, SelectQueryBuilder } from 'typeorm';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/enums/audit-action.enum';
+import { Label } from '../labels/entities/label.entity';
+import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
+import { Project } from '../projects/entities/project.entity';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { TaskFilterDto } from './dto/task-filter.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
+import { TaskRecurrence } from './entities/task-recurrence.entity';
 import { Task } from './entities/task.entity';
 import { TaskPriority } from './enums/task-priority.enum';
 import { TaskStatus } from './enums/task-status.enum';
+import { TaskPolicy } from './policies/task.policy';
+import { TaskAttachmentsService } from './task-attachments.service';
+import { TaskDependenciesService } from './task-dependencies.service';
 import { TasksService } from './tasks.service';
+import { taskEtag } from './utils/task-etag.util';
+import { WipLimitsService } from './wip-limits.service';
 
 describe('TasksService', () => {
   let service: TasksService;
@@ -18,6 +40,12 @@ describe('TasksService', () => {
   let queue: Queue;
   let queryRunner: QueryRunner;
   let queryBuilder: SelectQueryBuilder<Task>;
+  let relationQueryBuilder: Record<'of' | 'add' | 'remove' | 'addAndRemove', jest.Mock>;
+  let dependenciesService: { findBlockedTaskIds: jest.Mock };
+  let attachmentsService: { findStorageKeys: jest.Mock; deleteOrphanedFiles: jest.Mock };
+  let wipLimitsService: { enforce: jest.Mock };
+  let auditService: { record: jest.Mock; findForEntity: jest.Mock };
+  let config: Record<string, string | undefined>;
 
   const mockTask = {
     id: '1',
@@ -26,16 +54,52 @@ describe('TasksService', () => {
     status: TaskStatus.PENDING,
     priority: TaskPriority.MEDIUM,
     dueDate: new Date(),
-    userId: '1',
+    createdById: '1',
+    assigneeIds: ['1'],
+    watcherIds: [] as string[],
     createdAt: new Date(),
     updatedAt: new Date(),
+    version: 1,
+  };
+
+  const actor: AuthUser = {
+    id: '1',
+    email: 'owner@example.com',
+    name: 'Owner',
+    role: 'user',
+    organizationId: 'org-1',
+    organizationRole: OrganizationRole.OWNER,
+    permissions: [],
+  };
+
+  const member: AuthUser = {
+    id: '2',
+    email: 'member@example.com',
+    name: 'Member',
+    role: 'user',
+    organizationId: 'org-1',
+    organizationRole: OrganizationRole.MEMBER,
+    permissions: [
+      Permission.TASK_READ,
+      Permission.TASK_CREATE,
+      Permission.TASK_UPDATE,
+      Permission.TASK_DELETE,
+    ],
   };
 
   beforeEach(async () => {
     const mockManager = {
+      create: jest.fn((_, data) => ({ ...data })),
       save: jest.fn(),
       findOne: jest.fn(),
       remove: jest.fn(),
+      find: jest.fn(),
+      delete: jest.fn(),
+      increment: jest.fn(),
+      exists: jest.fn().mockResolvedValue(true),
+      count: jest.fn().mockResolvedValue(0),
+      query: jest.fn().mockResolvedValue([]),
+      createQueryBuilder: jest.fn(() => queryBuilder),
     };
 
     queryRunner = {
@@ -47,17 +111,36 @@ describe('TasksService', () => {
       manager: mockManager,
     } as unknown as QueryRunner;
 
+    relationQueryBuilder = {
+      of: jest.fn().mockReturnThis(),
+      add: jest.fn().mockResolvedValue(undefined),
+      remove: jest.fn().mockResolvedValue(undefined),
+      addAndRemove: jest.fn().mockResolvedValue(undefined),
+    };
+
     queryBuilder = {
       leftJoinAndSelect: jest.fn().mockReturnThis(),
+      leftJoin: jest.fn().mockReturnThis(),
       select: jest.fn().mockReturnThis(),
       where: jest.fn().mockReturnThis(),
       andWhere: jest.fn().mockReturnThis(),
       orderBy: jest.fn().mockReturnThis(),
       skip: jest.fn().mockReturnThis(),
       take: jest.fn().mockReturnThis(),
+      withDeleted: jest.fn().mockReturnThis(),
       getMany: jest.fn().mockResolvedValue([mockTask]),
+      clone: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
       getCount: jest.fn().mockResolvedValue(1),
       setParameters: jest.fn().mockReturnThis(),
+      innerJoin: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      groupBy: jest.fn().mockReturnThis(),
+      addGroupBy: jest.fn().mockReturnThis(),
+      getRawMany: jest.fn().mockResolvedValue([]),
+      relation: jest.fn(() => relationQueryBuilder),
+      setLock: jest.fn().mockReturnThis(),
       getRawOne: jest.fn().mockResolvedValue({
         total: '1',
         completed: '0',
@@ -73,18 +156,51 @@ describe('TasksService', () => {
       findOne: jest.fn(),
       find: jest.fn(),
       remove: jest.fn(),
+      query: jest.fn().mockResolvedValue([]),
       createQueryBuilder: jest.fn().mockReturnValue(queryBuilder),
       manager: {
+        find: jest.fn(),
+        findOne: jest.fn(),
+        save: jest.fn(async (_, entity) => entity),
+        count: jest.fn().mockResolvedValue(0),
+        exists: jest.fn().mockResolvedValue(true),
+        increment: jest.fn(),
+        transaction: jest.fn(async work => work(queryRunner.manager)),
         connection: {
           createQueryRunner: jest.fn().mockReturnValue(queryRunner),
         },
       },
     };
 
+    // Tasks locked within a transaction are the ones the repository finds.
+    mockManager.findOne.mockImplementation(async (entity, options) =>
+      entity === Task ? mockRepository.findOne(options) : null,
+    );
+
     const mockQueue = {
       add: jest.fn(),
     };
 
+    dependenciesService = {
+      findBlockedTaskIds: jest.fn().mockResolvedValue(new Set()),
+    };
+
+    attachmentsService = {
+      findStorageKeys: jest.fn().mockResolvedValue([]),
+      deleteOrphanedFiles: jest.fn(),
+    };
+
+    wipLimitsService = {
+      enforce: jest.fn().mockResolvedValue([]),
+    };
+
+    auditService = {
+      record: jest.fn(),
+      findForEntity: jest.fn(),
+    };
+
+    config = {};
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         TasksService,
@@ -96,6 +212,27 @@ describe('TasksService', () => {
           provide: getQueueToken('task-processing'),
           useValue: mockQueue,
         },
+        {
+          provide: TaskDependenciesService,
+          useValue: dependenciesService,
+        },
+        {
+          provide: TaskAttachmentsService,
+          useValue: attachmentsService,
+        },
+        {
+          provide: WipLimitsService,
+          useValue: wipLimitsService,
+        },
+        TaskPolicy,
+        {
+          provide: AuditService,
+          useValue: auditService,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
       ],
     }).compile();
 
@@ -112,11 +249,10 @@ describe('TasksService', () => {
         status: TaskStatus.PENDING,
         priority: TaskPriority.MEDIUM,
         dueDate: new Date(),
-        userId: '1',
       };
 
       (queryRunner.manager.save as jest.Mock).mockResolvedValue(mockTask);
-      const result = await service.create(createTaskDto);
+      const result = await service.create(createTaskDto, actor);
 
       expect(queryRunner.startTransaction).toHaveBeenCalled();
       expect(queryRunner.manager.save).toHaveBeenCalled();
@@ -131,12 +267,62 @@ describe('TasksService', () => {
         status: TaskStatus.PENDING,
         priority: TaskPriority.MEDIUM,
         dueDate: new Date(),
-        userId: '1',
       };
 
       (queryRunner.manager.save as jest.Mock).mockRejectedValue(new Error('Database error'));
 
-      await expect(service.create(createTaskDto)).rejects.toThrow('Database error');
+      await expect(service.create(createTaskDto, actor)).rejects.toThrow('Database error');
+      expect(queryRunner.rollbackTransaction).toHaveBeenCalled();
+    });
+  });
+
+  describe('createTree', () => {
+    it('should create a task with its subtasks in one transaction', async () => {
+      let nextId = 0;
+      (queryRunner.manager.findOne as jest.Mock).mockResolvedValue({ id: 'p1', archived: false });
+      (queryRunner.manager.save as jest.Mock).mockImplementation(async (_, task) => ({
+        ...task,
+        id: `t${++nextId}`,
+      }));
+
+      const root = await service.createTree(
+        {
+          title: 'Release 1.2',
+          dueDate: new Date('2025-03-10'),
+          subtasks: [
+            { title: 'Changelog', subtasks: [{ title: 'Collect PRs' }] },
+            { title: 'Tag' },
+          ],
+        },
+        { projectId: 'p1' },
+        actor,
+      );
+
+      expect(queryRunner.manager.save).toHaveBeenCalledWith(
+        Task,
+        expect.objectContaining({ title: 'Collect PRs', parentId: 't2', projectId: 'p1' }),
+      );
+      expect(root).toMatchObject({
+        id: 't1',
+        parentId: null,
+        assigneeIds: ['1'],
+        children: [
+          { id: 't2', parentId: 't1', children: [{ id: 't3', parentId: 't2' }] },
+          { id: 't4', parentId: 't1', children: [] },
+        ],
+      });
+      expect(relationQueryBuilder.add).toHaveBeenCalledTimes(4);
+      expect(auditService.record).toHaveBeenCalledTimes(4);
+      expect(queryRunner.commitTransaction).toHaveBeenCalled();
+    });
+
+    it('should create nothing when the project does not accept tasks', async () => {
+      (queryRunner.manager.findOne as jest.Mock).mockResolvedValue({ key: 'OLD', archived: true });
+
+      await expect(
+        service.createTree({ title: 'Release' }, { projectId: 'p1' }, actor),
+      ).rejects.toThrow(ConflictException);
+      expect(queryRunner.manager.save).not.toHaveBeenCalled();
       expect(queryRunner.rollbackTransaction).toHaveBeenCalled();
     });
   });
@@ -146,33 +332,260 @@ describe('TasksService', () => {
       const filterDto: TaskFilterDto = {
         status: TaskStatus.PENDING,
         priority: TaskPriority.HIGH,
-        page: 1,
         limit: 10,
       };
+      (queryBuilder.getRawMany as jest.Mock).mockResolvedValueOnce([
+        { id: '1', sort0: '2025-01-01 00:00:00' },
+      ]);
+      (repository.find as jest.Mock).mockResolvedValue([mockTask]);
 
-      const result = await service.findAll(filterDto);
+      const result = await service.findAll(filterDto, actor);
 
       expect(result).toEqual({
-        items: [mockTask],
-        total: 1,
-        page: 1,
-        pageCount: 1,
+        data: [mockTask],
+        meta: { limit: 10, next: null, prev: null },
+      });
+      expect(queryBuilder.andWhere).toHaveBeenCalledTimes(3);
+      expect(queryBuilder.getCount).not.toHaveBeenCalled();
+      expect(queryBuilder.addOrderBy).toHaveBeenCalledWith('task.created_at', 'DESC');
+      expect(queryBuilder.addOrderBy).toHaveBeenCalledWith('task.id', 'ASC');
+    });
+
+    it('should only count the matching tasks on request', async () => {
+      const result = await service.findAll({ includeTotal: true, limit: 10 }, actor);
+
+      expect(queryBuilder.getCount).toHaveBeenCalled();
+      expect(result.meta.total).toBe(1);
+    });
+
+    it('should sort by several whitelisted fields', async () => {
+      await service.findAll({ sort: 'priority:desc,dueDate', limit: 10 }, actor);
+
+      expect(queryBuilder.addOrderBy).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining(`WHEN 'HIGH' THEN 2`),
+        'DESC',
+      );
+      expect(queryBuilder.addOrderBy).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining('COALESCE(task.due_date'),
+        'ASC',
+      );
+      expect(queryBuilder.addOrderBy).toHaveBeenNthCalledWith(3, 'task.id', 'ASC');
+    });
+
+    it('should reject fields that cannot be sorted by', async () => {
+      await expect(service.findAll({ sort: 'password:asc', limit: 10 }, actor)).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(service.findAll({ sort: 'title:sideways', limit: 10 }, actor)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should continue after the cursor of the previous page', async () => {
+      (repository.find as jest.Mock).mockResolvedValue([mockTask, { ...mockTask, id: '2' }]);
+      (queryBuilder.getRawMany as jest.Mock).mockResolvedValueOnce([
+        { id: '1', sort0: '2025-01-03 00:00:00' },
+        { id: '2', sort0: '2025-01-02 00:00:00' },
+      ]);
+
+      const first = await service.findAll({ limit: 1 }, actor);
+      expect(first.meta.next).not.toBeNull();
+      expect(first.meta.prev).toBeNull();
+
+      (queryBuilder.getRawMany as jest.Mock).mockResolvedValueOnce([
+        { id: '2', sort0: '2025-01-02 00:00:00' },
+      ]);
+      const second = await service.findAll({ cursor: first.meta.next as string, limit: 1 }, actor);
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        '((task.created_at < :keyset0) OR (task.created_at = :keyset0 AND task.id > :keyset1))',
+        { keyset0: '2025-01-03 00:00:00', keyset1: '1' },
+      );
+      expect(second.meta.next).toBeNull();
+      expect(second.meta.prev).not.toBeNull();
+    });
+
+    it('should read the page before a prev cursor in reverse', async () => {
+      const cursor = Buffer.from(
+        JSON.stringify({
+          sort: 'createdAt:desc',
+          values: ['2024-12-30 00:00:00'],
+          id: '5',
+          direction: 'prev',
+        }),
+      ).toString('base64url');
+      (queryBuilder.getRawMany as jest.Mock).mockResolvedValueOnce([
+        { id: '4', sort0: '2024-12-31 00:00:00' },
+        { id: '3', sort0: '2025-01-01 00:00:00' },
+      ]);
+      (repository.find as jest.Mock).mockResolvedValue([
+        { ...mockTask, id: '3' },
+        { ...mockTask, id: '4' },
+      ]);
+
+      const previous = await service.findAll({ cursor, limit: 2 }, actor);
+
+      expect(queryBuilder.addOrderBy).toHaveBeenCalledWith('task.created_at', 'ASC');
+      expect(queryBuilder.addOrderBy).toHaveBeenCalledWith('task.id', 'DESC');
+      expect(previous.data.map(task => task.id)).toEqual(['3', '4']);
+      expect(previous.meta.prev).toBeNull();
+      expect(previous.meta.next).not.toBeNull();
+    });
+
+    it('should reject cursors issued for another sort order', async () => {
+      (repository.find as jest.Mock).mockResolvedValue([mockTask, { ...mockTask, id: '2' }]);
+      (queryBuilder.getRawMany as jest.Mock).mockResolvedValueOnce([
+        { id: '1', sort0: '2025-01-03 00:00:00' },
+        { id: '2', sort0: '2025-01-02 00:00:00' },
+      ]);
+      const first = await service.findAll({ limit: 1 }, actor);
+
+      await expect(
+        service.findAll({ cursor: first.meta.next as string, sort: 'title:asc', limit: 1 }, actor),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should hide tasks of archived projects by default', async () => {
+      await service.findAll({ limit: 10 }, actor);
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        '(task.projectId IS NULL OR project.archived = false)',
+      );
+    });
+
+    it('should list the tasks of a project even when it is archived', async () => {
+      await service.findAll({ projectId: 'p1', limit: 10 }, actor);
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('task.projectId = :projectId', {
+        projectId: 'p1',
+      });
+      expect(queryBuilder.andWhere).not.toHaveBeenCalledWith(
+        expect.stringContaining('project.archived'),
+      );
+    });
+
+    it('should include archived projects on request', async () => {
+      await service.findAll({ includeArchived: true, limit: 10 }, actor);
+
+      expect(queryBuilder.andWhere).not.toHaveBeenCalledWith(
+        expect.stringContaining('project.archived'),
+      );
+    });
+
+    it('should apply the filters of a q query over the separate parameters', async () => {
+      await service.findAll(
+        { q: 'status:completed label:bug "login page"', status: TaskStatus.PENDING, limit: 10 },
+        actor,
+      );
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('task.status = :status', {
+        status: TaskStatus.COMPLETED,
       });
-      expect(queryBuilder.andWhere).toHaveBeenCalledTimes(2);
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(expect.stringContaining('labelNames'), {
+        labelNames: ['bug'],
+      });
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('task.search_vector @@'),
+        { search0: 'login page' },
+      );
+    });
+
+    it('should reject malformed q queries', async () => {
+      await expect(service.findAll({ q: 'status:open', limit: 10 }, actor)).rejects.toThrow(
+        BadRequestException,
+      );
     });
 
     it('should handle search term filter', async () => {
       const filterDto: TaskFilterDto = {
         searchTerm: 'test',
-        page: 1,
         limit: 10,
       };
 
-      await service.findAll(filterDto);
+      await service.findAll(filterDto, actor);
 
       expect(queryBuilder.andWhere).toHaveBeenCalledWith(
-        expect.stringContaining('LOWER(task.title)'),
-        expect.any(Object),
+        `task.search_vector @@ (plainto_tsquery('english', :search0))`,
+        { search0: 'test' },
+      );
+    });
+  });
+
+  describe('search', () => {
+    it('should rank matches and return their highlights', async () => {
+      (queryBuilder.getRawMany as jest.Mock).mockResolvedValueOnce([
+        { id: '2', rank: 0.4, title: '<mark>Login</mark> page', description: null },
+        { id: '1', rank: '0.1', title: 'Test Task', description: 'the <mark>login</mark> form' },
+      ]);
+      (repository.find as jest.Mock).mockResolvedValue([mockTask, { ...mockTask, id: '2' }]);
+
+      const results = await service.search({ q: 'login', limit: 20 }, actor);
+
+      expect(results.map(({ task, rank }) => [task.id, rank])).toEqual([
+        ['2', 0.4],
+        ['1', 0.1],
+      ]);
+      expect(results[1].highlights).toEqual({
+        title: 'Test Task',
+        description: 'the <mark>login</mark> form',
+      });
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith('rank', 'DESC');
+      expect(queryBuilder.limit).toHaveBeenCalledWith(20);
+    });
+
+    it('should escape markup in the text before highlighting it', async () => {
+      await service.search({ q: 'login', limit: 20 }, actor);
+
+      const escapedTitle =
+        `replace(replace(replace(replace(replace(task.title, '&', '&amp;'), '<', '&lt;'), ` +
+        `'>', '&gt;'), '"', '&quot;'), '''', '&#39;')`;
+      expect(queryBuilder.addSelect).toHaveBeenCalledWith(
+        expect.stringContaining(`ts_headline('english', ${escapedTitle}, `),
+        'title',
+      );
+      expect(queryBuilder.addSelect).toHaveBeenCalledWith(
+        expect.stringContaining(`replace(task.description, '&', '&amp;')`),
+        'description',
+      );
+    });
+
+    it('should match quoted phrases and prefixes', async () => {
+      await service.search({ q: 'deploy* "login page" fails', limit: 20 }, actor);
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        `task.search_vector @@ (plainto_tsquery('english', :search2) && ` +
+          `to_tsquery('english', :search0) && phraseto_tsquery('english', :search1))`,
+        { search0: 'deploy:*', search1: 'login page', search2: 'fails' },
+      );
+    });
+
+    it('should keep tsquery operators out of prefixes', async () => {
+      await service.search({ q: "a|b&!c'd*", limit: 20 }, actor);
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(expect.any(String), {
+        search0: 'd:*',
+        search1: 'a b c',
+      });
+    });
+
+    it('should reject queries without any words', async () => {
+      await expect(service.search({ q: '"" **', limit: 20 }, actor)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should skip tasks of archived projects unless asked to include them', async () => {
+      await service.search({ q: 'login', limit: 20 }, actor);
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('project.archived = false'),
+      );
+
+      (queryBuilder.andWhere as jest.Mock).mockClear();
+      await service.search({ q: 'login', includeArchived: true, limit: 20 }, actor);
+      expect(queryBuilder.andWhere).not.toHaveBeenCalledWith(
+        expect.stringContaining('project.archived'),
       );
     });
   });
@@ -181,14 +594,26 @@ describe('TasksService', () => {
     it('should return a task when it exists', async () => {
       (repository.findOne as jest.Mock).mockResolvedValue(mockTask);
 
-      const result = await service.findOne('1');
+      const result = await service.findOne('1', actor);
       expect(result).toEqual(mockTask);
     });
 
     it('should throw NotFoundException when task does not exist', async () => {
       (repository.findOne as jest.Mock).mockResolvedValue(null);
 
-      await expect(service.findOne('1')).rejects.toThrow(NotFoundException);
+      await expect(service.findOne('1', actor)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should only look up tasks of the given organization', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue(null);
+
+      await expect(service.findOne('1', { ...actor, organizationId: 'org-2' })).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(repository.findOne).toHaveBeenCalledWith({
+        where: { id: '1', organizationId: 'org-2' },
+        relations: ['createdBy', 'labels'],
+      });
     });
   });
 
@@ -201,7 +626,7 @@ describe('TasksService', () => {
       (repository.findOne as jest.Mock).mockResolvedValue(mockTask);
       (queryRunner.manager.save as jest.Mock).mockResolvedValue({ ...mockTask, ...updateTaskDto });
 
-      const result = await service.update('1', updateTaskDto);
+      const result = await service.update('1', updateTaskDto, actor);
 
       expect(queryRunner.startTransaction).toHaveBeenCalled();
       expect(queryRunner.manager.save).toHaveBeenCalled();
@@ -216,7 +641,7 @@ describe('TasksService', () => {
       (repository.findOne as jest.Mock).mockResolvedValue(mockTask);
       (queryRunner.manager.save as jest.Mock).mockResolvedValue({ ...mockTask, ...updateTaskDto });
 
-      await service.update('1', updateTaskDto);
+      await service.update('1', updateTaskDto, actor);
 
       expect(queue.add).toHaveBeenCalledWith(
         'task-status-update',
@@ -226,121 +651,1803 @@ describe('TasksService', () => {
     });
   });
 
-  describe('remove', () => {
-    it('should successfully remove a task', async () => {
-      (repository.findOne as jest.Mock).mockResolvedValue(mockTask);
+  describe('board', () => {
+    const column = (...ranks: (string | null)[]) =>
+      ranks.map((rank, index) => ({ id: `c${index}`, rank }));
+
+    beforeEach(() => {
+      (repository.findOne as jest.Mock).mockResolvedValue({
+        ...mockTask,
+        status: TaskStatus.PENDING,
+        rank: null,
+      });
+      (queryRunner.manager.save as jest.Mock).mockImplementation(async (_, task) => task);
+    });
 
-      await service.remove('1');
+    it('should append tasks to the end of the column by default', async () => {
+      (queryBuilder.getRawMany as jest.Mock).mockResolvedValueOnce(column('a', 'b'));
 
-      expect(queryRunner.startTransaction).toHaveBeenCalled();
-      expect(queryRunner.manager.remove).toHaveBeenCalled();
-      expect(queryRunner.commitTransaction).toHaveBeenCalled();
+      const result = await service.move('1', {}, actor);
+
+      expect(result.rank).toBe('n');
+      expect(result.status).toBe(TaskStatus.PENDING);
+      expect(queryBuilder.setLock).toHaveBeenCalledWith('pessimistic_write');
+      expect(auditService.record).not.toHaveBeenCalled();
     });
 
-    it('should throw NotFoundException when task does not exist', async () => {
-      (repository.findOne as jest.Mock).mockResolvedValue(null);
+    it('should place tasks between their neighbors', async () => {
+      (queryBuilder.getRawMany as jest.Mock).mockResolvedValue(column('a', 'c', 'e'));
 
-      await expect(service.remove('1')).rejects.toThrow(NotFoundException);
+      expect((await service.move('1', { afterId: 'c0' }, actor)).rank).toBe('b');
+      expect((await service.move('1', { beforeId: 'c0' }, actor)).rank).toBe('5');
+      expect((await service.move('1', { afterId: 'c1', beforeId: 'c2' }, actor)).rank).toBe('d');
     });
-  });
 
-  describe('findByStatus', () => {
-    it('should return tasks with specified status', async () => {
-      await service.findByStatus(TaskStatus.PENDING);
+    it('should reject neighbors from other columns', async () => {
+      (queryBuilder.getRawMany as jest.Mock).mockResolvedValueOnce(column('a'));
 
-      expect(queryBuilder.where).toHaveBeenCalledWith('task.status = :status', {
-        status: TaskStatus.PENDING,
-      });
+      await expect(service.move('1', { afterId: 'elsewhere' }, actor)).rejects.toThrow(
+        'Task elsewhere is not in the PENDING column',
+      );
+      expect(queryRunner.rollbackTransaction).toHaveBeenCalled();
     });
-  });
 
-  describe('getStats', () => {
-    it('should return task statistics', async () => {
-      const result = await service.getStats();
+    it('should reject neighbors in the wrong order', async () => {
+      (queryBuilder.getRawMany as jest.Mock).mockResolvedValueOnce(column('a', 'b'));
 
-      expect(result).toEqual({
-        total: 1,
-        completed: 0,
-        inProgress: 0,
-        pending: 1,
-        highPriority: 0,
-      });
+      await expect(service.move('1', { afterId: 'c1', beforeId: 'c0' }, actor)).rejects.toThrow(
+        ConflictException,
+      );
     });
-  });
 
-  describe('batchProcess', () => {
-    it('should process multiple tasks for completion', async () => {
-      const operations = {
-        tasks: ['1', '2'],
-        action: 'complete' as const,
-      };
+    it('should rebalance the column when neighbors leave no room', async () => {
+      (queryBuilder.getRawMany as jest.Mock).mockResolvedValueOnce(
+        column('a', 'a0000000000001', 'b'),
+      );
 
-      (queryRunner.manager.findOne as jest.Mock)
-        .mockResolvedValueOnce(mockTask)
-        .mockResolvedValueOnce({ ...mockTask, id: '2' });
-      (queryRunner.manager.save as jest.Mock).mockImplementation(async (_, task) => task);
+      const result = await service.move('1', { afterId: 'c0' }, actor);
 
-      const result = await service.batchProcess(operations);
+      const [sql, [ids, ranks]] = (queryRunner.manager.query as jest.Mock).mock.calls[0];
+      expect(sql).toContain('UPDATE tasks SET rank');
+      expect(ids).toEqual(['c0', 'c1', 'c2']);
+      expect([ranks[0], result.rank, ranks[1], ranks[2]]).toEqual(
+        [ranks[0], result.rank, ranks[1], ranks[2]].sort(),
+      );
+      expect(result.rank?.length).toBeLessThanOrEqual(3);
+    });
 
-      expect(result.length).toBe(2);
-      expect(result[0].success).toBe(true);
-      expect(queryRunner.commitTransaction).toHaveBeenCalled();
+    it('should rank tasks placed after ones never placed on the board', async () => {
+      (queryBuilder.getRawMany as jest.Mock).mockResolvedValueOnce(column('a', null, null));
+
+      const result = await service.move('1', { afterId: 'c1' }, actor);
+
+      expect(queryRunner.manager.query).toHaveBeenCalledWith(expect.stringContaining('UPDATE'), [
+        ['c0', 'c1', 'c2'],
+        expect.any(Array),
+      ]);
+      expect(result.rank).toBeDefined();
     });
 
-    it('should handle errors for individual tasks', async () => {
-      const operations = {
-        tasks: ['1'],
-        action: 'complete' as const,
-      };
+    it('should record moves to another column as status changes', async () => {
+      (queryBuilder.getRawMany as jest.Mock).mockResolvedValueOnce([]);
 
-      (queryRunner.manager.findOne as jest.Mock).mockRejectedValue(new Error('Task not found'));
+      const result = await service.move('1', { status: TaskStatus.IN_PROGRESS }, actor);
+
+      expect(result.status).toBe(TaskStatus.IN_PROGRESS);
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('task.status = :status', {
+        status: TaskStatus.IN_PROGRESS,
+      });
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: AuditAction.STATUS_CHANGE }),
+        queryRunner.manager,
+      );
+      expect(queue.add).toHaveBeenCalledWith(
+        'task-status-update',
+        expect.objectContaining({ status: TaskStatus.IN_PROGRESS }),
+        expect.any(Object),
+      );
+    });
 
-      const result = await service.batchProcess(operations);
+    it('should not move blocked tasks into progress', async () => {
+      dependenciesService.findBlockedTaskIds.mockResolvedValue(new Set(['1']));
 
-      expect(result[0].success).toBe(false);
-      expect(result[0].error).toBe('Task not found');
+      await expect(service.move('1', { status: TaskStatus.IN_PROGRESS }, actor)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(queryRunner.manager.save).not.toHaveBeenCalled();
+    });
+
+    it('should group the board by status in rank order', async () => {
+      (queryBuilder.getRawMany as jest.Mock)
+        .mockResolvedValueOnce([{ id: '1' }])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([]);
+      (repository.find as jest.Mock).mockResolvedValue([{ ...mockTask }]);
+
+      const board = await service.getBoard({ assignee: 'me' }, actor);
+
+      expect(board.map(({ status, total, tasks }) => [status, total, tasks.length])).toEqual([
+        [TaskStatus.PENDING, 1, 1],
+        [TaskStatus.IN_PROGRESS, 1, 0],
+        [TaskStatus.COMPLETED, 1, 0],
+      ]);
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith('task.rank', 'ASC', 'NULLS LAST');
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('task_assignees'),
+        { assigneeId: actor.id },
+      );
     });
   });
 
-  describe('findOverdueTasks', () => {
-    it('should return overdue tasks with pagination', async () => {
-      const limit = 10;
-      const offset = 0;
-      const mockedTasks = [{ ...mockTask, dueDate: new Date(Date.now() - 86400000) }];
+  describe('subtasks', () => {
+    it('should reject a missing parent on create', async () => {
+      (queryRunner.manager.exists as jest.Mock).mockResolvedValue(false);
 
-      (queryBuilder.getMany as jest.Mock).mockResolvedValueOnce(mockedTasks);
+      await expect(
+        service.create({ title: 'Child', parentId: 'missing' } as CreateTaskDto, actor),
+      ).rejects.toThrow(NotFoundException);
+      expect(queryRunner.rollbackTransaction).toHaveBeenCalled();
+    });
 
-      const result = await service.findOverdueTasks(limit, offset);
+    it('should reject making a task its own parent', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({ ...mockTask, parentId: null });
 
-      expect(queryBuilder.where).toHaveBeenCalledWith('task.dueDate < :now', {
-        now: expect.any(Date),
+      await expect(service.update('1', { parentId: '1' }, actor)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject moving a task below one of its descendants', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({ ...mockTask, parentId: null });
+      (queryRunner.manager.query as jest.Mock).mockResolvedValue([{ '?column?': 1 }]);
+
+      await expect(service.update('1', { parentId: '2' }, actor)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(queryRunner.manager.save).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to complete a parent with open subtasks', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({
+        ...mockTask,
+        status: TaskStatus.PENDING,
       });
-      expect(queryBuilder.andWhere).toHaveBeenCalledWith('task.status != :completed', {
-        completed: TaskStatus.COMPLETED,
+      (queryRunner.manager.count as jest.Mock).mockResolvedValue(2);
+
+      await expect(service.update('1', { status: TaskStatus.COMPLETED }, actor)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(queryRunner.rollbackTransaction).toHaveBeenCalled();
+    });
+
+    it('should report open subtasks per task in batch completion', async () => {
+      (queryRunner.manager.findOne as jest.Mock).mockResolvedValue({
+        ...mockTask,
+        status: TaskStatus.PENDING,
       });
-      expect(queryBuilder.orderBy).toHaveBeenCalledWith('task.dueDate', 'ASC');
-      expect(queryBuilder.take).toHaveBeenCalledWith(limit);
-      expect(queryBuilder.skip).toHaveBeenCalledWith(offset);
-      expect(result).toEqual(mockedTasks);
+      (queryRunner.manager.count as jest.Mock).mockResolvedValue(1);
+
+      const result = await service.batchProcess({ tasks: ['1'], action: 'complete' }, actor);
+
+      expect(result[0].success).toBe(false);
+      expect(result[0].error).toContain('subtask');
     });
 
-    it('should use default offset when not provided', async () => {
-      const limit = 10;
-      (queryBuilder.getMany as jest.Mock).mockResolvedValueOnce([]);
+    it('should roll up the completion percentage of the subtree', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({ ...mockTask });
+      (repository.query as jest.Mock).mockResolvedValue([
+        { root_id: '1', total: '4', completed: '1' },
+      ]);
 
-      await service.findOverdueTasks(limit);
+      const result = await service.findOne('1', actor);
 
-      expect(queryBuilder.skip).toHaveBeenCalledWith(0);
+      expect(result.completionPercentage).toBe(25);
     });
 
-    it('should handle empty result set', async () => {
-      const limit = 10;
-      const offset = 0;
-      (queryBuilder.getMany as jest.Mock).mockResolvedValueOnce([]);
+    it('should leave the completion percentage empty without subtasks', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({ ...mockTask });
 
-      const result = await service.findOverdueTasks(limit, offset);
+      const result = await service.findOne('1', actor);
 
-      expect(result).toEqual([]);
+      expect(result.completionPercentage).toBeNull();
+    });
+
+    it('should count the checklist items and those done', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({ ...mockTask });
+      (repository.query as jest.Mock).mockImplementation(async (sql: string) =>
+        sql.includes('task_checklist_items') ? [{ task_id: '1', total: '3', done: '2' }] : [],
+      );
+
+      const result = await service.findOne('1', actor);
+
+      expect(result.checklist).toEqual({ total: 3, done: 2 });
+    });
+
+    it('should assemble the subtree from its descendants', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({ ...mockTask });
+      (repository.query as jest.Mock).mockResolvedValueOnce([]);
+      (repository.query as jest.Mock).mockResolvedValueOnce([]);
+      (repository.query as jest.Mock).mockResolvedValueOnce([{ id: '2' }, { id: '3' }]);
+      (repository.find as jest.Mock).mockResolvedValue([
+        { ...mockTask, id: '2', parentId: '1' },
+        { ...mockTask, id: '3', parentId: '2' },
+      ]);
+
+      const result = await service.findSubtree('1', actor);
+
+      expect(result.children.map(child => child.id)).toEqual(['2']);
+      expect(result.children[0].children.map(child => child.id)).toEqual(['3']);
+    });
+
+    it('should filter top-level tasks only', async () => {
+      await service.findAll({ topLevelOnly: true, limit: 10 }, actor);
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('task.parentId IS NULL');
+    });
+
+    it('should filter tasks with open checklist items', async () => {
+      await service.findAll({ hasOpenChecklistItems: true, limit: 10 }, actor);
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('ci.done = false'),
+      );
+    });
+  });
+
+  describe('dependencies', () => {
+    it('should flag blocked tasks in responses', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({ ...mockTask, id: '5' });
+      dependenciesService.findBlockedTaskIds.mockResolvedValue(new Set(['5']));
+
+      const result = await service.findOne('5', actor);
+
+      expect(result.blocked).toBe(true);
+    });
+
+    it('should reject starting a blocked task', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({
+        ...mockTask,
+        status: TaskStatus.PENDING,
+      });
+      dependenciesService.findBlockedTaskIds.mockImplementation(async (_ids, manager) =>
+        manager === queryRunner.manager ? new Set(['1']) : new Set(),
+      );
+
+      await expect(service.update('1', { status: TaskStatus.IN_PROGRESS }, actor)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(queryRunner.manager.save).not.toHaveBeenCalled();
+    });
+
+    it('should allow other edits on a blocked task', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({
+        ...mockTask,
+        status: TaskStatus.PENDING,
+      });
+      dependenciesService.findBlockedTaskIds.mockResolvedValue(new Set(['1']));
+      (queryRunner.manager.save as jest.Mock).mockImplementation(async (_, task) => task);
+
+      const result = await service.update('1', { title: 'Renamed' }, actor);
+
+      expect(result.title).toBe('Renamed');
+    });
+
+    it('should enqueue an unblock job when a task is completed', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({
+        ...mockTask,
+        status: TaskStatus.IN_PROGRESS,
+      });
+      (queryRunner.manager.save as jest.Mock).mockImplementation(async (_, task) => task);
+
+      await service.update('1', { status: TaskStatus.COMPLETED }, actor);
+
+      expect(queue.add).toHaveBeenCalledWith(
+        'task-dependents-unblock',
+        { taskId: '1' },
+        expect.any(Object),
+      );
+    });
+  });
+
+  describe('remove', () => {
+    it('should move the task and its subtasks to the trash', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue(mockTask);
+
+      await service.remove('1', actor);
+
+      expect(queryRunner.startTransaction).toHaveBeenCalled();
+      expect(queryRunner.manager.query).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE tasks SET deleted_at = now()'),
+        ['1'],
+      );
+      expect(queryRunner.manager.remove).not.toHaveBeenCalled();
+      expect(queryRunner.commitTransaction).toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException when task does not exist', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue(null);
+
+      await expect(service.remove('1', actor)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('concurrency', () => {
+    const storedTask = () => ({ ...mockTask, title: 'Test Task', version: 3 });
+    const storedEtag = taskEtag({
+      version: 3,
+      completionPercentage: null,
+      blocked: false,
+      checklist: { total: 0, done: 0 },
+    });
+
+    it('should apply updates whose If-Match matches the locked version', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue(storedTask());
+      (queryRunner.manager.save as jest.Mock).mockImplementation(async (_, task) => ({
+        ...task,
+        version: task.version + 1,
+      }));
+
+      const result = await service.update('1', { title: 'Renamed' }, actor, storedEtag);
+
+      expect(queryRunner.manager.findOne).toHaveBeenCalledWith(Task, {
+        where: { id: '1', organizationId: 'org-1' },
+        select: ['id'],
+        lock: { mode: 'pessimistic_write' },
+      });
+      expect(result.version).toBe(4);
+      expect(queryRunner.manager.increment).not.toHaveBeenCalled();
+      expect(queryRunner.commitTransaction).toHaveBeenCalled();
+    });
+
+    it('should apply the changes to the task as it was locked', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue(storedTask());
+      (queryRunner.manager.findOne as jest.Mock).mockResolvedValue({
+        ...storedTask(),
+        description: 'Changed meanwhile',
+      });
+      (queryRunner.manager.save as jest.Mock).mockImplementation(async (_, task) => task);
+
+      const result = await service.update('1', { title: 'Renamed' }, actor, storedEtag);
+
+      expect(result).toMatchObject({ title: 'Renamed', description: 'Changed meanwhile' });
+    });
+
+    it('should refuse stale updates with the current task', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue(storedTask());
+
+      const error = await service.update('1', { title: 'Late' }, actor, '"2"').catch(e => e);
+
+      expect(error).toBeInstanceOf(PreconditionFailedException);
+      expect(error.getResponse().data).toMatchObject({ id: '1', version: 3 });
+      expect(queryRunner.manager.save).not.toHaveBeenCalled();
+      expect(queryRunner.rollbackTransaction).toHaveBeenCalled();
+    });
+
+    it('should refuse updates based on outdated checklist progress', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue(storedTask());
+      (repository.query as jest.Mock).mockImplementation(async (sql: string) =>
+        sql.includes('task_checklist_items') ? [{ task_id: '1', total: '1', done: '1' }] : [],
+      );
+
+      await expect(service.update('1', { title: 'Late' }, actor, storedEtag)).rejects.toThrow(
+        PreconditionFailedException,
+      );
+      expect(queryRunner.manager.save).not.toHaveBeenCalled();
+    });
+
+    it('should refuse stale deletions', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({ ...storedTask(), version: 4 });
+
+      await expect(service.remove('1', actor, storedEtag)).rejects.toThrow(
+        PreconditionFailedException,
+      );
+      expect(queryRunner.manager.query).not.toHaveBeenCalled();
+    });
+
+    it('should only require If-Match in strict mode', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue(storedTask());
+      (queryRunner.manager.save as jest.Mock).mockImplementation(async (_, task) => task);
+
+      await expect(service.update('1', { title: 'Lenient' }, actor)).resolves.toBeDefined();
+
+      config.TASK_REQUIRE_IF_MATCH = 'true';
+      const error = await service.update('1', { title: 'Strict' }, actor).catch(e => e);
+      expect(error.getStatus()).toBe(HttpStatus.PRECONDITION_REQUIRED);
+    });
+
+    it('should bump the version when only assignees or watchers change', async () => {
+      (repository.findOne as jest.Mock).mockImplementation(async () => storedTask());
+      (queryRunner.manager.save as jest.Mock).mockImplementation(async (_, task) => task);
+
+      const updated = await service.update('1', { assigneeIds: ['1', '2'] }, actor);
+      expect(queryRunner.manager.increment).toHaveBeenCalledWith(Task, { id: '1' }, 'version', 1);
+      expect(updated.version).toBe(4);
+
+      const watched = await service.watch('1', actor);
+      expect(queryRunner.manager.increment).toHaveBeenCalledTimes(2);
+      expect(watched.version).toBe(4);
+    });
+  });
+
+  describe('trash', () => {
+    const trashedTask = () => ({
+      ...mockTask,
+      parentId: null,
+      organizationId: 'org-1',
+      deletedAt: new Date(),
+    });
+
+    it('should only list trashed tasks the actor can see', async () => {
+      const result = await service.findTrash({ page: 1, limit: 10 }, member);
+
+      expect(queryBuilder.withDeleted).toHaveBeenCalled();
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('task.deletedAt IS NOT NULL');
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('task_assignees'),
+        {
+          actorId: '2',
+        },
+      );
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith('task.deletedAt', 'DESC');
+      expect(result).toEqual({ items: [mockTask], total: 1, page: 1, pageCount: 1 });
+    });
+
+    it('should restore a trashed task with the subtasks trashed along with it', async () => {
+      (queryRunner.manager.findOne as jest.Mock).mockResolvedValue(trashedTask());
+      (repository.findOne as jest.Mock).mockResolvedValue({ ...trashedTask(), deletedAt: null });
+
+      const result = await service.restore('1', actor);
+
+      expect(queryRunner.manager.findOne).toHaveBeenCalledWith(Task, {
+        where: { id: '1', organizationId: 'org-1', deletedAt: expect.any(Object) },
+        relations: ['labels'],
+        withDeleted: true,
+      });
+      expect(queryRunner.manager.query).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE tasks SET deleted_at = NULL'),
+        ['1'],
+      );
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: AuditAction.RESTORE, entityId: '1' }),
+        queryRunner.manager,
+      );
+      expect(queryRunner.commitTransaction).toHaveBeenCalled();
+      expect(result.deletedAt).toBeNull();
+    });
+
+    it('should not restore a subtask while its parent is in the trash', async () => {
+      (queryRunner.manager.findOne as jest.Mock).mockResolvedValue({
+        ...trashedTask(),
+        parentId: 'p1',
+      });
+      (queryRunner.manager.exists as jest.Mock).mockResolvedValue(true);
+
+      await expect(service.restore('1', actor)).rejects.toThrow(ConflictException);
+      expect(queryRunner.manager.query).not.toHaveBeenCalled();
+      expect(queryRunner.rollbackTransaction).toHaveBeenCalled();
+    });
+
+    it('should hide trashed tasks the actor cannot read', async () => {
+      (queryRunner.manager.findOne as jest.Mock).mockResolvedValue(trashedTask());
+
+      await expect(service.restore('1', member)).rejects.toThrow(NotFoundException);
+      await expect(service.purge('1', member)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should only purge tasks that are in the trash', async () => {
+      (queryRunner.manager.findOne as jest.Mock).mockResolvedValueOnce(null);
+      await expect(service.purge('1', actor)).rejects.toThrow(NotFoundException);
+
+      const task = trashedTask();
+      (queryRunner.manager.findOne as jest.Mock).mockResolvedValueOnce(task);
+      attachmentsService.findStorageKeys.mockResolvedValue(['abc']);
+      await service.purge('1', actor);
+
+      expect(queryRunner.manager.remove).toHaveBeenCalledWith(Task, task);
+      expect(attachmentsService.findStorageKeys).toHaveBeenCalledWith(['1'], queryRunner.manager);
+      expect(attachmentsService.deleteOrphanedFiles).toHaveBeenCalledWith(['abc']);
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: AuditAction.PURGE, actorId: '1' }),
+        queryRunner.manager,
+      );
+    });
+
+    it('should purge the trash older than the cutoff', async () => {
+      const cutoff = new Date('2025-08-01T00:00:00Z');
+      (queryRunner.manager.find as jest.Mock).mockResolvedValue([
+        { id: '1', organizationId: 'org-1' },
+        { id: '2', organizationId: 'org-2' },
+      ]);
+      attachmentsService.findStorageKeys.mockResolvedValue(['abc', 'def']);
+
+      const purged = await service.purgeTrash(cutoff);
+
+      expect(queryRunner.manager.find).toHaveBeenCalledWith(Task, {
+        where: { deletedAt: expect.any(Object) },
+        select: ['id', 'organizationId'],
+        withDeleted: true,
+      });
+      expect(queryRunner.manager.delete).toHaveBeenCalledWith(Task, { id: expect.any(Object) });
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ entityId: '2', action: AuditAction.PURGE, actorId: null }),
+        queryRunner.manager,
+      );
+      expect(attachmentsService.deleteOrphanedFiles).toHaveBeenCalledWith(['abc', 'def']);
+      expect(purged).toBe(2);
+    });
+
+    it('should not delete anything when no trashed task expired', async () => {
+      (queryRunner.manager.find as jest.Mock).mockResolvedValue([]);
+
+      await expect(service.purgeTrash(new Date())).resolves.toBe(0);
+      expect(queryRunner.manager.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recurrence', () => {
+    const start = new Date('2025-01-06T09:00:00Z');
+
+    const series = (overrides: Partial<TaskRecurrence> = {}): TaskRecurrence =>
+      ({
+        id: 'r1',
+        rule: 'FREQ=WEEKLY',
+        startsAt: start,
+        lastOccurrenceAt: start,
+        template: {
+          title: 'Weekly report',
+          description: null,
+          priority: TaskPriority.HIGH,
+          projectId: 'p1',
+          labelIds: ['l1', 'l2'],
+          assigneeIds: ['1', 'former-member'],
+        },
+        endedAt: null,
+        organizationId: 'org-1',
+        createdById: '1',
+        ...overrides,
+      }) as TaskRecurrence;
+
+    const occurrence = () => ({
+      ...mockTask,
+      status: TaskStatus.PENDING,
+      organizationId: 'org-1',
+      recurrenceId: 'r1',
+      dueDate: start,
+    });
+
+    /**
+     * Answers the lookups made while creating the next occurrence of `recurrence`.
+     */
+    const mockSeriesLookups = (recurrence: TaskRecurrence) => {
+      const manager = queryRunner.manager;
+      (manager.findOne as jest.Mock).mockImplementation(async (entity, options) =>
+        entity === TaskRecurrence
+          ? recurrence
+          : entity === Project
+            ? { id: 'p1', archived: true }
+            : repository.findOne(options),
+      );
+      (manager.find as jest.Mock).mockImplementation(async entity =>
+        entity === Label
+          ? [{ id: 'l1' }]
+          : entity === OrganizationMembership
+            ? [{ userId: '1' }]
+            : [],
+      );
+      (manager.save as jest.Mock).mockImplementation(async (_, entity) => ({
+        id: 't2',
+        ...entity,
+      }));
+    };
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should start a series at the due date of a new task', async () => {
+      (repository.create as jest.Mock).mockImplementation(data => ({ ...data }));
+      (queryRunner.manager.save as jest.Mock).mockImplementation(async (entity, data) => ({
+        ...data,
+        id: entity === TaskRecurrence ? 'r1' : '1',
+      }));
+
+      const result = await service.create(
+        {
+          title: 'Weekly report',
+          dueDate: '2025-01-06T09:00:00Z' as unknown as Date,
+          recurrence: ' FREQ=WEEKLY;BYDAY=MO ',
+        },
+        actor,
+      );
+
+      expect(queryRunner.manager.save).toHaveBeenCalledWith(TaskRecurrence, {
+        rule: 'FREQ=WEEKLY;BYDAY=MO',
+        startsAt: start,
+        lastOccurrenceAt: start,
+        template: {
+          title: 'Weekly report',
+          description: null,
+          priority: TaskPriority.MEDIUM,
+          projectId: null,
+          labelIds: [],
+          assigneeIds: ['1'],
+        },
+        organizationId: 'org-1',
+        createdById: '1',
+      });
+      expect(result.recurrenceId).toBe('r1');
+    });
+
+    it.each([
+      [{ title: 'No rule', dueDate: start, recurrence: 'FREQ=HOURLY' }, 'FREQ=HOURLY'],
+      [{ title: 'No due date', recurrence: 'FREQ=DAILY' }, 'needs a due date'],
+      [
+        { title: 'Subtask', dueDate: start, parentId: 'p', recurrence: 'FREQ=DAILY' },
+        'Subtasks cannot repeat',
+      ],
+    ])('should refuse to repeat %p', async (dto, message) => {
+      await expect(service.create(dto as CreateTaskDto, actor)).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(service.create(dto as CreateTaskDto, actor)).rejects.toThrow(message);
+      expect(queryRunner.startTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should create the next occurrence when the last open one is completed', async () => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2025-01-06T10:00:00Z'));
+      const recurrence = series();
+      (repository.findOne as jest.Mock).mockResolvedValue(occurrence());
+      mockSeriesLookups(recurrence);
+
+      await service.update('1', { status: TaskStatus.COMPLETED }, actor);
+
+      expect(queryRunner.manager.findOne).toHaveBeenCalledWith(TaskRecurrence, {
+        where: { id: 'r1' },
+        lock: { mode: 'pessimistic_write' },
+      });
+      expect(queryRunner.manager.save).toHaveBeenCalledWith(Task, {
+        title: 'Weekly report',
+        description: undefined,
+        priority: TaskPriority.HIGH,
+        status: TaskStatus.PENDING,
+        dueDate: new Date('2025-01-13T09:00:00Z'),
+        // The project was archived, one label was deleted and one assignee left.
+        projectId: null,
+        labels: [{ id: 'l1' }],
+        createdById: '1',
+        organizationId: 'org-1',
+        recurrenceId: 'r1',
+      });
+      expect(relationQueryBuilder.of).toHaveBeenCalledWith('t2');
+      expect(relationQueryBuilder.add).toHaveBeenCalledWith(['1']);
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ entityId: 't2', action: AuditAction.CREATE, actorId: null }),
+        queryRunner.manager,
+      );
+      expect(recurrence.lastOccurrenceAt).toEqual(new Date('2025-01-13T09:00:00Z'));
+    });
+
+    it('should wait for open occurrences to be completed', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue(occurrence());
+      mockSeriesLookups(series());
+      (queryRunner.manager.count as jest.Mock).mockImplementation(async (_, { where }) =>
+        where.recurrenceId ? 1 : 0,
+      );
+
+      await service.update('1', { status: TaskStatus.COMPLETED }, actor);
+
+      expect(queryRunner.manager.save).not.toHaveBeenCalledWith(TaskRecurrence, expect.anything());
+      expect(queryRunner.manager.save).toHaveBeenCalledTimes(1);
+    });
+
+    it('should end a series that has no occurrences left', async () => {
+      const recurrence = series({ rule: 'FREQ=WEEKLY;COUNT=1' });
+      mockSeriesLookups(recurrence);
+      (queryRunner.manager.findOne as jest.Mock).mockImplementationOnce(async () => occurrence());
+
+      await service.batchProcess({ tasks: ['1'], action: 'complete' }, actor);
+
+      expect(recurrence.endedAt).toBeInstanceOf(Date);
+      expect(queryRunner.manager.save).not.toHaveBeenCalledWith(
+        Task,
+        expect.objectContaining({ id: undefined }),
+      );
+      expect(queryRunner.manager.save).toHaveBeenCalledWith(TaskRecurrence, recurrence);
+    });
+
+    it('should create occurrences of series that came due', async () => {
+      const now = new Date('2025-01-06T09:30:00Z');
+      (repository.manager.find as jest.Mock).mockResolvedValue([{ id: 'r1' }, { id: 'r2' }]);
+      // The second series was moved on by a completion meanwhile.
+      mockSeriesLookups(series({ id: 'r2', lastOccurrenceAt: new Date('2025-01-13') }));
+      (queryRunner.manager.findOne as jest.Mock).mockImplementationOnce(async () => series());
+
+      const created = await service.generateDueOccurrences(now);
+
+      expect(repository.manager.find).toHaveBeenCalledWith(TaskRecurrence, {
+        where: { endedAt: expect.any(Object), lastOccurrenceAt: expect.any(Object) },
+        select: ['id'],
+      });
+      expect(queryRunner.manager.save).toHaveBeenCalledWith(
+        Task,
+        expect.objectContaining({ dueDate: new Date('2025-01-13T09:00:00Z') }),
+      );
+      expect(created).toBe(1);
+    });
+
+    /**
+     * Answers the lookups made while updating the open occurrences `ids` of `recurrence`.
+     */
+    const mockOccurrenceLookups = (recurrence: TaskRecurrence, ids: string[]) => {
+      (repository.findOne as jest.Mock).mockResolvedValue(occurrence());
+      (repository.manager.findOne as jest.Mock).mockResolvedValue(recurrence);
+      (queryRunner.manager.findOne as jest.Mock).mockImplementation(async (entity, { where }) =>
+        entity === TaskRecurrence ? recurrence : { ...occurrence(), id: where.id },
+      );
+      (queryRunner.manager.find as jest.Mock).mockResolvedValue(ids.map(id => ({ id })));
+      (queryRunner.manager.save as jest.Mock).mockImplementation(async (_, entity) => entity);
+    };
+
+    it('should update this and all future open occurrences', async () => {
+      const recurrence = series();
+      mockOccurrenceLookups(recurrence, ['1', '3']);
+
+      const result = await service.updateRecurrence(
+        '1',
+        { title: 'Monthly report', rule: 'FREQ=MONTHLY' },
+        actor,
+      );
+
+      for (const id of ['1', '3']) {
+        expect(queryRunner.manager.findOne).toHaveBeenCalledWith(Task, {
+          where: { id, organizationId: 'org-1' },
+          select: ['id'],
+          lock: { mode: 'pessimistic_write' },
+        });
+        expect(queryRunner.manager.save).toHaveBeenCalledWith(
+          Task,
+          expect.objectContaining({ id, title: 'Monthly report' }),
+        );
+      }
+      expect(queryRunner.manager.save).toHaveBeenCalledWith(TaskRecurrence, recurrence);
+      expect(repository.manager.transaction).toHaveBeenCalledTimes(1);
+      expect(recurrence.template.title).toBe('Monthly report');
+      expect(recurrence.rule).toBe('FREQ=MONTHLY');
+      expect(recurrence.startsAt).toEqual(start);
+      expect(result.nextOccurrenceAt).toBeInstanceOf(Date);
+    });
+
+    it('should not require an If-Match header for the occurrences', async () => {
+      config.TASK_REQUIRE_IF_MATCH = 'true';
+      mockOccurrenceLookups(series(), ['1', '3']);
+
+      await expect(
+        service.updateRecurrence('1', { title: 'Monthly report' }, actor),
+      ).resolves.toBeDefined();
+    });
+
+    it('should leave the series alone when a later occurrence cannot be changed', async () => {
+      const recurrence = series();
+      mockOccurrenceLookups(recurrence, ['1', '3']);
+      wipLimitsService.enforce
+        .mockResolvedValueOnce([])
+        .mockRejectedValueOnce(new ConflictException('WIP limit reached'));
+
+      await expect(service.updateRecurrence('1', { assigneeIds: ['1'] }, actor)).rejects.toThrow(
+        ConflictException,
+      );
+
+      expect(repository.manager.transaction).toHaveBeenCalledTimes(1);
+      expect(queryRunner.manager.save).toHaveBeenCalledWith(
+        Task,
+        expect.objectContaining({ id: '1' }),
+      );
+      expect(queryRunner.manager.save).not.toHaveBeenCalledWith(TaskRecurrence, recurrence);
+      expect(recurrence.template.assigneeIds).toEqual(['1', 'former-member']);
+    });
+
+    it('should not change the series before checking the changes', async () => {
+      mockOccurrenceLookups(series(), ['1']);
+
+      await expect(
+        service.updateRecurrence('1', { rule: 'FREQ=SOMETIMES' }, actor),
+      ).rejects.toThrow(BadRequestException);
+      await expect(service.updateRecurrence('1', { assigneeIds: ['3'] }, member)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(queryRunner.manager.save).not.toHaveBeenCalled();
+    });
+
+    it('should stop a series', async () => {
+      const recurrence = series();
+      mockOccurrenceLookups(recurrence, []);
+
+      await service.stopRecurrence('1', actor);
+
+      expect(recurrence.endedAt).toBeInstanceOf(Date);
+      await expect(service.findRecurrence('1', actor)).resolves.toMatchObject({
+        nextOccurrenceAt: null,
+      });
+      await expect(service.updateRecurrence('1', { title: 'Late' }, actor)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should report tasks that do not repeat', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({ ...occurrence(), recurrenceId: null });
+
+      await expect(service.findRecurrence('1', actor)).rejects.toThrow('Task 1 does not repeat');
+    });
+  });
+
+  describe('findByStatus', () => {
+    it('should return tasks with specified status', async () => {
+      await service.findByStatus(TaskStatus.PENDING, 'org-1');
+
+      expect(queryBuilder.where).toHaveBeenCalledWith('task.status = :status', {
+        status: TaskStatus.PENDING,
+      });
+    });
+  });
+
+  describe('getStats', () => {
+    it('should return task statistics', async () => {
+      const result = await service.getStats(actor);
+
+      expect(result).toEqual({
+        total: 1,
+        completed: 0,
+        inProgress: 0,
+        pending: 1,
+        highPriority: 0,
+        byLabel: [],
+        byProject: [],
+      });
+    });
+
+    it('should break down counts per label', async () => {
+      (queryBuilder.getRawMany as jest.Mock).mockResolvedValueOnce([
+        { labelId: 'l1', name: 'bug', total: '3', completed: '1', inProgress: '1', pending: '1' },
+      ]);
+
+      const result = await service.getStats(actor);
+
+      expect(queryBuilder.innerJoin).toHaveBeenCalledWith('task.labels', 'label');
+      expect(result.byLabel).toEqual([
+        { labelId: 'l1', name: 'bug', total: 3, completed: 1, inProgress: 1, pending: 1 },
+      ]);
+    });
+
+    it('should break down counts per project', async () => {
+      (queryBuilder.getRawMany as jest.Mock).mockResolvedValueOnce([]).mockResolvedValueOnce([
+        {
+          projectId: 'p1',
+          key: 'WEB',
+          name: 'Website',
+          archived: false,
+          total: '2',
+          completed: '1',
+          inProgress: '0',
+          pending: '1',
+        },
+      ]);
+
+      const result = await service.getStats(actor);
+
+      expect(queryBuilder.innerJoin).toHaveBeenCalledWith('task.project', 'project');
+      expect(result.byProject).toEqual([
+        {
+          projectId: 'p1',
+          key: 'WEB',
+          name: 'Website',
+          archived: false,
+          total: 2,
+          completed: 1,
+          inProgress: 0,
+          pending: 1,
+        },
+      ]);
+    });
+  });
+
+  describe('getTimeReport', () => {
+    it('should round logged and estimated minutes per task, user and project', async () => {
+      (queryBuilder.getRawOne as jest.Mock).mockResolvedValueOnce({
+        estimatedMinutes: '120',
+        loggedMinutes: '90.4',
+      });
+      (queryBuilder.getRawMany as jest.Mock)
+        .mockResolvedValueOnce([
+          { taskId: '1', title: 'Test Task', estimateMinutes: 120, loggedMinutes: '90.4' },
+        ])
+        .mockResolvedValueOnce([{ userId: '1', name: 'Owner', loggedMinutes: '90.4' }])
+        .mockResolvedValueOnce([
+          {
+            projectId: 'p1',
+            key: 'WEB',
+            name: 'Website',
+            estimatedMinutes: '120',
+            loggedMinutes: '90.4',
+          },
+        ]);
+
+      const result = await service.getTimeReport({}, actor);
+
+      expect(result).toEqual({
+        estimatedMinutes: 120,
+        loggedMinutes: 90,
+        byTask: [{ taskId: '1', title: 'Test Task', estimateMinutes: 120, loggedMinutes: 90 }],
+        byUser: [{ userId: '1', name: 'Owner', loggedMinutes: 90 }],
+        byProject: [
+          {
+            projectId: 'p1',
+            key: 'WEB',
+            name: 'Website',
+            estimatedMinutes: 120,
+            loggedMinutes: 90,
+          },
+        ],
+      });
+    });
+
+    it('should only count the entries of the given period and user', async () => {
+      (queryBuilder.getRawOne as jest.Mock).mockResolvedValueOnce({
+        estimatedMinutes: null,
+        loggedMinutes: null,
+      });
+
+      const result = await service.getTimeReport(
+        { from: '2025-01-01T00:00:00Z', userId: 'u2', projectId: 'p1' },
+        actor,
+      );
+
+      expect(result.loggedMinutes).toBe(0);
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('task.projectId = :projectId', {
+        projectId: 'p1',
+      });
+      expect(queryBuilder.setParameters).toHaveBeenCalledWith({
+        from: new Date('2025-01-01T00:00:00Z'),
+        userId: 'u2',
+      });
+      expect(queryBuilder.addSelect).toHaveBeenCalledWith(
+        expect.stringContaining('e.started_at >= :from AND e.user_id = :userId'),
+        'loggedMinutes',
+      );
+    });
+  });
+
+  describe('tenancy', () => {
+    it('should scope listings to the organization', async () => {
+      await service.findAll({ limit: 10 }, actor);
+
+      expect(queryBuilder.where).toHaveBeenCalledWith('task.organizationId = :organizationId', {
+        organizationId: 'org-1',
+      });
+    });
+
+    it('should not create tasks for users outside the organization', async () => {
+      (queryRunner.manager.exists as jest.Mock).mockResolvedValueOnce(false);
+
+      await expect(
+        service.create({ title: 'Foreign', assigneeIds: ['u-other'] } as CreateTaskDto, actor),
+      ).rejects.toThrow(NotFoundException);
+      expect(queryRunner.manager.save).not.toHaveBeenCalled();
+      expect(queryRunner.rollbackTransaction).toHaveBeenCalled();
+    });
+
+    it('should skip tasks of other organizations in batch operations', async () => {
+      (queryRunner.manager.findOne as jest.Mock).mockResolvedValue(null);
+
+      const results = await service.batchProcess(
+        { tasks: ['1'], action: 'delete' },
+        { ...actor, organizationId: 'org-2' },
+      );
+
+      expect(queryRunner.manager.findOne).toHaveBeenCalledWith(Task, {
+        where: { id: '1', organizationId: 'org-2' },
+      });
+      expect(results).toEqual([{ taskId: '1', success: false, error: 'Task 1 not found' }]);
+    });
+  });
+
+  describe('projects', () => {
+    it('should reject new tasks in an archived project', async () => {
+      (queryRunner.manager.findOne as jest.Mock).mockResolvedValue({
+        id: 'p1',
+        key: 'WEB',
+        archived: true,
+      });
+
+      await expect(
+        service.create({ title: 'Late', projectId: 'p1' } as CreateTaskDto, actor),
+      ).rejects.toThrow(ConflictException);
+      expect(queryRunner.rollbackTransaction).toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown project', async () => {
+      (queryRunner.manager.findOne as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        service.create({ title: 'Lost', projectId: 'missing' } as CreateTaskDto, actor),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('labels', () => {
+    it('should attach labels owned by the task creator on create', async () => {
+      const labels = [{ id: 'l1', name: 'bug', ownerId: '1' }];
+      (repository.create as jest.Mock).mockImplementation(data => ({ ...data }));
+      (queryRunner.manager.find as jest.Mock).mockResolvedValue(labels);
+      (queryRunner.manager.save as jest.Mock).mockImplementation(async (_, task) => task);
+
+      const result = await service.create(
+        {
+          title: 'Labelled',
+          labelIds: ['l1'],
+        } as CreateTaskDto,
+        actor,
+      );
+
+      expect(repository.create).toHaveBeenCalledWith({
+        title: 'Labelled',
+        createdById: '1',
+        organizationId: 'org-1',
+      });
+      expect(result.labels).toEqual(labels);
+    });
+
+    it('should reject labels that do not belong to the task creator', async () => {
+      (repository.create as jest.Mock).mockImplementation(data => ({ ...data }));
+      (queryRunner.manager.find as jest.Mock).mockResolvedValue([]);
+
+      await expect(
+        service.create({ title: 'Labelled', labelIds: ['l2'] } as CreateTaskDto, actor),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should match any of the given labels', async () => {
+      await service.findAll({ labels: ['Bug', 'frontend'], labelMatch: 'any', limit: 10 }, actor);
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(expect.stringContaining('EXISTS'), {
+        labelNames: ['bug', 'frontend'],
+      });
+    });
+
+    it('should match all of the given labels', async () => {
+      await service.findAll({ labels: ['bug', 'frontend'], labelMatch: 'all', limit: 10 }, actor);
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('COUNT(DISTINCT'),
+        {
+          labelNames: ['bug', 'frontend'],
+          labelCount: 2,
+        },
+      );
+    });
+  });
+
+  describe('batchProcess', () => {
+    it('should process multiple tasks for completion', async () => {
+      const operations = {
+        tasks: ['1', '2'],
+        action: 'complete' as const,
+      };
+
+      (queryRunner.manager.findOne as jest.Mock)
+        .mockResolvedValueOnce(mockTask)
+        .mockResolvedValueOnce({ ...mockTask, id: '2' });
+      (queryRunner.manager.save as jest.Mock).mockImplementation(async (_, task) => task);
+
+      const result = await service.batchProcess(operations, actor);
+
+      expect(result.length).toBe(2);
+      expect(result[0].success).toBe(true);
+      expect(queryRunner.commitTransaction).toHaveBeenCalled();
+    });
+
+    it('should handle errors for individual tasks', async () => {
+      const operations = {
+        tasks: ['1'],
+        action: 'complete' as const,
+      };
+
+      (queryRunner.manager.findOne as jest.Mock).mockRejectedValue(new Error('Task not found'));
+
+      const result = await service.batchProcess(operations, actor);
+
+      expect(result[0].success).toBe(false);
+      expect(result[0].error).toBe('Task not found');
+    });
+  });
+
+  describe('WIP limits', () => {
+    const overLimit = 'in the organization at most 1 task(s) may be IN_PROGRESS and 1 already are';
+
+    beforeEach(() => {
+      (repository.findOne as jest.Mock).mockResolvedValue({
+        ...mockTask,
+        status: TaskStatus.PENDING,
+        projectId: 'p1',
+        assigneeIds: ['1'],
+      });
+      (queryRunner.manager.save as jest.Mock).mockImplementation(async (_, task) => task);
+    });
+
+    it('should check the limits of where an update takes the task', async () => {
+      (queryRunner.manager.findOne as jest.Mock).mockImplementation(async (entity, options) =>
+        entity === Project ? { id: 'p2', archived: false } : repository.findOne(options),
+      );
+
+      await service.update(
+        '1',
+        { status: TaskStatus.IN_PROGRESS, projectId: 'p2', assigneeIds: ['1', '2'] },
+        actor,
+      );
+
+      expect(wipLimitsService.enforce).toHaveBeenCalledWith(
+        '1',
+        'org-1',
+        { status: TaskStatus.PENDING, projectId: 'p1', assigneeIds: ['1'] },
+        { status: TaskStatus.IN_PROGRESS, projectId: 'p2', assigneeIds: ['1', '2'] },
+        false,
+        queryRunner.manager,
+      );
+    });
+
+    it('should refuse updates that exceed a limit', async () => {
+      wipLimitsService.enforce.mockRejectedValue(new ConflictException(overLimit));
+
+      await expect(service.update('1', { status: TaskStatus.IN_PROGRESS }, actor)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(queryRunner.manager.save).not.toHaveBeenCalled();
+      expect(queryRunner.rollbackTransaction).toHaveBeenCalled();
+    });
+
+    it('should record overridden limits in the audit log', async () => {
+      wipLimitsService.enforce.mockResolvedValue([overLimit]);
+
+      await service.update('1', { status: TaskStatus.IN_PROGRESS, overrideWipLimit: true }, actor);
+
+      expect(wipLimitsService.enforce.mock.calls[0][4]).toBe(true);
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.STATUS_CHANGE,
+          changes: {
+            status: { from: TaskStatus.PENDING, to: TaskStatus.IN_PROGRESS },
+            wipLimitOverride: { from: null, to: [overLimit] },
+          },
+        }),
+        queryRunner.manager,
+      );
+    });
+
+    it('should only let admins override limits', async () => {
+      await expect(
+        service.update('1', { status: TaskStatus.IN_PROGRESS, overrideWipLimit: true }, member),
+      ).rejects.toThrow('Only admins can override WIP limits');
+      await expect(
+        service.move('1', { status: TaskStatus.IN_PROGRESS, overrideWipLimit: true }, member),
+      ).rejects.toThrow(ForbiddenException);
+      await expect(
+        service.batchProcess({ tasks: ['1'], action: 'complete', overrideWipLimit: true }, member),
+      ).rejects.toThrow(ForbiddenException);
+      await expect(
+        service.create({ title: 'New', overrideWipLimit: true }, member),
+      ).rejects.toThrow(ForbiddenException);
+      await expect(service.assign('1', '2', member, true)).rejects.toThrow(ForbiddenException);
+      expect(wipLimitsService.enforce).not.toHaveBeenCalled();
+    });
+
+    it('should check the limits of a new task', async () => {
+      (repository.create as jest.Mock).mockImplementation(task => ({ ...task, id: 't1' }));
+      wipLimitsService.enforce.mockRejectedValue(new ConflictException(overLimit));
+
+      await expect(
+        service.create({ title: 'New', status: TaskStatus.IN_PROGRESS }, actor),
+      ).rejects.toThrow(ConflictException);
+      expect(wipLimitsService.enforce).toHaveBeenCalledWith(
+        't1',
+        'org-1',
+        null,
+        expect.objectContaining({ status: TaskStatus.IN_PROGRESS, assigneeIds: ['1'] }),
+        false,
+        queryRunner.manager,
+      );
+      expect(auditService.record).not.toHaveBeenCalled();
+      expect(queryRunner.rollbackTransaction).toHaveBeenCalled();
+    });
+
+    it('should check the limits of every task of a tree', async () => {
+      let nextId = 0;
+      (queryRunner.manager.save as jest.Mock).mockImplementation(async (_, task) => ({
+        ...task,
+        id: `t${++nextId}`,
+      }));
+      wipLimitsService.enforce.mockResolvedValueOnce([]).mockResolvedValueOnce([overLimit]);
+
+      await service.createTree(
+        { title: 'Release', subtasks: [{ title: 'Tag' }] },
+        { overrideWipLimit: true },
+        actor,
+      );
+
+      expect(wipLimitsService.enforce.mock.calls.map(call => [call[0], call[4]])).toEqual([
+        ['t1', true],
+        ['t2', true],
+      ]);
+      expect(auditService.record).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          entityId: 't2',
+          changes: expect.objectContaining({
+            wipLimitOverride: { from: null, to: [overLimit] },
+          }),
+        }),
+        queryRunner.manager,
+      );
+    });
+
+    it('should refuse assignments that exceed a limit', async () => {
+      wipLimitsService.enforce.mockRejectedValue(new ConflictException(overLimit));
+
+      await expect(service.assign('1', '2', actor)).rejects.toThrow(ConflictException);
+      expect(wipLimitsService.enforce).toHaveBeenCalledWith(
+        '1',
+        'org-1',
+        { status: TaskStatus.PENDING, projectId: 'p1', assigneeIds: ['1'] },
+        { status: TaskStatus.PENDING, projectId: 'p1', assigneeIds: ['1', '2'] },
+        false,
+        queryRunner.manager,
+      );
+      expect(relationQueryBuilder.add).not.toHaveBeenCalled();
+    });
+
+    it('should apply the limits to system status changes', async () => {
+      wipLimitsService.enforce.mockRejectedValue(new ConflictException(overLimit));
+
+      await expect(service.updateStatus('1', TaskStatus.IN_PROGRESS, 'org-1')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(wipLimitsService.enforce).toHaveBeenCalledWith(
+        '1',
+        'org-1',
+        expect.objectContaining({ status: TaskStatus.PENDING }),
+        expect.objectContaining({ status: TaskStatus.IN_PROGRESS }),
+        false,
+        queryRunner.manager,
+      );
+      expect(queryRunner.manager.findOne).toHaveBeenCalledWith(
+        Task,
+        expect.objectContaining({ lock: { mode: 'pessimistic_write' } }),
+      );
+      expect(queryRunner.manager.save).not.toHaveBeenCalled();
+    });
+
+    it('should hold queued status changes to blockers and limits', async () => {
+      const manager = {
+        findOne: jest
+          .fn()
+          .mockResolvedValue({ ...mockTask, status: TaskStatus.PENDING, organizationId: 'org-1' }),
+        save: jest.fn(),
+      };
+      dependenciesService.findBlockedTaskIds.mockResolvedValueOnce(new Set(['1']));
+
+      await expect(
+        service.updateStatusWithManager(
+          '1',
+          TaskStatus.IN_PROGRESS,
+          manager as unknown as QueryRunner['manager'],
+        ),
+      ).rejects.toThrow('blocked by unfinished dependencies');
+
+      wipLimitsService.enforce.mockRejectedValue(new ConflictException(overLimit));
+      await expect(
+        service.updateStatusWithManager(
+          '1',
+          TaskStatus.IN_PROGRESS,
+          manager as unknown as QueryRunner['manager'],
+        ),
+      ).rejects.toThrow(ConflictException);
+      expect(wipLimitsService.enforce).toHaveBeenCalledWith(
+        '1',
+        'org-1',
+        expect.objectContaining({ status: TaskStatus.PENDING }),
+        expect.objectContaining({ status: TaskStatus.IN_PROGRESS }),
+        false,
+        manager,
+      );
+      expect(manager.findOne).toHaveBeenCalledWith(
+        Task,
+        expect.objectContaining({ lock: { mode: 'pessimistic_write' } }),
+      );
+      expect(manager.save).not.toHaveBeenCalled();
+    });
+
+    it('should report batch items that exceed a limit', async () => {
+      (queryRunner.manager.findOne as jest.Mock).mockResolvedValue({
+        ...mockTask,
+        status: TaskStatus.IN_PROGRESS,
+      });
+      wipLimitsService.enforce.mockRejectedValue(new ConflictException(overLimit));
+
+      const result = await service.batchProcess({ tasks: ['1'], action: 'complete' }, actor);
+
+      expect(result).toEqual([{ taskId: '1', success: false, error: overLimit }]);
+      expect(queryRunner.commitTransaction).toHaveBeenCalled();
+    });
+  });
+
+  describe('findOverdueTasks', () => {
+    it('should return overdue tasks with pagination', async () => {
+      const limit = 10;
+      const offset = 0;
+      const mockedTasks = [{ ...mockTask, dueDate: new Date(Date.now() - 86400000) }];
+
+      (queryBuilder.getMany as jest.Mock).mockResolvedValueOnce(mockedTasks);
+
+      const result = await service.findOverdueTasks('org-1', limit, offset);
+
+      expect(queryBuilder.where).toHaveBeenCalledWith('task.organizationId = :organizationId', {
+        organizationId: 'org-1',
+      });
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('task.dueDate < :now', {
+        now: expect.any(Date),
+      });
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('task.status != :completed', {
+        completed: TaskStatus.COMPLETED,
+      });
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith('task.dueDate', 'ASC');
+      expect(queryBuilder.take).toHaveBeenCalledWith(limit);
+      expect(queryBuilder.skip).toHaveBeenCalledWith(offset);
+      expect(result).toEqual(mockedTasks);
+    });
+
+    it('should use default offset when not provided', async () => {
+      const limit = 10;
+      (queryBuilder.getMany as jest.Mock).mockResolvedValueOnce([]);
+
+      await service.findOverdueTasks('org-1', limit);
+
+      expect(queryBuilder.skip).toHaveBeenCalledWith(0);
+    });
+
+    it('should handle empty result set', async () => {
+      const limit = 10;
+      const offset = 0;
+      (queryBuilder.getMany as jest.Mock).mockResolvedValueOnce([]);
+
+      const result = await service.findOverdueTasks('org-1', limit, offset);
+
+      expect(result).toEqual([]);
+    });
+  });
+
+  describe('ownership', () => {
+    const auditor: AuthUser = {
+      ...member,
+      permissions: [...member.permissions, Permission.TASK_READ_ANY],
+    };
+
+    it('should hide tasks owned by others from members', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({
+        ...mockTask,
+        createdById: '1',
+        assigneeIds: ['1'],
+      });
+
+      await expect(service.findOne('1', member)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should let members read their own tasks', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({
+        ...mockTask,
+        createdById: '2',
+        assigneeIds: ['2'],
+      });
+
+      await expect(service.findOne('1', member)).resolves.toMatchObject({ createdById: '2' });
+    });
+
+    it('should restrict lists to own tasks for members', async () => {
+      await service.findAll({}, member);
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('task.createdById = :actorId'),
+        { actorId: '2' },
+      );
+    });
+
+    it('should not restrict lists for holders of task:read:any', async () => {
+      await service.findAll({}, auditor);
+
+      expect(queryBuilder.andWhere).not.toHaveBeenCalledWith(
+        expect.stringContaining('task.createdById = :actorId'),
+        expect.anything(),
+      );
+    });
+
+    it('should restrict statistics to own tasks for members', async () => {
+      await service.getStats(member);
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('task.createdById = :actorId'),
+        { actorId: '2' },
+      );
+    });
+
+    it('should leave out subtasks the member cannot read', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({
+        ...mockTask,
+        createdById: '2',
+        assigneeIds: ['2'],
+      });
+      (repository.find as jest.Mock).mockResolvedValue([
+        { ...mockTask, id: 'c1', createdById: '2', assigneeIds: ['2'] },
+        { ...mockTask, id: 'c2', createdById: '1', assigneeIds: ['1'] },
+      ]);
+
+      const children = await service.findChildren('1', member);
+
+      expect(children.map(child => child.id)).toEqual(['c1']);
+    });
+
+    it('should record the caller as creator and first assignee on create', async () => {
+      (queryRunner.manager.save as jest.Mock).mockResolvedValue({ ...mockTask, id: 't2' });
+
+      const result = await service.create({ title: 'Mine' }, member);
+
+      expect(repository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ createdById: '2', organizationId: 'org-1' }),
+      );
+      expect(queryBuilder.relation).toHaveBeenCalledWith(Task, 'assignees');
+      expect(relationQueryBuilder.of).toHaveBeenCalledWith('t2');
+      expect(relationQueryBuilder.add).toHaveBeenCalledWith(['2']);
+      expect(result).toMatchObject({ assigneeIds: ['2'], watcherIds: [] });
+    });
+
+    it('should not let members assign others on create', async () => {
+      await expect(service.create({ title: 'Theirs', assigneeIds: ['1'] }, member)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(queryRunner.manager.save).not.toHaveBeenCalled();
+    });
+
+    it('should let organization admins assign others on create', async () => {
+      (queryRunner.manager.save as jest.Mock).mockResolvedValue({ ...mockTask });
+
+      await service.create({ title: 'Theirs', assigneeIds: ['2', '2'] }, actor);
+
+      expect(repository.create).toHaveBeenCalledWith(expect.objectContaining({ createdById: '1' }));
+      expect(relationQueryBuilder.add).toHaveBeenCalledWith(['2']);
+    });
+
+    it('should not let members edit tasks they can only read', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({
+        ...mockTask,
+        createdById: '1',
+        assigneeIds: ['1'],
+      });
+
+      await expect(service.update('1', { title: 'Edited' }, auditor)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(queryRunner.manager.save).not.toHaveBeenCalled();
+      expect(queryRunner.rollbackTransaction).toHaveBeenCalled();
+    });
+
+    it('should not let members assign others on update', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({
+        ...mockTask,
+        createdById: '2',
+        assigneeIds: ['2'],
+      });
+
+      await expect(service.update('1', { assigneeIds: ['2', '3'] }, member)).rejects.toThrow(
+        'Only admins can assign tasks to other users',
+      );
+    });
+
+    it('should replace the assignees on update', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({ ...mockTask, assigneeIds: ['1', '2'] });
+      (queryRunner.manager.save as jest.Mock).mockImplementation(async (_, task) => task);
+
+      const result = await service.update('1', { assigneeIds: ['1', '3'] }, actor);
+
+      expect(relationQueryBuilder.addAndRemove).toHaveBeenCalledWith(['3'], ['2']);
+      expect(result.assigneeIds).toEqual(['1', '3']);
+    });
+
+    it('should let owners edit their tasks', async () => {
+      const ownTask = {
+        ...mockTask,
+        status: TaskStatus.PENDING,
+        createdById: '2',
+        assigneeIds: ['2'],
+      };
+      (repository.findOne as jest.Mock).mockResolvedValue(ownTask);
+      (queryRunner.manager.save as jest.Mock).mockResolvedValue({ ...ownTask, title: 'Edited' });
+
+      await expect(service.update('1', { title: 'Edited' }, member)).resolves.toMatchObject({
+        title: 'Edited',
+      });
+    });
+
+    it('should require task:delete to delete an own task', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({
+        ...mockTask,
+        createdById: '2',
+        assigneeIds: ['2'],
+      });
+      const readOnly: AuthUser = { ...member, permissions: [Permission.TASK_READ] };
+
+      await expect(service.remove('1', readOnly)).rejects.toThrow(ForbiddenException);
+      expect(queryRunner.manager.query).not.toHaveBeenCalled();
+    });
+
+    it('should report forbidden tasks in batch operations', async () => {
+      (queryRunner.manager.findOne as jest.Mock).mockResolvedValue({
+        ...mockTask,
+        createdById: '1',
+        assigneeIds: ['1'],
+      });
+
+      const results = await service.batchProcess({ tasks: ['1'], action: 'delete' }, auditor);
+
+      expect(results).toEqual([
+        { taskId: '1', success: false, error: 'You are not allowed to delete this task' },
+      ]);
+      expect(queryRunner.manager.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('participants', () => {
+    it('should resolve `me` in the participant filters', async () => {
+      await service.findAll({ assignee: 'me', createdBy: 'me', watching: 'me' }, member);
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('task_assignees'),
+        { assigneeId: '2' },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('task.createdById = :createdById', {
+        createdById: '2',
+      });
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(expect.stringContaining('task_watchers'), {
+        watcherId: '2',
+      });
+    });
+
+    it('should filter by the given assignee', async () => {
+      await service.findAll({ assignee: 'u-3' }, actor);
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('task_assignees'),
+        { assigneeId: 'u-3' },
+      );
+    });
+
+    it('should let watchers read but not edit a task', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({ ...mockTask, watcherIds: ['2'] });
+
+      await expect(service.findOne('1', member)).resolves.toMatchObject({ id: '1' });
+      await expect(service.update('1', { title: 'Edited' }, member)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should let assignees edit but not delete a task', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({ ...mockTask, assigneeIds: ['1', '2'] });
+      (queryRunner.manager.save as jest.Mock).mockImplementation(async (_, task) => task);
+
+      await expect(service.update('1', { title: 'Edited' }, member)).resolves.toMatchObject({
+        title: 'Edited',
+      });
+      await expect(service.remove('1', member)).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should assign an organization member', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({ ...mockTask });
+
+      const result = await service.assign('1', '2', actor);
+
+      expect(queryBuilder.relation).toHaveBeenCalledWith(Task, 'assignees');
+      expect(relationQueryBuilder.add).toHaveBeenCalledWith('2');
+      expect(result.assigneeIds).toEqual(['1', '2']);
+      // The task stays locked until the assignee, version and activity are written.
+      expect(queryRunner.manager.findOne).toHaveBeenCalledWith(
+        Task,
+        expect.objectContaining({ lock: { mode: 'pessimistic_write' } }),
+      );
+      expect(queryRunner.manager.increment).toHaveBeenCalledWith(Task, { id: '1' }, 'version', 1);
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          changes: { assigneeIds: { from: ['1'], to: ['1', '2'] } },
+        }),
+        queryRunner.manager,
+      );
+    });
+
+    it('should reject assigning a user twice', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({ ...mockTask });
+
+      await expect(service.assign('1', '1', actor)).rejects.toThrow(ConflictException);
+    });
+
+    it('should not assign users outside the organization', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({ ...mockTask });
+      (queryRunner.manager.exists as jest.Mock).mockResolvedValueOnce(false);
+
+      await expect(service.assign('1', 'u-other', actor)).rejects.toThrow(NotFoundException);
+      expect(relationQueryBuilder.add).not.toHaveBeenCalled();
+    });
+
+    it('should not let members take others off a task', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({ ...mockTask, assigneeIds: ['1', '2'] });
+
+      await expect(service.unassign('1', '1', member)).rejects.toThrow(ForbiddenException);
+      await expect(service.unassign('1', '2', member)).resolves.toBeUndefined();
+      expect(relationQueryBuilder.remove).toHaveBeenCalledWith('2');
+    });
+
+    it('should report users that are not assigned', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({ ...mockTask });
+
+      await expect(service.unassign('1', '3', actor)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should add and remove the caller as a watcher', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({ ...mockTask });
+
+      const result = await service.watch('1', actor);
+      expect(queryBuilder.relation).toHaveBeenCalledWith(Task, 'watchers');
+      expect(relationQueryBuilder.add).toHaveBeenCalledWith('1');
+      expect(result.watcherIds).toEqual(['1']);
+
+      (repository.findOne as jest.Mock).mockResolvedValue({ ...mockTask, watcherIds: ['1'] });
+      await service.unwatch('1', actor);
+      expect(relationQueryBuilder.remove).toHaveBeenCalledWith('1');
+    });
+
+    it('should reject watching twice and unwatching unwatched tasks', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue({ ...mockTask, watcherIds: ['1'] });
+      await expect(service.watch('1', actor)).rejects.toThrow(ConflictException);
+
+      (repository.findOne as jest.Mock).mockResolvedValue({ ...mockTask });
+      await expect(service.unwatch('1', actor)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('activity', () => {
+    // Other tests edit mockTask in place, so start from known field values.
+    const storedTask = () => ({
+      ...mockTask,
+      title: 'Test Task',
+      description: 'Test Description',
+      status: TaskStatus.PENDING,
+    });
+
+    it('should record the created fields', async () => {
+      (repository.create as jest.Mock).mockImplementation(data => ({ ...data }));
+      (queryRunner.manager.save as jest.Mock).mockImplementation(async (_, task) => ({
+        ...task,
+        id: 't1',
+      }));
+
+      await service.create({ title: 'Logged', priority: TaskPriority.HIGH }, actor);
+
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          organizationId: 'org-1',
+          entityType: 'task',
+          entityId: 't1',
+          action: AuditAction.CREATE,
+          actorId: '1',
+          changes: expect.objectContaining({
+            title: { from: null, to: 'Logged' },
+            priority: { from: null, to: TaskPriority.HIGH },
+            assigneeIds: { from: null, to: ['1'] },
+          }),
+        }),
+        queryRunner.manager,
+      );
+    });
+
+    it('should record only the fields an update changed', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue(storedTask());
+      (queryRunner.manager.save as jest.Mock).mockImplementation(async (_, task) => task);
+
+      await service.update('1', { title: 'Renamed', description: 'Test Description' }, actor);
+
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.UPDATE,
+          changes: { title: { from: 'Test Task', to: 'Renamed' } },
+        }),
+        queryRunner.manager,
+      );
+    });
+
+    it('should record status-only updates as status changes', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue(storedTask());
+      (queryRunner.manager.save as jest.Mock).mockImplementation(async (_, task) => task);
+
+      await service.update('1', { status: TaskStatus.IN_PROGRESS }, actor);
+
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.STATUS_CHANGE,
+          changes: { status: { from: TaskStatus.PENDING, to: TaskStatus.IN_PROGRESS } },
+        }),
+        queryRunner.manager,
+      );
+    });
+
+    it('should record the last known fields of deleted tasks', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue(storedTask());
+
+      await service.remove('1', actor);
+
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.DELETE,
+          entityId: '1',
+          changes: expect.objectContaining({ title: { from: 'Test Task', to: null } }),
+        }),
+        queryRunner.manager,
+      );
+    });
+
+    it('should record batch completions and deletions', async () => {
+      (queryRunner.manager.findOne as jest.Mock)
+        .mockResolvedValueOnce(storedTask())
+        .mockResolvedValueOnce({ ...storedTask(), id: '2' });
+      (queryRunner.manager.save as jest.Mock).mockImplementation(async (_, task) => task);
+
+      await service.batchProcess({ tasks: ['1'], action: 'complete' }, actor);
+      await service.batchProcess({ tasks: ['2'], action: 'delete' }, actor);
+
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          entityId: '1',
+          action: AuditAction.STATUS_CHANGE,
+          actorId: '1',
+          changes: { status: { from: TaskStatus.PENDING, to: TaskStatus.COMPLETED } },
+        }),
+        queryRunner.manager,
+      );
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ entityId: '2', action: AuditAction.DELETE }),
+        queryRunner.manager,
+      );
+    });
+
+    it('should attribute queued status updates to the given actor', async () => {
+      const manager = {
+        findOne: jest.fn().mockResolvedValue(storedTask()),
+        save: jest.fn().mockImplementation(async (_, task) => task),
+      };
+
+      await service.updateStatusWithManager(
+        '1',
+        TaskStatus.IN_PROGRESS,
+        manager as unknown as QueryRunner['manager'],
+        'u-7',
+      );
+
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: AuditAction.STATUS_CHANGE, actorId: 'u-7' }),
+        manager,
+      );
+    });
+
+    it('should only list the activity of readable tasks', async () => {
+      (repository.findOne as jest.Mock).mockResolvedValue(storedTask());
+      auditService.findForEntity.mockResolvedValue({ items: [], nextCursor: null });
+
+      await service.findActivity('1', { limit: 10 }, actor);
+      expect(auditService.findForEntity).toHaveBeenCalledWith('task', '1', 'org-1', { limit: 10 });
+
+      await expect(service.findActivity('1', {}, member)).rejects.toThrow(NotFoundException);
     });
   });
 });
@@ -1,14 +1,118 @@
 import { InjectQueue } from '@nestjs/bullmq';
-import { HttpException, HttpStatus, Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+  PreconditionFailedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Queue } from 'bullmq';
-import { EntityManager, Repository } from 'typeorm';
+import {
+  EntityManager,
+  In,
+  IsNull,
+  LessThan,
+  LessThanOrEqual,
+  MoreThanOrEqual,
+  Not,
+  Repository,
+  SelectQueryBuilder,
+} from 'typeorm';
+import { decodeCursor, encodeCursor, keysetCondition } from '../../common/utils/cursor.util';
+import { etagMatches } from '../../common/utils/etag.util';
+import { buildTsQuery, SEARCH_CONFIG } from '../../common/utils/full-text-search.util';
+import { parseSort, SortDirection, SortField } from '../../common/utils/sort.util';
+import { PaginatedResponse } from '../../types/pagination.interface';
+import { AuditService } from '../audit/audit.service';
+import { ActivityFilterDto } from '../audit/dto/activity-filter.dto';
+import { AuditChanges, AuditLog } from '../audit/entities/audit-log.entity';
+import { AuditAction } from '../audit/enums/audit-action.enum';
+import { diffFields } from '../audit/utils/field-diff.util';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { isOrganizationAdmin, PolicyAction } from '../auth/policies/policy';
+import { Label } from '../labels/entities/label.entity';
+import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
+import { Project } from '../projects/entities/project.entity';
+import { BoardFilterDto } from './dto/board-filter.dto';
 import { CreateTaskDto } from './dto/create-task.dto';
+import { MoveTaskDto } from './dto/move-task.dto';
 import { TaskFilterDto } from './dto/task-filter.dto';
+import { TaskSearchDto } from './dto/task-search.dto';
+import { TimeReportFilterDto } from './dto/time-report-filter.dto';
+import { TrashFilterDto } from './dto/trash-filter.dto';
+import { UpdateTaskRecurrenceDto } from './dto/update-task-recurrence.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
+import { TaskRecurrence, TaskRecurrenceTemplate } from './entities/task-recurrence.entity';
 import { Task } from './entities/task.entity';
+import { TimeEntry } from './entities/time-entry.entity';
 import { TaskPriority } from './enums/task-priority.enum';
 import { TaskStatus } from './enums/task-status.enum';
+import { BoardColumn } from './interfaces/board-column.interface';
+import { TaskDraft } from './interfaces/task-draft.interface';
+import { TaskSearchResult } from './interfaces/task-search-result.interface';
+import { WipPlacement } from './interfaces/wip-placement.interface';
+import { parseTaskQuery } from './query/task-query.parser';
+import { TaskPolicy } from './policies/task.policy';
+import { MAX_RANK_LENGTH, rankBetween, spreadRanks } from './ranking/rank-key';
+import { nextOccurrence, parseRecurrenceRule } from './recurrence/recurrence-rule';
+import { TaskAttachmentsService } from './task-attachments.service';
+import { TaskDependenciesService } from './task-dependencies.service';
+import { taskEtag } from './utils/task-etag.util';
+import { WipLimitsService } from './wip-limits.service';
+
+const rank = (column: string, values: string[]) =>
+  `CASE ${column} ${values.map((value, index) => `WHEN '${value}' THEN ${index}`).join(' ')} END`;
+
+/**
+ * SQL behind the fields tasks can be sorted by. Priority and status sort by
+ * rank rather than alphabetically, and tasks without a due date count as due
+ * last.
+ */
+const TASK_SORT_EXPRESSIONS = {
+  createdAt: 'task.created_at',
+  updatedAt: 'task.updated_at',
+  dueDate: `COALESCE(task.due_date, 'infinity'::timestamp)`,
+  priority: rank('task.priority', [TaskPriority.LOW, TaskPriority.MEDIUM, TaskPriority.HIGH]),
+  status: rank('task.status', [TaskStatus.PENDING, TaskStatus.IN_PROGRESS, TaskStatus.COMPLETED]),
+  title: 'task.title',
+};
+
+type TaskSortField = keyof typeof TASK_SORT_EXPRESSIONS;
+
+const DEFAULT_TASK_SORT = 'createdAt:desc';
+
+const HIGHLIGHT_OPTIONS = 'StartSel=<mark>, StopSel=</mark>';
+
+/**
+ * HTML-escapes a text column in SQL. Highlights are meant to be rendered as
+ * HTML, so everything around the `<mark>` tags must be inert text.
+ */
+const escapeHtml = (column: string) =>
+  [
+    ['&', '&amp;'],
+    ['<', '&lt;'],
+    ['>', '&gt;'],
+    ['"', '&quot;'],
+    ["''", '&#39;'],
+  ].reduce((sql, [from, to]) => `replace(${sql}, '${from}', '${to}')`, column);
+
+/** Tasks listed in a time report, those with the most time logged first. */
+const TIME_REPORT_TASK_LIMIT = 100;
+
+/** Tasks shown per board column; the column's total is reported alongside. */
+const BOARD_COLUMN_LIMIT = 200;
+
+interface TaskCursor extends Record<string, unknown> {
+  sort: string;
+  values: string[];
+  id: string;
+  direction: 'next' | 'prev';
+}
 
 @Injectable()
 export class TasksService {
@@ -17,20 +121,105 @@ export class TasksService {
     private tasksRepository: Repository<Task>,
     @InjectQueue('task-processing')
     private taskQueue: Queue,
+    private taskDependenciesService: TaskDependenciesService,
+    private taskAttachmentsService: TaskAttachmentsService,
+    private wipLimitsService: WipLimitsService,
+    private taskPolicy: TaskPolicy,
+    private auditService: AuditService,
+    private configService: ConfigService,
   ) {}
 
-  async create(createTaskDto: CreateTaskDto): Promise<Task> {
+  async create(createTaskDto: CreateTaskDto, actor: AuthUser): Promise<Task> {
+    const { organizationId } = actor;
+    const assigneeIds = [...new Set(createTaskDto.assigneeIds ?? [actor.id])];
+    this.assertCanAssign(actor, assigneeIds);
+    this.assertCanOverrideWipLimits(actor, createTaskDto.overrideWipLimit ?? false);
+    if (createTaskDto.recurrence !== undefined) {
+      this.assertCanRecur(createTaskDto);
+    }
+
     const queryRunner = this.tasksRepository.manager.connection.createQueryRunner();
     await queryRunner.connect();
     await queryRunner.startTransaction();
 
     try {
-      const task = this.tasksRepository.create(createTaskDto);
+      await this.assertOrganizationMembers(assigneeIds, organizationId, queryRunner.manager);
+      if (createTaskDto.parentId) {
+        await this.assertValidParent(
+          null,
+          createTaskDto.parentId,
+          organizationId,
+          queryRunner.manager,
+        );
+      }
+      if (createTaskDto.projectId) {
+        await this.assertProjectAcceptsTasks(
+          createTaskDto.projectId,
+          organizationId,
+          queryRunner.manager,
+        );
+      }
+      const {
+        labelIds,
+        assigneeIds: _assigneeIds,
+        recurrence,
+        overrideWipLimit = false,
+        ...taskData
+      } = createTaskDto;
+      const task = this.tasksRepository.create({
+        ...taskData,
+        createdById: actor.id,
+        organizationId,
+      });
+      if (labelIds) {
+        task.labels = await this.resolveLabels(labelIds, task.createdById, queryRunner.manager);
+      }
+      if (recurrence !== undefined) {
+        const dueDate = new Date(task.dueDate);
+        const series = await queryRunner.manager.save(
+          TaskRecurrence,
+          queryRunner.manager.create(TaskRecurrence, {
+            rule: recurrence.trim(),
+            startsAt: dueDate,
+            lastOccurrenceAt: dueDate,
+            template: this.recurrenceTemplate(task, assigneeIds),
+            organizationId,
+            createdById: actor.id,
+          }),
+        );
+        task.recurrenceId = series.id;
+      }
       const savedTask = await queryRunner.manager.save(Task, task);
+      await queryRunner.manager
+        .createQueryBuilder()
+        .relation(Task, 'assignees')
+        .of(savedTask.id)
+        .add(assigneeIds);
+      savedTask.assigneeIds = assigneeIds;
+      savedTask.watcherIds = [];
+      const overriddenLimits = await this.wipLimitsService.enforce(
+        savedTask.id,
+        organizationId,
+        null,
+        this.wipPlacement(savedTask),
+        overrideWipLimit,
+        queryRunner.manager,
+      );
+      await this.recordActivity(
+        savedTask,
+        AuditAction.CREATE,
+        {
+          ...diffFields(null, this.auditSnapshot(savedTask)),
+          ...this.wipOverrideChanges(overriddenLimits),
+        },
+        actor.id,
+        queryRunner.manager,
+      );
       try {
         await this.enqueueWithRetry('task-status-update', {
           taskId: savedTask.id,
           status: savedTask.status,
+          actorId: actor.id,
         });
       } catch (queueError) {
         console.error('Failed to add task to queue after retries:', queueError);
@@ -45,24 +234,141 @@ export class TasksService {
     }
   }
 
-  async findAll(
-    filterDto: TaskFilterDto,
-  ): Promise<{ items: Task[]; total: number; page: number; pageCount: number }> {
+  /**
+   * Creates a task together with its tree of subtasks in one transaction.
+   * Every task of the tree gets the same project and assignees, which default
+   * to the actor like in `create`. Returns the top task with its `children`.
+   */
+  async createTree(
+    draft: TaskDraft,
+    options: Pick<CreateTaskDto, 'projectId' | 'parentId' | 'assigneeIds' | 'overrideWipLimit'>,
+    actor: AuthUser,
+  ): Promise<Task> {
+    const { organizationId } = actor;
+    const assigneeIds = [...new Set(options.assigneeIds ?? [actor.id])];
+    const { overrideWipLimit = false } = options;
+    this.assertCanAssign(actor, assigneeIds);
+    this.assertCanOverrideWipLimits(actor, overrideWipLimit);
+
+    const queryRunner = this.tasksRepository.manager.connection.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      await this.assertOrganizationMembers(assigneeIds, organizationId, queryRunner.manager);
+      if (options.parentId) {
+        await this.assertValidParent(null, options.parentId, organizationId, queryRunner.manager);
+      }
+      if (options.projectId) {
+        await this.assertProjectAcceptsTasks(
+          options.projectId,
+          organizationId,
+          queryRunner.manager,
+        );
+      }
+      const root = await this.saveDraft(
+        draft,
+        { parentId: options.parentId ?? null, projectId: options.projectId ?? null, assigneeIds },
+        actor,
+        overrideWipLimit,
+        queryRunner.manager,
+      );
+      await queryRunner.commitTransaction();
+      return root;
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  private async saveDraft(
+    draft: TaskDraft,
+    placement: { parentId: string | null; projectId: string | null; assigneeIds: string[] },
+    actor: AuthUser,
+    overrideWipLimit: boolean,
+    manager: EntityManager,
+  ): Promise<Task> {
+    const { subtasks = [], ...fields } = draft;
+    const { assigneeIds, ...position } = placement;
+    const task = await manager.save(
+      Task,
+      manager.create(Task, {
+        ...fields,
+        ...position,
+        createdById: actor.id,
+        organizationId: actor.organizationId,
+      }),
+    );
+    if (assigneeIds.length) {
+      await manager.createQueryBuilder().relation(Task, 'assignees').of(task.id).add(assigneeIds);
+    }
+    task.assigneeIds = assigneeIds;
+    task.watcherIds = [];
+    const overriddenLimits = await this.wipLimitsService.enforce(
+      task.id,
+      task.organizationId,
+      null,
+      this.wipPlacement(task),
+      overrideWipLimit,
+      manager,
+    );
+    await this.recordActivity(
+      task,
+      AuditAction.CREATE,
+      {
+        ...diffFields(null, this.auditSnapshot(task)),
+        ...this.wipOverrideChanges(overriddenLimits),
+      },
+      actor.id,
+      manager,
+    );
+
+    task.children = [];
+    for (const subtask of subtasks) {
+      task.children.push(
+        await this.saveDraft(
+          subtask,
+          { ...placement, parentId: task.id },
+          actor,
+          overrideWipLimit,
+          manager,
+        ),
+      );
+    }
+    return task;
+  }
+
+  async findAll(filterDto: TaskFilterDto, actor: AuthUser): Promise<PaginatedResponse<Task>> {
+    const filters = filterDto.q ? { ...filterDto, ...parseTaskQuery(filterDto.q) } : filterDto;
     const {
       status,
       priority,
       searchTerm,
-      userId,
+      assignee,
+      createdBy,
+      watching,
+      parentId,
+      topLevelOnly,
+      hasOpenChecklistItems,
+      labels,
+      labelMatch = 'any',
+      projectId,
+      includeArchived,
       dueDateStart,
       dueDateEnd,
-      page = 1,
+      cursor,
+      sort = DEFAULT_TASK_SORT,
+      includeTotal,
       limit = 10,
-    } = filterDto;
+    } = filters;
+    const sortFields = parseSort(sort, Object.keys(TASK_SORT_EXPRESSIONS) as TaskSortField[]);
 
-    const queryBuilder = this.tasksRepository
-      .createQueryBuilder('task')
-      .leftJoinAndSelect('task.user', 'user')
-      .select();
+    const queryBuilder = this.scopeToActor(
+      this.tasksRepository.createQueryBuilder('task').leftJoin('task.project', 'project'),
+      actor,
+    );
 
     if (status) {
       queryBuilder.andWhere('task.status = :status', { status });
@@ -73,14 +379,61 @@ export class TasksService {
     }
 
     if (searchTerm) {
+      const query = this.parseSearchQuery(searchTerm);
+      queryBuilder.andWhere(`task.search_vector @@ ${query.sql}`, query.parameters);
+    }
+
+    if (assignee) {
+      queryBuilder.andWhere(this.participantCondition('task_assignees', 'assigneeId'), {
+        assigneeId: assignee === 'me' ? actor.id : assignee,
+      });
+    }
+
+    if (createdBy) {
+      queryBuilder.andWhere('task.createdById = :createdById', {
+        createdById: createdBy === 'me' ? actor.id : createdBy,
+      });
+    }
+
+    if (watching) {
+      queryBuilder.andWhere(this.participantCondition('task_watchers', 'watcherId'), {
+        watcherId: watching === 'me' ? actor.id : watching,
+      });
+    }
+
+    if (parentId) {
+      queryBuilder.andWhere('task.parentId = :parentId', { parentId });
+    } else if (topLevelOnly) {
+      queryBuilder.andWhere('task.parentId IS NULL');
+    }
+
+    if (hasOpenChecklistItems) {
       queryBuilder.andWhere(
-        '(LOWER(task.title) LIKE LOWER(:search) OR LOWER(task.description) LIKE LOWER(:search))',
-        { search: `%${searchTerm}%` },
+        'EXISTS (SELECT 1 FROM task_checklist_items ci WHERE ci.task_id = task.id AND ci.done = false)',
       );
     }
 
-    if (userId) {
-      queryBuilder.andWhere('task.userId = :userId', { userId });
+    if (projectId) {
+      queryBuilder.andWhere('task.projectId = :projectId', { projectId });
+    } else if (!includeArchived) {
+      queryBuilder.andWhere('(task.projectId IS NULL OR project.archived = false)');
+    }
+
+    if (labels?.length) {
+      const labelNames = labels.map(name => name.toLowerCase());
+      if (labelMatch === 'all') {
+        queryBuilder.andWhere(
+          `(SELECT COUNT(DISTINCT LOWER(l.name)) FROM task_labels tl INNER JOIN labels l ON l.id = tl.label_id
+            WHERE tl.task_id = task.id AND LOWER(l.name) IN (:...labelNames)) = :labelCount`,
+          { labelNames, labelCount: new Set(labelNames).size },
+        );
+      } else {
+        queryBuilder.andWhere(
+          `EXISTS (SELECT 1 FROM task_labels tl INNER JOIN labels l ON l.id = tl.label_id
+            WHERE tl.task_id = task.id AND LOWER(l.name) IN (:...labelNames))`,
+          { labelNames },
+        );
+      }
     }
 
     if (dueDateStart) {
@@ -95,55 +448,417 @@ export class TasksService {
       });
     }
 
-    const total = await queryBuilder.getCount();
-    const pageCount = Math.ceil(total / limit);
+    const total = includeTotal ? await queryBuilder.getCount() : undefined;
+    const { items, next, prev } = await this.paginate(queryBuilder, sortFields, cursor, limit);
+    await this.attachComputedFields(items);
 
-    const items = await queryBuilder
-      .orderBy('task.createdAt', 'DESC')
-      .skip((page - 1) * limit)
-      .take(limit)
-      .getMany();
+    return {
+      data: items,
+      meta: { limit, next, prev, ...(total !== undefined && { total }) },
+    };
+  }
+
+  /**
+   * Ranks the tasks matching a full-text query, best match first, and
+   * highlights the matches in their title and description.
+   */
+  async search(searchDto: TaskSearchDto, actor: AuthUser): Promise<TaskSearchResult[]> {
+    const { q, projectId, includeArchived, limit = 20 } = searchDto;
+    const query = this.parseSearchQuery(q);
+
+    const queryBuilder = this.scopeToActor(
+      this.tasksRepository.createQueryBuilder('task').leftJoin('task.project', 'project'),
+      actor,
+    );
+    if (projectId) {
+      queryBuilder.andWhere('task.projectId = :projectId', { projectId });
+    } else if (!includeArchived) {
+      queryBuilder.andWhere('(task.projectId IS NULL OR project.archived = false)');
+    }
+
+    const rows: { id: string; rank: number; title: string; description: string | null }[] =
+      await queryBuilder
+        .andWhere(`task.search_vector @@ ${query.sql}`, query.parameters)
+        .select('task.id', 'id')
+        .addSelect(`ts_rank_cd(task.search_vector, ${query.sql})`, 'rank')
+        .addSelect(
+          `ts_headline('${SEARCH_CONFIG}', ${escapeHtml('task.title')}, ${query.sql}, '${HIGHLIGHT_OPTIONS}, HighlightAll=true')`,
+          'title',
+        )
+        .addSelect(
+          `ts_headline('${SEARCH_CONFIG}', ${escapeHtml('task.description')}, ${query.sql}, '${HIGHLIGHT_OPTIONS}, MaxFragments=2')`,
+          'description',
+        )
+        .orderBy('rank', 'DESC')
+        .addOrderBy('task.id', 'ASC')
+        .limit(limit)
+        .getRawMany();
+
+    const tasks = await this.findInOrder(rows.map(row => row.id));
+    await this.attachComputedFields(tasks);
+    const tasksById = new Map(tasks.map(task => [task.id, task]));
+
+    return rows.flatMap(({ id, rank, title, description }) => {
+      const task = tasksById.get(id);
+      return task ? [{ task, rank: Number(rank), highlights: { title, description } }] : [];
+    });
+  }
+
+  private parseSearchQuery(input: string): { sql: string; parameters: Record<string, string> } {
+    const query = buildTsQuery(input);
+    if (!query) {
+      throw new BadRequestException('The search query does not contain any words');
+    }
+    return query;
+  }
+
+  /**
+   * Loads tasks with the relations lists show, in the order of `ids`.
+   */
+  private async findInOrder(ids: string[]): Promise<Task[]> {
+    if (!ids.length) {
+      return [];
+    }
+    const tasks = await this.tasksRepository.find({
+      where: { id: In(ids) },
+      relations: ['createdBy', 'labels'],
+    });
+    const tasksById = new Map(tasks.map(task => [task.id, task]));
+    return ids.map(id => tasksById.get(id)).filter((task): task is Task => !!task);
+  }
+
+  /**
+   * Keyset pagination over the filtered tasks: the page is selected by the
+   * sort values of the task the cursor points at, so tasks inserted meanwhile
+   * never shift pages the way offsets do. The task ID breaks ties.
+   */
+  private async paginate(
+    queryBuilder: SelectQueryBuilder<Task>,
+    sortFields: SortField<TaskSortField>[],
+    cursor: string | undefined,
+    limit: number,
+  ): Promise<{ items: Task[]; next: string | null; prev: string | null }> {
+    const sortKey = sortFields
+      .map(({ field, direction }) => `${field}:${direction.toLowerCase()}`)
+      .join(',');
+    const expressions = sortFields.map(({ field }) => TASK_SORT_EXPRESSIONS[field]);
+    const position = cursor ? decodeCursor<TaskCursor>(cursor) : null;
+    if (position && (position.sort !== sortKey || position.values?.length !== expressions.length)) {
+      throw new BadRequestException('The pagination cursor belongs to a different sort order');
+    }
+
+    // Pages before the cursor are read in reverse order, then flipped back.
+    const backwards = position?.direction === 'prev';
+    const directions: SortDirection[] = [...sortFields.map(({ direction }) => direction), 'ASC'];
+    const readDirections = backwards
+      ? directions.map(direction => (direction === 'ASC' ? 'DESC' : 'ASC'))
+      : directions;
+    const keyset = [...expressions, 'task.id'];
+
+    const pageQuery = queryBuilder.clone().select('task.id', 'id');
+    expressions.forEach((expression, index) => {
+      pageQuery.addSelect(`(${expression})::text`, `sort${index}`);
+    });
+    if (position) {
+      const { condition, parameters } = keysetCondition(keyset, readDirections, [
+        ...position.values,
+        position.id,
+      ]);
+      pageQuery.andWhere(condition, parameters);
+    }
+    keyset.forEach((expression, index) => {
+      pageQuery.addOrderBy(expression, readDirections[index]);
+    });
+    const rows: Record<string, string>[] = await pageQuery.limit(limit + 1).getRawMany();
+
+    const hasMore = rows.length > limit;
+    const pageRows = rows.slice(0, limit);
+    if (backwards) {
+      pageRows.reverse();
+    }
+    const cursorAt = (row: Record<string, string> | undefined, direction: 'next' | 'prev') =>
+      row
+        ? encodeCursor({
+            sort: sortKey,
+            values: expressions.map((_, index) => row[`sort${index}`]),
+            id: row.id,
+            direction,
+          })
+        : null;
+    const first = pageRows[0];
+    const last = pageRows[pageRows.length - 1];
 
+    // Reading backwards the cursor's page follows this one, reading forwards it precedes it.
     return {
-      items,
-      total,
-      page,
-      pageCount,
+      items: await this.findInOrder(pageRows.map(row => row.id)),
+      next: backwards || hasMore ? cursorAt(last, 'next') : null,
+      prev: (backwards ? hasMore : !!position) ? cursorAt(first, 'prev') : null,
     };
   }
 
-  async findOne(id: string): Promise<Task> {
+  /**
+   * Tasks the actor may not read are reported as missing, like tasks of other
+   * organizations.
+   */
+  async findOne(id: string, actor: AuthUser): Promise<Task> {
+    const task = await this.findInOrganization(id, actor.organizationId);
+    if (!this.taskPolicy.can(actor, 'read', task)) {
+      throw new NotFoundException(`Task with ID ${id} not found`);
+    }
+    return task;
+  }
+
+  private async findInOrganization(id: string, organizationId: string): Promise<Task> {
     const task = await this.tasksRepository.findOne({
-      where: { id },
-      relations: ['user'],
+      where: { id, organizationId },
+      relations: ['createdBy', 'labels'],
     });
 
     if (!task) {
       throw new NotFoundException(`Task with ID ${id} not found`);
     }
 
+    await this.attachComputedFields([task]);
+    return task;
+  }
+
+  /**
+   * Loads a task to change it within the transaction of `manager`. Its row
+   * stays locked until the transaction ends. Tasks the actor may not read are
+   * reported as missing, like in `findOne`.
+   */
+  private async findForUpdate(
+    id: string,
+    actor: AuthUser,
+    action: PolicyAction,
+    manager: EntityManager,
+  ): Promise<Task> {
+    const task = await this.lockInOrganization(id, actor.organizationId, manager);
+    if (!task || !this.taskPolicy.can(actor, 'read', task)) {
+      throw new NotFoundException(`Task with ID ${id} not found`);
+    }
+    this.taskPolicy.authorize(actor, action, task);
+
+    await this.attachComputedFields([task]);
     return task;
   }
 
-  async update(id: string, updateTaskDto: UpdateTaskDto): Promise<Task> {
+  /**
+   * Locks the row of a task of the organization until the transaction of
+   * `manager` ends, then loads the task.
+   */
+  private async lockInOrganization(
+    id: string,
+    organizationId: string,
+    manager: EntityManager,
+  ): Promise<Task | null> {
+    const locked = await manager.findOne(Task, {
+      where: { id, organizationId },
+      select: ['id'],
+      lock: { mode: 'pessimistic_write' },
+    });
+    return locked && manager.findOne(Task, { where: { id }, relations: ['createdBy', 'labels'] });
+  }
+
+  async findChildren(id: string, actor: AuthUser): Promise<Task[]> {
+    await this.findOne(id, actor);
+
+    const children = await this.tasksRepository.find({
+      where: { parentId: id, organizationId: actor.organizationId },
+      order: { createdAt: 'ASC' },
+    });
+    return this.attachComputedFields(
+      children.filter(child => this.taskPolicy.can(actor, 'read', child)),
+    );
+  }
+
+  async findSubtree(id: string, actor: AuthUser): Promise<Task> {
+    const root = await this.findOne(id, actor);
+
+    const rows: { id: string }[] = await this.tasksRepository.query(
+      `WITH RECURSIVE subtree AS (
+        SELECT id FROM tasks WHERE parent_id = $1
+        UNION
+        SELECT t.id FROM tasks t INNER JOIN subtree s ON t.parent_id = s.id
+      )
+      SELECT id FROM subtree`,
+      [id],
+    );
+
+    // Unreadable subtasks are left out together with everything below them.
+    const descendants = rows.length
+      ? (
+          await this.tasksRepository.find({
+            where: { id: In(rows.map(row => row.id)), organizationId: actor.organizationId },
+            order: { createdAt: 'ASC' },
+          })
+        ).filter(descendant => this.taskPolicy.can(actor, 'read', descendant))
+      : [];
+    await this.attachComputedFields(descendants);
+
+    const childrenByParent = new Map<string, Task[]>();
+    for (const descendant of descendants) {
+      const siblings = childrenByParent.get(descendant.parentId as string) ?? [];
+      siblings.push(descendant);
+      childrenByParent.set(descendant.parentId as string, siblings);
+    }
+
+    const buildTree = (node: Task): Task => {
+      node.children = (childrenByParent.get(node.id) ?? []).map(buildTree);
+      return node;
+    };
+
+    return buildTree(root);
+  }
+
+  /**
+   * `ifMatch` is the request's `If-Match` header; the update is refused when
+   * it no longer matches the task's version.
+   */
+  async update(
+    id: string,
+    updateTaskDto: UpdateTaskDto,
+    actor: AuthUser,
+    ifMatch?: string,
+  ): Promise<Task> {
+    this.assertCanOverrideWipLimits(actor, updateTaskDto.overrideWipLimit ?? false);
+    const queryRunner = this.tasksRepository.manager.connection.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      const task = await this.findForUpdate(id, actor, 'update', queryRunner.manager);
+      this.assertIfMatch(task, ifMatch);
+      const updatedTask = await this.applyUpdate(task, updateTaskDto, actor, queryRunner.manager);
+
+      await queryRunner.commitTransaction();
+      return updatedTask;
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * Applies the changes of `update` to a task the actor may update, within
+   * the transaction of `manager`. Preconditions of the request are up to the
+   * caller.
+   */
+  private async applyUpdate(
+    task: Task,
+    updateTaskDto: UpdateTaskDto,
+    actor: AuthUser,
+    manager: EntityManager,
+  ): Promise<Task> {
+    const { organizationId } = actor;
+    const { labelIds, assigneeIds, overrideWipLimit = false, ...changes } = updateTaskDto;
+    const originalStatus = task.status;
+    const originalVersion = task.version;
+    const before = this.auditSnapshot(task);
+    const originalPlacement = this.wipPlacement(task);
+
+    const nextAssigneeIds = assigneeIds ? [...new Set(assigneeIds)] : task.assigneeIds;
+    const added = nextAssigneeIds.filter(userId => !task.assigneeIds.includes(userId));
+    const removed = task.assigneeIds.filter(userId => !nextAssigneeIds.includes(userId));
+    this.assertCanAssign(actor, [...added, ...removed]);
+    await this.assertOrganizationMembers(added, organizationId, manager);
+
+    if (updateTaskDto.parentId !== undefined && updateTaskDto.parentId !== task.parentId) {
+      await this.assertValidParent(task.id, updateTaskDto.parentId, organizationId, manager);
+    }
+
+    if (updateTaskDto.projectId && updateTaskDto.projectId !== task.projectId) {
+      await this.assertProjectAcceptsTasks(updateTaskDto.projectId, organizationId, manager);
+    }
+
+    if (updateTaskDto.status) {
+      await this.assertStatusTransition(task.id, originalStatus, updateTaskDto.status, manager);
+    }
+
+    Object.assign(task, changes);
+    const overriddenLimits = await this.wipLimitsService.enforce(
+      task.id,
+      organizationId,
+      originalPlacement,
+      this.wipPlacement(task, nextAssigneeIds),
+      overrideWipLimit,
+      manager,
+    );
+    if (labelIds) {
+      task.labels = await this.resolveLabels(labelIds, task.createdById, manager);
+    }
+    const updatedTask = await manager.save(Task, task);
+    if (added.length || removed.length) {
+      await manager
+        .createQueryBuilder()
+        .relation(Task, 'assignees')
+        .of(task.id)
+        .addAndRemove(added, removed);
+      updatedTask.assigneeIds = nextAssigneeIds;
+    }
+    const auditChanges = diffFields(before, this.auditSnapshot(updatedTask));
+    // Saving only bumps the version for column changes, not for new assignees or labels.
+    if (Object.keys(auditChanges).length && updatedTask.version === originalVersion) {
+      await this.bumpVersion(updatedTask, manager);
+    }
+    await this.recordActivity(
+      updatedTask,
+      this.updateAction(auditChanges),
+      { ...auditChanges, ...this.wipOverrideChanges(overriddenLimits) },
+      actor.id,
+      manager,
+    );
+    if (originalStatus !== updatedTask.status) {
+      await this.afterStatusChange(updatedTask, actor.id, manager);
+    }
+
+    return updatedTask;
+  }
+
+  /**
+   * Places a task on the board: in the column of `moveTaskDto.status`, next
+   * to the given neighbors. Changing the column is a status change like any
+   * other; the order within a column is not recorded as activity.
+   */
+  async move(id: string, moveTaskDto: MoveTaskDto, actor: AuthUser): Promise<Task> {
+    const { overrideWipLimit = false } = moveTaskDto;
+    this.assertCanOverrideWipLimits(actor, overrideWipLimit);
     const queryRunner = this.tasksRepository.manager.connection.createQueryRunner();
     await queryRunner.connect();
     await queryRunner.startTransaction();
 
     try {
-      const task = await this.findOne(id);
+      const task = await this.findForUpdate(id, actor, 'update', queryRunner.manager);
       const originalStatus = task.status;
-      Object.assign(task, updateTaskDto);
+      const status = moveTaskDto.status ?? originalStatus;
+      await this.assertStatusTransition(task.id, originalStatus, status, queryRunner.manager);
+      const originalPlacement = this.wipPlacement(task);
+
+      task.status = status;
+      const overriddenLimits = await this.wipLimitsService.enforce(
+        task.id,
+        task.organizationId,
+        originalPlacement,
+        this.wipPlacement(task),
+        overrideWipLimit,
+        queryRunner.manager,
+      );
+      task.rank = await this.rankForMove(task, moveTaskDto, queryRunner.manager);
       const updatedTask = await queryRunner.manager.save(Task, task);
-      if (originalStatus !== updatedTask.status) {
-        try {
-          await this.enqueueWithRetry('task-status-update', {
-            taskId: updatedTask.id,
-            status: updatedTask.status,
-          });
-        } catch (queueError) {
-          console.error('Failed to add status update to queue after retries:', queueError);
-        }
+      if (originalStatus !== status) {
+        await this.recordActivity(
+          updatedTask,
+          AuditAction.STATUS_CHANGE,
+          {
+            ...diffFields({ status: originalStatus }, { status }),
+            ...this.wipOverrideChanges(overriddenLimits),
+          },
+          actor.id,
+          queryRunner.manager,
+        );
+        await this.afterStatusChange(updatedTask, actor.id, queryRunner.manager);
       }
 
       await queryRunner.commitTransaction();
@@ -156,13 +871,198 @@ export class TasksService {
     }
   }
 
-  async remove(id: string): Promise<void> {
+  /**
+   * A rank placing the task between its new neighbors in the column of its
+   * status. The column stays locked until the transaction ends, so concurrent
+   * moves cannot pick the same spot. When the neighbors leave no room, or
+   * have no rank yet, the column is rebalanced.
+   */
+  private async rankForMove(
+    task: Task,
+    moveTaskDto: MoveTaskDto,
+    manager: EntityManager,
+  ): Promise<string> {
+    const { afterId, beforeId } = moveTaskDto;
+    if (afterId === task.id || beforeId === task.id) {
+      throw new BadRequestException('A task cannot be placed next to itself');
+    }
+
+    const column: { id: string; rank: string | null }[] = await this.orderByRank(
+      manager
+        .createQueryBuilder(Task, 'task')
+        .select('task.id', 'id')
+        .addSelect('task.rank', 'rank')
+        .where('task.organizationId = :organizationId', { organizationId: task.organizationId })
+        .andWhere('task.status = :status', { status: task.status })
+        .andWhere('task.id != :id', { id: task.id }),
+    )
+      .setLock('pessimistic_write')
+      .getRawMany();
+
+    const indexOf = (neighborId: string) => {
+      const index = column.findIndex(entry => entry.id === neighborId);
+      if (index === -1) {
+        throw new BadRequestException(`Task ${neighborId} is not in the ${task.status} column`);
+      }
+      return index;
+    };
+    let position = afterId ? indexOf(afterId) + 1 : column.length;
+    if (beforeId) {
+      const beforeIndex = indexOf(beforeId);
+      if (!afterId) {
+        position = beforeIndex;
+      } else if (beforeIndex < position) {
+        throw new ConflictException(
+          `Task ${beforeId} is no longer after task ${afterId} in the ${task.status} column`,
+        );
+      }
+    }
+
+    // Unranked tasks line up last, so only an unranked predecessor leaves no room.
+    const lower = position > 0 ? column[position - 1].rank : null;
+    const upper = column[position]?.rank ?? null;
+    const rank = position > 0 && lower === null ? null : rankBetween(lower, upper);
+    if (rank !== null && rank.length <= MAX_RANK_LENGTH) {
+      return rank;
+    }
+
+    const ids = column.map(entry => entry.id);
+    ids.splice(position, 0, task.id);
+    const ranks = spreadRanks(ids.length);
+    await manager.query(
+      `UPDATE tasks SET rank = ranked.rank
+      FROM unnest($1::uuid[], $2::varchar[]) AS ranked(id, rank)
+      WHERE tasks.id = ranked.id`,
+      [ids.filter(id => id !== task.id), ranks.filter((_, index) => index !== position)],
+    );
+    return ranks[position];
+  }
+
+  /**
+   * Board order: by rank, tasks never placed on the board last, oldest first.
+   */
+  private orderByRank<T extends SelectQueryBuilder<Task>>(queryBuilder: T): T {
+    return queryBuilder
+      .orderBy('task.rank', 'ASC', 'NULLS LAST')
+      .addOrderBy('task.createdAt', 'ASC')
+      .addOrderBy('task.id', 'ASC');
+  }
+
+  async remove(id: string, actor: AuthUser, ifMatch?: string): Promise<void> {
     const queryRunner = this.tasksRepository.manager.connection.createQueryRunner();
     await queryRunner.connect();
     await queryRunner.startTransaction();
 
     try {
-      const task = await this.findOne(id);
+      const task = await this.findForUpdate(id, actor, 'delete', queryRunner.manager);
+      this.assertIfMatch(task, ifMatch);
+      await this.recordActivity(
+        task,
+        AuditAction.DELETE,
+        diffFields(this.auditSnapshot(task), null),
+        actor.id,
+        queryRunner.manager,
+      );
+      await this.moveToTrash(task.id, queryRunner.manager);
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  async findTrash(
+    filterDto: TrashFilterDto,
+    actor: AuthUser,
+  ): Promise<{ items: Task[]; total: number; page: number; pageCount: number }> {
+    const { page = 1, limit = 10 } = filterDto;
+    const queryBuilder = this.scopeToActor(
+      this.tasksRepository.createQueryBuilder('task').withDeleted(),
+      actor,
+    ).andWhere('task.deletedAt IS NOT NULL');
+
+    const total = await queryBuilder.getCount();
+    const items = await queryBuilder
+      .orderBy('task.deletedAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getMany();
+
+    return { items, total, page, pageCount: Math.ceil(total / limit) };
+  }
+
+  /**
+   * Brings a trashed task back together with the subtasks that were trashed
+   * along with it. Subtasks trashed on their own before stay in the trash.
+   */
+  async restore(id: string, actor: AuthUser): Promise<Task> {
+    const queryRunner = this.tasksRepository.manager.connection.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      const task = await this.findTrashed(id, actor, queryRunner.manager);
+      this.taskPolicy.authorize(actor, 'delete', task);
+      if (task.parentId) {
+        const parentTrashed = await queryRunner.manager.exists(Task, {
+          where: { id: task.parentId, deletedAt: Not(IsNull()) },
+          withDeleted: true,
+        });
+        if (parentTrashed) {
+          throw new ConflictException(
+            `Task ${id} cannot be restored while its parent task ${task.parentId} is in the trash`,
+          );
+        }
+      }
+
+      await queryRunner.manager.query(
+        `WITH RECURSIVE trashed AS (
+          SELECT id, deleted_at FROM tasks WHERE id = $1
+          UNION
+          SELECT t.id, t.deleted_at FROM tasks t
+          INNER JOIN trashed s ON t.parent_id = s.id AND t.deleted_at = s.deleted_at
+        )
+        UPDATE tasks SET deleted_at = NULL WHERE id IN (SELECT id FROM trashed)`,
+        [id],
+      );
+      await this.recordActivity(
+        task,
+        AuditAction.RESTORE,
+        diffFields(null, this.auditSnapshot(task)),
+        actor.id,
+        queryRunner.manager,
+      );
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+
+    return this.findInOrganization(id, actor.organizationId);
+  }
+
+  /**
+   * Deletes a trashed task for good; its subtasks go with it, and so do the
+   * stored files no other task has attached.
+   */
+  async purge(id: string, actor: AuthUser): Promise<void> {
+    const queryRunner = this.tasksRepository.manager.connection.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+    let storageKeys: string[];
+
+    try {
+      const task = await this.findTrashed(id, actor, queryRunner.manager);
+      this.taskPolicy.authorize(actor, 'delete', task);
+      await this.recordActivity(task, AuditAction.PURGE, {}, actor.id, queryRunner.manager);
+      storageKeys = await this.taskAttachmentsService.findStorageKeys(
+        [task.id],
+        queryRunner.manager,
+      );
       await queryRunner.manager.remove(Task, task);
       await queryRunner.commitTransaction();
     } catch (error) {
@@ -171,33 +1071,817 @@ export class TasksService {
     } finally {
       await queryRunner.release();
     }
+
+    await this.taskAttachmentsService.deleteOrphanedFiles(storageKeys);
+  }
+
+  /**
+   * Deletes every task that was moved to the trash before `cutoff`, across
+   * all organizations, and returns how many tasks were purged.
+   */
+  async purgeTrash(cutoff: Date): Promise<number> {
+    const { purged, storageKeys } = await this.tasksRepository.manager.transaction(
+      async manager => {
+        const expired = await manager.find(Task, {
+          where: { deletedAt: LessThan(cutoff) },
+          select: ['id', 'organizationId'],
+          withDeleted: true,
+        });
+        if (expired.length === 0) {
+          return { purged: 0, storageKeys: [] };
+        }
+
+        const expiredIds = expired.map(task => task.id);
+        for (const task of expired) {
+          await this.recordActivity(task, AuditAction.PURGE, {}, null, manager);
+        }
+        const keys = await this.taskAttachmentsService.findStorageKeys(expiredIds, manager);
+        await manager.delete(Task, { id: In(expiredIds) });
+        return { purged: expired.length, storageKeys: keys };
+      },
+    );
+
+    await this.taskAttachmentsService.deleteOrphanedFiles(storageKeys);
+    return purged;
   }
 
-  async findByStatus(status: TaskStatus): Promise<Task[]> {
+  /**
+   * The series a recurring task belongs to, with the due date its next
+   * occurrence will get.
+   */
+  async findRecurrence(id: string, actor: AuthUser): Promise<TaskRecurrence> {
+    const task = await this.findOne(id, actor);
+    const recurrence = await this.findRecurrenceOf(task, this.tasksRepository.manager);
+    recurrence.nextOccurrenceAt = recurrence.endedAt
+      ? null
+      : this.upcomingOccurrence(recurrence, new Date());
+    return recurrence;
+  }
+
+  /**
+   * Changes "this and all future" occurrences of a series: the given
+   * occurrence and every open one after it are updated like with `update`,
+   * and occurrences created from now on start out with the changes. A new
+   * rule is counted from the due date of the given occurrence.
+   */
+  async updateRecurrence(
+    id: string,
+    updateRecurrenceDto: UpdateTaskRecurrenceDto,
+    actor: AuthUser,
+  ): Promise<TaskRecurrence> {
+    const task = await this.findOne(id, actor);
+    this.taskPolicy.authorize(actor, 'update', task);
+    const { rule, ...changes } = updateRecurrenceDto;
+    if (rule !== undefined) {
+      parseRecurrenceRule(rule);
+    }
+
+    await this.tasksRepository.manager.transaction(async manager => {
+      const recurrence = await this.findRecurrenceOf(task, manager);
+      if (recurrence.endedAt) {
+        throw new ConflictException(`Task ${id} belongs to a series that has ended`);
+      }
+
+      // Checked up front as there may be no open occurrence to check them.
+      if (changes.assigneeIds) {
+        this.assertCanAssign(actor, changes.assigneeIds);
+        await this.assertOrganizationMembers(changes.assigneeIds, actor.organizationId, manager);
+      }
+      if (changes.labelIds) {
+        await this.resolveLabels(changes.labelIds, recurrence.createdById, manager);
+      }
+      if (changes.projectId) {
+        await this.assertProjectAcceptsTasks(changes.projectId, actor.organizationId, manager);
+      }
+
+      // An occurrence whose due date was cleared counts from the start of the series.
+      const from = task.dueDate ? new Date(task.dueDate) : recurrence.startsAt;
+      const open = Not(TaskStatus.COMPLETED);
+      const occurrences = await manager.find(Task, {
+        where: [
+          { id: task.id, status: open },
+          { recurrenceId: recurrence.id, status: open, dueDate: MoreThanOrEqual(from) },
+        ],
+        select: ['id'],
+        order: { dueDate: 'ASC' },
+      });
+      // All occurrences change in one transaction, so a change refused for
+      // one of them leaves the whole series as it was.
+      for (const { id: occurrenceId } of occurrences) {
+        const occurrence = await this.findForUpdate(occurrenceId, actor, 'update', manager);
+        await this.applyUpdate(occurrence, changes, actor, manager);
+      }
+
+      recurrence.template = {
+        ...recurrence.template,
+        ...changes,
+        ...(changes.assigneeIds && { assigneeIds: [...new Set(changes.assigneeIds)] }),
+        ...(changes.labelIds && { labelIds: [...new Set(changes.labelIds)] }),
+      };
+      if (rule !== undefined) {
+        recurrence.rule = rule.trim();
+        recurrence.startsAt = from;
+      }
+      await manager.save(TaskRecurrence, recurrence);
+    });
+
+    return this.findRecurrence(id, actor);
+  }
+
+  /**
+   * Ends the series of a recurring task. Its occurrences are kept, but no
+   * new ones are created.
+   */
+  async stopRecurrence(id: string, actor: AuthUser): Promise<void> {
+    const task = await this.findOne(id, actor);
+    this.taskPolicy.authorize(actor, 'update', task);
+    const recurrence = await this.findRecurrenceOf(task, this.tasksRepository.manager);
+    if (!recurrence.endedAt) {
+      recurrence.endedAt = new Date();
+      await this.tasksRepository.manager.save(TaskRecurrence, recurrence);
+    }
+  }
+
+  /**
+   * Creates the next occurrence of every series whose newest occurrence is
+   * due by `now`, whether or not it was completed, across all
+   * organizations. Returns how many tasks were created.
+   */
+  async generateDueOccurrences(now: Date = new Date()): Promise<number> {
+    const due = await this.tasksRepository.manager.find(TaskRecurrence, {
+      where: { endedAt: IsNull(), lastOccurrenceAt: LessThanOrEqual(now) },
+      select: ['id'],
+    });
+
+    let created = 0;
+    for (const { id } of due) {
+      const task = await this.tasksRepository.manager.transaction(async manager => {
+        const recurrence = await manager.findOne(TaskRecurrence, {
+          where: { id },
+          lock: { mode: 'pessimistic_write' },
+        });
+        // Completing the newest occurrence may have moved the series on meanwhile.
+        if (!recurrence || recurrence.endedAt || recurrence.lastOccurrenceAt > now) {
+          return null;
+        }
+        return this.createNextOccurrence(recurrence, now, manager);
+      });
+      if (task) {
+        created++;
+      }
+    }
+    return created;
+  }
+
+  async assign(
+    id: string,
+    userId: string,
+    actor: AuthUser,
+    overrideWipLimit = false,
+  ): Promise<Task> {
+    this.assertCanOverrideWipLimits(actor, overrideWipLimit);
+    return this.tasksRepository.manager.transaction(async manager => {
+      const task = await this.findForUpdate(id, actor, 'update', manager);
+      this.assertCanAssign(actor, [userId]);
+      if (task.assigneeIds.includes(userId)) {
+        throw new ConflictException(`User ${userId} is already assigned to task ${id}`);
+      }
+      await this.assertOrganizationMembers([userId], actor.organizationId, manager);
+      const assigneeIds = [...task.assigneeIds, userId];
+      const overriddenLimits = await this.wipLimitsService.enforce(
+        task.id,
+        actor.organizationId,
+        this.wipPlacement(task),
+        this.wipPlacement(task, assigneeIds),
+        overrideWipLimit,
+        manager,
+      );
+
+      await manager.createQueryBuilder().relation(Task, 'assignees').of(id).add(userId);
+      await this.bumpVersion(task, manager);
+      await this.recordActivity(
+        task,
+        AuditAction.UPDATE,
+        {
+          ...diffFields({ assigneeIds: task.assigneeIds }, { assigneeIds }),
+          ...this.wipOverrideChanges(overriddenLimits),
+        },
+        actor.id,
+        manager,
+      );
+      task.assigneeIds = assigneeIds;
+      return task;
+    });
+  }
+
+  async unassign(id: string, userId: string, actor: AuthUser): Promise<void> {
+    await this.tasksRepository.manager.transaction(async manager => {
+      const task = await this.findForUpdate(id, actor, 'update', manager);
+      this.assertCanAssign(actor, [userId]);
+      if (!task.assigneeIds.includes(userId)) {
+        throw new NotFoundException(`User ${userId} is not assigned to task ${id}`);
+      }
+
+      await manager.createQueryBuilder().relation(Task, 'assignees').of(id).remove(userId);
+      await this.bumpVersion(task, manager);
+      await this.recordActivity(
+        task,
+        AuditAction.UPDATE,
+        diffFields(
+          { assigneeIds: task.assigneeIds },
+          { assigneeIds: task.assigneeIds.filter(assigneeId => assigneeId !== userId) },
+        ),
+        actor.id,
+        manager,
+      );
+    });
+  }
+
+  async findActivity(
+    id: string,
+    filterDto: ActivityFilterDto,
+    actor: AuthUser,
+  ): Promise<{ items: AuditLog[]; nextCursor: string | null }> {
+    await this.findOne(id, actor);
+    return this.auditService.findForEntity('task', id, actor.organizationId, filterDto);
+  }
+
+  async watch(id: string, actor: AuthUser): Promise<Task> {
+    return this.tasksRepository.manager.transaction(async manager => {
+      const task = await this.findForUpdate(id, actor, 'read', manager);
+      if (task.watcherIds.includes(actor.id)) {
+        throw new ConflictException(`You are already watching task ${id}`);
+      }
+
+      await manager.createQueryBuilder().relation(Task, 'watchers').of(id).add(actor.id);
+      await this.bumpVersion(task, manager);
+      task.watcherIds = [...task.watcherIds, actor.id];
+      return task;
+    });
+  }
+
+  async unwatch(id: string, actor: AuthUser): Promise<void> {
+    await this.tasksRepository.manager.transaction(async manager => {
+      const task = await this.findForUpdate(id, actor, 'read', manager);
+      if (!task.watcherIds.includes(actor.id)) {
+        throw new NotFoundException(`You are not watching task ${id}`);
+      }
+
+      await manager.createQueryBuilder().relation(Task, 'watchers').of(id).remove(actor.id);
+      await this.bumpVersion(task, manager);
+    });
+  }
+
+  async findByStatus(status: TaskStatus, organizationId: string): Promise<Task[]> {
     return this.tasksRepository
       .createQueryBuilder('task')
-      .leftJoinAndSelect('task.user', 'user')
+      .leftJoinAndSelect('task.createdBy', 'createdBy')
       .where('task.status = :status', { status })
+      .andWhere('task.organizationId = :organizationId', { organizationId })
       .getMany();
   }
 
-  async updateStatus(id: string, status: TaskStatus): Promise<Task> {
-    const task = await this.findOne(id);
-    task.status = status;
-    return this.tasksRepository.save(task);
+  /**
+   * Status changes made by the system. `overrideWipLimit` lets the change
+   * exceed WIP limits, which is recorded in the audit log.
+   */
+  async updateStatus(
+    id: string,
+    status: TaskStatus,
+    organizationId: string,
+    overrideWipLimit = false,
+  ): Promise<Task> {
+    let originalStatus: TaskStatus | undefined;
+    const updatedTask = await this.tasksRepository.manager.transaction(async manager => {
+      const task = await this.lockInOrganization(id, organizationId, manager);
+      if (!task) {
+        throw new NotFoundException(`Task with ID ${id} not found`);
+      }
+      originalStatus = task.status;
+      await this.assertStatusTransition(task.id, originalStatus, status, manager);
+      const originalPlacement = this.wipPlacement(task);
+      task.status = status;
+      const overriddenLimits = await this.wipLimitsService.enforce(
+        task.id,
+        organizationId,
+        originalPlacement,
+        this.wipPlacement(task),
+        overrideWipLimit,
+        manager,
+      );
+      const savedTask = await manager.save(Task, task);
+      await this.recordActivity(
+        savedTask,
+        AuditAction.STATUS_CHANGE,
+        {
+          ...diffFields({ status: originalStatus }, { status }),
+          ...this.wipOverrideChanges(overriddenLimits),
+        },
+        null,
+        manager,
+      );
+      if (originalStatus !== status && status === TaskStatus.COMPLETED) {
+        await this.continueRecurrence(savedTask, manager);
+      }
+      return savedTask;
+    });
+
+    if (originalStatus !== status && status === TaskStatus.COMPLETED) {
+      await this.enqueueDependentsUnblock(updatedTask.id);
+    }
+    await this.attachComputedFields([updatedTask]);
+    return updatedTask;
   }
 
+  /**
+   * Status changes made by queue jobs; `actorId` is the user whose action
+   * queued the job, or `null` for system jobs. Jobs are held to blockers and
+   * WIP limits like `updateStatus`, without a way to override them.
+   */
   async updateStatusWithManager(
     id: string,
     status: TaskStatus,
     manager: EntityManager,
+    actorId: string | null = null,
   ): Promise<Task> {
-    const task = await manager.findOne(Task, { where: { id } });
+    const locked = await manager.findOne(Task, {
+      where: { id },
+      select: ['id'],
+      lock: { mode: 'pessimistic_write' },
+    });
+    const task = locked && (await manager.findOne(Task, { where: { id } }));
     if (!task) {
       throw new NotFoundException(`Task with ID ${id} not found`);
     }
+    const originalStatus = task.status;
+    await this.assertStatusTransition(task.id, originalStatus, status, manager);
+    const originalPlacement = this.wipPlacement(task);
     task.status = status;
-    return manager.save(Task, task);
+    await this.wipLimitsService.enforce(
+      task.id,
+      task.organizationId,
+      originalPlacement,
+      this.wipPlacement(task),
+      false,
+      manager,
+    );
+    const updatedTask = await manager.save(Task, task);
+    await this.recordActivity(
+      updatedTask,
+      AuditAction.STATUS_CHANGE,
+      diffFields({ status: originalStatus }, { status }),
+      actorId,
+      manager,
+    );
+    if (originalStatus !== status && status === TaskStatus.COMPLETED) {
+      await this.continueRecurrence(updatedTask, manager);
+    }
+    return updatedTask;
+  }
+
+  /**
+   * Checks an `If-Match` precondition against the task's current version.
+   * Callers load the task with `findForUpdate`, so its row stays locked until
+   * the transaction ends and no other change can slip in between the check
+   * and the write. Without the header the change goes through unless
+   * `TASK_REQUIRE_IF_MATCH` is enabled.
+   */
+  private assertIfMatch(task: Task, ifMatch: string | undefined): void {
+    if (ifMatch === undefined) {
+      if (this.configService.get('TASK_REQUIRE_IF_MATCH') === 'true') {
+        throw new HttpException(
+          'An If-Match header with the task ETag is required',
+          HttpStatus.PRECONDITION_REQUIRED,
+        );
+      }
+      return;
+    }
+
+    if (!etagMatches(ifMatch, taskEtag(task))) {
+      throw new PreconditionFailedException({
+        message: `Task ${task.id} was changed since it was read; its current version is attached`,
+        error: 'Precondition Failed',
+        data: task,
+      });
+    }
+  }
+
+  private async bumpVersion(task: Task, manager: EntityManager): Promise<void> {
+    await manager.increment(Task, { id: task.id }, 'version', 1);
+    task.version += 1;
+  }
+
+  /**
+   * Loads a task from the trash. Trashed tasks the actor may not read are
+   * reported as missing, like in `findOne`.
+   */
+  private async findTrashed(id: string, actor: AuthUser, manager: EntityManager): Promise<Task> {
+    const task = await manager.findOne(Task, {
+      where: { id, organizationId: actor.organizationId, deletedAt: Not(IsNull()) },
+      relations: ['labels'],
+      withDeleted: true,
+    });
+    if (!task || !this.taskPolicy.can(actor, 'read', task)) {
+      throw new NotFoundException(`Task with ID ${id} not found in the trash`);
+    }
+    return task;
+  }
+
+  /**
+   * Trashes a task together with its subtasks that are not in the trash yet.
+   * They all share one `deleted_at`, which is how `restore` finds them again.
+   */
+  private async moveToTrash(taskId: string, manager: EntityManager): Promise<void> {
+    await manager.query(
+      `WITH RECURSIVE subtree AS (
+        SELECT id FROM tasks WHERE id = $1
+        UNION
+        SELECT t.id FROM tasks t INNER JOIN subtree s ON t.parent_id = s.id WHERE t.deleted_at IS NULL
+      )
+      UPDATE tasks SET deleted_at = now() WHERE id IN (SELECT id FROM subtree)`,
+      [taskId],
+    );
+  }
+
+  private async assertValidParent(
+    taskId: string | null,
+    parentId: string | null,
+    organizationId: string,
+    manager: EntityManager,
+  ): Promise<void> {
+    if (!parentId) {
+      return;
+    }
+
+    if (parentId === taskId) {
+      throw new BadRequestException('A task cannot be its own parent');
+    }
+
+    const parentExists = await manager.exists(Task, { where: { id: parentId, organizationId } });
+    if (!parentExists) {
+      throw new NotFoundException(`Parent task with ID ${parentId} not found`);
+    }
+
+    if (taskId) {
+      const cycle: unknown[] = await manager.query(
+        `WITH RECURSIVE ancestors AS (
+          SELECT id, parent_id FROM tasks WHERE id = $1
+          UNION
+          SELECT t.id, t.parent_id FROM tasks t INNER JOIN ancestors a ON t.id = a.parent_id
+        )
+        SELECT 1 FROM ancestors WHERE id = $2 LIMIT 1`,
+        [parentId, taskId],
+      );
+      if (cycle.length > 0) {
+        throw new BadRequestException('A task cannot be moved below one of its own subtasks');
+      }
+    }
+  }
+
+  /**
+   * Tasks may only be assigned to members of their organization; anyone else
+   * is reported as missing so other tenants' users cannot be probed.
+   */
+  private async assertOrganizationMembers(
+    userIds: string[],
+    organizationId: string,
+    manager: EntityManager,
+  ): Promise<void> {
+    for (const userId of userIds) {
+      const isMember = await manager.exists(OrganizationMembership, {
+        where: { userId, organizationId },
+      });
+      if (!isMember) {
+        throw new NotFoundException(`User with ID ${userId} not found`);
+      }
+    }
+  }
+
+  private assertCanAssign(actor: AuthUser, userIds: string[]): void {
+    if (userIds.some(userId => !this.taskPolicy.canAssignTo(actor, userId))) {
+      throw new ForbiddenException('Only admins can assign tasks to other users');
+    }
+  }
+
+  private async assertProjectAcceptsTasks(
+    projectId: string,
+    organizationId: string,
+    manager: EntityManager,
+  ): Promise<void> {
+    const project = await manager.findOne(Project, { where: { id: projectId, organizationId } });
+    if (!project) {
+      throw new NotFoundException(`Project with ID ${projectId} not found`);
+    }
+    if (project.archived) {
+      throw new ConflictException(`Project ${project.key} is archived and cannot receive tasks`);
+    }
+  }
+
+  private assertCanRecur(createTaskDto: CreateTaskDto): void {
+    parseRecurrenceRule(createTaskDto.recurrence ?? '');
+    if (!createTaskDto.dueDate) {
+      throw new BadRequestException('A recurring task needs a due date to start from');
+    }
+    if (createTaskDto.parentId) {
+      throw new BadRequestException('Subtasks cannot repeat');
+    }
+  }
+
+  private recurrenceTemplate(task: Task, assigneeIds: string[]): TaskRecurrenceTemplate {
+    return {
+      title: task.title,
+      description: task.description ?? null,
+      priority: task.priority ?? TaskPriority.MEDIUM,
+      projectId: task.projectId ?? null,
+      labelIds: task.labels?.map(label => label.id) ?? [],
+      assigneeIds,
+    };
+  }
+
+  private async findRecurrenceOf(task: Task, manager: EntityManager): Promise<TaskRecurrence> {
+    const recurrence = task.recurrenceId
+      ? await manager.findOne(TaskRecurrence, { where: { id: task.recurrenceId } })
+      : null;
+    if (!recurrence) {
+      throw new NotFoundException(`Task ${task.id} does not repeat`);
+    }
+    return recurrence;
+  }
+
+  /**
+   * Due date of the occurrence after the newest one. Occurrences that would
+   * already be due by `now` are skipped rather than created late.
+   */
+  private upcomingOccurrence(recurrence: TaskRecurrence, now: Date): Date | null {
+    const after = recurrence.lastOccurrenceAt > now ? recurrence.lastOccurrenceAt : now;
+    return nextOccurrence(parseRecurrenceRule(recurrence.rule), recurrence.startsAt, after);
+  }
+
+  /**
+   * Called when an occurrence of a series is completed: once no occurrence
+   * is left open, the next one is created.
+   */
+  private async continueRecurrence(task: Task, manager: EntityManager): Promise<void> {
+    if (!task.recurrenceId) {
+      return;
+    }
+    const recurrence = await manager.findOne(TaskRecurrence, {
+      where: { id: task.recurrenceId },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!recurrence || recurrence.endedAt) {
+      return;
+    }
+    const open = await manager.count(Task, {
+      where: { recurrenceId: recurrence.id, status: Not(TaskStatus.COMPLETED) },
+    });
+    if (open === 0) {
+      await this.createNextOccurrence(recurrence, new Date(), manager);
+    }
+  }
+
+  /**
+   * Creates the next occurrence of a series from its template, or ends the
+   * series when its rule has no more occurrences. Labels, assignees and
+   * projects that are gone or archived since the template was saved are
+   * left out rather than failing the series.
+   */
+  private async createNextOccurrence(
+    recurrence: TaskRecurrence,
+    now: Date,
+    manager: EntityManager,
+  ): Promise<Task | null> {
+    const dueDate = this.upcomingOccurrence(recurrence, now);
+    if (!dueDate) {
+      recurrence.endedAt = now;
+      await manager.save(TaskRecurrence, recurrence);
+      return null;
+    }
+
+    const { template, organizationId, createdById } = recurrence;
+    const labels = template.labelIds.length
+      ? await manager.find(Label, { where: { id: In(template.labelIds), ownerId: createdById } })
+      : [];
+    const members = template.assigneeIds.length
+      ? await manager.find(OrganizationMembership, {
+          where: { organizationId, userId: In(template.assigneeIds) },
+        })
+      : [];
+    const memberIds = new Set(members.map(member => member.userId));
+    const assigneeIds = template.assigneeIds.filter(userId => memberIds.has(userId));
+    const project = template.projectId
+      ? await manager.findOne(Project, { where: { id: template.projectId, organizationId } })
+      : null;
+
+    const task = await manager.save(
+      Task,
+      manager.create(Task, {
+        title: template.title,
+        description: template.description ?? undefined,
+        priority: template.priority,
+        status: TaskStatus.PENDING,
+        dueDate,
+        projectId: project && !project.archived ? project.id : null,
+        labels,
+        createdById,
+        organizationId,
+        recurrenceId: recurrence.id,
+      }),
+    );
+    if (assigneeIds.length) {
+      await manager.createQueryBuilder().relation(Task, 'assignees').of(task.id).add(assigneeIds);
+    }
+    task.assigneeIds = assigneeIds;
+    task.watcherIds = [];
+    await this.recordActivity(
+      task,
+      AuditAction.CREATE,
+      diffFields(null, this.auditSnapshot(task)),
+      null,
+      manager,
+    );
+
+    recurrence.lastOccurrenceAt = dueDate;
+    await manager.save(TaskRecurrence, recurrence);
+    return task;
+  }
+
+  private async resolveLabels(
+    labelIds: string[],
+    ownerId: string,
+    manager: EntityManager,
+  ): Promise<Label[]> {
+    const uniqueIds = [...new Set(labelIds)];
+    if (uniqueIds.length === 0) {
+      return [];
+    }
+
+    const labels = await manager.find(Label, { where: { id: In(uniqueIds), ownerId } });
+    if (labels.length !== uniqueIds.length) {
+      const found = new Set(labels.map(label => label.id));
+      const missing = uniqueIds.filter(id => !found.has(id));
+      throw new NotFoundException(`Labels not found for the task owner: ${missing.join(', ')}`);
+    }
+
+    return labels;
+  }
+
+  private async assertStatusTransition(
+    taskId: string,
+    from: TaskStatus,
+    to: TaskStatus,
+    manager: EntityManager,
+  ): Promise<void> {
+    if (from === to) {
+      return;
+    }
+
+    if (to === TaskStatus.IN_PROGRESS || to === TaskStatus.COMPLETED) {
+      const blocked = await this.taskDependenciesService.findBlockedTaskIds([taskId], manager);
+      if (blocked.has(taskId)) {
+        throw new ConflictException(
+          `Task ${taskId} is blocked by unfinished dependencies and cannot move to ${to}`,
+        );
+      }
+    }
+
+    if (to === TaskStatus.COMPLETED) {
+      await this.assertSubtasksCompleted(taskId, manager);
+    }
+  }
+
+  private wipPlacement(task: Task, assigneeIds: string[] = task.assigneeIds): WipPlacement {
+    return { status: task.status, projectId: task.projectId, assigneeIds };
+  }
+
+  private assertCanOverrideWipLimits(actor: AuthUser, overrideWipLimit: boolean): void {
+    if (overrideWipLimit && !isOrganizationAdmin(actor)) {
+      throw new ForbiddenException('Only admins can override WIP limits');
+    }
+  }
+
+  /**
+   * Audit entry for WIP limits an admin pushed a task past; empty when none
+   * were exceeded.
+   */
+  private wipOverrideChanges(overriddenLimits: string[]): AuditChanges {
+    return overriddenLimits.length
+      ? { wipLimitOverride: { from: null, to: overriddenLimits } }
+      : {};
+  }
+
+  /**
+   * Follow-ups of a status change made by a user: the queued notification
+   * and, once the task is completed, its next occurrence and unblocking the
+   * tasks depending on it.
+   */
+  private async afterStatusChange(
+    task: Task,
+    actorId: string,
+    manager: EntityManager,
+  ): Promise<void> {
+    try {
+      await this.enqueueWithRetry('task-status-update', {
+        taskId: task.id,
+        status: task.status,
+        actorId,
+      });
+    } catch (queueError) {
+      console.error('Failed to add status update to queue after retries:', queueError);
+    }
+    if (task.status === TaskStatus.COMPLETED) {
+      await this.continueRecurrence(task, manager);
+      await this.enqueueDependentsUnblock(task.id);
+    }
+  }
+
+  private async assertSubtasksCompleted(taskId: string, manager: EntityManager): Promise<void> {
+    const openSubtasks = await manager.count(Task, {
+      where: { parentId: taskId, status: Not(TaskStatus.COMPLETED) },
+    });
+
+    if (openSubtasks > 0) {
+      throw new ConflictException(
+        `Task ${taskId} cannot be completed while ${openSubtasks} subtask(s) are still open`,
+      );
+    }
+  }
+
+  private async attachComputedFields(tasks: Task[]): Promise<Task[]> {
+    await this.attachCompletionPercentages(tasks);
+    await this.attachChecklistProgress(tasks);
+
+    const blockedIds = await this.taskDependenciesService.findBlockedTaskIds(
+      tasks.map(task => task.id),
+    );
+    for (const task of tasks) {
+      task.blocked = blockedIds.has(task.id);
+    }
+
+    return tasks;
+  }
+
+  private async attachCompletionPercentages(tasks: Task[]): Promise<Task[]> {
+    if (tasks.length === 0) {
+      return tasks;
+    }
+
+    const rows: { root_id: string; total: string; completed: string }[] =
+      await this.tasksRepository.query(
+        `WITH RECURSIVE subtree AS (
+          SELECT t.id, t.status, t.parent_id AS root_id FROM tasks t
+          WHERE t.parent_id = ANY($1::uuid[]) AND t.deleted_at IS NULL
+          UNION
+          SELECT t.id, t.status, s.root_id FROM tasks t INNER JOIN subtree s ON t.parent_id = s.id
+          WHERE t.deleted_at IS NULL
+        )
+        SELECT root_id, COUNT(*) AS total, COUNT(*) FILTER (WHERE status = $2) AS completed
+        FROM subtree
+        GROUP BY root_id`,
+        [tasks.map(task => task.id), TaskStatus.COMPLETED],
+      );
+
+    const rollups = new Map(rows.map(row => [row.root_id, row]));
+    for (const task of tasks) {
+      const rollup = rollups.get(task.id);
+      task.completionPercentage =
+        rollup && Number(rollup.total) > 0
+          ? Math.round((Number(rollup.completed) / Number(rollup.total)) * 100)
+          : null;
+    }
+
+    return tasks;
+  }
+
+  private async attachChecklistProgress(tasks: Task[]): Promise<Task[]> {
+    if (tasks.length === 0) {
+      return tasks;
+    }
+
+    const rows: { task_id: string; total: string; done: string }[] =
+      await this.tasksRepository.query(
+        `SELECT task_id, COUNT(*) AS total, COUNT(*) FILTER (WHERE done) AS done
+        FROM task_checklist_items
+        WHERE task_id = ANY($1::uuid[])
+        GROUP BY task_id`,
+        [tasks.map(task => task.id)],
+      );
+
+    const progress = new Map(rows.map(row => [row.task_id, row]));
+    for (const task of tasks) {
+      const row = progress.get(task.id);
+      task.checklist = { total: Number(row?.total ?? 0), done: Number(row?.done ?? 0) };
+    }
+
+    return tasks;
+  }
+
+  private async enqueueDependentsUnblock(taskId: string): Promise<void> {
+    try {
+      await this.enqueueWithRetry('task-dependents-unblock', { taskId });
+    } catch (queueError) {
+      console.error('Failed to add dependents unblock to queue after retries:', queueError);
+    }
   }
 
   private async enqueueWithRetry(
@@ -219,9 +1903,78 @@ export class TasksService {
     throw lastErr;
   }
 
-  async getStats() {
-    const stats = await this.tasksRepository
-      .createQueryBuilder('task')
+  /**
+   * The task fields tracked in the activity log.
+   */
+  private auditSnapshot(task: Task): Record<string, unknown> {
+    return {
+      title: task.title,
+      description: task.description,
+      status: task.status,
+      priority: task.priority,
+      dueDate: task.dueDate,
+      estimateMinutes: task.estimateMinutes,
+      parentId: task.parentId,
+      projectId: task.projectId,
+      assigneeIds: task.assigneeIds,
+      labelIds: task.labels?.map(label => label.id),
+    };
+  }
+
+  private updateAction(changes: AuditChanges): AuditAction {
+    const fields = Object.keys(changes);
+    return fields.length === 1 && fields[0] === 'status'
+      ? AuditAction.STATUS_CHANGE
+      : AuditAction.UPDATE;
+  }
+
+  private async recordActivity(
+    task: Task,
+    action: AuditAction,
+    changes: AuditChanges,
+    actorId: string | null,
+    manager: EntityManager,
+  ): Promise<void> {
+    await this.auditService.record(
+      {
+        organizationId: task.organizationId,
+        entityType: 'task',
+        entityId: task.id,
+        action,
+        actorId,
+        changes,
+      },
+      manager,
+    );
+  }
+
+  /**
+   * Restricts a task query to the actor's organization and, unless the actor
+   * may see every task there, to the tasks they created, work on or watch.
+   */
+  private scopeToActor(
+    queryBuilder: SelectQueryBuilder<Task>,
+    actor: AuthUser,
+  ): SelectQueryBuilder<Task> {
+    queryBuilder.where('task.organizationId = :organizationId', {
+      organizationId: actor.organizationId,
+    });
+    if (!this.taskPolicy.canSeeAll(actor)) {
+      queryBuilder.andWhere(
+        `(task.createdById = :actorId OR ${this.participantCondition('task_assignees', 'actorId')}
+          OR ${this.participantCondition('task_watchers', 'actorId')})`,
+        { actorId: actor.id },
+      );
+    }
+    return queryBuilder;
+  }
+
+  private participantCondition(table: 'task_assignees' | 'task_watchers', param: string): string {
+    return `EXISTS (SELECT 1 FROM ${table} WHERE ${table}.task_id = task.id AND ${table}.user_id = :${param})`;
+  }
+
+  async getStats(actor: AuthUser) {
+    const stats = await this.scopeToActor(this.tasksRepository.createQueryBuilder('task'), actor)
       .select([
         'COUNT(*) as total',
         'COUNT(CASE WHEN status = :completed THEN 1 END) as completed',
@@ -237,17 +1990,251 @@ export class TasksService {
       })
       .getRawOne();
 
+    const labelStats: {
+      labelId: string;
+      name: string;
+      total: string;
+      completed: string;
+      inProgress: string;
+      pending: string;
+    }[] = await this.scopeToActor(
+      this.tasksRepository.createQueryBuilder('task').innerJoin('task.labels', 'label'),
+      actor,
+    )
+      .select('label.id', 'labelId')
+      .addSelect('label.name', 'name')
+      .addSelect('COUNT(task.id)', 'total')
+      .addSelect('COUNT(CASE WHEN task.status = :completed THEN 1 END)', 'completed')
+      .addSelect('COUNT(CASE WHEN task.status = :inProgress THEN 1 END)', 'inProgress')
+      .addSelect('COUNT(CASE WHEN task.status = :pending THEN 1 END)', 'pending')
+      .setParameters({
+        completed: TaskStatus.COMPLETED,
+        inProgress: TaskStatus.IN_PROGRESS,
+        pending: TaskStatus.PENDING,
+      })
+      .groupBy('label.id')
+      .addGroupBy('label.name')
+      .orderBy('label.name', 'ASC')
+      .getRawMany();
+
+    const projectStats: {
+      projectId: string;
+      key: string;
+      name: string;
+      archived: boolean;
+      total: string;
+      completed: string;
+      inProgress: string;
+      pending: string;
+    }[] = await this.scopeToActor(
+      this.tasksRepository.createQueryBuilder('task').innerJoin('task.project', 'project'),
+      actor,
+    )
+      .select('project.id', 'projectId')
+      .addSelect('project.key', 'key')
+      .addSelect('project.name', 'name')
+      .addSelect('project.archived', 'archived')
+      .addSelect('COUNT(task.id)', 'total')
+      .addSelect('COUNT(CASE WHEN task.status = :completed THEN 1 END)', 'completed')
+      .addSelect('COUNT(CASE WHEN task.status = :inProgress THEN 1 END)', 'inProgress')
+      .addSelect('COUNT(CASE WHEN task.status = :pending THEN 1 END)', 'pending')
+      .setParameters({
+        completed: TaskStatus.COMPLETED,
+        inProgress: TaskStatus.IN_PROGRESS,
+        pending: TaskStatus.PENDING,
+      })
+      .groupBy('project.id')
+      .addGroupBy('project.key')
+      .addGroupBy('project.name')
+      .addGroupBy('project.archived')
+      .orderBy('project.key', 'ASC')
+      .getRawMany();
+
     return {
       total: Number(stats.total),
       completed: Number(stats.completed),
       inProgress: Number(stats.inProgress),
       pending: Number(stats.pending),
       highPriority: Number(stats.highPriority),
+      byLabel: labelStats.map(row => ({
+        labelId: row.labelId,
+        name: row.name,
+        total: Number(row.total),
+        completed: Number(row.completed),
+        inProgress: Number(row.inProgress),
+        pending: Number(row.pending),
+      })),
+      byProject: projectStats.map(row => ({
+        projectId: row.projectId,
+        key: row.key,
+        name: row.name,
+        archived: row.archived,
+        total: Number(row.total),
+        completed: Number(row.completed),
+        inProgress: Number(row.inProgress),
+        pending: Number(row.pending),
+      })),
     };
   }
 
-  async batchProcess(operations: { tasks: string[]; action: 'complete' | 'delete' }) {
-    const { tasks: taskIds, action } = operations;
+  /**
+   * Logged time against estimates, overall and per task, user and project,
+   * for the tasks the actor may see. Running timers count up to now.
+   */
+  async getTimeReport(filterDto: TimeReportFilterDto, actor: AuthUser) {
+    const { from, to, projectId, userId } = filterDto;
+    const entryConditions = (alias: string) =>
+      [
+        from && `${alias}.started_at >= :from`,
+        to && `${alias}.started_at < :to`,
+        userId && `${alias}.user_id = :userId`,
+      ].filter(Boolean);
+    const parameters = {
+      ...(from && { from: new Date(from) }),
+      ...(to && { to: new Date(to) }),
+      ...(userId && { userId }),
+    };
+    const logged = `COALESCE((SELECT SUM(EXTRACT(EPOCH FROM (COALESCE(e.ended_at, now()) - e.started_at))) / 60
+      FROM time_entries e WHERE ${['e.task_id = task.id', ...entryConditions('e')].join(' AND ')}), 0)`;
+    const scopedTasks = () => {
+      const queryBuilder = this.scopeToActor(
+        this.tasksRepository.createQueryBuilder('task'),
+        actor,
+      );
+      if (projectId) {
+        queryBuilder.andWhere('task.projectId = :projectId', { projectId });
+      }
+      return queryBuilder.setParameters(parameters);
+    };
+
+    const totals = await scopedTasks()
+      .select('COALESCE(SUM(task.estimateMinutes), 0)', 'estimatedMinutes')
+      .addSelect(`SUM(${logged})`, 'loggedMinutes')
+      .getRawOne();
+
+    const taskRows: {
+      taskId: string;
+      title: string;
+      estimateMinutes: number | null;
+      loggedMinutes: string;
+    }[] = await scopedTasks()
+      .select('task.id', 'taskId')
+      .addSelect('task.title', 'title')
+      .addSelect('task.estimateMinutes', 'estimateMinutes')
+      .addSelect(logged, 'loggedMinutes')
+      .andWhere(`(task.estimateMinutes IS NOT NULL OR ${logged} > 0)`)
+      .orderBy('"loggedMinutes"', 'DESC')
+      .addOrderBy('task.id', 'ASC')
+      .limit(TIME_REPORT_TASK_LIMIT)
+      .getRawMany();
+
+    const userRows: { userId: string; name: string; loggedMinutes: string }[] = await scopedTasks()
+      .innerJoin(
+        TimeEntry,
+        'entry',
+        ['entry.taskId = task.id', ...entryConditions('entry')].join(' AND '),
+      )
+      .innerJoin('entry.user', 'user')
+      .select('user.id', 'userId')
+      .addSelect('user.name', 'name')
+      .addSelect(
+        'SUM(EXTRACT(EPOCH FROM (COALESCE(entry.endedAt, now()) - entry.startedAt))) / 60',
+        'loggedMinutes',
+      )
+      .groupBy('user.id')
+      .addGroupBy('user.name')
+      .orderBy('user.name', 'ASC')
+      .getRawMany();
+
+    const projectRows: {
+      projectId: string;
+      key: string;
+      name: string;
+      estimatedMinutes: string;
+      loggedMinutes: string;
+    }[] = await scopedTasks()
+      .innerJoin('task.project', 'project')
+      .select('project.id', 'projectId')
+      .addSelect('project.key', 'key')
+      .addSelect('project.name', 'name')
+      .addSelect('COALESCE(SUM(task.estimateMinutes), 0)', 'estimatedMinutes')
+      .addSelect(`SUM(${logged})`, 'loggedMinutes')
+      .groupBy('project.id')
+      .addGroupBy('project.key')
+      .addGroupBy('project.name')
+      .orderBy('project.key', 'ASC')
+      .getRawMany();
+
+    const minutes = (value: string | number | null) => Math.round(Number(value ?? 0));
+
+    return {
+      estimatedMinutes: minutes(totals.estimatedMinutes),
+      loggedMinutes: minutes(totals.loggedMinutes),
+      byTask: taskRows.map(row => ({
+        taskId: row.taskId,
+        title: row.title,
+        estimateMinutes: row.estimateMinutes,
+        loggedMinutes: minutes(row.loggedMinutes),
+      })),
+      byUser: userRows.map(row => ({
+        userId: row.userId,
+        name: row.name,
+        loggedMinutes: minutes(row.loggedMinutes),
+      })),
+      byProject: projectRows.map(row => ({
+        projectId: row.projectId,
+        key: row.key,
+        name: row.name,
+        estimatedMinutes: minutes(row.estimatedMinutes),
+        loggedMinutes: minutes(row.loggedMinutes),
+      })),
+    };
+  }
+
+  /**
+   * The actor's tasks by status column, in board order. Each column lists up
+   * to `BOARD_COLUMN_LIMIT` tasks along with how many it holds in total.
+   */
+  async getBoard(filterDto: BoardFilterDto, actor: AuthUser): Promise<BoardColumn[]> {
+    const { projectId, includeArchived, assignee } = filterDto;
+    const columns: BoardColumn[] = [];
+
+    for (const status of Object.values(TaskStatus)) {
+      const queryBuilder = this.scopeToActor(
+        this.tasksRepository.createQueryBuilder('task').leftJoin('task.project', 'project'),
+        actor,
+      ).andWhere('task.status = :status', { status });
+
+      if (projectId) {
+        queryBuilder.andWhere('task.projectId = :projectId', { projectId });
+      } else if (!includeArchived) {
+        queryBuilder.andWhere('(task.projectId IS NULL OR project.archived = false)');
+      }
+
+      if (assignee) {
+        queryBuilder.andWhere(this.participantCondition('task_assignees', 'assigneeId'), {
+          assigneeId: assignee === 'me' ? actor.id : assignee,
+        });
+      }
+
+      const total = await queryBuilder.getCount();
+      const rows: { id: string }[] = await this.orderByRank(queryBuilder.select('task.id', 'id'))
+        .limit(BOARD_COLUMN_LIMIT)
+        .getRawMany();
+      columns.push({ status, total, tasks: await this.findInOrder(rows.map(row => row.id)) });
+    }
+
+    await this.attachComputedFields(columns.flatMap(column => column.tasks));
+    return columns;
+  }
+
+  async batchProcess(
+    operations: { tasks: string[]; action: 'complete' | 'delete'; overrideWipLimit?: boolean },
+    actor: AuthUser,
+  ) {
+    const { organizationId } = actor;
+    const { tasks: taskIds, action, overrideWipLimit = false } = operations;
+    this.assertCanOverrideWipLimits(actor, overrideWipLimit);
     const queryRunner = this.tasksRepository.manager.connection.createQueryRunner();
     await queryRunner.connect();
     await queryRunner.startTransaction();
@@ -260,12 +2247,41 @@ export class TasksService {
           let result;
 
           if (action === 'complete') {
-            const task = await queryRunner.manager.findOne(Task, { where: { id: taskId } });
-            if (!task) {
+            const task = await queryRunner.manager.findOne(Task, {
+              where: { id: taskId, organizationId },
+            });
+            if (!task || !this.taskPolicy.can(actor, 'read', task)) {
               throw new NotFoundException(`Task ${taskId} not found`);
             }
+            this.taskPolicy.authorize(actor, 'update', task);
+            const originalStatus = task.status;
+            await this.assertStatusTransition(
+              task.id,
+              originalStatus,
+              TaskStatus.COMPLETED,
+              queryRunner.manager,
+            );
+            const originalPlacement = this.wipPlacement(task);
             task.status = TaskStatus.COMPLETED;
+            const overriddenLimits = await this.wipLimitsService.enforce(
+              task.id,
+              organizationId,
+              originalPlacement,
+              this.wipPlacement(task),
+              overrideWipLimit,
+              queryRunner.manager,
+            );
             result = await queryRunner.manager.save(Task, task);
+            await this.recordActivity(
+              task,
+              AuditAction.STATUS_CHANGE,
+              {
+                ...diffFields({ status: originalStatus }, { status: TaskStatus.COMPLETED }),
+                ...this.wipOverrideChanges(overriddenLimits),
+              },
+              actor.id,
+              queryRunner.manager,
+            );
 
             try {
               await this.taskQueue.add(
@@ -273,6 +2289,7 @@ export class TasksService {
                 {
                   taskId: task.id,
                   status: task.status,
+                  actorId: actor.id,
                 },
                 {
                   removeOnComplete: true,
@@ -282,12 +2299,26 @@ export class TasksService {
             } catch (queueError) {
               console.error('Failed to add status update to queue:', queueError);
             }
+            if (originalStatus !== TaskStatus.COMPLETED) {
+              await this.continueRecurrence(task, queryRunner.manager);
+              await this.enqueueDependentsUnblock(task.id);
+            }
           } else {
-            const task = await queryRunner.manager.findOne(Task, { where: { id: taskId } });
-            if (!task) {
+            const task = await queryRunner.manager.findOne(Task, {
+              where: { id: taskId, organizationId },
+            });
+            if (!task || !this.taskPolicy.can(actor, 'read', task)) {
               throw new NotFoundException(`Task ${taskId} not found`);
             }
-            await queryRunner.manager.remove(Task, task);
+            this.taskPolicy.authorize(actor, 'delete', task);
+            await this.recordActivity(
+              task,
+              AuditAction.DELETE,
+              diffFields(this.auditSnapshot(task), null),
+              actor.id,
+              queryRunner.manager,
+            );
+            await this.moveToTrash(task.id, queryRunner.manager);
             result = { id: taskId, deleted: true };
           }
 
@@ -311,10 +2342,15 @@ export class TasksService {
     }
   }
 
-  async findOverdueTasks(limit: number, offset: number = 0): Promise<Task[]> {
+  async findOverdueTasks(
+    organizationId: string,
+    limit: number,
+    offset: number = 0,
+  ): Promise<Task[]> {
     return this.tasksRepository
       .createQueryBuilder('task')
-      .where('task.dueDate < :now', { now: new Date() })
+      .where('task.organizationId = :organizationId', { organizationId })
+      .andWhere('task.dueDate < :now', { now: new Date() })
       .andWhere('task.status != :completed', { completed: TaskStatus.COMPLETED })
       .orderBy('task.dueDate', 'ASC')
       .take(limit)
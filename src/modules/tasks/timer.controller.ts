@@ -0,0 +1,32 @@
+import { RateLimit } from '@common/decorators/rate-limit.decorator';
+import { RequirePermissions } from '@common/decorators/require-permissions.decorator';
+import { RateLimitGuard } from '@common/guards/rate-limit.guard';
+import { Authenticated, CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import { Controller, Get, HttpCode, HttpStatus, Post, UseGuards } from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { TaskTimeEntriesService } from './task-time-entries.service';
+
+@ApiTags('time tracking')
+@Controller('timer')
+@Authenticated()
+@UseGuards(RateLimitGuard)
+@RateLimit(100, 60000)
+@RequirePermissions(Permission.TASK_READ)
+export class TimerController {
+  constructor(private readonly timeEntriesService: TaskTimeEntriesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get the running timer of the caller, or null' })
+  findRunning(@CurrentUser() user: AuthUser) {
+    return this.timeEntriesService.findRunningTimer(user);
+  }
+
+  @Post('stop')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Stop the running timer of the caller' })
+  stop(@CurrentUser() user: AuthUser) {
+    return this.timeEntriesService.stopTimer(user);
+  }
+}
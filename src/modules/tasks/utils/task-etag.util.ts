@@ -0,0 +1,16 @@
+import { representationEtag } from '../../../common/utils/etag.util';
+import { Task } from '../entities/task.entity';
+
+/**
+ * The task's `ETag`. Subtasks, checklist items and blockers change the
+ * computed fields of a task without bumping its version.
+ */
+export function taskEtag(
+  task: Pick<Task, 'version' | 'completionPercentage' | 'blocked' | 'checklist'>,
+): string {
+  return representationEtag(task.version, [
+    task.completionPercentage ?? null,
+    task.blocked ?? false,
+    task.checklist ?? null,
+  ]);
+}
@@ -0,0 +1,51 @@
+import { RateLimit } from '@common/decorators/rate-limit.decorator';
+import { RequirePermissions } from '@common/decorators/require-permissions.decorator';
+import { RateLimitGuard } from '@common/guards/rate-limit.guard';
+import { Authenticated, CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { SetWipLimitDto } from './dto/set-wip-limit.dto';
+import { WipLimitsService } from './wip-limits.service';
+
+@ApiTags('wip limits')
+@Controller('wip-limits')
+@Authenticated()
+@UseGuards(RateLimitGuard)
+@RateLimit(100, 60000)
+@RequirePermissions(Permission.TASK_READ)
+export class WipLimitsController {
+  constructor(private readonly wipLimitsService: WipLimitsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the work-in-progress limits of the organization' })
+  findAll(@CurrentUser() user: AuthUser) {
+    return this.wipLimitsService.findAll(user);
+  }
+
+  @Put()
+  @ApiOperation({
+    summary: 'Set the limit for a status, organization-wide or for a project or user; admins only',
+  })
+  set(@Body() setWipLimitDto: SetWipLimitDto, @CurrentUser() user: AuthUser) {
+    return this.wipLimitsService.set(setWipLimitDto, user);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Remove a limit; admins only' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string, @CurrentUser() user: AuthUser): Promise<void> {
+    await this.wipLimitsService.remove(id, user);
+  }
+}
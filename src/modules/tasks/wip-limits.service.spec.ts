@@ -0,0 +1,233 @@
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { OrganizationRole } from '@modules/organizations/enums/organization-role.enum';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import { BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { EntityManager, IsNull } from 'typeorm';
+import { WipLimit } from './entities/wip-limit.entity';
+import { TaskStatus } from './enums/task-status.enum';
+import { WipPlacement } from './interfaces/wip-placement.interface';
+import { WipLimitsService } from './wip-limits.service';
+
+describe('WipLimitsService', () => {
+  let service: WipLimitsService;
+
+  const admin: AuthUser = {
+    id: 'u1',
+    email: 'admin@example.com',
+    name: 'Admin',
+    role: 'user',
+    organizationId: 'org-1',
+    organizationRole: OrganizationRole.ADMIN,
+    permissions: [],
+  };
+
+  const member: AuthUser = {
+    ...admin,
+    id: 'u2',
+    organizationRole: OrganizationRole.MEMBER,
+    permissions: [Permission.TASK_READ, Permission.TASK_UPDATE],
+  };
+
+  const limit = (overrides: Partial<WipLimit> = {}) =>
+    ({
+      id: 'l1',
+      organizationId: 'org-1',
+      status: TaskStatus.IN_PROGRESS,
+      projectId: null,
+      project: null,
+      userId: null,
+      user: null,
+      maxTasks: 2,
+      ...overrides,
+    }) as WipLimit;
+
+  const placement = (overrides: Partial<WipPlacement> = {}): WipPlacement => ({
+    status: TaskStatus.IN_PROGRESS,
+    projectId: 'p1',
+    assigneeIds: ['u2'],
+    ...overrides,
+  });
+
+  const queryBuilder = {
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    getCount: jest.fn(),
+  };
+
+  const manager = {
+    find: jest.fn(),
+    query: jest.fn(),
+    createQueryBuilder: jest.fn(() => queryBuilder),
+  };
+
+  const mockLimitsRepository = {
+    create: jest.fn(data => data),
+    save: jest.fn(async entity => entity),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    remove: jest.fn(),
+    manager: {
+      exists: jest.fn(),
+    },
+  };
+
+  const enforce = (previous: WipPlacement | null, next: WipPlacement, override = false) =>
+    service.enforce('t1', 'org-1', previous, next, override, manager as unknown as EntityManager);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockLimitsRepository.findOne.mockResolvedValue(null);
+    mockLimitsRepository.manager.exists.mockResolvedValue(true);
+    queryBuilder.getCount.mockResolvedValue(0);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WipLimitsService,
+        { provide: getRepositoryToken(WipLimit), useValue: mockLimitsRepository },
+      ],
+    }).compile();
+
+    service = module.get<WipLimitsService>(WipLimitsService);
+  });
+
+  describe('set', () => {
+    it('should create an organization-wide limit', async () => {
+      const result = await service.set({ status: TaskStatus.IN_PROGRESS, maxTasks: 5 }, admin);
+
+      expect(mockLimitsRepository.findOne).toHaveBeenCalledWith({
+        where: {
+          organizationId: 'org-1',
+          status: TaskStatus.IN_PROGRESS,
+          projectId: IsNull(),
+          userId: IsNull(),
+        },
+      });
+      expect(result).toEqual({
+        organizationId: 'org-1',
+        status: TaskStatus.IN_PROGRESS,
+        projectId: null,
+        userId: null,
+        maxTasks: 5,
+      });
+    });
+
+    it('should change the existing limit of the scope', async () => {
+      mockLimitsRepository.findOne.mockResolvedValue(limit({ userId: 'u2' }));
+
+      const result = await service.set(
+        { status: TaskStatus.IN_PROGRESS, userId: 'u2', maxTasks: 1 },
+        admin,
+      );
+
+      expect(result).toMatchObject({ id: 'l1', maxTasks: 1 });
+      expect(mockLimitsRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject limits for both a project and a user', async () => {
+      await expect(
+        service.set(
+          { status: TaskStatus.IN_PROGRESS, projectId: 'p1', userId: 'u2', maxTasks: 1 },
+          admin,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject projects of other organizations', async () => {
+      mockLimitsRepository.manager.exists.mockResolvedValue(false);
+
+      await expect(
+        service.set({ status: TaskStatus.IN_PROGRESS, projectId: 'p9', maxTasks: 1 }, admin),
+      ).rejects.toThrow('Project with ID p9 not found');
+    });
+
+    it('should leave limits to admins', async () => {
+      await expect(
+        service.set({ status: TaskStatus.IN_PROGRESS, maxTasks: 1 }, member),
+      ).rejects.toThrow(ForbiddenException);
+      await expect(service.remove('l1', member)).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('enforce', () => {
+    it('should refuse moves into a full column', async () => {
+      manager.find.mockResolvedValue([limit()]);
+      queryBuilder.getCount.mockResolvedValue(2);
+
+      await expect(enforce(placement({ status: TaskStatus.PENDING }), placement())).rejects.toThrow(
+        'Task t1 cannot move to IN_PROGRESS: in the organization at most 2 task(s) may be IN_PROGRESS and 2 already are',
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('task.id != :taskId', { taskId: 't1' });
+    });
+
+    it('should lock the status before counting its tasks', async () => {
+      manager.find.mockResolvedValue([limit()]);
+      queryBuilder.getCount.mockResolvedValue(1);
+
+      await enforce(placement({ status: TaskStatus.PENDING }), placement());
+
+      expect(manager.query).toHaveBeenCalledWith(
+        'SELECT pg_advisory_xact_lock(hashtext($1), hashtext($2))',
+        ['org-1', TaskStatus.IN_PROGRESS],
+      );
+      expect(manager.query.mock.invocationCallOrder[0]).toBeLessThan(
+        queryBuilder.getCount.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should allow moves while there is room', async () => {
+      manager.find.mockResolvedValue([limit()]);
+      queryBuilder.getCount.mockResolvedValue(1);
+
+      await expect(
+        enforce(placement({ status: TaskStatus.PENDING }), placement()),
+      ).resolves.toEqual([]);
+    });
+
+    it('should count the tasks of limited projects and users', async () => {
+      manager.find.mockResolvedValue([
+        limit({ projectId: 'p1', project: { key: 'WEB' } as WipLimit['project'] }),
+        limit({ userId: 'u2', user: { name: 'Member' } as WipLimit['user'] }),
+        limit({ userId: 'u3' }),
+      ]);
+      queryBuilder.getCount.mockResolvedValue(5);
+
+      const overridden = await enforce(null, placement(), true);
+
+      expect(overridden).toEqual([
+        'in project WEB at most 2 task(s) may be IN_PROGRESS and 5 already are',
+        'for Member at most 2 task(s) may be IN_PROGRESS and 5 already are',
+      ]);
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('task.projectId = :projectId', {
+        projectId: 'p1',
+      });
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('task_assignees'),
+        {
+          userId: 'u2',
+        },
+      );
+    });
+
+    it('should not refuse changes to tasks already counted against a limit', async () => {
+      manager.find.mockResolvedValue([limit({ projectId: 'p1' })]);
+      queryBuilder.getCount.mockResolvedValue(7);
+
+      await expect(enforce(placement(), placement({ assigneeIds: ['u2', 'u3'] }))).resolves.toEqual(
+        [],
+      );
+      expect(manager.query).not.toHaveBeenCalled();
+      expect(queryBuilder.getCount).not.toHaveBeenCalled();
+    });
+
+    it('should apply new limits when a task joins their scope', async () => {
+      manager.find.mockResolvedValue([limit({ userId: 'u3' })]);
+      queryBuilder.getCount.mockResolvedValue(2);
+
+      await expect(enforce(placement(), placement({ assigneeIds: ['u2', 'u3'] }))).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, IsNull, Repository } from 'typeorm';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { isOrganizationAdmin } from '../auth/policies/policy';
+import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
+import { Project } from '../projects/entities/project.entity';
+import { SetWipLimitDto } from './dto/set-wip-limit.dto';
+import { Task } from './entities/task.entity';
+import { WipLimit } from './entities/wip-limit.entity';
+import { WipPlacement } from './interfaces/wip-placement.interface';
+
+/**
+ * Work-in-progress limits cap how many tasks may be in a status at once.
+ * Everyone can see them; only admins set them, and only admins may push a
+ * task past one.
+ */
+@Injectable()
+export class WipLimitsService {
+  constructor(
+    @InjectRepository(WipLimit)
+    private limitsRepository: Repository<WipLimit>,
+  ) {}
+
+  findAll(actor: AuthUser): Promise<WipLimit[]> {
+    return this.limitsRepository.find({
+      where: { organizationId: actor.organizationId },
+      order: { status: 'ASC', createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Creates the limit for the status and scope, or changes the existing one.
+   */
+  async set(setWipLimitDto: SetWipLimitDto, actor: AuthUser): Promise<WipLimit> {
+    this.assertAdmin(actor);
+    const { organizationId } = actor;
+    const { status, projectId = null, userId = null, maxTasks } = setWipLimitDto;
+    if (projectId && userId) {
+      throw new BadRequestException('A WIP limit applies to a project or to a user, not both');
+    }
+
+    const manager = this.limitsRepository.manager;
+    if (
+      projectId &&
+      !(await manager.exists(Project, { where: { id: projectId, organizationId } }))
+    ) {
+      throw new NotFoundException(`Project with ID ${projectId} not found`);
+    }
+    if (
+      userId &&
+      !(await manager.exists(OrganizationMembership, { where: { userId, organizationId } }))
+    ) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+
+    const existing = await this.limitsRepository.findOne({
+      where: {
+        organizationId,
+        status,
+        projectId: projectId ?? IsNull(),
+        userId: userId ?? IsNull(),
+      },
+    });
+    if (existing) {
+      existing.maxTasks = maxTasks;
+      return this.limitsRepository.save(existing);
+    }
+
+    return this.limitsRepository.save(
+      this.limitsRepository.create({ organizationId, status, projectId, userId, maxTasks }),
+    );
+  }
+
+  async remove(id: string, actor: AuthUser): Promise<void> {
+    this.assertAdmin(actor);
+
+    const limit = await this.limitsRepository.findOne({
+      where: { id, organizationId: actor.organizationId },
+    });
+    if (!limit) {
+      throw new NotFoundException(`WIP limit with ID ${id} not found`);
+    }
+
+    await this.limitsRepository.remove(limit);
+  }
+
+  /**
+   * Refuses to move a task from `previous` to `next` when that takes it past
+   * a limit it did not count against before, unless `override` is set. Tasks
+   * already over a limit can still be changed otherwise.
+   *
+   * Returns the limits that were overridden, described for the audit log.
+   *
+   * `manager` must belong to the transaction that saves the task: checking a
+   * limit locks its status in the organization until that transaction ends,
+   * so concurrent moves into the status are counted one after the other.
+   */
+  async enforce(
+    taskId: string,
+    organizationId: string,
+    previous: WipPlacement | null,
+    next: WipPlacement,
+    override: boolean,
+    manager: EntityManager,
+  ): Promise<string[]> {
+    const limits = await manager.find(WipLimit, {
+      where: { organizationId, status: next.status },
+      relations: ['project', 'user'],
+    });
+
+    const joined = limits.filter(
+      limit => this.applies(limit, next) && !(previous && this.applies(limit, previous)),
+    );
+    if (!joined.length) {
+      return [];
+    }
+    await manager.query('SELECT pg_advisory_xact_lock(hashtext($1), hashtext($2))', [
+      organizationId,
+      next.status,
+    ]);
+
+    const exceeded: string[] = [];
+    for (const limit of joined) {
+      const count = await this.countTasks(limit, taskId, manager);
+      if (count >= limit.maxTasks) {
+        exceeded.push(this.describe(limit, count));
+      }
+    }
+
+    if (exceeded.length && !override) {
+      throw new ConflictException(
+        `Task ${taskId} cannot move to ${next.status}: ${exceeded.join('; ')}. ` +
+          'Finish or move another task first, or ask an admin to override the limit',
+      );
+    }
+    return exceeded;
+  }
+
+  private applies(limit: WipLimit, placement: WipPlacement): boolean {
+    if (limit.status !== placement.status) {
+      return false;
+    }
+    if (limit.projectId) {
+      return limit.projectId === placement.projectId;
+    }
+    if (limit.userId) {
+      return placement.assigneeIds.includes(limit.userId);
+    }
+    return true;
+  }
+
+  /** Other tasks counting against the limit. */
+  private countTasks(limit: WipLimit, taskId: string, manager: EntityManager): Promise<number> {
+    const queryBuilder = manager
+      .createQueryBuilder(Task, 'task')
+      .where('task.organizationId = :organizationId', { organizationId: limit.organizationId })
+      .andWhere('task.status = :status', { status: limit.status })
+      .andWhere('task.id != :taskId', { taskId });
+
+    if (limit.projectId) {
+      queryBuilder.andWhere('task.projectId = :projectId', { projectId: limit.projectId });
+    }
+    if (limit.userId) {
+      queryBuilder.andWhere(
+        'EXISTS (SELECT 1 FROM task_assignees WHERE task_assignees.task_id = task.id AND task_assignees.user_id = :userId)',
+        { userId: limit.userId },
+      );
+    }
+
+    return queryBuilder.getCount();
+  }
+
+  private describe(limit: WipLimit, count: number): string {
+    const scope = limit.projectId
+      ? `in project ${limit.project?.key ?? limit.projectId}`
+      : limit.userId
+        ? `for ${limit.user?.name ?? `user ${limit.userId}`}`
+        : 'in the organization';
+    return `${scope} at most ${limit.maxTasks} task(s) may be ${limit.status} and ${count} already are`;
+  }
+
+  private assertAdmin(actor: AuthUser): void {
+    if (!isOrganizationAdmin(actor)) {
+      throw new ForbiddenException('Only admins can change WIP limits');
+    }
+  }
+}
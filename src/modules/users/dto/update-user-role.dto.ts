@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class UpdateUserRoleDto {
+  @ApiProperty({ example: 'admin', description: 'Name of an existing role' })
+  @IsString()
+  @IsNotEmpty()
+  role: string;
+}
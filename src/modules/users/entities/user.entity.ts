@@ -7,6 +7,7 @@ import {
   PrimaryGeneratedColumn,
   UpdateDateColumn,
 } from 'typeorm';
+import { OrganizationMembership } from '../../organizations/entities/organization-membership.entity';
 import type { Task } from '../../tasks/entities/task.entity';
 
 @Entity('users')
@@ -28,9 +29,12 @@ export class User {
   role: string;
 
   // eslint-disable-next-line @typescript-eslint/no-var-requires, @typescript-eslint/no-explicit-any
-  @OneToMany(() => require('../../tasks/entities/task.entity').Task, (task: any) => task.user)
+  @OneToMany(() => require('../../tasks/entities/task.entity').Task, (task: any) => task.createdBy)
   tasks: Task[];
 
+  @OneToMany(() => OrganizationMembership, membership => membership.user)
+  memberships: OrganizationMembership[];
+
   @Column({ nullable: true })
   @Exclude({ toPlainOnly: true })
   refreshToken: string;
@@ -0,0 +1,33 @@
+import { hasPermission, Policy, PolicyAction } from '@modules/auth/policies/policy';
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import { Injectable } from '@nestjs/common';
+import { User } from '../entities/user.entity';
+
+/**
+ * Accounts are shared across organizations, so only their owner or a holder
+ * of `user:manage` may change them.
+ */
+@Injectable()
+export class UserPolicy extends Policy<Pick<User, 'id'>> {
+  protected readonly resourceName = 'user';
+
+  can(actor: AuthUser, action: PolicyAction, user: Pick<User, 'id'>): boolean {
+    switch (action) {
+      case 'read':
+        return true;
+      case 'update':
+        return user.id === actor.id || hasPermission(actor, Permission.USER_MANAGE);
+      case 'delete':
+        return hasPermission(actor, Permission.USER_MANAGE);
+    }
+  }
+
+  /**
+   * Role changes alter what someone may do everywhere, so owning the account
+   * is not enough.
+   */
+  canAssignRoles(actor: AuthUser): boolean {
+    return hasPermission(actor, Permission.USER_MANAGE);
+  }
+}
@@ -1,3 +1,5 @@
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { OrganizationRole } from '@modules/organizations/enums/organization-role.enum';
 import { Test, TestingModule } from '@nestjs/testing';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
@@ -16,17 +18,29 @@ describe('UsersController', () => {
     password: 'hashedPassword',
     role: 'user',
     tasks: [],
+    memberships: [],
     refreshToken: undefined as unknown as string,
     isActive: true,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
 
+  const actor: AuthUser = {
+    id: '1',
+    email: 'test@example.com',
+    name: 'Test User',
+    role: 'user',
+    organizationId: 'org-1',
+    organizationRole: OrganizationRole.MEMBER,
+    permissions: [],
+  };
+
   const mockUsersService = {
     create: jest.fn(),
     findAll: jest.fn(),
     findOne: jest.fn(),
     update: jest.fn(),
+    updateRole: jest.fn(),
     remove: jest.fn(),
   };
 
@@ -54,9 +68,9 @@ describe('UsersController', () => {
       };
       mockUsersService.create.mockResolvedValue(mockUser);
 
-      const result = await controller.create(createUserDto);
+      const result = await controller.create(createUserDto, 'org-1');
 
-      expect(service.create).toHaveBeenCalledWith(createUserDto);
+      expect(service.create).toHaveBeenCalledWith(createUserDto, 'org-1');
       expect(result).toEqual(mockUser);
     });
   });
@@ -66,9 +80,9 @@ describe('UsersController', () => {
       const users = [mockUser];
       mockUsersService.findAll.mockResolvedValue(users);
 
-      const result = await controller.findAll();
+      const result = await controller.findAll('org-1');
 
-      expect(service.findAll).toHaveBeenCalled();
+      expect(service.findAll).toHaveBeenCalledWith('org-1');
       expect(result).toEqual(users);
     });
   });
@@ -77,9 +91,9 @@ describe('UsersController', () => {
     it('should return a single user', async () => {
       mockUsersService.findOne.mockResolvedValue(mockUser);
 
-      const result = await controller.findOne('1');
+      const result = await controller.findOne('1', 'org-1');
 
-      expect(service.findOne).toHaveBeenCalledWith('1');
+      expect(service.findOne).toHaveBeenCalledWith('1', 'org-1');
       expect(result).toEqual(mockUser);
     });
   });
@@ -91,20 +105,31 @@ describe('UsersController', () => {
       };
       mockUsersService.update.mockResolvedValue({ ...mockUser, ...updateUserDto });
 
-      const result = await controller.update('1', updateUserDto);
+      const result = await controller.update('1', updateUserDto, actor);
 
-      expect(service.update).toHaveBeenCalledWith('1', updateUserDto);
+      expect(service.update).toHaveBeenCalledWith('1', updateUserDto, actor);
       expect(result).toEqual({ ...mockUser, ...updateUserDto });
     });
   });
 
+  describe('updateRole', () => {
+    it('should pass the role and the acting user to the service', async () => {
+      mockUsersService.updateRole.mockResolvedValue({ ...mockUser, role: 'admin' });
+
+      const result = await controller.updateRole('1', { role: 'admin' }, actor);
+
+      expect(service.updateRole).toHaveBeenCalledWith('1', 'admin', actor);
+      expect(result).toEqual({ ...mockUser, role: 'admin' });
+    });
+  });
+
   describe('remove', () => {
     it('should remove a user', async () => {
       mockUsersService.remove.mockResolvedValue(undefined);
 
-      const result = await controller.remove('1');
+      const result = await controller.remove('1', actor);
 
-      expect(service.remove).toHaveBeenCalledWith('1');
+      expect(service.remove).toHaveBeenCalledWith('1', actor);
       expect(result).toBeUndefined();
     });
   });
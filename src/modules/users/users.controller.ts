@@ -1,4 +1,7 @@
-import { Authenticated } from '@modules/auth/decorators/current-user.decorator';
+import { RequirePermissions } from '@common/decorators/require-permissions.decorator';
+import { Authenticated, CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import type { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { Permission } from '@modules/roles/enums/permission.enum';
 import {
   Body,
   ClassSerializerInterceptor,
@@ -10,8 +13,9 @@ import {
   Post,
   UseInterceptors,
 } from '@nestjs/common';
-import { ApiTags } from '@nestjs/swagger';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
 import { CreateUserDto } from './dto/create-user.dto';
+import { UpdateUserRoleDto } from './dto/update-user-role.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { UsersService } from './users.service';
 
@@ -21,32 +25,56 @@ import { UsersService } from './users.service';
 export class UsersController {
   constructor(private readonly usersService: UsersService) {}
 
+  @Authenticated()
+  @RequirePermissions(Permission.USER_MANAGE)
   @Post()
-  create(@Body() createUserDto: CreateUserDto) {
-    return this.usersService.create(createUserDto);
+  create(
+    @Body() createUserDto: CreateUserDto,
+    @CurrentUser('organizationId') organizationId: string,
+  ) {
+    return this.usersService.create(createUserDto, organizationId);
   }
 
   @Authenticated()
+  @RequirePermissions(Permission.USER_READ)
   @Get()
-  findAll() {
-    return this.usersService.findAll();
+  findAll(@CurrentUser('organizationId') organizationId: string) {
+    return this.usersService.findAll(organizationId);
   }
 
   @Authenticated()
+  @RequirePermissions(Permission.USER_READ)
   @Get(':id')
-  findOne(@Param('id') id: string) {
-    return this.usersService.findOne(id);
+  findOne(@Param('id') id: string, @CurrentUser('organizationId') organizationId: string) {
+    return this.usersService.findOne(id, organizationId);
   }
 
   @Authenticated()
   @Patch(':id')
-  update(@Param('id') id: string, @Body() updateUserDto: UpdateUserDto) {
-    return this.usersService.update(id, updateUserDto);
+  update(
+    @Param('id') id: string,
+    @Body() updateUserDto: UpdateUserDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.usersService.update(id, updateUserDto, user);
+  }
+
+  @Authenticated()
+  @RequirePermissions(Permission.USER_MANAGE)
+  @Patch(':id/role')
+  @ApiOperation({ summary: 'Assign a role to a user' })
+  updateRole(
+    @Param('id') id: string,
+    @Body() updateUserRoleDto: UpdateUserRoleDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.usersService.updateRole(id, updateUserRoleDto.role, user);
   }
 
   @Authenticated()
+  @RequirePermissions(Permission.USER_MANAGE)
   @Delete(':id')
-  remove(@Param('id') id: string) {
-    return this.usersService.remove(id);
+  remove(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.usersService.remove(id, user);
   }
 }
@@ -1,10 +1,14 @@
-import { NotFoundException } from '@nestjs/common';
+import { AuthUser } from '@modules/auth/interfaces/auth-user.interface';
+import { OrganizationRole } from '@modules/organizations/enums/organization-role.enum';
+import { Permission } from '@modules/roles/enums/permission.enum';
+import { BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { User } from './entities/user.entity';
+import { UserPolicy } from './policies/user.policy';
 import { UsersService } from './users.service';
 
 import * as bcrypt from 'bcrypt';
@@ -20,12 +24,33 @@ describe('UsersService', () => {
     password: 'hashedPassword',
     role: 'user',
     tasks: [],
+    memberships: [],
     refreshToken: undefined as unknown as string,
     isActive: true,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
 
+  const actor: AuthUser = {
+    id: 'admin-1',
+    email: 'admin@example.com',
+    name: 'Admin',
+    role: 'admin',
+    organizationId: 'org-1',
+    organizationRole: OrganizationRole.OWNER,
+    permissions: [Permission.USER_READ, Permission.USER_MANAGE],
+  };
+
+  const self: AuthUser = {
+    id: '1',
+    email: 'test@example.com',
+    name: 'Test User',
+    role: 'user',
+    organizationId: 'org-1',
+    organizationRole: OrganizationRole.MEMBER,
+    permissions: [Permission.USER_READ],
+  };
+
   const mockRepository = {
     create: jest.fn(),
     save: jest.fn(),
@@ -34,6 +59,12 @@ describe('UsersService', () => {
     merge: jest.fn(),
     remove: jest.fn(),
     update: jest.fn(),
+    manager: {
+      save: jest.fn(),
+      count: jest.fn(),
+      exists: jest.fn(),
+      delete: jest.fn(),
+    },
   };
 
   beforeEach(async () => {
@@ -46,6 +77,7 @@ describe('UsersService', () => {
           provide: getRepositoryToken(User),
           useValue: mockRepository,
         },
+        UserPolicy,
       ],
     }).compile();
 
@@ -63,7 +95,7 @@ describe('UsersService', () => {
       const hashedPassword = 'hashed_password';
 
       mockRepository.create.mockReturnValue({ ...mockUser, password: hashedPassword });
-      mockRepository.save.mockResolvedValue({ ...mockUser, password: hashedPassword });
+      mockRepository.manager.save.mockResolvedValue({ ...mockUser, password: hashedPassword });
 
       const result = await service.create(createUserDto);
 
@@ -72,19 +104,23 @@ describe('UsersService', () => {
         ...createUserDto,
         password: hashedPassword,
       });
-      expect(repository.save).toHaveBeenCalled();
-      expect(result).toEqual({ ...mockUser, password: hashedPassword });
+      expect(mockRepository.manager.save).toHaveBeenCalledWith(User, {
+        ...mockUser,
+        password: hashedPassword,
+      });
     });
   });
 
   describe('findAll', () => {
-    it('should return an array of users', async () => {
+    it('should return the members of the organization', async () => {
       const users = [mockUser];
       mockRepository.find.mockResolvedValue(users);
 
-      const result = await service.findAll();
+      const result = await service.findAll('org-1');
 
-      expect(repository.find).toHaveBeenCalled();
+      expect(repository.find).toHaveBeenCalledWith({
+        where: { memberships: { organizationId: 'org-1' } },
+      });
       expect(result).toEqual(users);
     });
   });
@@ -104,6 +140,15 @@ describe('UsersService', () => {
 
       await expect(service.findOne('1')).rejects.toThrow(NotFoundException);
     });
+
+    it('should only find members of the given organization', async () => {
+      mockRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.findOne('1', 'org-2')).rejects.toThrow(NotFoundException);
+      expect(repository.findOne).toHaveBeenCalledWith({
+        where: { id: '1', memberships: { organizationId: 'org-2' } },
+      });
+    });
   });
 
   describe('findByEmail', () => {
@@ -128,7 +173,7 @@ describe('UsersService', () => {
       mockRepository.merge.mockReturnValue({ ...mockUser, ...updateUserDto });
       mockRepository.save.mockResolvedValue({ ...mockUser, ...updateUserDto });
 
-      const result = await service.update('1', updateUserDto);
+      const result = await service.update('1', updateUserDto, actor);
 
       expect(repository.merge).toHaveBeenCalledWith(mockUser, updateUserDto);
       expect(repository.save).toHaveBeenCalled();
@@ -145,22 +190,90 @@ describe('UsersService', () => {
       mockRepository.merge.mockReturnValue({ ...mockUser, password: hashedPassword });
       mockRepository.save.mockResolvedValue({ ...mockUser, password: hashedPassword });
 
-      await service.update('1', updateUserDto);
+      await service.update('1', updateUserDto, actor);
 
       expect(repository.save).toHaveBeenCalled();
     });
+
+    it('should let users update their own profile', async () => {
+      mockRepository.findOne.mockResolvedValue(mockUser);
+      mockRepository.save.mockResolvedValue(mockUser);
+
+      await expect(service.update('1', { name: 'Me' }, self)).resolves.toEqual(mockUser);
+    });
+
+    it("should reject updates to someone else's profile", async () => {
+      mockRepository.save.mockClear();
+      mockRepository.findOne.mockResolvedValue({ ...mockUser, id: '3' });
+
+      await expect(service.update('3', { name: 'Not me' }, self)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(repository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateRole', () => {
+    it('should assign an existing role', async () => {
+      mockRepository.findOne.mockResolvedValue({ ...mockUser });
+      mockRepository.manager.exists.mockResolvedValue(true);
+      mockRepository.save.mockImplementation(async user => user);
+
+      const result = await service.updateRole('1', 'admin', actor);
+
+      expect(result.role).toBe('admin');
+    });
+
+    it('should reject roles that do not exist', async () => {
+      mockRepository.findOne.mockResolvedValue({ ...mockUser });
+      mockRepository.manager.exists.mockResolvedValue(false);
+
+      await expect(service.updateRole('1', 'ghost', actor)).rejects.toThrow(BadRequestException);
+    });
+
+    it('should not let users change their own role', async () => {
+      mockRepository.findOne.mockResolvedValue({ ...mockUser });
+      mockRepository.manager.exists.mockResolvedValue(true);
+
+      await expect(service.updateRole('1', 'admin', self)).rejects.toThrow(ForbiddenException);
+    });
   });
 
   describe('remove', () => {
     it('should remove a user', async () => {
       mockRepository.findOne.mockResolvedValue(mockUser);
       mockRepository.remove.mockResolvedValue(undefined);
+      mockRepository.manager.count.mockResolvedValue(1);
 
-      await service.remove('1');
+      await service.remove('1', actor);
 
-      expect(repository.findOne).toHaveBeenCalledWith({ where: { id: '1' } });
+      expect(repository.findOne).toHaveBeenCalledWith({
+        where: { id: '1', memberships: { organizationId: 'org-1' } },
+      });
       expect(repository.remove).toHaveBeenCalledWith(mockUser);
     });
+
+    it('should only leave the organization when the user belongs to others', async () => {
+      mockRepository.remove.mockClear();
+      mockRepository.findOne.mockResolvedValue(mockUser);
+      mockRepository.manager.count.mockResolvedValue(2);
+
+      await service.remove('1', actor);
+
+      expect(mockRepository.manager.delete).toHaveBeenCalledWith(expect.anything(), {
+        organizationId: 'org-1',
+        userId: '1',
+      });
+      expect(repository.remove).not.toHaveBeenCalled();
+    });
+
+    it('should require user:manage', async () => {
+      mockRepository.remove.mockClear();
+      mockRepository.findOne.mockResolvedValue(mockUser);
+
+      await expect(service.remove('1', self)).rejects.toThrow(ForbiddenException);
+      expect(repository.remove).not.toHaveBeenCalled();
+    });
   });
 
   describe('updateRefreshToken', () => {
@@ -1,33 +1,76 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import * as bcrypt from 'bcrypt';
-import { Repository } from 'typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
+import { OrganizationRole } from '../organizations/enums/organization-role.enum';
+import { Role } from '../roles/entities/role.entity';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { User } from './entities/user.entity';
+import { UserPolicy } from './policies/user.policy';
 
 @Injectable()
 export class UsersService {
   constructor(
     @InjectRepository(User)
     private usersRepository: Repository<User>,
+    private userPolicy: UserPolicy,
   ) {}
 
-  async create(createUserDto: CreateUserDto): Promise<User> {
+  /**
+   * Creates a user; when an organization is given the user joins it as a
+   * member in the same transaction.
+   */
+  async create(
+    createUserDto: CreateUserDto,
+    organizationId?: string,
+    role: OrganizationRole = OrganizationRole.MEMBER,
+    manager: EntityManager = this.usersRepository.manager,
+  ): Promise<User> {
     const hashedPassword = await bcrypt.hash(createUserDto.password, 10);
     const user = this.usersRepository.create({
       ...createUserDto,
       password: hashedPassword,
     });
-    return this.usersRepository.save(user);
+
+    if (!organizationId) {
+      return manager.save(User, user);
+    }
+
+    return manager.transaction(async transactionManager => {
+      const savedUser = await transactionManager.save(User, user);
+      await transactionManager.save(
+        OrganizationMembership,
+        transactionManager.create(OrganizationMembership, {
+          organizationId,
+          userId: savedUser.id,
+          role,
+        }),
+      );
+      return savedUser;
+    });
   }
 
-  findAll(): Promise<User[]> {
-    return this.usersRepository.find();
+  findAll(organizationId: string): Promise<User[]> {
+    return this.usersRepository.find({ where: { memberships: { organizationId } } });
   }
 
-  async findOne(id: string): Promise<User> {
-    const user = await this.usersRepository.findOne({ where: { id } });
+  /**
+   * Without an organization the lookup is global, which only authentication
+   * should rely on; tenant-facing callers must pass the organization so users
+   * of other tenants are reported as not found.
+   */
+  async findOne(id: string, organizationId?: string): Promise<User> {
+    const user = await this.usersRepository.findOne({
+      where: organizationId ? { id, memberships: { organizationId } } : { id },
+    });
     if (!user) {
       throw new NotFoundException(`User with ID ${id} not found`);
     }
@@ -38,8 +81,9 @@ export class UsersService {
     return this.usersRepository.findOne({ where: { email } });
   }
 
-  async update(id: string, updateUserDto: UpdateUserDto): Promise<User> {
-    const user = await this.findOne(id);
+  async update(id: string, updateUserDto: UpdateUserDto, actor: AuthUser): Promise<User> {
+    const user = await this.findOne(id, actor.organizationId);
+    this.userPolicy.authorize(actor, 'update', user);
 
     if (updateUserDto.password) {
       updateUserDto.password = await bcrypt.hash(updateUserDto.password, 10);
@@ -49,8 +93,41 @@ export class UsersService {
     return this.usersRepository.save(user);
   }
 
-  async remove(id: string): Promise<void> {
-    const user = await this.findOne(id);
+  async updateRole(id: string, role: string, actor: AuthUser): Promise<User> {
+    if (!this.userPolicy.canAssignRoles(actor)) {
+      throw new ForbiddenException('You are not allowed to assign roles');
+    }
+    const user = await this.findOne(id, actor.organizationId);
+
+    const roleExists = await this.usersRepository.manager.exists(Role, { where: { name: role } });
+    if (!roleExists) {
+      throw new BadRequestException(`Role ${role} does not exist`);
+    }
+
+    user.role = role;
+    return this.usersRepository.save(user);
+  }
+
+  /**
+   * Removes the user from the organization, deleting the account only when it
+   * belongs to no other organization.
+   */
+  async remove(id: string, actor: AuthUser): Promise<void> {
+    const { organizationId } = actor;
+    const user = await this.findOne(id, organizationId);
+    this.userPolicy.authorize(actor, 'delete', user);
+
+    const membershipCount = await this.usersRepository.manager.count(OrganizationMembership, {
+      where: { userId: id },
+    });
+    if (membershipCount > 1) {
+      await this.usersRepository.manager.delete(OrganizationMembership, {
+        organizationId,
+        userId: id,
+      });
+      return;
+    }
+
     await this.usersRepository.remove(user);
   }
 
@@ -60,7 +60,7 @@ describe('OverdueTasksService', () => {
           dueDate: expect.any(Object),
           status: TaskStatus.PENDING,
         },
-        select: ['id', 'title', 'dueDate'],
+        select: ['id', 'title', 'dueDate', 'organizationId'],
       });
 
       jest.useRealTimers();
@@ -84,7 +84,8 @@ describe('OverdueTasksService', () => {
           task.description = 'Test description';
           task.status = TaskStatus.PENDING;
           task.priority = TaskPriority.MEDIUM;
-          task.userId = '1';
+          task.createdById = '1';
+          task.organizationId = 'org-1';
           task.dueDate = new Date();
           task.createdAt = new Date();
           task.updatedAt = new Date();
@@ -98,7 +99,7 @@ describe('OverdueTasksService', () => {
           mockUser.refreshToken = '';
           mockUser.createdAt = new Date();
           mockUser.updatedAt = new Date();
-          task.user = mockUser;
+          task.createdBy = mockUser;
           return task;
         });
       tasksRepository.find.mockResolvedValue(mockTasks);
@@ -109,6 +110,7 @@ describe('OverdueTasksService', () => {
       expect(taskQueue.add).toHaveBeenCalledWith(
         'overdue-tasks-notification',
         {
+          organizationId: 'org-1',
           tasks: expect.arrayContaining(
             mockTasks.slice(0, 100).map(task => ({
               taskId: task.id,
@@ -123,6 +125,7 @@ describe('OverdueTasksService', () => {
       expect(taskQueue.add).toHaveBeenCalledWith(
         'overdue-tasks-notification',
         {
+          organizationId: 'org-1',
           tasks: expect.arrayContaining(
             mockTasks.slice(100).map(task => ({
               taskId: task.id,
@@ -135,6 +138,41 @@ describe('OverdueTasksService', () => {
       );
     });
 
+    it('should never mix organizations in one batch', async () => {
+      const mockTasks = ['org-1', 'org-2', 'org-1'].map((organizationId, index) => {
+        const task = new Task();
+        task.id = (index + 1).toString();
+        task.title = `Task ${index + 1}`;
+        task.organizationId = organizationId;
+        task.dueDate = new Date();
+        return task;
+      });
+      tasksRepository.find.mockResolvedValue(mockTasks);
+
+      await service.checkOverdueTasks();
+
+      expect(taskQueue.add).toHaveBeenCalledTimes(2);
+      expect(taskQueue.add).toHaveBeenCalledWith(
+        'overdue-tasks-notification',
+        {
+          organizationId: 'org-1',
+          tasks: [
+            { taskId: '1', title: 'Task 1', dueDate: mockTasks[0].dueDate },
+            { taskId: '3', title: 'Task 3', dueDate: mockTasks[2].dueDate },
+          ],
+        },
+        expect.any(Object),
+      );
+      expect(taskQueue.add).toHaveBeenCalledWith(
+        'overdue-tasks-notification',
+        {
+          organizationId: 'org-2',
+          tasks: [{ taskId: '2', title: 'Task 2', dueDate: mockTasks[1].dueDate }],
+        },
+        expect.any(Object),
+      );
+    });
+
     it('should use correct job options when adding tasks to queue', async () => {
       const mockUser = new User();
       mockUser.id = '1';
@@ -154,11 +192,11 @@ describe('OverdueTasksService', () => {
           description: 'Test description',
           status: TaskStatus.PENDING,
           priority: TaskPriority.MEDIUM,
-          userId: '1',
+          createdById: '1',
           dueDate: new Date(),
           createdAt: new Date(),
           updatedAt: new Date(),
-          user: mockUser,
+          createdBy: mockUser,
         } as Task,
       ];
       tasksRepository.find.mockResolvedValue(mockTasks);
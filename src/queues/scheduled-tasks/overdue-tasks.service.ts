@@ -29,17 +29,26 @@ export class OverdueTasksService {
           dueDate: LessThan(now),
           status: TaskStatus.PENDING,
         },
-        select: ['id', 'title', 'dueDate'],
+        select: ['id', 'title', 'dueDate', 'organizationId'],
       });
       this.logger.log(`Found ${overdueTasks.length} overdue tasks`);
 
-      if (overdueTasks.length > 0) {
-        const batchSize = 100;
-        for (let i = 0; i < overdueTasks.length; i += batchSize) {
-          const batch = overdueTasks.slice(i, i + batchSize);
+      // Batches never mix tenants so each job only touches one organization.
+      const tasksByOrganization = new Map<string, Task[]>();
+      for (const task of overdueTasks) {
+        const organizationTasks = tasksByOrganization.get(task.organizationId) ?? [];
+        organizationTasks.push(task);
+        tasksByOrganization.set(task.organizationId, organizationTasks);
+      }
+
+      const batchSize = 100;
+      for (const [organizationId, organizationTasks] of tasksByOrganization) {
+        for (let i = 0; i < organizationTasks.length; i += batchSize) {
+          const batch = organizationTasks.slice(i, i + batchSize);
           await this.taskQueue.add(
             'overdue-tasks-notification',
             {
+              organizationId,
               tasks: batch.map(task => ({
                 taskId: task.id,
                 title: task.title,
@@ -56,7 +65,9 @@ export class OverdueTasksService {
               removeOnFail: false,
             },
           );
-          this.logger.debug(`Added batch of ${batch.length} tasks to the processing queue`);
+          this.logger.debug(
+            `Added batch of ${batch.length} tasks of organization ${organizationId} to the processing queue`,
+          );
         }
       }
       this.logger.debug('Overdue tasks check completed successfully');
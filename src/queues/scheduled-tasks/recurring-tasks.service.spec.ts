@@ -0,0 +1,39 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TasksService } from '../../modules/tasks/tasks.service';
+import { RecurringTasksService } from './recurring-tasks.service';
+
+describe('RecurringTasksService', () => {
+  let service: RecurringTasksService;
+  let tasksService: { generateDueOccurrences: jest.Mock };
+
+  beforeEach(async () => {
+    tasksService = { generateDueOccurrences: jest.fn().mockResolvedValue(0) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [RecurringTasksService, { provide: TasksService, useValue: tasksService }],
+    }).compile();
+
+    service = module.get<RecurringTasksService>(RecurringTasksService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should create the occurrences due by now', async () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2025-08-31T09:00:00Z'));
+
+    await service.generateDueOccurrences();
+
+    expect(tasksService.generateDueOccurrences).toHaveBeenCalledWith(
+      new Date('2025-08-31T09:00:00Z'),
+    );
+  });
+
+  it('should not throw when creating occurrences fails', async () => {
+    tasksService.generateDueOccurrences.mockRejectedValue(new Error('Database connection failed'));
+
+    await expect(service.generateDueOccurrences()).resolves.toBeUndefined();
+  });
+});
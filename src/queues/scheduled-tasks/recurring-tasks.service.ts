@@ -0,0 +1,29 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { TasksService } from '../../modules/tasks/tasks.service';
+
+@Injectable()
+export class RecurringTasksService {
+  private readonly logger = new Logger(RecurringTasksService.name);
+
+  constructor(private tasksService: TasksService) {}
+
+  /**
+   * Creates the next occurrence of recurring tasks whose current occurrence
+   * has come due, even if it was not completed yet.
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async generateDueOccurrences() {
+    this.logger.debug('Creating occurrences of recurring tasks...');
+
+    try {
+      const created = await this.tasksService.generateDueOccurrences(new Date());
+      this.logger.log(`Created ${created} occurrences of recurring tasks`);
+    } catch (error) {
+      this.logger.error(
+        `Error creating recurring tasks: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error.stack : undefined,
+      );
+    }
+  }
+}
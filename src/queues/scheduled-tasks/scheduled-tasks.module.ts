@@ -3,6 +3,8 @@ import { Module } from '@nestjs/common';
 import { ScheduleModule } from '@nestjs/schedule';
 import { TasksModule } from '../../modules/tasks/tasks.module';
 import { OverdueTasksService } from './overdue-tasks.service';
+import { RecurringTasksService } from './recurring-tasks.service';
+import { TrashPurgeService } from './trash-purge.service';
 
 @Module({
   imports: [
@@ -12,7 +14,7 @@ import { OverdueTasksService } from './overdue-tasks.service';
     }),
     TasksModule,
   ],
-  providers: [OverdueTasksService],
-  exports: [OverdueTasksService],
+  providers: [OverdueTasksService, TrashPurgeService, RecurringTasksService],
+  exports: [OverdueTasksService, TrashPurgeService, RecurringTasksService],
 })
 export class ScheduledTasksModule {}
@@ -0,0 +1,54 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TasksService } from '../../modules/tasks/tasks.service';
+import { TrashPurgeService } from './trash-purge.service';
+
+describe('TrashPurgeService', () => {
+  let service: TrashPurgeService;
+  let tasksService: { purgeTrash: jest.Mock };
+  let config: Record<string, string | undefined>;
+
+  beforeEach(async () => {
+    tasksService = { purgeTrash: jest.fn().mockResolvedValue(0) };
+    config = {};
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TrashPurgeService,
+        { provide: TasksService, useValue: tasksService },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string) => config[key]) } },
+      ],
+    }).compile();
+
+    service = module.get<TrashPurgeService>(TrashPurgeService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should purge tasks trashed more than 30 days ago by default', async () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2025-08-31T03:00:00Z'));
+
+    await service.purgeExpiredTrash();
+
+    expect(tasksService.purgeTrash).toHaveBeenCalledWith(new Date('2025-08-01T03:00:00Z'));
+  });
+
+  it('should honour the configured retention', async () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2025-08-31T03:00:00Z'));
+    config.TASK_TRASH_RETENTION_DAYS = '7';
+
+    await service.purgeExpiredTrash();
+
+    expect(tasksService.purgeTrash).toHaveBeenCalledWith(new Date('2025-08-24T03:00:00Z'));
+  });
+
+  it('should not throw when the purge fails', async () => {
+    tasksService.purgeTrash.mockRejectedValue(new Error('Database connection failed'));
+
+    await expect(service.purgeExpiredTrash()).resolves.toBeUndefined();
+  });
+});
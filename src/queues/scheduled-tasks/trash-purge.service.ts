@@ -0,0 +1,38 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { TasksService } from '../../modules/tasks/tasks.service';
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+@Injectable()
+export class TrashPurgeService {
+  private readonly logger = new Logger(TrashPurgeService.name);
+
+  constructor(
+    private tasksService: TasksService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Permanently deletes tasks that have been in the trash for longer than
+   * `TASK_TRASH_RETENTION_DAYS` (30 days by default).
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async purgeExpiredTrash() {
+    const retentionDays =
+      Number(this.configService.get('TASK_TRASH_RETENTION_DAYS')) || DEFAULT_RETENTION_DAYS;
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+    this.logger.debug(`Purging tasks trashed before ${cutoff.toISOString()}...`);
+
+    try {
+      const purged = await this.tasksService.purgeTrash(cutoff);
+      this.logger.log(`Purged ${purged} tasks from the trash`);
+    } catch (error) {
+      this.logger.error(
+        `Error purging the trash: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error.stack : undefined,
+      );
+    }
+  }
+}
@@ -3,6 +3,7 @@ import { Job } from 'bullmq';
 import { DataSource } from 'typeorm';
 import { Task } from '../../modules/tasks/entities/task.entity';
 import { TaskStatus } from '../../modules/tasks/enums/task-status.enum';
+import { TaskDependenciesService } from '../../modules/tasks/task-dependencies.service';
 import { TasksService } from '../../modules/tasks/tasks.service';
 import { TaskProcessorService } from './task-processor.service';
 
@@ -17,6 +18,11 @@ describe('TaskProcessorService', () => {
     findOverdueTasks: jest.fn(),
   };
 
+  const mockTaskDependenciesService = {
+    findDependentIds: jest.fn(),
+    findBlockedTaskIds: jest.fn(),
+  };
+
   const mockQueryRunner = {
     connect: jest.fn(),
     startTransaction: jest.fn(),
@@ -37,6 +43,10 @@ describe('TaskProcessorService', () => {
           provide: TasksService,
           useValue: mockTasksService,
         },
+        {
+          provide: TaskDependenciesService,
+          useValue: mockTaskDependenciesService,
+        },
         {
           provide: DataSource,
           useValue: mockDataSource,
@@ -70,6 +80,24 @@ describe('TaskProcessorService', () => {
       });
     });
 
+    it('should attribute status updates to the user who queued them', async () => {
+      const mockJob = {
+        id: '1',
+        name: 'task-status-update',
+        data: { taskId: '1', status: TaskStatus.COMPLETED, actorId: 'u1' },
+        attemptsMade: 0,
+      } as Job;
+
+      mockTasksService.updateStatusWithManager.mockResolvedValue({
+        id: '1',
+        status: TaskStatus.COMPLETED,
+      });
+
+      await service.process(mockJob);
+
+      expect(mockTasksService.updateStatusWithManager.mock.lastCall?.[3]).toBe('u1');
+    });
+
     it('should handle retry with exponential backoff', async () => {
       const mockJob = {
         id: '1',
@@ -133,9 +161,56 @@ describe('TaskProcessorService', () => {
     });
   });
 
+  describe('handleCommentCreated', () => {
+    it('should acknowledge a comment event', async () => {
+      const mockJob = {
+        id: '2',
+        name: 'task-comment-created',
+        data: { taskId: '1', commentId: 'c1', authorId: 'u1' },
+        attemptsMade: 0,
+      } as Job;
+
+      const result = await service.process(mockJob);
+
+      expect(result).toEqual({ success: true, taskId: '1', commentId: 'c1' });
+    });
+
+    it('should reject a comment event without ids', async () => {
+      const mockJob = { data: { taskId: '1' } } as Job;
+
+      const result = await service['handleCommentCreated'](mockJob);
+
+      expect(result).toEqual({ success: false, error: 'Missing required data' });
+    });
+  });
+
+  describe('handleDependentsUnblock', () => {
+    it('should report dependents that have no open blockers left', async () => {
+      const mockJob = {
+        id: '3',
+        name: 'task-dependents-unblock',
+        data: { taskId: '1' },
+        attemptsMade: 0,
+      } as Job;
+      mockTaskDependenciesService.findDependentIds.mockResolvedValue(['2', '3']);
+      mockTaskDependenciesService.findBlockedTaskIds.mockResolvedValue(new Set(['3']));
+
+      const result = await service.process(mockJob);
+
+      expect(mockTaskDependenciesService.findBlockedTaskIds).toHaveBeenCalledWith(['2', '3']);
+      expect(result).toEqual({ success: true, taskId: '1', unblockedTaskIds: ['2'] });
+    });
+
+    it('should reject a job without a task id', async () => {
+      const result = await service['handleDependentsUnblock']({ data: {} } as Job);
+
+      expect(result).toEqual({ success: false, error: 'Missing required data' });
+    });
+  });
+
   describe('handleOverdueTasks', () => {
     it('should process overdue tasks in batches', async () => {
-      const mockJob = {} as Job;
+      const mockJob = { data: { organizationId: 'org-1' } } as Job;
       const firstBatchTasks = [
         { id: '1', status: TaskStatus.PENDING },
         { id: '2', status: TaskStatus.PENDING },
@@ -144,12 +219,14 @@ describe('TaskProcessorService', () => {
 
       mockTasksService.findOverdueTasks.mockClear();
 
-      mockTasksService.findOverdueTasks.mockImplementation((limit: number, offset: number) => {
-        if (offset === 0) {
-          return Promise.resolve(firstBatchTasks);
-        }
-        return Promise.resolve(secondBatchTasks);
-      });
+      mockTasksService.findOverdueTasks.mockImplementation(
+        (_organizationId: string, _limit: number, offset: number) => {
+          if (offset === 0) {
+            return Promise.resolve(firstBatchTasks);
+          }
+          return Promise.resolve(secondBatchTasks);
+        },
+      );
 
       mockTasksService.updateStatus.mockResolvedValue({ status: TaskStatus.PENDING });
 
@@ -158,14 +235,44 @@ describe('TaskProcessorService', () => {
       expect(result).toEqual({
         success: true,
         processedCount: 2,
+        failedTaskIds: [],
       });
 
-      expect(mockTasksService.findOverdueTasks).toHaveBeenCalledWith(100, 0);
+      expect(mockTasksService.findOverdueTasks).toHaveBeenCalledWith('org-1', 100, 0);
+      expect(mockTasksService.updateStatus).toHaveBeenCalledWith(
+        '1',
+        TaskStatus.PENDING,
+        'org-1',
+        true,
+      );
+      expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+    });
+
+    it('should move the other tasks when one of them fails', async () => {
+      const mockJob = { data: { organizationId: 'org-1' } } as Job;
+      mockTasksService.findOverdueTasks.mockReset();
+      mockTasksService.findOverdueTasks.mockResolvedValueOnce([
+        { id: '1', status: TaskStatus.IN_PROGRESS },
+        { id: '2', status: TaskStatus.IN_PROGRESS },
+      ] as Task[]);
+      mockTasksService.updateStatus
+        .mockRejectedValueOnce(new Error('Task 1 cannot move to PENDING'))
+        .mockResolvedValueOnce({ status: TaskStatus.PENDING });
+
+      const result = await service['handleOverdueTasks'](mockJob);
+
+      expect(result).toEqual({ success: true, processedCount: 2, failedTaskIds: ['1'] });
+      expect(mockTasksService.updateStatus).toHaveBeenCalledWith(
+        '2',
+        TaskStatus.PENDING,
+        'org-1',
+        true,
+      );
       expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
     });
 
     it('should handle empty task list', async () => {
-      const mockJob = {} as Job;
+      const mockJob = { data: { organizationId: 'org-1' } } as Job;
 
       mockTasksService.findOverdueTasks.mockReset();
       mockTasksService.findOverdueTasks.mockResolvedValueOnce([]);
@@ -175,9 +282,16 @@ describe('TaskProcessorService', () => {
       expect(result).toEqual({
         success: true,
         processedCount: 0,
+        failedTaskIds: [],
       });
       expect(mockTasksService.findOverdueTasks).toHaveBeenCalledTimes(1);
       expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
     });
+
+    it('should reject jobs without an organization', async () => {
+      const result = await service['handleOverdueTasks']({ data: {} } as Job);
+
+      expect(result).toEqual({ success: false, error: 'Missing required data' });
+    });
   });
 });
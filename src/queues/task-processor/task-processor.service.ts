@@ -4,6 +4,7 @@ import { Job } from 'bullmq';
 import { DataSource } from 'typeorm';
 import { Task } from '../../modules/tasks/entities/task.entity';
 import { TaskStatus } from '../../modules/tasks/enums/task-status.enum';
+import { TaskDependenciesService } from '../../modules/tasks/task-dependencies.service';
 import { TasksService } from '../../modules/tasks/tasks.service';
 
 @Injectable()
@@ -15,6 +16,7 @@ export class TaskProcessorService extends WorkerHost {
 
   constructor(
     private readonly tasksService: TasksService,
+    private readonly taskDependenciesService: TaskDependenciesService,
     private readonly dataSource: DataSource,
   ) {
     super();
@@ -34,6 +36,10 @@ export class TaskProcessorService extends WorkerHost {
           return await this.handleStatusUpdate(job);
         case 'overdue-tasks-notification':
           return await this.handleOverdueTasks(job);
+        case 'task-comment-created':
+          return await this.handleCommentCreated(job);
+        case 'task-dependents-unblock':
+          return await this.handleDependentsUnblock(job);
         default:
           this.logger.warn(`Unknown job type: ${job.name}`);
           return { success: false, error: 'Unknown job type' };
@@ -54,7 +60,7 @@ export class TaskProcessorService extends WorkerHost {
   private async handleStatusUpdate(
     job: Job,
   ): Promise<{ success: boolean; taskId?: string; newStatus?: TaskStatus; error?: string }> {
-    const { taskId, status } = job.data;
+    const { taskId, status, actorId } = job.data;
 
     if (!taskId || !status) {
       return { success: false, error: 'Missing required data' };
@@ -76,6 +82,7 @@ export class TaskProcessorService extends WorkerHost {
         taskId,
         status,
         queryRunner.manager,
+        actorId ?? null,
       );
       await queryRunner.commitTransaction();
 
@@ -92,11 +99,61 @@ export class TaskProcessorService extends WorkerHost {
     }
   }
 
-  private async handleOverdueTasks(
-    _job: Job,
-  ): Promise<{ success: boolean; processedCount?: number; error?: string }> {
+  private async handleCommentCreated(
+    job: Job,
+  ): Promise<{ success: boolean; taskId?: string; commentId?: string; error?: string }> {
+    const { taskId, commentId, authorId } = job.data;
+
+    if (!taskId || !commentId) {
+      return { success: false, error: 'Missing required data' };
+    }
+
+    this.logger.log(`Comment ${commentId} added to task ${taskId} by user ${authorId}`);
+    return { success: true, taskId, commentId };
+  }
+
+  private async handleDependentsUnblock(job: Job): Promise<{
+    success: boolean;
+    taskId?: string;
+    unblockedTaskIds?: string[];
+    error?: string;
+  }> {
+    const { taskId } = job.data;
+
+    if (!taskId) {
+      return { success: false, error: 'Missing required data' };
+    }
+
+    const dependentIds = await this.taskDependenciesService.findDependentIds(taskId);
+    const stillBlocked = await this.taskDependenciesService.findBlockedTaskIds(dependentIds);
+    const unblockedTaskIds = dependentIds.filter(id => !stillBlocked.has(id));
+
+    for (const unblockedTaskId of unblockedTaskIds) {
+      this.logger.log(`Task ${unblockedTaskId} is no longer blocked: blocker ${taskId} completed`);
+    }
+
+    return { success: true, taskId, unblockedTaskIds };
+  }
+
+  /**
+   * Moves overdue tasks back to pending. This is a system change, so it may
+   * exceed WIP limits; the audit log records the override. A task that
+   * cannot be moved is reported and does not hold up the others.
+   */
+  private async handleOverdueTasks(job: Job): Promise<{
+    success: boolean;
+    processedCount?: number;
+    failedTaskIds?: string[];
+    error?: string;
+  }> {
     const BATCH_SIZE = 100;
-    this.logger.debug('Processing overdue tasks notification');
+    const { organizationId } = job.data;
+
+    if (!organizationId) {
+      return { success: false, error: 'Missing required data' };
+    }
+
+    this.logger.debug(`Processing overdue tasks notification for organization ${organizationId}`);
 
     const queryRunner = this.dataSource.createQueryRunner();
     await queryRunner.connect();
@@ -104,19 +161,34 @@ export class TaskProcessorService extends WorkerHost {
 
     try {
       let processedCount = 0;
+      const failedTaskIds: string[] = [];
       let hasMore = true;
 
       while (hasMore) {
-        const tasks = await this.tasksService.findOverdueTasks(BATCH_SIZE, processedCount);
+        const tasks = await this.tasksService.findOverdueTasks(
+          organizationId,
+          BATCH_SIZE,
+          processedCount,
+        );
 
         if (tasks.length === 0) {
           hasMore = false;
           continue;
         }
 
-        await Promise.all(
-          tasks.map((task: Task) => this.tasksService.updateStatus(task.id, TaskStatus.PENDING)),
+        const results = await Promise.allSettled(
+          tasks.map((task: Task) =>
+            this.tasksService.updateStatus(task.id, TaskStatus.PENDING, organizationId, true),
+          ),
         );
+        results.forEach((result, index) => {
+          if (result.status === 'rejected') {
+            const taskId = tasks[index].id;
+            const reason = result.reason instanceof Error ? result.reason.message : 'Unknown error';
+            this.logger.warn(`Could not move overdue task ${taskId} to pending: ${reason}`);
+            failedTaskIds.push(taskId);
+          }
+        });
 
         processedCount += tasks.length;
         this.logger.debug(`Processed ${processedCount} overdue tasks`);
@@ -127,7 +199,7 @@ export class TaskProcessorService extends WorkerHost {
       }
 
       await queryRunner.commitTransaction();
-      return { success: true, processedCount };
+      return { success: true, processedCount, failedTaskIds };
     } catch (error) {
       await queryRunner.rollbackTransaction();
       throw error;
@@ -1,16 +1,18 @@
 export interface PaginationOptions {
-  page?: number;
+  cursor?: string;
   limit?: number;
-  sortBy?: string;
-  sortOrder?: 'ASC' | 'DESC';
+  sort?: string;
 }
 
 export interface PaginatedResponse<T> {
   data: T[];
   meta: {
-    total: number;
-    page: number;
     limit: number;
-    totalPages: number;
+    /** Cursor of the following page, `null` on the last one. */
+    next: string | null;
+    /** Cursor of the preceding page, `null` on the first one. */
+    prev: string | null;
+    /** Only counted when requested, as counting large lists is slow. */
+    total?: number;
   };
-} 
\ No newline at end of file
+}
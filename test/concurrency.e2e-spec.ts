@@ -0,0 +1,152 @@
+import { ResponseTransformInterceptor } from '@common/interceptors/response.interceptor';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import * as request from 'supertest';
+import { AppModule } from '../src/app.module';
+
+describe('Concurrent and retried task requests (e2e)', () => {
+  let app: INestApplication;
+  let token: string;
+  let taskId: string;
+
+  const server = () => app.getHttpServer();
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalInterceptors(new ResponseTransformInterceptor());
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        transform: true,
+        forbidNonWhitelisted: true,
+        transformOptions: { enableImplicitConversion: true },
+      }),
+    );
+    await app.init();
+
+    const res = await request(server())
+      .post('/auth/register')
+      .send({ email: 'etag-owner@example.com', name: 'Owner', password: 'password' })
+      .expect(201);
+    token = res.body.data.access_token;
+
+    taskId = (
+      await request(server())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ title: 'Versioned task' })
+        .expect(201)
+    ).body.data.id;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('GET /tasks/:id should send an ETag and honour If-None-Match', async () => {
+    const res = await request(server())
+      .get(`/tasks/${taskId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    expect(res.headers.etag).toMatch(new RegExp(`^"${res.body.data.version}-`));
+
+    await request(server())
+      .get(`/tasks/${taskId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .set('If-None-Match', res.headers.etag)
+      .expect(304);
+  });
+
+  it('GET /tasks/:id should send a new ETag once the checklist progress changed', async () => {
+    const before = await request(server())
+      .get(`/tasks/${taskId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    await request(server())
+      .post(`/tasks/${taskId}/checklist`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ text: 'Check the ETag' })
+      .expect(201);
+
+    const after = await request(server())
+      .get(`/tasks/${taskId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .set('If-None-Match', before.headers.etag)
+      .expect(200);
+    expect(after.body.data.version).toEqual(before.body.data.version);
+    expect(after.headers.etag).not.toEqual(before.headers.etag);
+  });
+
+  it('PATCH /tasks/:id should refuse changes based on a stale ETag', async () => {
+    const current = await request(server())
+      .get(`/tasks/${taskId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    const etag = current.headers.etag;
+
+    const updated = await request(server())
+      .patch(`/tasks/${taskId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .set('If-Match', etag)
+      .send({ title: 'First edit' })
+      .expect(200);
+    expect(updated.headers.etag).not.toEqual(etag);
+
+    const stale = await request(server())
+      .patch(`/tasks/${taskId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .set('If-Match', etag)
+      .send({ title: 'Second edit' })
+      .expect(412);
+    expect(stale.body.data.title).toEqual('First edit');
+
+    await request(server())
+      .delete(`/tasks/${taskId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .set('If-Match', etag)
+      .expect(412);
+  });
+
+  it('POST /tasks should replay retries sent with the same Idempotency-Key', async () => {
+    const first = await request(server())
+      .post('/tasks')
+      .set('Authorization', `Bearer ${token}`)
+      .set('Idempotency-Key', 'create-once')
+      .send({ title: 'Created once' })
+      .expect(201);
+
+    const retry = await request(server())
+      .post('/tasks')
+      .set('Authorization', `Bearer ${token}`)
+      .set('Idempotency-Key', 'create-once')
+      .send({ title: 'Created once' })
+      .expect(201);
+    expect(retry.headers['idempotent-replayed']).toEqual('true');
+    expect(retry.body.data.id).toEqual(first.body.data.id);
+
+    await request(server())
+      .post('/tasks')
+      .set('Authorization', `Bearer ${token}`)
+      .set('Idempotency-Key', 'create-once')
+      .send({ title: 'Something else' })
+      .expect(422);
+  });
+
+  it('DELETE /tasks/:id should accept the current ETag', async () => {
+    const current = await request(server())
+      .get(`/tasks/${taskId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    await request(server())
+      .delete(`/tasks/${taskId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .set('If-Match', current.headers.etag)
+      .expect(204);
+  });
+});
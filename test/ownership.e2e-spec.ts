@@ -0,0 +1,998 @@
+import { ResponseTransformInterceptor } from '@common/interceptors/response.interceptor';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import * as request from 'supertest';
+import { AppModule } from '../src/app.module';
+
+interface Account {
+  userId: string;
+  token: string;
+}
+
+describe('Ownership policies (e2e)', () => {
+  let app: INestApplication;
+  let owner: Account;
+  let member: Account;
+  let ownerTaskId: string;
+  let memberTaskId: string;
+
+  const server = () => app.getHttpServer();
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalInterceptors(new ResponseTransformInterceptor());
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        transform: true,
+        forbidNonWhitelisted: true,
+        transformOptions: { enableImplicitConversion: true },
+      }),
+    );
+    await app.init();
+
+    const ownerRes = await request(server())
+      .post('/auth/register')
+      .send({ email: 'policy-owner@example.com', name: 'Owner', password: 'password' })
+      .expect(201);
+    owner = { userId: ownerRes.body.data.user.id, token: ownerRes.body.data.access_token };
+
+    const invitation = await request(server())
+      .post('/invitations')
+      .set('Authorization', `Bearer ${owner.token}`)
+      .send({ email: 'policy-member@example.com' })
+      .expect(201);
+
+    const memberRes = await request(server())
+      .post('/auth/register')
+      .send({
+        email: 'policy-member@example.com',
+        name: 'Member',
+        password: 'password',
+        invitationToken: invitation.body.data.token,
+      })
+      .expect(201);
+    member = { userId: memberRes.body.data.user.id, token: memberRes.body.data.access_token };
+
+    ownerTaskId = (
+      await request(server())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${owner.token}`)
+        .send({ title: 'Owner task' })
+        .expect(201)
+    ).body.data.id;
+
+    memberTaskId = (
+      await request(server())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ title: 'Member task' })
+        .expect(201)
+    ).body.data.id;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe('comments and dependencies', () => {
+    it('should hide the comments and links of tasks the user may not read', async () => {
+      await request(server())
+        .get(`/tasks/${ownerTaskId}/comments`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(404);
+      await request(server())
+        .post(`/tasks/${ownerTaskId}/comments`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ content: 'Not my task' })
+        .expect(404);
+      await request(server())
+        .get(`/tasks/${ownerTaskId}/dependencies`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(404);
+      await request(server())
+        .post(`/tasks/${memberTaskId}/dependencies`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ blockerId: ownerTaskId })
+        .expect(404);
+
+      await request(server())
+        .post(`/tasks/${ownerTaskId}/dependencies`)
+        .set('Authorization', `Bearer ${owner.token}`)
+        .send({ blockerId: memberTaskId })
+        .expect(201);
+
+      const links = await request(server())
+        .get(`/tasks/${memberTaskId}/dependencies`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      expect(links.body.data.dependents).toEqual([]);
+
+      await request(server())
+        .delete(`/tasks/${ownerTaskId}/dependencies/${memberTaskId}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(404);
+      await request(server())
+        .delete(`/tasks/${ownerTaskId}/dependencies/${memberTaskId}`)
+        .set('Authorization', `Bearer ${owner.token}`)
+        .expect(204);
+    });
+  });
+
+  describe('tasks', () => {
+    it('POST /tasks should make the caller creator and assignee and refuse other assignees', async () => {
+      const own = await request(server())
+        .get(`/tasks/${memberTaskId}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      expect(own.body.data.createdById).toEqual(member.userId);
+      expect(own.body.data.assigneeIds).toEqual([member.userId]);
+
+      await request(server())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ title: 'For the owner', assigneeIds: [owner.userId] })
+        .expect(403);
+    });
+
+    it('POST /tasks should let the organization owner assign members', async () => {
+      const res = await request(server())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${owner.token}`)
+        .send({ title: 'Delegated', assigneeIds: [member.userId] })
+        .expect(201);
+      expect(res.body.data.createdById).toEqual(owner.userId);
+      expect(res.body.data.assigneeIds).toEqual([member.userId]);
+    });
+
+    it('GET /tasks and GET /tasks/stats should only cover own tasks for members', async () => {
+      const list = await request(server())
+        .get('/tasks')
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      const ids = list.body.data.data.map((task: { id: string }) => task.id);
+      expect(ids).toContain(memberTaskId);
+      expect(ids).not.toContain(ownerTaskId);
+
+      const stats = await request(server())
+        .get('/tasks/stats')
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      expect(stats.body.data.total).toBe(ids.length);
+    });
+
+    it('GET /tasks should page through tasks with cursors in the requested order', async () => {
+      const first = await request(server())
+        .get('/tasks?sort=title:asc&limit=1&includeTotal=true')
+        .set('Authorization', `Bearer ${owner.token}`)
+        .expect(200);
+      expect(first.body.data.data).toHaveLength(1);
+      expect(first.body.data.meta.total).toBeGreaterThan(1);
+      expect(first.body.data.meta.prev).toBeNull();
+
+      const second = await request(server())
+        .get(`/tasks?sort=title:asc&limit=1&cursor=${first.body.data.meta.next}`)
+        .set('Authorization', `Bearer ${owner.token}`)
+        .expect(200);
+      expect(second.body.data.data[0].title >= first.body.data.data[0].title).toBe(true);
+      expect(second.body.data.meta.total).toBeUndefined();
+
+      const back = await request(server())
+        .get(`/tasks?sort=title:asc&limit=1&cursor=${second.body.data.meta.prev}`)
+        .set('Authorization', `Bearer ${owner.token}`)
+        .expect(200);
+      expect(back.body.data.data[0].id).toEqual(first.body.data.data[0].id);
+
+      await request(server())
+        .get('/tasks?sort=password:asc')
+        .set('Authorization', `Bearer ${owner.token}`)
+        .expect(400);
+    });
+
+    it('GET /tasks should filter by a q query and point at invalid tokens', async () => {
+      const list = await request(server())
+        .get(`/tasks?q=${encodeURIComponent('status:pending creator:me "member task"')}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      expect(list.body.data.data.map((task: { id: string }) => task.id)).toEqual([memberTaskId]);
+
+      const res = await request(server())
+        .get(`/tasks?q=${encodeURIComponent('status:pending prio:high')}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(400);
+      expect(res.body.message).toContain('position 16 ("prio:high")');
+    });
+
+    it('GET /tasks/search should rank and highlight the tasks the caller may read', async () => {
+      const res = await request(server())
+        .get('/tasks/search?q=tas*')
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      const ids = res.body.data.map((result: { task: { id: string } }) => result.task.id);
+      expect(ids).toContain(memberTaskId);
+      expect(ids).not.toContain(ownerTaskId);
+      expect(res.body.data[0].highlights.title).toContain('<mark>task</mark>');
+
+      const phrase = await request(server())
+        .get(`/tasks/search?q=${encodeURIComponent('"owner task"')}`)
+        .set('Authorization', `Bearer ${owner.token}`)
+        .expect(200);
+      expect(phrase.body.data.map((result: { task: { id: string } }) => result.task.id)).toEqual([
+        ownerTaskId,
+      ]);
+    });
+
+    it('GET /tasks/search should escape markup around the highlights', async () => {
+      await request(server())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${owner.token}`)
+        .send({ title: '<img src=x onerror="alert(1)"> Xylophone' })
+        .expect(201);
+
+      const res = await request(server())
+        .get('/tasks/search?q=xylophone')
+        .set('Authorization', `Bearer ${owner.token}`)
+        .expect(200);
+      expect(res.body.data[0].highlights.title).toBe(
+        '&lt;img src=x onerror=&quot;alert(1)&quot;&gt; <mark>Xylophone</mark>',
+      );
+    });
+
+    it('GET /tasks/:id, children and subtree should hide tasks of others', async () => {
+      for (const path of ['', '/children', '/subtree']) {
+        await request(server())
+          .get(`/tasks/${ownerTaskId}${path}`)
+          .set('Authorization', `Bearer ${member.token}`)
+          .expect(404);
+      }
+    });
+
+    it('PATCH and DELETE /tasks/:id should not touch tasks of others', async () => {
+      await request(server())
+        .patch(`/tasks/${ownerTaskId}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ title: 'Hijacked' })
+        .expect(404);
+
+      await request(server())
+        .delete(`/tasks/${ownerTaskId}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(404);
+    });
+
+    it('PATCH /tasks/:id should let creators edit but not assign others', async () => {
+      await request(server())
+        .patch(`/tasks/${memberTaskId}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ title: 'Renamed' })
+        .expect(200);
+
+      await request(server())
+        .patch(`/tasks/${memberTaskId}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ assigneeIds: [member.userId, owner.userId] })
+        .expect(403);
+    });
+
+    it('PATCH /tasks/:id should let organization admins edit every task', async () => {
+      await request(server())
+        .patch(`/tasks/${memberTaskId}`)
+        .set('Authorization', `Bearer ${owner.token}`)
+        .send({ title: 'Reviewed' })
+        .expect(200);
+    });
+
+    it('POST /tasks/batch should skip tasks of others', async () => {
+      const res = await request(server())
+        .post('/tasks/batch')
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ tasks: [ownerTaskId], action: 'delete' })
+        .expect(201);
+      expect(res.body.data[0]).toMatchObject({ taskId: ownerTaskId, success: false });
+    });
+
+    it('DELETE /tasks/:id should let creators delete their tasks', async () => {
+      await request(server())
+        .delete(`/tasks/${memberTaskId}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(204);
+    });
+  });
+
+  describe('trash', () => {
+    it('GET /tasks/trash should list deleted tasks and hide them everywhere else', async () => {
+      const trash = await request(server())
+        .get('/tasks/trash')
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      expect(trash.body.data.items.map((task: { id: string }) => task.id)).toEqual([memberTaskId]);
+      expect(trash.body.data.items[0].deletedAt).not.toBeNull();
+
+      await request(server())
+        .get(`/tasks/${memberTaskId}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(404);
+
+      const list = await request(server())
+        .get('/tasks')
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      expect(list.body.data.data.map((task: { id: string }) => task.id)).not.toContain(
+        memberTaskId,
+      );
+    });
+
+    it('POST /tasks/:id/restore should bring a trashed task back', async () => {
+      await request(server())
+        .post(`/tasks/${ownerTaskId}/restore`)
+        .set('Authorization', `Bearer ${owner.token}`)
+        .expect(404);
+
+      const res = await request(server())
+        .post(`/tasks/${memberTaskId}/restore`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(201);
+      expect(res.body.data.deletedAt).toBeNull();
+
+      await request(server())
+        .get(`/tasks/${memberTaskId}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+    });
+
+    it('DELETE /tasks/trash/:id should only purge trashed tasks', async () => {
+      await request(server())
+        .delete(`/tasks/trash/${memberTaskId}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(404);
+
+      await request(server())
+        .delete(`/tasks/${memberTaskId}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(204);
+
+      await request(server())
+        .delete(`/tasks/trash/${memberTaskId}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(204);
+
+      await request(server())
+        .post(`/tasks/${memberTaskId}/restore`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(404);
+    });
+  });
+
+  describe('assignees and watchers', () => {
+    it('POST /tasks/:id/watchers should not reveal tasks the member cannot read', async () => {
+      await request(server())
+        .post(`/tasks/${ownerTaskId}/watchers`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(404);
+    });
+
+    it('POST /tasks/:id/assignees should give the assignee access to the task', async () => {
+      const res = await request(server())
+        .post(`/tasks/${ownerTaskId}/assignees`)
+        .set('Authorization', `Bearer ${owner.token}`)
+        .send({ userId: member.userId })
+        .expect(201);
+      expect(res.body.data.assigneeIds).toContain(member.userId);
+
+      const list = await request(server())
+        .get('/tasks?assignee=me')
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      expect(list.body.data.data.map((task: { id: string }) => task.id)).toContain(ownerTaskId);
+    });
+
+    it('POST /tasks/:id/watchers should add the caller to the watchers', async () => {
+      await request(server())
+        .post(`/tasks/${ownerTaskId}/watchers`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(201);
+
+      const list = await request(server())
+        .get('/tasks?watching=me')
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      expect(list.body.data.data.map((task: { id: string }) => task.id)).toEqual([ownerTaskId]);
+    });
+
+    it('DELETE /tasks/:id should stay reserved to the creator', async () => {
+      await request(server())
+        .delete(`/tasks/${ownerTaskId}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(403);
+    });
+
+    it('DELETE assignees and watchers should let members step back from a task', async () => {
+      await request(server())
+        .delete(`/tasks/${ownerTaskId}/assignees/${member.userId}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(204);
+
+      await request(server())
+        .delete(`/tasks/${ownerTaskId}/watchers`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(204);
+
+      await request(server())
+        .get(`/tasks/${ownerTaskId}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(404);
+    });
+  });
+
+  describe('saved views', () => {
+    it('GET /tasks?view= should apply a view, keep overrides and skip deleted labels', async () => {
+      const view = await request(server())
+        .post('/views')
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({
+          name: 'My tasks',
+          filters: { createdBy: 'me', labels: ['no-such-label'] },
+          sort: 'title:asc',
+          columns: ['title', 'status'],
+        })
+        .expect(201);
+
+      const list = await request(server())
+        .get(`/tasks?view=${view.body.data.id}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      expect(list.body.data.data.map((task: { id: string }) => task.id)).toContain(memberTaskId);
+      expect(list.body.data.meta.view).toEqual({
+        id: view.body.data.id,
+        name: 'My tasks',
+        columns: ['title', 'status'],
+        ignored: ['label:no-such-label'],
+      });
+
+      const overridden = await request(server())
+        .get(`/tasks?view=${view.body.data.id}&status=COMPLETED`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      expect(overridden.body.data.data).toEqual([]);
+    });
+
+    it('GET /views/:id should keep private views to their owner', async () => {
+      const privateView = await request(server())
+        .post('/views')
+        .set('Authorization', `Bearer ${owner.token}`)
+        .send({ name: 'Private' })
+        .expect(201);
+      const teamView = await request(server())
+        .post('/views')
+        .set('Authorization', `Bearer ${owner.token}`)
+        .send({ name: 'Team', visibility: 'team' })
+        .expect(201);
+
+      await request(server())
+        .get(`/views/${privateView.body.data.id}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(404);
+      await request(server())
+        .get(`/views/${teamView.body.data.id}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      await request(server())
+        .patch(`/views/${teamView.body.data.id}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ name: 'Hijacked' })
+        .expect(403);
+
+      const views = await request(server())
+        .get('/views')
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      const names = views.body.data.map((view: { name: string }) => view.name);
+      expect(names).toContain('Team');
+      expect(names).not.toContain('Private');
+    });
+  });
+
+  describe('recurring tasks', () => {
+    it('PATCH /tasks/:id should create the next occurrence once an occurrence is completed', async () => {
+      const first = await request(server())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({
+          title: 'Water the plants',
+          dueDate: '2030-01-07T09:00:00Z',
+          recurrence: 'FREQ=WEEKLY',
+        })
+        .expect(201);
+      const recurrenceId = first.body.data.recurrenceId;
+      expect(recurrenceId).toBeTruthy();
+
+      await request(server())
+        .patch(`/tasks/${first.body.data.id}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ status: 'COMPLETED' })
+        .expect(200);
+
+      const list = await request(server())
+        .get('/tasks?status=PENDING&limit=100')
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      const next = list.body.data.data.find(
+        (task: { recurrenceId: string }) => task.recurrenceId === recurrenceId,
+      );
+      expect(next).toMatchObject({
+        title: 'Water the plants',
+        dueDate: '2030-01-14T09:00:00.000Z',
+        assigneeIds: [member.userId],
+      });
+
+      const series = await request(server())
+        .patch(`/tasks/${next.id}/recurrence`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ title: 'Water the garden' })
+        .expect(200);
+      expect(series.body.data.template.title).toEqual('Water the garden');
+      expect(series.body.data.nextOccurrenceAt).toEqual('2030-01-21T09:00:00.000Z');
+
+      const renamed = await request(server())
+        .get(`/tasks/${next.id}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      expect(renamed.body.data.title).toEqual('Water the garden');
+
+      await request(server())
+        .delete(`/tasks/${next.id}/recurrence`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(204);
+      const stopped = await request(server())
+        .get(`/tasks/${next.id}/recurrence`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      expect(stopped.body.data.endedAt).toBeTruthy();
+      expect(stopped.body.data.nextOccurrenceAt).toBeNull();
+    });
+
+    it('POST /tasks should refuse recurring tasks without a due date or with invalid rules', async () => {
+      await request(server())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ title: 'Sometimes', recurrence: 'FREQ=WEEKLY' })
+        .expect(400);
+      await request(server())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ title: 'Sometimes', dueDate: '2030-01-07T09:00:00Z', recurrence: 'FREQ=HOURLY' })
+        .expect(400);
+      await request(server())
+        .get(`/tasks/${memberTaskId}/recurrence`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(404);
+    });
+  });
+
+  describe('templates', () => {
+    it('POST /templates/:id/instantiate should create the task tree with placeholders filled in', async () => {
+      const template = await request(server())
+        .post('/templates')
+        .set('Authorization', `Bearer ${owner.token}`)
+        .send({
+          name: 'Onboarding',
+          title: 'Onboard {{name}}',
+          dueInDays: 14,
+          subtasks: [
+            { title: 'Laptop for {{name}}', dueInDays: 0 },
+            { title: 'Intro meeting on {{date}}', subtasks: [{ title: 'Book a room' }] },
+          ],
+        })
+        .expect(201);
+
+      await request(server())
+        .patch(`/templates/${template.body.data.id}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ name: 'Mine now' })
+        .expect(403);
+      await request(server())
+        .post(`/templates/${template.body.data.id}/instantiate`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({})
+        .expect(400);
+
+      const res = await request(server())
+        .post(`/templates/${template.body.data.id}/instantiate`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ variables: { name: 'Ada' }, startDate: '2030-03-04' })
+        .expect(201);
+      expect(res.body.data).toMatchObject({
+        title: 'Onboard Ada',
+        dueDate: '2030-03-18T00:00:00.000Z',
+        createdById: member.userId,
+        assigneeIds: [member.userId],
+      });
+
+      const tree = await request(server())
+        .get(`/tasks/${res.body.data.id}/subtree`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      expect(tree.body.data.children.map((child: { title: string }) => child.title).sort()).toEqual(
+        ['Intro meeting on 2030-03-04', 'Laptop for Ada'],
+      );
+    });
+  });
+
+  describe('checklists', () => {
+    it('should keep checklist items in order and report the progress on the task', async () => {
+      const add = (text: string, position?: number) =>
+        request(server())
+          .post(`/tasks/${memberTaskId}/checklist`)
+          .set('Authorization', `Bearer ${member.token}`)
+          .send({ text, position })
+          .expect(201);
+
+      const first = (await add('Draft')).body.data;
+      const last = (await add('Publish')).body.data;
+      const middle = (await add('Review', 1)).body.data;
+
+      await request(server())
+        .post(`/tasks/${memberTaskId}/checklist`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ text: 'For the owner', assigneeId: owner.userId })
+        .expect(403);
+      await request(server())
+        .post(`/tasks/${ownerTaskId}/checklist`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ text: 'Not my task' })
+        .expect(404);
+
+      await request(server())
+        .post(`/tasks/${memberTaskId}/checklist/${first.id}/toggle`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      await request(server())
+        .put(`/tasks/${memberTaskId}/checklist/order`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ itemIds: [last.id, first.id, middle.id] })
+        .expect(200);
+
+      const list = await request(server())
+        .get(`/tasks/${memberTaskId}/checklist`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      expect(list.body.data.map((item: { text: string }) => item.text)).toEqual([
+        'Publish',
+        'Draft',
+        'Review',
+      ]);
+
+      const task = await request(server())
+        .get(`/tasks/${memberTaskId}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      expect(task.body.data.checklist).toEqual({ total: 3, done: 1 });
+
+      const open = await request(server())
+        .get('/tasks?hasOpenChecklistItems=true')
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      expect(open.body.data.data.map((t: { id: string }) => t.id)).toContain(memberTaskId);
+
+      await request(server())
+        .delete(`/tasks/${memberTaskId}/checklist/${middle.id}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(204);
+    });
+  });
+
+  describe('attachments', () => {
+    it('should store uploads once and serve byte ranges of them', async () => {
+      const upload = (taskId: string, token: string) =>
+        request(server())
+          .post(`/tasks/${taskId}/attachments`)
+          .set('Authorization', `Bearer ${token}`)
+          .attach('file', Buffer.from('hello attachments'), {
+            filename: 'notes.txt',
+            contentType: 'text/plain',
+          });
+
+      const attachment = (await upload(memberTaskId, member.token).expect(201)).body.data;
+      expect(attachment).toMatchObject({ fileName: 'notes.txt', mimeType: 'text/plain', size: 17 });
+
+      await upload(memberTaskId, member.token).expect(409);
+      const copy = (await upload(ownerTaskId, owner.token).expect(201)).body.data;
+      expect(copy.checksum).toBe(attachment.checksum);
+
+      await request(server())
+        .post(`/tasks/${memberTaskId}/attachments`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .attach('file', Buffer.from('MZ'), {
+          filename: 'tool.exe',
+          contentType: 'application/x-msdownload',
+        })
+        .expect(415);
+      await request(server())
+        .post(`/tasks/${memberTaskId}/attachments`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .attach('file', Buffer.from('<svg onload="alert(1)"/>'), {
+          filename: 'image.png',
+          contentType: 'image/png',
+        })
+        .expect(415);
+      await request(server())
+        .get(`/tasks/${ownerTaskId}/attachments/${copy.id}/content`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(404);
+
+      const full = await request(server())
+        .get(`/tasks/${memberTaskId}/attachments/${attachment.id}/content`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      expect(full.text).toBe('hello attachments');
+      expect(full.headers['content-disposition']).toContain('notes.txt');
+
+      const part = await request(server())
+        .get(`/tasks/${memberTaskId}/attachments/${attachment.id}/content`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .set('Range', 'bytes=6-16')
+        .expect(206);
+      expect(part.text).toBe('attachments');
+      expect(part.headers['content-range']).toBe('bytes 6-16/17');
+
+      await request(server())
+        .get(`/tasks/${memberTaskId}/attachments/${attachment.id}/content`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .set('Range', 'bytes=100-200')
+        .expect(416);
+
+      await request(server())
+        .delete(`/tasks/${memberTaskId}/attachments/${attachment.id}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(204);
+      await request(server())
+        .get(`/tasks/${ownerTaskId}/attachments/${copy.id}/content`)
+        .set('Authorization', `Bearer ${owner.token}`)
+        .expect(200);
+    });
+  });
+
+  describe('time tracking', () => {
+    it('should run one timer per user and report logged against estimated time', async () => {
+      await request(server())
+        .patch(`/tasks/${memberTaskId}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ estimateMinutes: 120 })
+        .expect(200);
+
+      await request(server())
+        .post(`/tasks/${memberTaskId}/time-entries`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ startedAt: '2025-01-06T09:00:00.000Z', minutes: 45, note: 'Spike' })
+        .expect(201);
+      await request(server())
+        .post(`/tasks/${memberTaskId}/time-entries`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ startedAt: new Date().toISOString(), minutes: 30 })
+        .expect(400);
+
+      await request(server())
+        .post(`/tasks/${memberTaskId}/time-entries/timer`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({})
+        .expect(201);
+      await request(server())
+        .post(`/tasks/${memberTaskId}/time-entries/timer`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({})
+        .expect(409);
+      await request(server())
+        .post(`/tasks/${ownerTaskId}/time-entries/timer`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({})
+        .expect(404);
+
+      const running = await request(server())
+        .get('/timer')
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      expect(running.body.data.taskId).toBe(memberTaskId);
+
+      await request(server())
+        .post('/timer/stop')
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      await request(server())
+        .post('/timer/stop')
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(404);
+
+      const report = await request(server())
+        .get('/tasks/stats/time')
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      const row = report.body.data.byTask.find(
+        (entry: { taskId: string }) => entry.taskId === memberTaskId,
+      );
+      expect(row).toMatchObject({ estimateMinutes: 120, loggedMinutes: 45 });
+      expect(report.body.data.byUser).toEqual([
+        expect.objectContaining({ userId: member.userId, loggedMinutes: 45 }),
+      ]);
+    });
+  });
+
+  describe('board', () => {
+    it('should keep tasks in the order they were moved to', async () => {
+      const create = async (title: string) =>
+        (
+          await request(server())
+            .post('/tasks')
+            .set('Authorization', `Bearer ${member.token}`)
+            .send({ title })
+            .expect(201)
+        ).body.data.id as string;
+      const move = (id: string, body: object, status = 200) =>
+        request(server())
+          .post(`/tasks/${id}/move`)
+          .set('Authorization', `Bearer ${member.token}`)
+          .send(body)
+          .expect(status);
+
+      const first = await create('Board first');
+      const second = await create('Board second');
+      const third = await create('Board third');
+
+      await move(first, {});
+      await move(third, { beforeId: first });
+      await move(second, { afterId: third, beforeId: first });
+      await move(second, { afterId: second }, 400);
+      await move(ownerTaskId, {}, 404);
+
+      const board = await request(server())
+        .get('/board')
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      const pending = board.body.data.find(
+        (column: { status: string }) => column.status === 'PENDING',
+      );
+      const order = pending.tasks
+        .map((task: { id: string }) => task.id)
+        .filter((id: string) => [first, second, third].includes(id));
+      expect(order).toEqual([third, second, first]);
+      expect(pending.tasks.some((task: { id: string }) => task.id === ownerTaskId)).toBe(false);
+
+      await move(second, { status: 'IN_PROGRESS' });
+      const task = await request(server())
+        .get(`/tasks/${second}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+      expect(task.body.data.status).toBe('IN_PROGRESS');
+    });
+  });
+
+  describe('WIP limits', () => {
+    it('should refuse work beyond the limit unless an admin overrides it', async () => {
+      const taskId = (
+        await request(server())
+          .post('/tasks')
+          .set('Authorization', `Bearer ${member.token}`)
+          .send({ title: 'One too many' })
+          .expect(201)
+      ).body.data.id;
+
+      await request(server())
+        .put('/wip-limits')
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ status: 'IN_PROGRESS', userId: member.userId, maxTasks: 0 })
+        .expect(403);
+      const limit = await request(server())
+        .put('/wip-limits')
+        .set('Authorization', `Bearer ${owner.token}`)
+        .send({ status: 'IN_PROGRESS', userId: member.userId, maxTasks: 0 })
+        .expect(200);
+
+      const refused = await request(server())
+        .patch(`/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ status: 'IN_PROGRESS' })
+        .expect(409);
+      expect(refused.body.message).toContain('for Member at most 0 task(s) may be IN_PROGRESS');
+      await request(server())
+        .post(`/tasks/${taskId}/move`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ status: 'IN_PROGRESS', overrideWipLimit: true })
+        .expect(403);
+
+      await request(server())
+        .patch(`/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${owner.token}`)
+        .send({ status: 'IN_PROGRESS', overrideWipLimit: true })
+        .expect(200);
+      const activity = await request(server())
+        .get(`/tasks/${taskId}/activity`)
+        .set('Authorization', `Bearer ${owner.token}`)
+        .expect(200);
+      expect(activity.body.data.items[0].changes.wipLimitOverride).toBeDefined();
+
+      await request(server())
+        .delete(`/wip-limits/${limit.body.data.id}`)
+        .set('Authorization', `Bearer ${owner.token}`)
+        .expect(204);
+    });
+  });
+
+  describe('activity', () => {
+    it('GET /tasks/:id/activity should list the changes of a task, newest first', async () => {
+      const res = await request(server())
+        .get(`/tasks/${ownerTaskId}/activity`)
+        .set('Authorization', `Bearer ${owner.token}`)
+        .expect(200);
+
+      const actions = res.body.data.items.map((entry: { action: string }) => entry.action);
+      expect(actions[actions.length - 1]).toEqual('create');
+      expect(actions).toContain('update');
+    });
+
+    it('GET /audit should be reserved to organization admins', async () => {
+      await request(server())
+        .get('/audit')
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(403);
+
+      const res = await request(server())
+        .get(`/audit?actorId=${member.userId}&entityType=task`)
+        .set('Authorization', `Bearer ${owner.token}`)
+        .expect(200);
+      expect(res.body.data.items.length).toBeGreaterThan(0);
+      for (const entry of res.body.data.items) {
+        expect(entry.actorId).toEqual(member.userId);
+      }
+    });
+  });
+
+  describe('users', () => {
+    it('GET /users and GET /users/:id should list organization members', async () => {
+      await request(server())
+        .get('/users')
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+
+      await request(server())
+        .get(`/users/${owner.userId}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(200);
+    });
+
+    it('PATCH /users/:id should only allow updating the own profile', async () => {
+      await request(server())
+        .patch(`/users/${member.userId}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ name: 'Member Renamed' })
+        .expect(200);
+
+      await request(server())
+        .patch(`/users/${owner.userId}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ name: 'Hijacked' })
+        .expect(403);
+    });
+
+    it('POST /users, PATCH /users/:id/role and DELETE /users/:id should need user:manage', async () => {
+      await request(server())
+        .post('/users')
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ email: 'policy-extra@example.com', name: 'Extra', password: 'password' })
+        .expect(403);
+
+      await request(server())
+        .patch(`/users/${member.userId}/role`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .send({ role: 'admin' })
+        .expect(403);
+
+      await request(server())
+        .delete(`/users/${owner.userId}`)
+        .set('Authorization', `Bearer ${member.token}`)
+        .expect(403);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { ResponseTransformInterceptor } from '@common/interceptors/response.interceptor';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import * as request from 'supertest';
+import { AppModule } from '../src/app.module';
+
+interface Tenant {
+  userId: string;
+  organizationId: string;
+  token: string;
+}
+
+describe('Tenant isolation (e2e)', () => {
+  let app: INestApplication;
+  let alice: Tenant;
+  let bob: Tenant;
+  let aliceTaskId: string;
+
+  const register = async (email: string, name: string): Promise<Tenant> => {
+    const res = await request(app.getHttpServer())
+      .post('/auth/register')
+      .send({ email, name, password: 'password' })
+      .expect(201);
+
+    return {
+      userId: res.body.data.user.id,
+      organizationId: res.body.data.user.organizationId,
+      token: res.body.data.access_token,
+    };
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalInterceptors(new ResponseTransformInterceptor());
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        transform: true,
+        forbidNonWhitelisted: true,
+        transformOptions: { enableImplicitConversion: true },
+      }),
+    );
+    await app.init();
+
+    alice = await register('tenant-a@example.com', 'Alice');
+    bob = await register('tenant-b@example.com', 'Bob');
+
+    const res = await request(app.getHttpServer())
+      .post('/tasks')
+      .set('Authorization', `Bearer ${alice.token}`)
+      .send({ title: 'Alice only' })
+      .expect(201);
+    aliceTaskId = res.body.data.id;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should give every registered user their own organization', () => {
+    expect(alice.organizationId).toBeDefined();
+    expect(bob.organizationId).toBeDefined();
+    expect(alice.organizationId).not.toEqual(bob.organizationId);
+  });
+
+  it('should let the owner read their task', async () => {
+    const res = await request(app.getHttpServer())
+      .get(`/tasks/${aliceTaskId}`)
+      .set('Authorization', `Bearer ${alice.token}`)
+      .expect(200);
+
+    expect(res.body.data.organizationId).toEqual(alice.organizationId);
+  });
+
+  it('should return 404 when reading a task of another organization', async () => {
+    await request(app.getHttpServer())
+      .get(`/tasks/${aliceTaskId}`)
+      .set('Authorization', `Bearer ${bob.token}`)
+      .expect(404);
+  });
+
+  it('should return 404 when updating or deleting a task of another organization', async () => {
+    await request(app.getHttpServer())
+      .patch(`/tasks/${aliceTaskId}`)
+      .set('Authorization', `Bearer ${bob.token}`)
+      .send({ title: 'Hijacked' })
+      .expect(404);
+
+    await request(app.getHttpServer())
+      .delete(`/tasks/${aliceTaskId}`)
+      .set('Authorization', `Bearer ${bob.token}`)
+      .expect(404);
+  });
+
+  it('should return 404 for comments and subtasks of another organization', async () => {
+    await request(app.getHttpServer())
+      .get(`/tasks/${aliceTaskId}/comments`)
+      .set('Authorization', `Bearer ${bob.token}`)
+      .expect(404);
+
+    await request(app.getHttpServer())
+      .get(`/tasks/${aliceTaskId}/children`)
+      .set('Authorization', `Bearer ${bob.token}`)
+      .expect(404);
+  });
+
+  it('should leave tasks of other organizations out of listings and stats', async () => {
+    const list = await request(app.getHttpServer())
+      .get('/tasks')
+      .set('Authorization', `Bearer ${bob.token}`)
+      .expect(200);
+    expect(list.body.data.data).toEqual([]);
+
+    const stats = await request(app.getHttpServer())
+      .get('/tasks/stats')
+      .set('Authorization', `Bearer ${bob.token}`)
+      .expect(200);
+    expect(stats.body.data.total).toBe(0);
+  });
+
+  it('should not complete or delete tasks of another organization in a batch', async () => {
+    const res = await request(app.getHttpServer())
+      .post('/tasks/batch')
+      .set('Authorization', `Bearer ${bob.token}`)
+      .send({ tasks: [aliceTaskId], action: 'delete' })
+      .expect(201);
+    expect(res.body.data[0]).toMatchObject({ taskId: aliceTaskId, success: false });
+
+    await request(app.getHttpServer())
+      .get(`/tasks/${aliceTaskId}`)
+      .set('Authorization', `Bearer ${alice.token}`)
+      .expect(200);
+  });
+
+  it('should not assign tasks to users of another organization', async () => {
+    await request(app.getHttpServer())
+      .post('/tasks')
+      .set('Authorization', `Bearer ${bob.token}`)
+      .send({ title: 'Sneaky', assigneeIds: [alice.userId] })
+      .expect(404);
+  });
+
+  it('should return 404 for users of another organization', async () => {
+    await request(app.getHttpServer())
+      .get(`/users/${alice.userId}`)
+      .set('Authorization', `Bearer ${bob.token}`)
+      .expect(404);
+
+    const res = await request(app.getHttpServer())
+      .get('/users')
+      .set('Authorization', `Bearer ${bob.token}`)
+      .expect(200);
+    expect(res.body.data.map((user: { id: string }) => user.id)).toEqual([bob.userId]);
+  });
+
+  it('should refuse to sign in to an organization the user does not belong to', async () => {
+    await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({
+        email: 'tenant-b@example.com',
+        password: 'password',
+        organizationId: alice.organizationId,
+      })
+      .expect(401);
+  });
+});